@@ -10,7 +10,7 @@ module.exports = {
   ],
   parser: "@typescript-eslint/parser",
   parserOptions: {
-    project: ["tsconfig.json"],
+    project: ["tsconfig.json", "tsconfig.dev.json"],
     sourceType: "module",
     tsconfigRootDir: __dirname,
   },
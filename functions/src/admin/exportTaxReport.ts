@@ -0,0 +1,197 @@
+/**
+ * Tax Report Export - READ-ONLY Admin Function
+ *
+ * Aggregates the tax lines carried on payouts (see finance/taxEngine.ts)
+ * for finance to file IVA and settle commission withholding.
+ * This function NEVER mutates data.
+ *
+ * Returns:
+ * - Totals per currency (service and commission IVA, withholding)
+ * - One row per supplier and currency
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {createLogger} from "../common/logger";
+import {addTaxTotals, TAX_LINE_TYPES, TaxLine} from "../finance/taxEngine";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+const FUNCTION_NAME = "exportTaxReport";
+
+/**
+ * Payouts read by one export
+ */
+const MAX_PAYOUTS = 5000;
+
+// ==================== TYPES ====================
+
+interface TaxReportRequest {
+  startDate: string; // ISO date
+  endDate: string; // ISO date
+  supplierId?: string;
+}
+
+interface TaxReportRow {
+  supplierId: string;
+  currency: string;
+  payoutCount: number;
+  serviceAmount: number; // Supplier payout + platform commission
+  platformFee: number;
+  supplierPayout: number;
+  taxes: Record<string, number>; // Tax line type → amount
+}
+
+interface TaxReport {
+  generatedAt: string;
+  period: {start: string; end: string};
+  payoutsScanned: number;
+  truncated: boolean;
+  totals: Array<{currency: string; serviceAmount: number; taxes: Record<string, number>}>;
+  rows: TaxReportRow[];
+}
+
+// ==================== ADMIN VERIFICATION ====================
+
+async function verifyAdminAccess(uid: string): Promise<boolean> {
+  try {
+    const userRecord = await admin.auth().getUser(uid);
+    if (userRecord.customClaims?.admin === true) {
+      return true;
+    }
+  } catch {
+    // Continue
+  }
+
+  const adminDoc = await db.collection("admins").doc(uid).get();
+  if (adminDoc.exists) return true;
+
+  const userDoc = await db.collection("users").doc(uid).get();
+  if (userDoc.exists && (userDoc.data()?.isAdmin === true || userDoc.data()?.role === "admin")) {
+    return true;
+  }
+
+  return false;
+}
+
+// ==================== MAIN FUNCTION ====================
+
+export const exportTaxReport = functions
+    .region(REGION)
+    .runWith({
+      timeoutSeconds: 120,
+      memory: "512MB",
+    })
+    .https.onCall(
+        wrapHandler(
+            FUNCTION_NAME,
+            async (
+                data: TaxReportRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ): Promise<TaxReport> => {
+              const logger = createLogger("payment", FUNCTION_NAME);
+              logger.setContext(errorContext);
+
+              // 1. Require authentication
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              // 2. Verify admin privileges
+              const isAdmin = await verifyAdminAccess(context.auth.uid);
+              if (!isAdmin) {
+                logger.warn("admin_access_denied", {
+                  uid: context.auth.uid,
+                  action: "export_tax_report",
+                });
+                throw Errors.permissionDenied(
+                    errorContext,
+                    "Admin access required",
+                    "Acesso restrito a administradores"
+                );
+              }
+
+              // 3. Validate period
+              const start = new Date(data?.startDate);
+              const end = new Date(data?.endDate);
+              if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+                throw Errors.invalidArgument(errorContext, "startDate, endDate", "Período inválido");
+              }
+
+              // 4. Load payouts released in the period
+              let query: FirebaseFirestore.Query = db.collection("payouts");
+              if (data.supplierId) {
+                query = query.where("supplierId", "==", data.supplierId);
+              }
+              const payoutsSnapshot = await query
+                  .where("createdAt", ">=", admin.firestore.Timestamp.fromDate(start))
+                  .where("createdAt", "<=", admin.firestore.Timestamp.fromDate(end))
+                  .orderBy("createdAt", "asc")
+                  .limit(MAX_PAYOUTS)
+                  .get();
+
+              // 5. Aggregate per supplier + currency
+              const rows = new Map<string, TaxReportRow>();
+              for (const doc of payoutsSnapshot.docs) {
+                const payout = doc.data();
+                const currency = payout.currency || "AOA";
+                const key = `${payout.supplierId}|${currency}`;
+                const row = rows.get(key) || {
+                  supplierId: payout.supplierId,
+                  currency,
+                  payoutCount: 0,
+                  serviceAmount: 0,
+                  platformFee: 0,
+                  supplierPayout: 0,
+                  taxes: Object.fromEntries(TAX_LINE_TYPES.map((type) => [type, 0])),
+                };
+
+                row.payoutCount++;
+                row.serviceAmount += (payout.amount || 0) + (payout.platformFee || 0);
+                row.platformFee += payout.platformFee || 0;
+                row.supplierPayout += payout.amount || 0;
+                addTaxTotals(row.taxes, payout.taxLines as TaxLine[] | undefined);
+                rows.set(key, row);
+              }
+
+              const totals = new Map<string, {serviceAmount: number; taxes: Record<string, number>}>();
+              for (const row of rows.values()) {
+                const total = totals.get(row.currency) || {
+                  serviceAmount: 0,
+                  taxes: Object.fromEntries(TAX_LINE_TYPES.map((type) => [type, 0])),
+                };
+                total.serviceAmount += row.serviceAmount;
+                for (const [type, amount] of Object.entries(row.taxes)) {
+                  total.taxes[type] = (total.taxes[type] || 0) + amount;
+                }
+                totals.set(row.currency, total);
+              }
+
+              const report: TaxReport = {
+                generatedAt: new Date().toISOString(),
+                period: {start: start.toISOString(), end: end.toISOString()},
+                payoutsScanned: payoutsSnapshot.size,
+                truncated: payoutsSnapshot.size === MAX_PAYOUTS,
+                totals: Array.from(totals.entries())
+                    .map(([currency, total]) => ({currency, ...total})),
+                rows: Array.from(rows.values())
+                    .sort((a, b) => b.serviceAmount - a.serviceAmount),
+              };
+
+              logger.info("tax_report_exported", {
+                requestId: errorContext.requestId,
+                payoutsScanned: report.payoutsScanned,
+                suppliers: report.rows.length,
+                truncated: report.truncated,
+              });
+
+              return report;
+            }
+        )
+    );
@@ -234,6 +234,7 @@ function buildFailureDetails(
       blocks_globally: boolean;
       blocks_by_date: boolean;
       rate_limit_exceeded: boolean;
+      capacity_remaining: number;
       used_migration: boolean;
     }
 ): {failedChecks: string[]; reasonCodes: string[]} {
@@ -281,6 +282,11 @@ function buildFailureDetails(
     reasonCodes.push("RATE_LIMIT_EXCEEDED");
   }
 
+  if (debugInfo.capacity_remaining <= 0) {
+    failedChecks.push("capacity_available");
+    reasonCodes.push("DATE_FULLY_BOOKED");
+  }
+
   return {
     failedChecks: Array.from(new Set(failedChecks)),
     reasonCodes: Array.from(new Set(reasonCodes)),
@@ -0,0 +1,276 @@
+/**
+ * Availability Calendar
+ *
+ * Callables for suppliers to manage their recurring availability rules
+ * and exceptions (see availabilityRules) and to preview the calendar they
+ * produce, combined with blocked dates and existing bookings.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {SupplierLogger} from "../common/logger";
+import {
+  getCapacitySettings,
+  getUnavailableDates,
+  toDateKey,
+} from "./bookingUtils";
+import {
+  AvailabilityRules,
+  parseAvailabilityRules,
+  readAvailabilityRules,
+} from "./availabilityRules";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_PREVIEW_DAYS = 60;
+const MAX_PREVIEW_DAYS = 366;
+
+// ==================== TYPES ====================
+
+/**
+ * One day of the previewed calendar
+ * - booked: no capacity left
+ * - closed: closed by a rule or an unavailable exception
+ * - blocked: explicitly blocked date
+ */
+interface CalendarDay {
+  date: string;
+  status: "available" | "booked" | "closed" | "blocked";
+  reason: string | null;
+  ruleId: string | null;
+  remainingCapacity: number;
+}
+
+interface PreviewAvailabilityRequest {
+  startDate?: string;
+  endDate?: string;
+  packageId?: string;
+  // Unsaved rule set to preview instead of the stored one
+  availabilityRules?: unknown;
+}
+
+/**
+ * Find the supplier profile of the caller
+ */
+async function getCallerSupplier(
+    callerId: string,
+    errorContext: ErrorContext
+): Promise<FirebaseFirestore.QueryDocumentSnapshot> {
+  const supplierQuery = await db
+      .collection("suppliers")
+      .where("userId", "==", callerId)
+      .limit(1)
+      .get();
+
+  if (supplierQuery.empty) {
+    throw Errors.permissionDenied(
+        errorContext,
+        `No supplier profile for ${callerId}`,
+        "Perfil de fornecedor não encontrado"
+    );
+  }
+
+  return supplierQuery.docs[0];
+}
+
+// ==================== CALLABLES ====================
+
+/**
+ * Replace the caller's availability rules and exceptions
+ * An empty rule set removes every rule.
+ */
+export const setAvailabilityRules = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "setAvailabilityRules",
+            async (
+                data: {rules?: unknown; exceptions?: unknown},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = SupplierLogger("setAvailabilityRules").setContext(errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const callerId = context.auth.uid;
+
+              const parsed = parseAvailabilityRules(data);
+              if (!parsed.valid || !parsed.availabilityRules) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "availabilityRules",
+                    parsed.error || "Regras de disponibilidade inválidas"
+                );
+              }
+
+              const availabilityRules = parsed.availabilityRules;
+              const supplierDoc = await getCallerSupplier(callerId, errorContext);
+              const previousRules = supplierDoc.data().availabilityRules || null;
+              const now = admin.firestore.FieldValue.serverTimestamp();
+
+              await supplierDoc.ref.update({
+                availabilityRules,
+                updatedAt: now,
+              });
+
+              await db.collection("audit_logs").add({
+                category: "supplier",
+                eventType: "availabilityRulesChanged",
+                userId: callerId,
+                resourceId: supplierDoc.id,
+                resourceType: "supplier",
+                previousValue: previousRules,
+                newValue: availabilityRules,
+                description: `Availability set to ${availabilityRules.rules.length} rule(s) ` +
+                  `and ${availabilityRules.exceptions.length} exception(s)`,
+                metadata: {supplierId: supplierDoc.id},
+                timestamp: now,
+              });
+
+              logger.info("availability_rules_updated", {
+                supplierId: supplierDoc.id,
+                ruleCount: availabilityRules.rules.length,
+                exceptionCount: availabilityRules.exceptions.length,
+              });
+
+              return {
+                success: true,
+                availabilityRules,
+              };
+            }
+        )
+    );
+
+/**
+ * Preview the caller's calendar day by day
+ *
+ * Uses the stored rules, or the unsaved rule set sent in
+ * availabilityRules so suppliers can see the effect before saving.
+ * Defaults to the next 60 days.
+ */
+export const previewAvailabilityCalendar = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "previewAvailabilityCalendar",
+            async (
+                data: PreviewAvailabilityRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const today = new Date().toISOString().slice(0, 10);
+              const startDate = data.startDate || today;
+              if (toDateKey(startDate) !== startDate) {
+                throw Errors.invalidArgument(errorContext, "startDate", "Use o formato AAAA-MM-DD");
+              }
+
+              const endDate = data.endDate || new Date(
+                  Date.parse(startDate + "T00:00:00.000Z") + (DEFAULT_PREVIEW_DAYS - 1) * MS_PER_DAY
+              ).toISOString().slice(0, 10);
+              if (toDateKey(endDate) !== endDate || endDate < startDate) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "endDate",
+                    "Use o formato AAAA-MM-DD, a partir de startDate"
+                );
+              }
+
+              const dayCount = Math.round(
+                  (Date.parse(endDate + "T00:00:00.000Z") -
+                    Date.parse(startDate + "T00:00:00.000Z")) / MS_PER_DAY
+              ) + 1;
+              if (dayCount > MAX_PREVIEW_DAYS) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "endDate",
+                    `Máximo de ${MAX_PREVIEW_DAYS} dias`
+                );
+              }
+
+              let draftRules: AvailabilityRules | undefined;
+              if (data.availabilityRules !== undefined) {
+                const parsed = parseAvailabilityRules(data.availabilityRules);
+                if (!parsed.valid || !parsed.availabilityRules) {
+                  throw Errors.invalidArgument(
+                      errorContext,
+                      "availabilityRules",
+                      parsed.error || "Regras de disponibilidade inválidas"
+                  );
+                }
+                draftRules = parsed.availabilityRules;
+              }
+
+              const supplierDoc = await getCallerSupplier(context.auth.uid, errorContext);
+              const availabilityRules = draftRules ||
+                readAvailabilityRules(supplierDoc.data().availabilityRules);
+
+              const [unavailable, settings] = await Promise.all([
+                getUnavailableDates(
+                    supplierDoc.id,
+                    startDate,
+                    endDate,
+                    data.packageId,
+                    availabilityRules
+                ),
+                getCapacitySettings(supplierDoc.id, data.packageId),
+              ]);
+
+              const dailyCapacity = Math.min(
+                  settings.supplierCapacity,
+                  settings.packageCapacity ?? settings.supplierCapacity
+              );
+              const bookedDates = new Set(unavailable.bookedDates);
+              const blockedDates = new Set(unavailable.blockedDates);
+              const days: CalendarDay[] = [];
+
+              for (let i = 0; i < dayCount; i++) {
+                const date = new Date(Date.parse(startDate + "T00:00:00.000Z") + i * MS_PER_DAY)
+                    .toISOString()
+                    .slice(0, 10);
+                const ruleBlock = unavailable.ruleBlockedDates[date];
+                const remainingCapacity = unavailable.remainingCapacity[date] ??
+                  dailyCapacity;
+
+                if (bookedDates.has(date)) {
+                  days.push({date, status: "booked", reason: null, ruleId: null, remainingCapacity: 0});
+                } else if (ruleBlock) {
+                  days.push({
+                    date,
+                    status: "closed",
+                    reason: ruleBlock.reason,
+                    ruleId: ruleBlock.ruleId,
+                    remainingCapacity: 0,
+                  });
+                } else if (blockedDates.has(date)) {
+                  days.push({date, status: "blocked", reason: null, ruleId: null, remainingCapacity: 0});
+                } else {
+                  days.push({date, status: "available", reason: null, ruleId: null, remainingCapacity});
+                }
+              }
+
+              return {
+                supplierId: supplierDoc.id,
+                startDate,
+                endDate,
+                availabilityRules,
+                isDraft: draftRules !== undefined,
+                days,
+                availableCount: days.filter((day) => day.status === "available").length,
+              };
+            }
+        )
+    );
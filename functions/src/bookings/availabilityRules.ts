@@ -0,0 +1,367 @@
+/**
+ * Recurring Availability Rules
+ *
+ * Suppliers describe when they work with a few recurring rules instead of
+ * blocking every date by hand (suppliers.availabilityRules):
+ * - closed_weekdays: never on these weekdays ("never on Mondays"),
+ *   optionally only in some months
+ * - open_weekdays: only on these weekdays ("only weekends in August") -
+ *   every other weekday in the rule's months is closed
+ * - max_events: at most N events per weekend (Saturday and Sunday),
+ *   week (Monday to Sunday) or calendar month
+ *
+ * One-off exceptions override the rules for a single date: an unavailable
+ * exception closes a date the rules leave open, an available exception
+ * opens a date the rules close. Explicitly blocked dates (blockedDates /
+ * blocked_dates) always stay blocked.
+ *
+ * Evaluation is pure; bookingUtils applies it (getRuleBlockedDates) to
+ * isDateBlocked, getUnavailableDates and the supplier view.
+ */
+
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const MAX_AVAILABILITY_RULES = 20;
+export const MAX_AVAILABILITY_EXCEPTIONS = 366;
+const MAX_EVENTS_PER_PERIOD = 50;
+
+const PERIOD_LABELS: Record<AvailabilityPeriod, string> = {
+  weekend: "fim de semana",
+  week: "semana",
+  month: "mês",
+};
+
+// ==================== TYPES ====================
+
+export type AvailabilityRuleType = "closed_weekdays" | "open_weekdays" | "max_events";
+
+export type AvailabilityPeriod = "weekend" | "week" | "month";
+
+/**
+ * Recurring rule as stored on the supplier
+ * weekdays: 0 = Sunday ... 6 = Saturday; months: 1-12, empty = every month
+ */
+export interface AvailabilityRule {
+  id: string;
+  type: AvailabilityRuleType;
+  weekdays: number[]; // closed_weekdays / open_weekdays
+  months: number[];
+  period: AvailabilityPeriod | null; // max_events
+  maxEvents: number | null; // max_events
+  label: string;
+}
+
+/**
+ * One-off override of the rules for a single date
+ */
+export interface AvailabilityException {
+  date: string; // YYYY-MM-DD
+  available: boolean;
+  reason: string;
+}
+
+/**
+ * Rule set as stored on suppliers (suppliers.availabilityRules)
+ */
+export interface AvailabilityRules {
+  rules: AvailabilityRule[];
+  exceptions: AvailabilityException[]; // Sorted by date ASC
+}
+
+/**
+ * Outcome of evaluating the rules for one date
+ */
+export interface RuleEvaluation {
+  blocked: boolean;
+  ruleId: string | null; // null when decided by an exception
+  reason: string;
+}
+
+export const EMPTY_AVAILABILITY_RULES: AvailabilityRules = {rules: [], exceptions: []};
+
+// ==================== DATES ====================
+
+function shiftDate(dateKey: string, days: number): string {
+  return new Date(Date.parse(dateKey + "T00:00:00.000Z") + days * MS_PER_DAY)
+      .toISOString()
+      .slice(0, 10);
+}
+
+function getWeekday(dateKey: string): number {
+  return new Date(dateKey + "T00:00:00.000Z").getUTCDay();
+}
+
+function getMonth(dateKey: string): number {
+  return parseInt(dateKey.slice(5, 7));
+}
+
+function isValidDateKey(value: unknown): value is string {
+  return typeof value === "string" &&
+    DATE_KEY_PATTERN.test(value) &&
+    new Date(value + "T00:00:00.000Z").toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Get the period (first and last date) a date falls in
+ * @returns null for weekday dates with a weekend period
+ */
+export function getPeriodRange(
+    dateKey: string,
+    period: AvailabilityPeriod
+): [string, string] | null {
+  const weekday = getWeekday(dateKey);
+
+  if (period === "weekend") {
+    if (weekday === 6) return [dateKey, shiftDate(dateKey, 1)];
+    if (weekday === 0) return [shiftDate(dateKey, -1), dateKey];
+    return null;
+  }
+
+  if (period === "week") {
+    const monday = shiftDate(dateKey, -((weekday + 6) % 7));
+    return [monday, shiftDate(monday, 6)];
+  }
+
+  const monthStart = `${dateKey.slice(0, 7)}-01`;
+  const nextMonthStart = shiftDate(monthStart, 32).slice(0, 7) + "-01";
+  return [monthStart, shiftDate(nextMonthStart, -1)];
+}
+
+/**
+ * Widen a date range to the full periods of the max_events rules, so
+ * every event counted against a date in the range is fetched
+ */
+export function getRulesEvaluationRange(
+    availabilityRules: AvailabilityRules,
+    startDate: string,
+    endDate: string
+): [string, string] {
+  let rangeStart = startDate;
+  let rangeEnd = endDate;
+
+  for (const rule of availabilityRules.rules) {
+    if (rule.type !== "max_events" || !rule.period) continue;
+
+    const periodRange = rule.period === "weekend" ? "week" : rule.period;
+    rangeStart = [rangeStart, getPeriodRange(startDate, periodRange)?.[0] || startDate].sort()[0];
+    rangeEnd = [rangeEnd, getPeriodRange(endDate, periodRange)?.[1] || endDate].sort()[1];
+  }
+
+  return [rangeStart, rangeEnd];
+}
+
+// ==================== PARSING ====================
+
+function parseNumberList(value: unknown, min: number, max: number): number[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return null;
+
+  const numbers = [...new Set(value)];
+  if (numbers.some((n) => !Number.isInteger(n) || n < min || n > max)) {
+    return null;
+  }
+
+  return (numbers as number[]).sort((a, b) => a - b);
+}
+
+/**
+ * Validate and normalize a rule set sent by a supplier
+ * Rules without an ID get one from their position.
+ * @param input - Rule set as sent by the client
+ * @returns Validation result with the normalized rule set
+ */
+export function parseAvailabilityRules(input: unknown): {
+  valid: boolean;
+  error?: string;
+  availabilityRules?: AvailabilityRules;
+} {
+  const data = (input || {}) as {rules?: unknown; exceptions?: unknown};
+  const rawRules = data.rules ?? [];
+  const rawExceptions = data.exceptions ?? [];
+
+  if (!Array.isArray(rawRules) || !Array.isArray(rawExceptions)) {
+    return {valid: false, error: "Regras de disponibilidade inválidas"};
+  }
+
+  if (rawRules.length > MAX_AVAILABILITY_RULES) {
+    return {valid: false, error: `Máximo de ${MAX_AVAILABILITY_RULES} regras`};
+  }
+
+  if (rawExceptions.length > MAX_AVAILABILITY_EXCEPTIONS) {
+    return {valid: false, error: `Máximo de ${MAX_AVAILABILITY_EXCEPTIONS} exceções`};
+  }
+
+  const rules: AvailabilityRule[] = [];
+  for (const [index, raw] of rawRules.entries()) {
+    const id = typeof raw?.id === "string" && raw.id.trim() ?
+      raw.id.trim().slice(0, 64) :
+      `rule_${index + 1}`;
+    const label = typeof raw?.label === "string" ? raw.label.trim().slice(0, 100) : "";
+
+    if (rules.some((rule) => rule.id === id)) {
+      return {valid: false, error: "Existem regras com o mesmo ID"};
+    }
+
+    const months = parseNumberList(raw?.months, 1, 12);
+    if (months === null) {
+      return {valid: false, error: "Meses inválidos (use 1 a 12)"};
+    }
+
+    if (raw?.type === "closed_weekdays" || raw?.type === "open_weekdays") {
+      const weekdays = parseNumberList(raw.weekdays, 0, 6);
+      if (weekdays === null || weekdays.length === 0) {
+        return {valid: false, error: "Indique os dias da semana (0 = domingo a 6 = sábado)"};
+      }
+
+      rules.push({id, type: raw.type, weekdays, months, period: null, maxEvents: null, label});
+      continue;
+    }
+
+    if (raw?.type === "max_events") {
+      if (!["weekend", "week", "month"].includes(raw.period)) {
+        return {valid: false, error: "Período inválido (weekend, week ou month)"};
+      }
+
+      if (!Number.isInteger(raw.maxEvents) ||
+          raw.maxEvents < 1 || raw.maxEvents > MAX_EVENTS_PER_PERIOD) {
+        return {
+          valid: false,
+          error: `O limite de eventos deve estar entre 1 e ${MAX_EVENTS_PER_PERIOD}`,
+        };
+      }
+
+      rules.push({
+        id,
+        type: "max_events",
+        weekdays: [],
+        months,
+        period: raw.period,
+        maxEvents: raw.maxEvents,
+        label,
+      });
+      continue;
+    }
+
+    return {valid: false, error: "Tipo de regra inválido"};
+  }
+
+  const exceptions: AvailabilityException[] = [];
+  for (const raw of rawExceptions) {
+    if (!isValidDateKey(raw?.date) || typeof raw.available !== "boolean") {
+      return {valid: false, error: "Exceção inválida (indique date e available)"};
+    }
+
+    if (exceptions.some((exception) => exception.date === raw.date)) {
+      return {valid: false, error: `Existe mais de uma exceção para ${raw.date}`};
+    }
+
+    exceptions.push({
+      date: raw.date,
+      available: raw.available,
+      reason: typeof raw.reason === "string" ? raw.reason.trim().slice(0, 200) : "",
+    });
+  }
+
+  exceptions.sort((a, b) => a.date.localeCompare(b.date));
+
+  return {valid: true, availabilityRules: {rules, exceptions}};
+}
+
+/**
+ * Read a stored rule set; an invalid one is ignored rather than blocking
+ * the supplier's whole calendar
+ */
+export function readAvailabilityRules(value: unknown): AvailabilityRules {
+  if (!value) return EMPTY_AVAILABILITY_RULES;
+
+  const parsed = parseAvailabilityRules(value);
+  return parsed.availabilityRules || EMPTY_AVAILABILITY_RULES;
+}
+
+/**
+ * Get a supplier's rule set
+ */
+export async function getAvailabilityRules(supplierId: string): Promise<AvailabilityRules> {
+  const supplierDoc = await db.collection("suppliers").doc(supplierId).get();
+  return readAvailabilityRules(supplierDoc.data()?.availabilityRules);
+}
+
+export function hasAvailabilityRules(availabilityRules: AvailabilityRules): boolean {
+  return availabilityRules.rules.length > 0 || availabilityRules.exceptions.length > 0;
+}
+
+// ==================== EVALUATION ====================
+
+/**
+ * Evaluate the rules for one date
+ * @param availabilityRules - The supplier's rule set
+ * @param dateKey - The date (YYYY-MM-DD)
+ * @param bookedEvents - Slot dates of each active booking around the date,
+ * counted by max_events rules
+ * @returns Whether the rules close the date, and why
+ */
+export function evaluateAvailabilityRules(
+    availabilityRules: AvailabilityRules,
+    dateKey: string,
+    bookedEvents: string[][]
+): RuleEvaluation {
+  const exception = availabilityRules.exceptions.find((e) => e.date === dateKey);
+  if (exception) {
+    return {
+      blocked: !exception.available,
+      ruleId: null,
+      reason: exception.reason || (exception.available ?
+        "Disponível por exceção" :
+        "Data indisponível"),
+    };
+  }
+
+  const weekday = getWeekday(dateKey);
+  const month = getMonth(dateKey);
+
+  for (const rule of availabilityRules.rules) {
+    if (rule.months.length > 0 && !rule.months.includes(month)) continue;
+
+    if (rule.type === "closed_weekdays" && rule.weekdays.includes(weekday)) {
+      return {
+        blocked: true,
+        ruleId: rule.id,
+        reason: rule.label || "O fornecedor não trabalha neste dia da semana",
+      };
+    }
+
+    if (rule.type === "open_weekdays" && !rule.weekdays.includes(weekday)) {
+      return {
+        blocked: true,
+        ruleId: rule.id,
+        reason: rule.label || "O fornecedor só trabalha em alguns dias da semana neste período",
+      };
+    }
+
+    if (rule.type === "max_events" && rule.period && rule.maxEvents) {
+      const range = getPeriodRange(dateKey, rule.period);
+      if (!range) continue;
+
+      const [periodStart, periodEnd] = range;
+      const eventCount = bookedEvents.filter((dates) =>
+        dates.some((date) => date >= periodStart && date <= periodEnd)
+      ).length;
+
+      if (eventCount >= rule.maxEvents) {
+        return {
+          blocked: true,
+          ruleId: rule.id,
+          reason: rule.label ||
+            `Limite de ${rule.maxEvents} evento(s) por ${PERIOD_LABELS[rule.period]} atingido`,
+        };
+      }
+    }
+  }
+
+  return {blocked: false, ruleId: null, reason: ""};
+}
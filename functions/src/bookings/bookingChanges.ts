@@ -0,0 +1,1101 @@
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {BookingLogger} from "../common/logger";
+import {requireFeatureEnabled} from "../common/killSwitch";
+import {isSupplierBookable} from "../suppliers/supplierEligibility";
+import {
+  BookingSlot,
+  BookingSlotInput,
+  validateBookingModification,
+  normalizeBookingSlots,
+  findConflictingSlots,
+  getBookingSlots,
+  dateKeyToTimestamp,
+} from "./bookingUtils";
+import {
+  getHeldEscrowsByBookingId,
+  partialRefundEscrow,
+} from "../finance/escrowService";
+import {rescheduleRemaining} from "./paymentSchedule";
+import {offerWaitlistSpots} from "./waitlist";
+import {BookingPromotion, calculatePromotionDiscount} from "../promotions/promotionService";
+import {calculateServiceTaxLines} from "../finance/taxEngine";
+import {normalizeCurrency} from "../common/currency";
+import {calculatePackagePrice, parsePackageAddOns, PriceBreakdown} from "./pricingEngine";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+/**
+ * Booking statuses that accept change requests
+ */
+const CHANGEABLE_STATUSES = ["pending", "confirmed"];
+
+/**
+ * A change refund still processing after this long was left by a run
+ * that died; the retry sweep takes it over
+ */
+const REFUND_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * Change refunds retried per sweep (the next run picks up the rest)
+ */
+const REFUND_RETRY_BATCH_SIZE = 50;
+
+type ChangeRequestStatus = "pending" | "accepted" | "declined";
+
+interface RequestedChanges {
+  eventDate?: string; // YYYY-MM-DD
+  startTime?: string; // HH:mm
+  endTime?: string; // HH:mm
+  slots?: BookingSlotInput[]; // Replaces all slots of the booking
+  guestCount?: number;
+  packageId?: string;
+}
+
+interface RequestBookingChangeRequest {
+  bookingId: string;
+  changes: RequestedChanges;
+  reason?: string;
+}
+
+interface RespondToBookingChangeRequest {
+  bookingId: string;
+  changeRequestId: string;
+  accept: boolean;
+  reason?: string;
+}
+
+/**
+ * Snapshot of the booking fields a change request can modify
+ */
+interface BookingTerms {
+  slots: BookingSlot[];
+  guestCount: number | null;
+  packageId: string;
+  packageName: string;
+  packagePrice: number;
+  totalAmount: number;
+  discountAmount?: number; // Promotion discount included in totalAmount
+  priceBreakdown?: PriceBreakdown | null; // Set for bookings priced by the pricing engine
+}
+
+/**
+ * Price and escrow impact of a change
+ * - priceDelta: new total minus current total
+ * - escrowDelta: new total minus funds already held in escrow
+ *   (> 0 client pays the difference, < 0 excess is refunded)
+ */
+interface ChangeImpact {
+  priceDelta: number;
+  heldAmount: number;
+  escrowDelta: number;
+}
+
+interface BookingChangeResponse {
+  success: boolean;
+  changeRequestId: string;
+  status: ChangeRequestStatus;
+  priceDelta: number;
+  escrowDelta: number;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Resolve the supplier profile owned by an auth user
+ */
+async function getSupplierIdForUser(authUid: string): Promise<string | null> {
+  const directSupplier = await db.collection("suppliers").doc(authUid).get();
+  if (directSupplier.exists && directSupplier.data()?.userId === authUid) {
+    return authUid;
+  }
+
+  const supplierQuery = await db
+      .collection("suppliers")
+      .where("userId", "==", authUid)
+      .limit(1)
+      .get();
+
+  return supplierQuery.empty ? null : supplierQuery.docs[0].id;
+}
+
+/**
+ * Current terms of a booking
+ */
+function getCurrentTerms(booking: FirebaseFirestore.DocumentData): BookingTerms {
+  return {
+    slots: getBookingSlots(booking),
+    guestCount: booking.guestCount ?? null,
+    packageId: booking.packageId || "",
+    packageName: booking.packageName || "Pacote",
+    packagePrice: booking.packagePrice || 0,
+    totalAmount: booking.totalAmount || 0,
+    discountAmount: booking.discountAmount || 0,
+    priceBreakdown: booking.priceBreakdown || null,
+  };
+}
+
+/**
+ * Validate the requested changes and build the proposed terms
+ * Price is recomputed server-side by the pricing engine when the package
+ * changes, or when guests/dates change on a booking it priced - keeping
+ * the chosen add-ons (those the new package offers) and the booking's
+ * promotion (same terms applied to the new price).
+ */
+async function buildProposedTerms(
+    supplierId: string,
+    currency: string,
+    current: BookingTerms,
+    changes: RequestedChanges,
+    promotion: BookingPromotion | null,
+    errorContext: ErrorContext
+): Promise<BookingTerms> {
+  let slots = current.slots;
+
+  const hasSlotChange = (Array.isArray(changes.slots) && changes.slots.length > 0) ||
+    changes.eventDate !== undefined ||
+    changes.startTime !== undefined ||
+    changes.endTime !== undefined;
+
+  if (hasSlotChange) {
+    // Single-slot changes keep whatever the client did not send
+    const requestedSlots: BookingSlotInput[] = changes.slots && changes.slots.length > 0 ?
+      changes.slots :
+      [{
+        date: changes.eventDate ?? current.slots[0]?.date ?? "",
+        startTime: changes.startTime ?? current.slots[0]?.startTime,
+        endTime: changes.endTime ?? current.slots[0]?.endTime,
+      }];
+
+    const slotValidation = normalizeBookingSlots(requestedSlots);
+    if (!slotValidation.valid || !slotValidation.slots) {
+      throw Errors.invalidArgument(errorContext, "changes.slots", slotValidation.error);
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    if (slotValidation.slots.some((slot) => slot.date < today)) {
+      throw Errors.invalidArgument(
+          errorContext,
+          "changes.slots",
+          "Data do evento não pode ser no passado"
+      );
+    }
+
+    slots = slotValidation.slots;
+  }
+
+  let guestCount = current.guestCount;
+  if (changes.guestCount !== undefined) {
+    if (!Number.isInteger(changes.guestCount) || changes.guestCount < 1) {
+      throw Errors.invalidArgument(errorContext, "changes.guestCount", "Número de convidados inválido");
+    }
+    guestCount = changes.guestCount;
+  }
+
+  let packageId = current.packageId;
+  let packageName = current.packageName;
+  let packageData: FirebaseFirestore.DocumentData | undefined;
+
+  if (changes.packageId && changes.packageId !== current.packageId) {
+    const packageDoc = await db
+        .collection("suppliers")
+        .doc(supplierId)
+        .collection("packages")
+        .doc(changes.packageId)
+        .get();
+
+    packageData = packageDoc.data();
+    if (!packageData) {
+      throw Errors.notFound(errorContext, "Pacote", changes.packageId);
+    }
+
+    if (packageData.isActive === false) {
+      throw Errors.failedPrecondition(
+          errorContext,
+          `Package ${changes.packageId} is inactive`,
+          "Este pacote não está disponível"
+      );
+    }
+
+    packageId = changes.packageId;
+    packageName = packageData.name || "Pacote";
+  }
+
+  const repriceCurrent = !!current.priceBreakdown && !!packageId &&
+    (guestCount !== current.guestCount ||
+     JSON.stringify(slots) !== JSON.stringify(current.slots));
+
+  if (!packageData && repriceCurrent) {
+    const packageDoc = await db
+        .collection("suppliers")
+        .doc(supplierId)
+        .collection("packages")
+        .doc(packageId)
+        .get();
+    packageData = packageDoc.data();
+  }
+
+  if (!packageData) {
+    return {
+      slots,
+      guestCount,
+      packageId,
+      packageName,
+      packagePrice: current.packagePrice,
+      totalAmount: current.totalAmount,
+      discountAmount: current.discountAmount || 0,
+      priceBreakdown: current.priceBreakdown || null,
+    };
+  }
+
+  // Keep the add-ons the (new) package still offers
+  const offeredAddOns = parsePackageAddOns(packageData).map((addOn) => addOn.id);
+  const pricing = calculatePackagePrice(packageId, packageData, currency, {
+    guestCount,
+    slots,
+    addOns: (current.priceBreakdown?.addOns || [])
+        .filter((addOn) => offeredAddOns.includes(addOn.id))
+        .map((addOn) => ({id: addOn.id, quantity: addOn.quantity})),
+  });
+  if (!pricing.valid || !pricing.breakdown) {
+    throw Errors.invalidArgument(errorContext, "changes", pricing.error);
+  }
+
+  const priceBreakdown = pricing.breakdown;
+  const discountAmount = promotion ? calculatePromotionDiscount(promotion, priceBreakdown.total) : 0;
+  return {
+    slots,
+    guestCount,
+    packageId,
+    packageName,
+    packagePrice: priceBreakdown.basePrice,
+    totalAmount: priceBreakdown.total - discountAmount,
+    discountAmount,
+    priceBreakdown,
+  };
+}
+
+/**
+ * Check whether proposed terms move the booking in the calendar
+ */
+function changesSchedule(current: BookingTerms, proposed: BookingTerms): boolean {
+  return JSON.stringify(current.slots) !== JSON.stringify(proposed.slots) ||
+    current.packageId !== proposed.packageId;
+}
+
+/**
+ * Re-run availability and eligibility for the proposed slots,
+ * ignoring the booking being changed
+ */
+async function assertProposedSlotsAvailable(
+    bookingId: string,
+    supplierId: string,
+    proposed: BookingTerms,
+    errorContext: ErrorContext
+): Promise<void> {
+  for (const slot of proposed.slots) {
+    const eligibility = await isSupplierBookable(
+        supplierId,
+        slot.date,
+        errorContext,
+        {packageId: proposed.packageId, slot, excludeBookingId: bookingId}
+    );
+
+    if (!eligibility.eligible) {
+      throw Errors.failedPrecondition(
+          errorContext,
+          `Supplier not eligible on ${slot.date}: ${eligibility.reasons.join(", ")}`,
+          eligibility.reasons[0] || "Este fornecedor não está disponível para reservas"
+      );
+    }
+  }
+
+  const conflictingSlots = await findConflictingSlots(
+      supplierId,
+      proposed.slots,
+      bookingId,
+      proposed.packageId
+  );
+
+  if (conflictingSlots.length > 0) {
+    throw Errors.alreadyExists(
+        errorContext,
+        "Reserva",
+        `Já existe uma reserva para ${conflictingSlots[0].date}`
+    );
+  }
+}
+
+/**
+ * Compute price and escrow impact of the proposed terms
+ */
+async function computeChangeImpact(
+    bookingId: string,
+    current: BookingTerms,
+    proposed: BookingTerms
+): Promise<ChangeImpact> {
+  const heldEscrows = await getHeldEscrowsByBookingId(bookingId);
+  const heldAmount = heldEscrows.reduce(
+      (sum, escrow) => sum + (escrow.totalAmount || 0),
+      0
+  );
+
+  return {
+    priceDelta: proposed.totalAmount - current.totalAmount,
+    heldAmount,
+    escrowDelta: proposed.totalAmount - heldAmount,
+  };
+}
+
+/**
+ * Return escrow held above the new booking total to the client,
+ * taking it from the most recent escrows first
+ */
+async function refundExcessEscrow(
+    bookingId: string,
+    excessAmount: number,
+    refundedBy: string,
+    changeRequestId: string
+): Promise<number> {
+  const heldEscrows = await getHeldEscrowsByBookingId(bookingId);
+  heldEscrows.sort((a, b) =>
+    (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0)
+  );
+
+  let remaining = excessAmount;
+  for (const escrow of heldEscrows) {
+    if (remaining <= 0) break;
+
+    const amount = Math.min(remaining, escrow.totalAmount || 0);
+    if (amount <= 0) continue;
+
+    await partialRefundEscrow(
+        escrow.id,
+        amount,
+        refundedBy,
+        `Booking change ${changeRequestId}`,
+        changeRequestId
+    );
+    remaining -= amount;
+  }
+
+  return excessAmount - remaining;
+}
+
+/**
+ * Refund the escrow excess an accepted change left owed to the client
+ * (refundStatus pending on the change request, set when it was accepted)
+ *
+ * Claimed in a transaction so only one run refunds it. Refunds recorded
+ * for the change by an earlier, interrupted run are counted, so a retry
+ * only refunds what is still owed. A failure leaves it pending for
+ * retryBookingChangeRefunds.
+ *
+ * @returns Amount refunded for the change, or null if there was nothing
+ *   to do (not owed, already refunded or being refunded)
+ */
+async function processChangeRefund(
+    changeRequestId: string,
+    refundedBy: string
+): Promise<number | null> {
+  const logger = BookingLogger("processChangeRefund");
+  const changeRef = db.collection("booking_change_requests").doc(changeRequestId);
+
+  const change = await db.runTransaction(async (transaction) => {
+    const changeDoc = await transaction.get(changeRef);
+    const data = changeDoc.data();
+    const claimedAt = data?.refundClaimedAt?.toMillis?.() || 0;
+    const claimable = data?.refundStatus === "pending" ||
+      (data?.refundStatus === "processing" && claimedAt < Date.now() - REFUND_CLAIM_MS);
+    if (!data || !claimable) {
+      return null;
+    }
+
+    transaction.update(changeRef, {
+      refundStatus: "processing",
+      refundClaimedAt: admin.firestore.Timestamp.now(),
+    });
+    return data;
+  });
+
+  if (!change) {
+    return null;
+  }
+
+  try {
+    const earlierRefunds = await db
+        .collection("refunds")
+        .where("bookingId", "==", change.bookingId)
+        .where("changeRequestId", "==", changeRequestId)
+        .get();
+    const alreadyRefunded = earlierRefunds.docs.reduce(
+        (sum, doc) => sum + (doc.data().amount || 0),
+        0
+    );
+
+    const owed = (change.refundAmount || 0) - alreadyRefunded;
+    const refunded = owed > 0 ?
+      await refundExcessEscrow(change.bookingId, owed, refundedBy, changeRequestId) :
+      0;
+    const totalRefunded = alreadyRefunded + refunded;
+
+    await changeRef.update({
+      refundStatus: "completed",
+      refundedAmount: totalRefunded,
+      refundError: null,
+      refundCompletedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    // Less escrow held than owed (e.g. released since the change)
+    if (totalRefunded < (change.refundAmount || 0)) {
+      logger.warn("change_refund_short", {
+        changeRequestId,
+        bookingId: change.bookingId,
+        refundAmount: change.refundAmount,
+        refundedAmount: totalRefunded,
+      });
+    }
+
+    return totalRefunded;
+  } catch (error) {
+    await changeRef.update({
+      refundStatus: "pending",
+      refundError: error instanceof Error ? error.message : String(error),
+      refundAttempts: admin.firestore.FieldValue.increment(1),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Keep "reserved" calendar entries of a confirmed booking in sync with its slots
+ */
+async function syncReservedDates(
+    supplierId: string,
+    bookingId: string,
+    slots: BookingSlot[],
+    eventName: string
+): Promise<void> {
+  const blockedDatesRef = db
+      .collection("suppliers")
+      .doc(supplierId)
+      .collection("blocked_dates");
+
+  const existing = await blockedDatesRef
+      .where("bookingId", "==", bookingId)
+      .get();
+
+  const batch = db.batch();
+  existing.docs.forEach((doc) => batch.delete(doc.ref));
+
+  for (const date of new Set(slots.map((slot) => slot.date))) {
+    batch.set(blockedDatesRef.doc(), {
+      date: dateKeyToTimestamp(date),
+      reason: eventName,
+      type: "reserved",
+      bookingId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  await batch.commit();
+}
+
+/**
+ * Short Portuguese description of a change for notifications
+ */
+function describeChanges(current: BookingTerms, proposed: BookingTerms): string {
+  const parts: string[] = [];
+
+  if (JSON.stringify(current.slots) !== JSON.stringify(proposed.slots)) {
+    parts.push(`data: ${proposed.slots.map((slot) => slot.date).join(", ")}`);
+  }
+  if (current.guestCount !== proposed.guestCount) {
+    parts.push(`convidados: ${proposed.guestCount}`);
+  }
+  if (current.packageId !== proposed.packageId) {
+    parts.push(`pacote: ${proposed.packageName}`);
+  }
+
+  return parts.join("; ");
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Request Booking Change - Callable Cloud Function
+ *
+ * Lets the client propose a new date/time, guest count or package for a
+ * pending or confirmed booking. The supplier accepts or declines it with
+ * respondToBookingChange.
+ *
+ * This function:
+ * 1. Validates the caller is the booking's client
+ * 2. Validates the booking can be changed (status, no open request)
+ * 3. Builds the proposed terms and recomputes the price
+ * 4. Re-runs availability and eligibility checks
+ * 5. Records the request, change history and audit log
+ * 6. Notifies the supplier
+ */
+export const requestBookingChange = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "requestBookingChange",
+            async (
+                data: RequestBookingChangeRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ): Promise<BookingChangeResponse> => {
+              const logger = BookingLogger("requestBookingChange").setContext(errorContext);
+              logger.operationStart("request_booking_change", {bookingId: data.bookingId});
+
+              await requireFeatureEnabled("bookings", errorContext);
+
+              // 1. Validate authentication
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const clientId = context.auth.uid;
+
+              if (!data.bookingId || !data.changes || typeof data.changes !== "object") {
+                throw Errors.invalidArgument(errorContext, "bookingId, changes", "Campos obrigatórios");
+              }
+
+              // 2. Validate caller and booking state
+              const validation = await validateBookingModification(
+                  data.bookingId,
+                  clientId,
+                  "client"
+              );
+
+              if (!validation.valid || !validation.booking) {
+                if (validation.error === "Reserva não encontrada") {
+                  throw Errors.notFound(errorContext, "Reserva", data.bookingId);
+                }
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Caller ${clientId} cannot change booking ${data.bookingId}`,
+                    validation.error
+                );
+              }
+
+              const booking = validation.booking;
+
+              if (!CHANGEABLE_STATUSES.includes(booking.status)) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Booking status ${booking.status} does not accept changes`,
+                    "Esta reserva não pode ser alterada"
+                );
+              }
+
+              if (booking.pendingChangeRequestId) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Booking already has pending change ${booking.pendingChangeRequestId}`,
+                    "Já existe um pedido de alteração pendente para esta reserva"
+                );
+              }
+
+              // 3. Build proposed terms
+              const current = getCurrentTerms(booking);
+              const proposed = await buildProposedTerms(
+                  booking.supplierId,
+                  normalizeCurrency(booking.currency),
+                  current,
+                  data.changes,
+                  booking.promotion || null,
+                  errorContext
+              );
+
+              const summary = describeChanges(current, proposed);
+              if (!summary) {
+                throw Errors.invalidArgument(errorContext, "changes", "Nenhuma alteração indicada");
+              }
+
+              // 4. Re-run availability and eligibility
+              if (changesSchedule(current, proposed)) {
+                await assertProposedSlotsAvailable(
+                    data.bookingId,
+                    booking.supplierId,
+                    proposed,
+                    errorContext
+                );
+              }
+
+              const impact = await computeChangeImpact(data.bookingId, current, proposed);
+
+              // 5. Record request + history
+              const changeRef = db.collection("booking_change_requests").doc();
+              const now = admin.firestore.FieldValue.serverTimestamp();
+
+              const batch = db.batch();
+              batch.set(changeRef, {
+                id: changeRef.id,
+                bookingId: data.bookingId,
+                clientId,
+                supplierId: booking.supplierId,
+                requestedBy: clientId,
+                status: "pending",
+                previous: current,
+                proposed,
+                ...impact,
+                reason: data.reason || null,
+                createdAt: now,
+                updatedAt: now,
+              });
+              batch.update(db.collection("bookings").doc(data.bookingId), {
+                pendingChangeRequestId: changeRef.id,
+                changeHistory: admin.firestore.FieldValue.arrayUnion({
+                  changeRequestId: changeRef.id,
+                  action: "requested",
+                  by: clientId,
+                  summary,
+                  priceDelta: impact.priceDelta,
+                  at: admin.firestore.Timestamp.now(),
+                }),
+                updatedAt: now,
+              });
+              await batch.commit();
+
+              await db.collection("audit_logs").add({
+                category: "booking",
+                eventType: "changeRequested",
+                userId: clientId,
+                resourceId: data.bookingId,
+                resourceType: "booking",
+                previousValue: current,
+                newValue: proposed,
+                description: `Booking change requested: ${summary}`,
+                metadata: {
+                  changeRequestId: changeRef.id,
+                  supplierId: booking.supplierId,
+                  ...impact,
+                  reason: data.reason || null,
+                },
+                timestamp: now,
+              });
+
+              // 6. Notify supplier
+              const supplierDoc = await db.collection("suppliers").doc(booking.supplierId).get();
+              const supplierUserId = supplierDoc.data()?.userId;
+              if (supplierUserId) {
+                await db.collection("notifications").add({
+                  userId: supplierUserId,
+                  type: "booking_change_requested",
+                  title: "Pedido de Alteração",
+                  body: `${booking.clientName || "O cliente"} pediu para alterar a reserva (${summary})`,
+                  data: {
+                    bookingId: data.bookingId,
+                    changeRequestId: changeRef.id,
+                  },
+                  isRead: false,
+                  createdAt: now,
+                });
+              }
+
+              logger.operationSuccess("request_booking_change", {
+                bookingId: data.bookingId,
+                changeRequestId: changeRef.id,
+                ...impact,
+              });
+
+              return {
+                success: true,
+                changeRequestId: changeRef.id,
+                status: "pending",
+                priceDelta: impact.priceDelta,
+                escrowDelta: impact.escrowDelta,
+              };
+            }
+        )
+    );
+
+/**
+ * Respond to Booking Change - Callable Cloud Function
+ *
+ * The supplier accepts or declines a pending change request.
+ * On accept, availability is checked again, the booking is updated with the
+ * proposed terms and held escrow above the new total is refunded.
+ * A higher total leaves the difference payable through createPaymentIntent.
+ */
+export const respondToBookingChange = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "respondToBookingChange",
+            async (
+                data: RespondToBookingChangeRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ): Promise<BookingChangeResponse> => {
+              const logger = BookingLogger("respondToBookingChange").setContext(errorContext);
+              logger.operationStart("respond_booking_change", {
+                bookingId: data.bookingId,
+                changeRequestId: data.changeRequestId,
+                accept: data.accept,
+              });
+
+              await requireFeatureEnabled("bookings", errorContext);
+
+              // 1. Validate authentication
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const callerId = context.auth.uid;
+
+              if (!data.bookingId || !data.changeRequestId || typeof data.accept !== "boolean") {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "bookingId, changeRequestId, accept",
+                    "Campos obrigatórios"
+                );
+              }
+
+              // 2. Validate caller is the booking's supplier
+              const supplierId = await getSupplierIdForUser(callerId);
+              if (!supplierId) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `No supplier profile for ${callerId}`,
+                    "Perfil de fornecedor não encontrado"
+                );
+              }
+
+              const validation = await validateBookingModification(
+                  data.bookingId,
+                  supplierId,
+                  "supplier"
+              );
+
+              if (!validation.valid || !validation.booking) {
+                if (validation.error === "Reserva não encontrada") {
+                  throw Errors.notFound(errorContext, "Reserva", data.bookingId);
+                }
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Supplier ${supplierId} cannot respond for booking ${data.bookingId}`,
+                    validation.error
+                );
+              }
+
+              const booking = validation.booking;
+
+              // 3. Validate the change request is still open
+              const changeRef = db.collection("booking_change_requests").doc(data.changeRequestId);
+              const changeDoc = await changeRef.get();
+
+              const changeRequest = changeDoc.data();
+              if (!changeRequest || changeRequest.bookingId !== data.bookingId) {
+                throw Errors.notFound(errorContext, "Pedido de alteração", data.changeRequestId);
+              }
+
+              if (changeRequest.status !== "pending") {
+                logger.idempotentSkip("respond_booking_change", data.changeRequestId, changeRequest.status);
+                return {
+                  success: true,
+                  changeRequestId: data.changeRequestId,
+                  status: changeRequest.status,
+                  priceDelta: changeRequest.priceDelta || 0,
+                  escrowDelta: changeRequest.escrowDelta || 0,
+                };
+              }
+
+              if (!CHANGEABLE_STATUSES.includes(booking.status)) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Booking status ${booking.status} does not accept changes`,
+                    "Esta reserva não pode ser alterada"
+                );
+              }
+
+              const current = getCurrentTerms(booking);
+              const proposed = changeRequest.proposed as BookingTerms;
+              const summary = describeChanges(current, proposed);
+              const newStatus: ChangeRequestStatus = data.accept ? "accepted" : "declined";
+              const now = admin.firestore.FieldValue.serverTimestamp();
+
+              // 4. Re-check availability and recompute impact at acceptance time
+              let impact: ChangeImpact = {
+                priceDelta: changeRequest.priceDelta || 0,
+                heldAmount: changeRequest.heldAmount || 0,
+                escrowDelta: changeRequest.escrowDelta || 0,
+              };
+
+              if (data.accept) {
+                if (changesSchedule(current, proposed)) {
+                  await assertProposedSlotsAvailable(
+                      data.bookingId,
+                      booking.supplierId,
+                      proposed,
+                      errorContext
+                  );
+                }
+                impact = await computeChangeImpact(data.bookingId, current, proposed);
+              }
+
+              // 5. Apply the response
+              const bookingUpdates: Record<string, unknown> = {
+                pendingChangeRequestId: admin.firestore.FieldValue.delete(),
+                changeHistory: admin.firestore.FieldValue.arrayUnion({
+                  changeRequestId: data.changeRequestId,
+                  action: newStatus,
+                  by: callerId,
+                  summary,
+                  priceDelta: impact.priceDelta,
+                  at: admin.firestore.Timestamp.now(),
+                }),
+                updatedAt: now,
+              };
+
+              if (data.accept) {
+                const firstSlot = proposed.slots[0];
+                const lastSlot = proposed.slots[proposed.slots.length - 1];
+                Object.assign(bookingUpdates, {
+                  slots: proposed.slots,
+                  eventDate: dateKeyToTimestamp(firstSlot.date),
+                  eventEndDate: dateKeyToTimestamp(lastSlot.date),
+                  eventTime: firstSlot.startTime,
+                  startTime: firstSlot.startTime,
+                  endTime: firstSlot.endTime,
+                  guestCount: proposed.guestCount,
+                  packageId: proposed.packageId,
+                  packageName: proposed.packageName,
+                  packagePrice: proposed.packagePrice,
+                  totalAmount: proposed.totalAmount,
+                });
+
+                if (proposed.priceBreakdown) {
+                  Object.assign(bookingUpdates, {
+                    priceBreakdown: proposed.priceBreakdown,
+                    originalAmount: proposed.priceBreakdown.total,
+                  });
+                }
+
+                const discountAmount = proposed.discountAmount || 0;
+                if (booking.promotion) {
+                  Object.assign(bookingUpdates, {
+                    originalAmount: proposed.totalAmount + discountAmount,
+                    discountAmount,
+                    "promotion.discountAmount": discountAmount,
+                  });
+                }
+
+                if (booking.taxRates) {
+                  const platformDiscount = booking.promotion?.fundedBy === "platform" ? discountAmount : 0;
+                  bookingUpdates.taxLines = calculateServiceTaxLines(
+                      proposed.totalAmount + platformDiscount,
+                      booking.taxRates
+                  );
+                }
+
+                if (booking.paymentSchedule) {
+                  bookingUpdates.paymentSchedule = rescheduleRemaining(
+                      booking.paymentSchedule,
+                      proposed.totalAmount,
+                      dateKeyToTimestamp(firstSlot.date).toDate()
+                  );
+                }
+              }
+
+              // Escrow held above the new total is owed back to the client:
+              // recorded with the response, refunded by processChangeRefund
+              const refundOwed = data.accept && impact.escrowDelta < 0 ? -impact.escrowDelta : 0;
+
+              // Claim the request in a transaction so a concurrent response
+              // can't apply it (and refund the excess) a second time
+              const respondedStatus = await db.runTransaction(async (transaction) => {
+                const latestDoc = await transaction.get(changeRef);
+                const latestStatus = latestDoc.data()?.status;
+                if (latestStatus !== "pending") {
+                  return latestStatus as ChangeRequestStatus;
+                }
+
+                transaction.update(changeRef, {
+                  status: newStatus,
+                  respondedBy: callerId,
+                  responseReason: data.reason || null,
+                  ...impact,
+                  ...(refundOwed > 0 ? {refundStatus: "pending", refundAmount: refundOwed} : {}),
+                  respondedAt: now,
+                  updatedAt: now,
+                });
+                transaction.update(db.collection("bookings").doc(data.bookingId), bookingUpdates);
+                return null;
+              });
+
+              if (respondedStatus) {
+                logger.idempotentSkip("respond_booking_change", data.changeRequestId, respondedStatus);
+                return {
+                  success: true,
+                  changeRequestId: data.changeRequestId,
+                  status: respondedStatus,
+                  priceDelta: changeRequest.priceDelta || 0,
+                  escrowDelta: changeRequest.escrowDelta || 0,
+                };
+              }
+
+              logger.stateTransition(
+                  "booking_change_request",
+                  data.changeRequestId,
+                  "pending",
+                  newStatus,
+                  callerId
+              );
+
+              // 6. Side effects of an accepted change
+              let refundedAmount = 0;
+              if (data.accept) {
+                if (refundOwed > 0) {
+                  try {
+                    refundedAmount = await processChangeRefund(
+                        data.changeRequestId,
+                        `supplier:${callerId}`
+                    ) || 0;
+                  } catch (refundError) {
+                    // Still pending on the change request - retryBookingChangeRefunds retries it
+                    logger.error("change_refund_failed", refundError as Error, {
+                      bookingId: data.bookingId,
+                      changeRequestId: data.changeRequestId,
+                    });
+                  }
+                }
+
+                if (booking.status === "confirmed" && changesSchedule(current, proposed)) {
+                  try {
+                    await syncReservedDates(
+                        booking.supplierId,
+                        data.bookingId,
+                        proposed.slots,
+                        booking.eventName || "Reserva confirmada"
+                    );
+                  } catch (syncError) {
+                    // Calendar entries are derived data - don't fail the change
+                    logger.error("reserved_dates_sync_failed", syncError as Error, {
+                      bookingId: data.bookingId,
+                    });
+                  }
+                }
+
+                // Dates the booking moved away from may go to waitlisted clients
+                const proposedDates = new Set(proposed.slots.map((slot) => slot.date));
+                const freedDates = current.slots
+                    .map((slot) => slot.date)
+                    .filter((date) => !proposedDates.has(date));
+                if (freedDates.length > 0) {
+                  try {
+                    await offerWaitlistSpots(booking.supplierId, freedDates);
+                  } catch (waitlistError) {
+                    // The next cancellation or hold expiry retries the offer
+                    logger.warn("waitlist_offer_failed", {
+                      bookingId: data.bookingId,
+                      error: waitlistError instanceof Error ? waitlistError.message : "unknown",
+                    });
+                  }
+                }
+              }
+
+              await db.collection("audit_logs").add({
+                category: "booking",
+                eventType: data.accept ? "changeAccepted" : "changeDeclined",
+                userId: callerId,
+                resourceId: data.bookingId,
+                resourceType: "booking",
+                previousValue: current,
+                newValue: data.accept ? proposed : current,
+                description: `Booking change ${newStatus}: ${summary}`,
+                metadata: {
+                  changeRequestId: data.changeRequestId,
+                  supplierId: booking.supplierId,
+                  ...impact,
+                  refundedAmount,
+                  reason: data.reason || null,
+                },
+                timestamp: now,
+              });
+
+              // 7. Notify client
+              let body = data.accept ?
+                `O fornecedor aceitou a alteração da reserva (${summary})` :
+                "O fornecedor recusou a alteração da reserva";
+              if (data.accept && impact.escrowDelta > 0 && impact.heldAmount > 0) {
+                body += ". Existe um valor adicional a pagar";
+              }
+
+              await db.collection("notifications").add({
+                userId: booking.clientId,
+                type: data.accept ? "booking_change_accepted" : "booking_change_declined",
+                title: data.accept ? "Alteração Aceite" : "Alteração Recusada",
+                body,
+                data: {
+                  bookingId: data.bookingId,
+                  changeRequestId: data.changeRequestId,
+                },
+                isRead: false,
+                createdAt: now,
+              });
+
+              logger.operationSuccess("respond_booking_change", {
+                bookingId: data.bookingId,
+                changeRequestId: data.changeRequestId,
+                status: newStatus,
+                refundedAmount,
+              });
+
+              return {
+                success: true,
+                changeRequestId: data.changeRequestId,
+                status: newStatus,
+                priceDelta: impact.priceDelta,
+                escrowDelta: impact.escrowDelta,
+              };
+            }
+        )
+    );
+
+// ==================== SCHEDULED ====================
+
+/**
+ * Retry Booking Change Refunds - Scheduled Cloud Function
+ * Runs every 15 minutes over accepted changes whose escrow refund is still
+ * owed (failed, or left processing by a run that died)
+ */
+export const retryBookingChangeRefunds = functions
+    .region(REGION)
+    .pubsub
+    .schedule("*/15 * * * *")
+    .timeZone("Africa/Luanda")
+    .onRun(async () => {
+      const logger = BookingLogger("retryBookingChangeRefunds");
+      const changes = await db
+          .collection("booking_change_requests")
+          .where("refundStatus", "in", ["pending", "processing"])
+          .limit(REFUND_RETRY_BATCH_SIZE)
+          .get();
+
+      let refunded = 0;
+      let failed = 0;
+      for (const changeDoc of changes.docs) {
+        try {
+          const amount = await processChangeRefund(changeDoc.id, "system");
+          if (amount !== null) refunded++;
+        } catch (error) {
+          failed++;
+          logger.error("change_refund_retry_failed", error as Error, {
+            changeRequestId: changeDoc.id,
+          });
+        }
+      }
+
+      logger.info("change_refunds_retried", {scanned: changes.size, refunded, failed});
+      return null;
+    });
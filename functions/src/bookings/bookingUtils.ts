@@ -1,4 +1,12 @@
 import * as admin from "firebase-admin";
+import {
+  AvailabilityRules,
+  RuleEvaluation,
+  evaluateAvailabilityRules,
+  getAvailabilityRules,
+  getRulesEvaluationRange,
+  hasAvailabilityRules,
+} from "./availabilityRules";
 
 const db = admin.firestore();
 
@@ -34,41 +42,500 @@ export const PAYABLE_BOOKING_STATUSES: BookingStatus[] = [
 ];
 
 /**
- * Check if a supplier has a booking conflict on a given date
+ * A single date/time slot of a booking.
+ * Multi-day and multi-slot bookings store one entry per slot in `slots`.
+ * A slot without times occupies the whole day; an endTime earlier than
+ * the startTime means the slot runs past midnight into the next day.
+ */
+export interface BookingSlot {
+  date: string; // YYYY-MM-DD
+  startTime: string | null; // HH:mm
+  endTime: string | null; // HH:mm
+}
+
+/**
+ * Slot as sent by clients (times optional)
+ */
+export interface BookingSlotInput {
+  date: string;
+  startTime?: string | null;
+  endTime?: string | null;
+}
+
+/**
+ * Bookings a supplier can take on the same day when no capacity is configured
+ */
+export const DEFAULT_DAILY_CAPACITY = 1;
+
+/**
+ * Daily capacity configured on the supplier and, optionally, on a package
+ * (suppliers/{id}.dailyCapacity and suppliers/{id}/packages/{pkg}.dailyCapacity)
+ */
+export interface CapacitySettings {
+  supplierCapacity: number;
+  packageCapacity: number | null;
+}
+
+/**
+ * Remaining capacity for a single slot
+ */
+export interface SlotCapacity {
+  slot: BookingSlot;
+  capacity: number; // Effective capacity (package limit applied)
+  booked: number; // Active bookings overlapping the slot
+  remaining: number;
+}
+
+/**
+ * Maximum number of slots in a single booking
+ */
+export const MAX_BOOKING_SLOTS = 10;
+
+/**
+ * Maximum number of days between the first and the last slot of a booking.
+ * Bounds the eventDate range that conflict queries have to scan.
+ */
+export const MAX_BOOKING_SPAN_DAYS = 14;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a stored date (Timestamp, Date or YYYY-MM-DD string) to YYYY-MM-DD
+ */
+export function toDateKey(value: unknown): string | null {
+  if (!value) return null;
+
+  if (typeof value === "string") {
+    return DATE_KEY_PATTERN.test(value.slice(0, 10)) ? value.slice(0, 10) : null;
+  }
+
+  const date = value instanceof Date ?
+    value :
+    (value as {toDate?: () => Date}).toDate?.();
+
+  if (!date || isNaN(date.getTime())) return null;
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Convert a YYYY-MM-DD date to the Timestamp stored in booking.eventDate
+ * (midday, so the calendar day survives timezone conversions)
+ */
+export function dateKeyToTimestamp(dateKey: string): admin.firestore.Timestamp {
+  const [year, month, day] = dateKey.split("-").map((part) => parseInt(part));
+  return admin.firestore.Timestamp.fromDate(
+      new Date(year, month - 1, day, 12, 0, 0)
+  );
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map((part) => parseInt(part));
+  return new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY)
+      .toISOString()
+      .slice(0, 10);
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Absolute [start, end) interval of a slot in minutes since the epoch
+ */
+function getSlotInterval(slot: BookingSlot): [number, number] {
+  const [year, month, day] = slot.date.split("-").map((part) => parseInt(part));
+  const dayStart = (Date.UTC(year, month - 1, day) / MS_PER_DAY) * MINUTES_PER_DAY;
+
+  const start = slot.startTime ? timeToMinutes(slot.startTime) : 0;
+  let end = slot.endTime ? timeToMinutes(slot.endTime) : MINUTES_PER_DAY;
+  if (end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+
+  return [dayStart + start, dayStart + end];
+}
+
+/**
+ * Check whether two slots overlap in time
+ */
+export function slotsOverlap(a: BookingSlot, b: BookingSlot): boolean {
+  const [aStart, aEnd] = getSlotInterval(a);
+  const [bStart, bEnd] = getSlotInterval(b);
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Get the slots of a stored booking.
+ * Bookings created before multi-slot support have a single slot
+ * derived from eventDate/startTime/endTime.
+ */
+export function getBookingSlots(booking: FirebaseFirestore.DocumentData): BookingSlot[] {
+  if (Array.isArray(booking.slots) && booking.slots.length > 0) {
+    return booking.slots
+        .filter((slot: BookingSlot) => slot && DATE_KEY_PATTERN.test(slot.date))
+        .map((slot: BookingSlot) => ({
+          date: slot.date,
+          startTime: slot.startTime || null,
+          endTime: slot.endTime || null,
+        }));
+  }
+
+  const date = toDateKey(booking.eventDate);
+  if (!date) return [];
+
+  return [{
+    date,
+    startTime: booking.startTime || booking.eventTime || null,
+    endTime: booking.endTime || null,
+  }];
+}
+
+/**
+ * Validate and normalize the slots requested for a booking
+ * Slots are returned sorted chronologically.
+ * @param input - Slots as sent by the client
+ * @returns Validation result with normalized slots
+ */
+export function normalizeBookingSlots(input: BookingSlotInput[]): {
+  valid: boolean;
+  error?: string;
+  slots?: BookingSlot[];
+} {
+  if (!Array.isArray(input) || input.length === 0) {
+    return {valid: false, error: "Indique pelo menos uma data"};
+  }
+
+  if (input.length > MAX_BOOKING_SLOTS) {
+    return {
+      valid: false,
+      error: `Máximo de ${MAX_BOOKING_SLOTS} datas por reserva`,
+    };
+  }
+
+  const slots: BookingSlot[] = [];
+  for (const raw of input) {
+    if (!raw || typeof raw.date !== "string" || !DATE_KEY_PATTERN.test(raw.date)) {
+      return {valid: false, error: "Data do evento inválida"};
+    }
+
+    const startTime = raw.startTime || null;
+    const endTime = raw.endTime || null;
+    if ((startTime && !TIME_PATTERN.test(startTime)) ||
+        (endTime && !TIME_PATTERN.test(endTime))) {
+      return {valid: false, error: "Horário inválido (use HH:mm)"};
+    }
+
+    if (startTime && endTime && startTime === endTime) {
+      return {valid: false, error: "O horário de fim deve ser diferente do início"};
+    }
+
+    slots.push({date: raw.date, startTime, endTime});
+  }
+
+  slots.sort((a, b) => getSlotInterval(a)[0] - getSlotInterval(b)[0]);
+
+  const firstDate = slots[0].date;
+  const lastDate = slots[slots.length - 1].date;
+  if (addDays(firstDate, MAX_BOOKING_SPAN_DAYS) < lastDate) {
+    return {
+      valid: false,
+      error: `As datas da reserva não podem abranger mais de ${MAX_BOOKING_SPAN_DAYS} dias`,
+    };
+  }
+
+  for (let i = 1; i < slots.length; i++) {
+    if (slotsOverlap(slots[i - 1], slots[i])) {
+      return {valid: false, error: "Os horários da reserva sobrepõem-se"};
+    }
+  }
+
+  return {valid: true, slots};
+}
+
+/**
+ * Fetch active bookings of a supplier that may have slots between two dates.
+ * eventDate holds the first slot, so the range is widened by the maximum
+ * booking span (plus one day for slots running past midnight).
+ */
+async function getActiveBookingsInRange(
+    supplierId: string,
+    startDate: string,
+    endDate: string
+): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const rangeStart = addDays(startDate, -(MAX_BOOKING_SPAN_DAYS + 1));
+  const rangeEnd = addDays(endDate, 1);
+
+  const snapshot = await db
+      .collection("bookings")
+      .where("supplierId", "==", supplierId)
+      .where("status", "in", ACTIVE_BOOKING_STATUSES)
+      .where("eventDate", ">=", admin.firestore.Timestamp.fromDate(
+          new Date(rangeStart + "T00:00:00.000Z")
+      ))
+      .where("eventDate", "<=", admin.firestore.Timestamp.fromDate(
+          new Date(rangeEnd + "T23:59:59.999Z")
+      ))
+      .get();
+
+  return snapshot.docs;
+}
+
+/**
+ * Parse a configured capacity (positive integer), null when not set
+ */
+function parseCapacity(value: unknown): number | null {
+  const capacity = typeof value === "number" ? Math.floor(value) : NaN;
+  return capacity >= 1 ? capacity : null;
+}
+
+/**
+ * Get the daily capacity of a supplier (and of a package, when given)
  * @param supplierId - The supplier's ID
- * @param eventDate - The event date (YYYY-MM-DD format)
+ * @param packageId - Optional package ID
+ * @returns Capacity settings (defaults to one booking per day)
+ */
+export async function getCapacitySettings(
+    supplierId: string,
+    packageId?: string
+): Promise<CapacitySettings> {
+  const supplierRef = db.collection("suppliers").doc(supplierId);
+  const [supplierDoc, packageDoc] = await Promise.all([
+    supplierRef.get(),
+    packageId ? supplierRef.collection("packages").doc(packageId).get() : null,
+  ]);
+
+  return {
+    supplierCapacity:
+      parseCapacity(supplierDoc.data()?.dailyCapacity) ?? DEFAULT_DAILY_CAPACITY,
+    packageCapacity: packageDoc?.exists ?
+      parseCapacity(packageDoc.data()?.dailyCapacity) :
+      null,
+  };
+}
+
+/**
+ * Compute the remaining capacity of a slot against already loaded bookings
+ */
+function computeSlotCapacity(
+    slot: BookingSlot,
+    bookings: FirebaseFirestore.QueryDocumentSnapshot[],
+    settings: CapacitySettings,
+    packageId?: string
+): SlotCapacity {
+  const overlapping = bookings.filter((doc) =>
+    getBookingSlots(doc.data()).some((booked) => slotsOverlap(slot, booked))
+  );
+
+  let remaining = settings.supplierCapacity - overlapping.length;
+  let capacity = settings.supplierCapacity;
+
+  if (packageId && settings.packageCapacity !== null) {
+    const packageBooked = overlapping
+        .filter((doc) => doc.data().packageId === packageId)
+        .length;
+    remaining = Math.min(remaining, settings.packageCapacity - packageBooked);
+    capacity = Math.min(capacity, settings.packageCapacity);
+  }
+
+  return {
+    slot,
+    capacity,
+    booked: overlapping.length,
+    remaining: Math.max(0, remaining),
+  };
+}
+
+/**
+ * Get the remaining capacity for each requested slot
+ * @param supplierId - The supplier's ID
+ * @param slots - The requested slots
+ * @param options - Package to apply its own limit, booking to exclude
+ * @returns One entry per slot, in the same order
+ */
+export async function getSlotCapacities(
+    supplierId: string,
+    slots: BookingSlot[],
+    options: {packageId?: string; excludeBookingId?: string} = {}
+): Promise<SlotCapacity[]> {
+  if (slots.length === 0) return [];
+
+  const dates = slots.map((slot) => slot.date).sort();
+  const [settings, docs] = await Promise.all([
+    getCapacitySettings(supplierId, options.packageId),
+    getActiveBookingsInRange(supplierId, dates[0], dates[dates.length - 1]),
+  ]);
+
+  const bookings = docs.filter((doc) => doc.id !== options.excludeBookingId);
+
+  return slots.map((slot) =>
+    computeSlotCapacity(slot, bookings, settings, options.packageId)
+  );
+}
+
+/**
+ * Get the remaining whole-day capacity for every date of a range that
+ * has at least one active booking
+ * @param supplierId - The supplier's ID
+ * @param startDate - Start of the range (YYYY-MM-DD)
+ * @param endDate - End of the range (YYYY-MM-DD)
+ * @param packageId - Optional package to apply its own limit
+ * @returns Map of YYYY-MM-DD to capacity info
+ */
+export async function getDailyCapacities(
+    supplierId: string,
+    startDate: string,
+    endDate: string,
+    packageId?: string
+): Promise<Map<string, SlotCapacity>> {
+  const [settings, bookings] = await Promise.all([
+    getCapacitySettings(supplierId, packageId),
+    getActiveBookingsInRange(supplierId, startDate, endDate),
+  ]);
+
+  const dates = new Set<string>();
+  bookings.forEach((doc) => {
+    getBookingSlots(doc.data()).forEach((slot) => {
+      // Slots running past midnight also occupy the next day
+      [slot.date, addDays(slot.date, 1)].forEach((date) => {
+        if (date >= startDate && date <= endDate) dates.add(date);
+      });
+    });
+  });
+
+  const capacities = new Map<string, SlotCapacity>();
+  [...dates].sort().forEach((date) => {
+    const dayCapacity = computeSlotCapacity(
+        {date, startTime: null, endTime: null},
+        bookings,
+        settings,
+        packageId
+    );
+    if (dayCapacity.booked > 0) {
+      capacities.set(date, dayCapacity);
+    }
+  });
+
+  return capacities;
+}
+
+/**
+ * Find which of the requested slots have no capacity left
+ * @param supplierId - The supplier's ID
+ * @param slots - The requested slots
+ * @param excludeBookingId - Optional booking ID to exclude from check
+ * @param packageId - Optional package to apply its own limit
+ * @returns The requested slots that cannot take another booking
+ */
+export async function findConflictingSlots(
+    supplierId: string,
+    slots: BookingSlot[],
+    excludeBookingId?: string,
+    packageId?: string
+): Promise<BookingSlot[]> {
+  const capacities = await getSlotCapacities(supplierId, slots, {
+    packageId,
+    excludeBookingId,
+  });
+
+  return capacities
+      .filter((capacity) => capacity.remaining <= 0)
+      .map((capacity) => capacity.slot);
+}
+
+/**
+ * Check if a supplier has a booking conflict (no capacity left)
+ * @param supplierId - The supplier's ID
+ * @param eventDateOrSlots - A whole day (YYYY-MM-DD) or the requested slots
  * @param excludeBookingId - Optional booking ID to exclude from check
+ * @param packageId - Optional package to apply its own limit
  * @returns true if there's a conflict, false otherwise
  */
 export async function hasBookingConflict(
     supplierId: string,
-    eventDate: string,
-    excludeBookingId?: string
+    eventDateOrSlots: string | BookingSlot[],
+    excludeBookingId?: string,
+    packageId?: string
 ): Promise<boolean> {
-  const conflictQuery = db
-      .collection("bookings")
-      .where("supplierId", "==", supplierId)
-      .where("eventDate", "==", eventDate)
-      .where("status", "in", ACTIVE_BOOKING_STATUSES);
+  const slots = typeof eventDateOrSlots === "string" ?
+    [{date: eventDateOrSlots, startTime: null, endTime: null}] :
+    eventDateOrSlots;
+
+  const conflicts = await findConflictingSlots(
+      supplierId,
+      slots,
+      excludeBookingId,
+      packageId
+  );
+  return conflicts.length > 0;
+}
+
+/**
+ * Get the dates a supplier's recurring availability rules close within a
+ * date range (see availabilityRules)
+ * @param supplierId - The supplier's ID
+ * @param startDate - Start of the range (YYYY-MM-DD)
+ * @param endDate - End of the range (YYYY-MM-DD)
+ * @param options - Rule set to apply instead of the stored one, and a
+ * booking to leave out of max_events counts (e.g. the one being changed)
+ * @returns Closed dates with the rule that closes each
+ */
+export async function getRuleBlockedDates(
+    supplierId: string,
+    startDate: string,
+    endDate: string,
+    options: {availabilityRules?: AvailabilityRules; excludeBookingId?: string} = {}
+): Promise<Map<string, RuleEvaluation>> {
+  const availabilityRules = options.availabilityRules ||
+    await getAvailabilityRules(supplierId);
+  const blocked = new Map<string, RuleEvaluation>();
+
+  if (!hasAvailabilityRules(availabilityRules)) {
+    return blocked;
+  }
 
-  const conflictSnapshot = await conflictQuery.get();
+  let bookedEvents: string[][] = [];
+  if (availabilityRules.rules.some((rule) => rule.type === "max_events")) {
+    const [rangeStart, rangeEnd] = getRulesEvaluationRange(
+        availabilityRules,
+        startDate,
+        endDate
+    );
+    const bookings = await getActiveBookingsInRange(supplierId, rangeStart, rangeEnd);
+    bookedEvents = bookings
+        .filter((doc) => doc.id !== options.excludeBookingId)
+        .map((doc) => getBookingSlots(doc.data()).map((slot) => slot.date));
+  }
 
-  if (excludeBookingId) {
-    return conflictSnapshot.docs.some((doc) => doc.id !== excludeBookingId);
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const evaluation = evaluateAvailabilityRules(availabilityRules, date, bookedEvents);
+    if (evaluation.blocked) {
+      blocked.set(date, evaluation);
+    }
   }
 
-  return !conflictSnapshot.empty;
+  return blocked;
 }
 
 /**
- * Check if a date is blocked by the supplier
+ * Check if a date is blocked by the supplier, explicitly or by one of
+ * their recurring availability rules
  * @param supplierId - The supplier's ID
  * @param eventDate - The event date (YYYY-MM-DD format)
+ * @param excludeBookingId - Optional booking ID to leave out of event limits
  * @returns true if the date is blocked, false otherwise
  */
 export async function isDateBlocked(
     supplierId: string,
-    eventDate: string
+    eventDate: string,
+    excludeBookingId?: string
 ): Promise<boolean> {
   const blockedDoc = await db
       .collection("suppliers")
@@ -77,91 +544,117 @@ export async function isDateBlocked(
       .doc(eventDate)
       .get();
 
-  return blockedDoc.exists;
+  if (blockedDoc.exists) {
+    return true;
+  }
+
+  const ruleBlocked = await getRuleBlockedDates(supplierId, eventDate, eventDate, {
+    excludeBookingId,
+  });
+
+  return ruleBlocked.has(eventDate);
 }
 
 /**
- * Check if a date is available for booking
- * Combines blocked date check and conflict check
+ * Check if a date (or a set of slots) is available for booking
+ * Combines blocked date check and capacity check
  * @param supplierId - The supplier's ID
- * @param eventDate - The event date (YYYY-MM-DD format)
+ * @param eventDateOrSlots - A whole day (YYYY-MM-DD) or the requested slots
  * @param excludeBookingId - Optional booking ID to exclude
+ * @param packageId - Optional package to apply its own limit
  * @returns Object with availability info
  */
 export async function checkDateAvailability(
     supplierId: string,
-    eventDate: string,
-    excludeBookingId?: string
+    eventDateOrSlots: string | BookingSlot[],
+    excludeBookingId?: string,
+    packageId?: string
 ): Promise<{
   available: boolean;
   reason?: string;
+  conflictingSlots?: BookingSlot[];
+  capacity?: number;
+  remainingCapacity?: number;
 }> {
-  // Check if date is blocked
-  const blocked = await isDateBlocked(supplierId, eventDate);
-  if (blocked) {
-    return {
-      available: false,
-      reason: "Esta data está bloqueada pelo fornecedor",
-    };
+  const slots = typeof eventDateOrSlots === "string" ?
+    [{date: eventDateOrSlots, startTime: null, endTime: null}] :
+    eventDateOrSlots;
+
+  // Check if any date is blocked
+  for (const date of new Set(slots.map((slot) => slot.date))) {
+    const blocked = await isDateBlocked(supplierId, date, excludeBookingId);
+    if (blocked) {
+      return {
+        available: false,
+        reason: slots.length > 1 ?
+          `A data ${date} está bloqueada pelo fornecedor` :
+          "Esta data está bloqueada pelo fornecedor",
+      };
+    }
   }
 
-  // Check for existing bookings
-  const hasConflict = await hasBookingConflict(
-      supplierId,
-      eventDate,
-      excludeBookingId
+  // Check remaining capacity against existing bookings
+  const capacities = await getSlotCapacities(supplierId, slots, {
+    packageId,
+    excludeBookingId,
+  });
+  const tightest = capacities.reduce((min, current) =>
+    current.remaining < min.remaining ? current : min
   );
+  const conflictingSlots = capacities
+      .filter((capacity) => capacity.remaining <= 0)
+      .map((capacity) => capacity.slot);
 
-  if (hasConflict) {
+  if (conflictingSlots.length > 0) {
     return {
       available: false,
-      reason: "Já existe uma reserva para esta data",
+      reason: slots.length > 1 ?
+        `Já existe uma reserva para ${conflictingSlots[0].date}` :
+        "Já existe uma reserva para esta data",
+      conflictingSlots,
+      capacity: tightest.capacity,
+      remainingCapacity: 0,
     };
   }
 
-  return {available: true};
+  return {
+    available: true,
+    capacity: tightest.capacity,
+    remainingCapacity: tightest.remaining,
+  };
 }
 
 /**
- * Get all booked dates for a supplier within a date range
+ * Get all fully booked dates for a supplier within a date range
+ * A date is booked once its daily capacity is used up.
  * @param supplierId - The supplier's ID
  * @param startDate - Start of the range (YYYY-MM-DD)
  * @param endDate - End of the range (YYYY-MM-DD)
+ * @param packageId - Optional package to apply its own limit
  * @returns Array of booked dates
  */
 export async function getBookedDates(
     supplierId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    packageId?: string
 ): Promise<string[]> {
-  const bookingsQuery = db
-      .collection("bookings")
-      .where("supplierId", "==", supplierId)
-      .where("eventDate", ">=", startDate)
-      .where("eventDate", "<=", endDate)
-      .where("status", "in", ACTIVE_BOOKING_STATUSES);
-
-  const snapshot = await bookingsQuery.get();
-
-  const bookedDates: string[] = [];
-  snapshot.docs.forEach((doc) => {
-    const booking = doc.data();
-    if (booking.eventDate) {
-      bookedDates.push(booking.eventDate);
-    }
-  });
+  const capacities = await getDailyCapacities(
+      supplierId,
+      startDate,
+      endDate,
+      packageId
+  );
 
-  return bookedDates;
+  return [...capacities.values()]
+      .filter((capacity) => capacity.remaining <= 0)
+      .map((capacity) => capacity.slot.date);
 }
 
 /**
- * Get all blocked dates for a supplier within a date range
- * @param supplierId - The supplier's ID
- * @param startDate - Start of the range (YYYY-MM-DD)
- * @param endDate - End of the range (YYYY-MM-DD)
- * @returns Array of blocked dates
+ * Get the explicitly blocked dates (blockedDates documents) in a date range
  */
-export async function getBlockedDates(
+async function getExplicitBlockedDates(
     supplierId: string,
     startDate: string,
     endDate: string
@@ -178,33 +671,82 @@ export async function getBlockedDates(
   return snapshot.docs.map((doc) => doc.id);
 }
 
+/**
+ * Get all blocked dates for a supplier within a date range
+ * Includes the dates closed by the supplier's availability rules.
+ * @param supplierId - The supplier's ID
+ * @param startDate - Start of the range (YYYY-MM-DD)
+ * @param endDate - End of the range (YYYY-MM-DD)
+ * @returns Array of blocked dates
+ */
+export async function getBlockedDates(
+    supplierId: string,
+    startDate: string,
+    endDate: string
+): Promise<string[]> {
+  const [explicitDates, ruleBlocked] = await Promise.all([
+    getExplicitBlockedDates(supplierId, startDate, endDate),
+    getRuleBlockedDates(supplierId, startDate, endDate),
+  ]);
+
+  return [...new Set([...explicitDates, ...ruleBlocked.keys()])].sort();
+}
+
 /**
  * Get all unavailable dates (booked + blocked) for a supplier
  * @param supplierId - The supplier's ID
  * @param startDate - Start of the range (YYYY-MM-DD)
  * @param endDate - End of the range (YYYY-MM-DD)
- * @returns Object with booked and blocked dates
+ * @param packageId - Optional package to apply its own limit
+ * @param availabilityRules - Optional rule set to apply instead of the
+ * stored one (to preview changes)
+ * @returns Object with booked and blocked dates, the reason for each date
+ * closed by a rule, plus remaining capacity for dates that are partially
+ * booked
  */
 export async function getUnavailableDates(
     supplierId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    packageId?: string,
+    availabilityRules?: AvailabilityRules
 ): Promise<{
   bookedDates: string[];
   blockedDates: string[];
+  ruleBlockedDates: Record<string, {ruleId: string | null; reason: string}>;
   allUnavailable: string[];
+  remainingCapacity: Record<string, number>;
 }> {
-  const [bookedDates, blockedDates] = await Promise.all([
-    getBookedDates(supplierId, startDate, endDate),
-    getBlockedDates(supplierId, startDate, endDate),
+  const [capacities, explicitDates, ruleBlocked] = await Promise.all([
+    getDailyCapacities(supplierId, startDate, endDate, packageId),
+    getExplicitBlockedDates(supplierId, startDate, endDate),
+    getRuleBlockedDates(supplierId, startDate, endDate, {availabilityRules}),
   ]);
 
+  const blockedDates = [...new Set([...explicitDates, ...ruleBlocked.keys()])].sort();
+  const ruleBlockedDates: Record<string, {ruleId: string | null; reason: string}> = {};
+  ruleBlocked.forEach((evaluation, date) => {
+    ruleBlockedDates[date] = {ruleId: evaluation.ruleId, reason: evaluation.reason};
+  });
+
+  const bookedDates: string[] = [];
+  const remainingCapacity: Record<string, number> = {};
+  capacities.forEach((capacity, date) => {
+    if (capacity.remaining <= 0) {
+      bookedDates.push(date);
+    } else {
+      remainingCapacity[date] = capacity.remaining;
+    }
+  });
+
   const allUnavailable = [...new Set([...bookedDates, ...blockedDates])].sort();
 
   return {
     bookedDates,
     blockedDates,
+    ruleBlockedDates,
     allUnavailable,
+    remainingCapacity,
   };
 }
 
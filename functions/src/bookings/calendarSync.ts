@@ -0,0 +1,712 @@
+/**
+ * Calendar Sync - ICS Feed and Import
+ *
+ * Export: each supplier can get a secret feed URL (getCalendarFeedUrl)
+ * that calendar apps (Google, Apple, Outlook) subscribe to. The feed
+ * (supplierCalendarFeed) lists confirmed and in-progress bookings, one
+ * event per slot, and blocked dates, including dates closed by
+ * availability rules. Rotating the token invalidates the old URL.
+ * Tokens live in calendar_feeds/{supplierId} (server-only).
+ *
+ * Import: importCalendar reads an uploaded ICS document or a linked
+ * calendar URL and blocks the dates its busy events take
+ * (suppliers/{id}/blocked_dates/{YYYY-MM-DD}, source "ics_import").
+ * Each calendar is a source; re-importing it adds new busy dates and
+ * removes the blocks of dates no longer busy, so nothing is duplicated.
+ * Dates the supplier blocked by hand are left alone, and imported blocks
+ * are not exported back through the feed.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import * as dns from "dns";
+import * as net from "net";
+import {Agent, fetch, Response} from "undici";
+import {
+  wrapHandler,
+  wrapHttpHandler,
+  AppError,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {SupplierLogger} from "../common/logger";
+import {
+  MAX_BOOKING_SPAN_DAYS,
+  dateKeyToTimestamp,
+  getBlockedDates,
+  getBookingSlots,
+  toDateKey,
+} from "./bookingUtils";
+import {
+  IcsEvent,
+  getEventBusyDates,
+  isSupportedRecurrence,
+  parseIcsEvents,
+  renderIcsCalendar,
+} from "./icsFormat";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const CALENDAR_FEED_URL = process.env.CALENDAR_FEED_URL ||
+  "https://us-central1-boda-connect-49eb9.cloudfunctions.net/supplierCalendarFeed";
+
+const FEED_BOOKING_STATUSES = ["confirmed", "inProgress"];
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const IMPORT_DAYS = 365;
+const MAX_ICS_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_BATCH_WRITES = 400;
+
+// blocked_dates is publicly readable - never copy event details into it
+const IMPORTED_BLOCK_REASON = "Ocupado (calendário externo)";
+
+// ==================== HELPERS ====================
+
+function shiftDate(dateKey: string, days: number): string {
+  return new Date(Date.parse(dateKey + "T00:00:00.000Z") + days * MS_PER_DAY)
+      .toISOString()
+      .slice(0, 10);
+}
+
+function buildFeedUrl(supplierId: string, token: string): string {
+  const query = new URLSearchParams({supplier: supplierId, token});
+  return `${CALENDAR_FEED_URL}?${query}`;
+}
+
+function tokensMatch(expected: unknown, received: string): boolean {
+  if (typeof expected !== "string" || !received) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return expectedBuffer.length === receivedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+/**
+ * Find the supplier profile of the caller
+ */
+async function getCallerSupplier(
+    callerId: string,
+    errorContext: ErrorContext
+): Promise<FirebaseFirestore.QueryDocumentSnapshot> {
+  const supplierQuery = await db
+      .collection("suppliers")
+      .where("userId", "==", callerId)
+      .limit(1)
+      .get();
+
+  if (supplierQuery.empty) {
+    throw Errors.permissionDenied(
+        errorContext,
+        `No supplier profile for ${callerId}`,
+        "Perfil de fornecedor não encontrado"
+    );
+  }
+
+  return supplierQuery.docs[0];
+}
+
+/**
+ * Build the feed events: booking slots and blocked dates in the feed window
+ */
+async function buildFeedEvents(supplierId: string, today: string): Promise<IcsEvent[]> {
+  const startDate = shiftDate(today, -FEED_PAST_DAYS);
+  const endDate = shiftDate(today, FEED_FUTURE_DAYS);
+
+  const [bookingsSnapshot, blockedDatesSnapshot, blockedDateKeys] = await Promise.all([
+    db
+        .collection("bookings")
+        .where("supplierId", "==", supplierId)
+        .where("status", "in", FEED_BOOKING_STATUSES)
+        .where("eventDate", ">=", dateKeyToTimestamp(shiftDate(startDate, -MAX_BOOKING_SPAN_DAYS)))
+        .where("eventDate", "<=", dateKeyToTimestamp(endDate))
+        .get(),
+    db
+        .collection("suppliers")
+        .doc(supplierId)
+        .collection("blocked_dates")
+        .where("date", ">=", dateKeyToTimestamp(startDate))
+        .where("date", "<=", dateKeyToTimestamp(endDate))
+        .get(),
+    getBlockedDates(supplierId, startDate, endDate),
+  ]);
+
+  const events: IcsEvent[] = [];
+
+  for (const doc of bookingsSnapshot.docs) {
+    const booking = doc.data();
+    const title = booking.eventName || booking.packageName || "Reserva";
+    const description = [
+      `Cliente: ${booking.clientName || "Cliente"}`,
+      booking.packageName ? `Pacote: ${booking.packageName}` : null,
+      booking.guestCount ? `Convidados: ${booking.guestCount}` : null,
+      `Reserva: ${doc.id}`,
+    ].filter((line) => line !== null).join("\n");
+
+    getBookingSlots(booking).forEach((slot, slotIndex) => {
+      if (slot.date < startDate || slot.date > endDate) return;
+
+      events.push({
+        uid: `booking-${doc.id}-${slotIndex}@bodaconnect`,
+        summary: `${title} - ${booking.clientName || "Cliente"}`,
+        description,
+        location: booking.eventLocation || null,
+        date: slot.date,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        status: "CONFIRMED",
+      });
+    });
+  }
+
+  // "reserved"/"requested" entries mirror bookings; imported blocks came
+  // from the supplier's own calendar
+  const blockedDates = new Set(blockedDateKeys);
+  blockedDatesSnapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    const type = data.type || "blocked";
+    const dateKey = toDateKey(data.date);
+    if (dateKey && data.source !== "ics_import" &&
+        (type === "blocked" || type === "unavailable")) {
+      blockedDates.add(dateKey);
+    }
+  });
+
+  [...blockedDates].sort().forEach((date) => {
+    events.push({
+      uid: `blocked-${supplierId}-${date}@bodaconnect`,
+      summary: "Indisponível",
+      description: null,
+      location: null,
+      date,
+      startTime: null,
+      endTime: null,
+      status: "CONFIRMED",
+    });
+  });
+
+  return events.sort((a, b) =>
+    a.date.localeCompare(b.date) || (a.startTime || "").localeCompare(b.startTime || "")
+  );
+}
+
+/**
+ * Whether an address is reachable on the public internet
+ * Private, loopback, link-local (incl. the 169.254.169.254 metadata
+ * server), shared (CGNAT), multicast and reserved ranges are not, nor are
+ * IPv6 ranges that embed an IPv4 address (NAT64, 6to4).
+ */
+export function isPublicAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return !(
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+      return isPublicAddress(mapped[1]);
+    }
+
+    // IPv4-mapped in hex form, as URL parsing writes it (::ffff:a00:1)
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPublicAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return !(
+      normalized === "::" || normalized === "::1" ||
+      /^f[cd]/.test(normalized) || // Unique local
+      /^fe[89ab]/.test(normalized) || // Link-local
+      /^ff/.test(normalized) || // Multicast
+      /^64:ff9b:/.test(normalized) || // NAT64 (64:ff9b::/96, 64:ff9b:1::/48)
+      /^2002:/.test(normalized) // 6to4
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Reject links to hosts that resolve to internal addresses, so a calendar
+ * link cannot be used to reach the project's own network
+ */
+async function assertPublicHost(hostname: string, errorContext: ErrorContext): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, {all: true})).map((entry) => entry.address);
+    } catch {
+      throw Errors.failedPrecondition(
+          errorContext,
+          `Calendar host not found: ${host}`,
+          "Não foi possível descarregar o calendário. Verifique o link"
+      );
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw Errors.invalidArgument(errorContext, "url", "Link de calendário não permitido");
+  }
+}
+
+/**
+ * A calendar host resolved to an internal address when connecting
+ */
+class BlockedAddressError extends Error {}
+
+/**
+ * DNS lookup for calendar downloads that only returns public addresses
+ * The connection uses the addresses checked here, so a host cannot pass
+ * assertPublicHost and then resolve to an internal address (DNS rebinding).
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, {...options, all: true}, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (addresses.length === 0 || blocked) {
+      callback(new BlockedAddressError(`Calendar host ${hostname} resolved to ${blocked?.address}`), "");
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Connections for calendar downloads (see publicLookup)
+ */
+const calendarAgent = new Agent({connect: {lookup: publicLookup}});
+
+/**
+ * Download a linked calendar
+ * Redirects are not followed (the target was not checked) and the body is
+ * read only up to MAX_ICS_BYTES, whatever Content-Length says.
+ */
+async function fetchCalendar(url: string, errorContext: ErrorContext): Promise<string> {
+  await assertPublicHost(new URL(url).hostname, errorContext);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "GET",
+      headers: {"Accept": "text/calendar"},
+      redirect: "manual",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      dispatcher: calendarAgent,
+    });
+  } catch (error) {
+    // fetch wraps connection errors ("fetch failed", cause = the lookup error)
+    if ((error as {cause?: unknown}).cause instanceof BlockedAddressError) {
+      throw Errors.invalidArgument(errorContext, "url", "Link de calendário não permitido");
+    }
+    throw Errors.unavailable(
+        errorContext,
+        `Calendar fetch failed: ${error instanceof Error ? error.message : String(error)}`,
+        "Não foi possível descarregar o calendário"
+    );
+  }
+
+  if (response.status >= 300 && response.status < 400) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Calendar fetch redirected (${response.status})`,
+        "O link do calendário redireciona para outro endereço. Use o link final"
+    );
+  }
+
+  if (!response.ok) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Calendar fetch returned ${response.status}`,
+        "Não foi possível descarregar o calendário. Verifique o link"
+    );
+  }
+
+  if (Number(response.headers.get("content-length") || 0) > MAX_ICS_BYTES || !response.body) {
+    await response.body?.cancel();
+    throw Errors.invalidArgument(errorContext, "url", "Calendário demasiado grande");
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let byteCount = 0;
+
+  try {
+    for (;;) {
+      const {done, value} = await reader.read();
+      if (done) break;
+
+      byteCount += value.byteLength;
+      if (byteCount > MAX_ICS_BYTES) {
+        await reader.cancel();
+        throw Errors.invalidArgument(errorContext, "url", "Calendário demasiado grande");
+      }
+      chunks.push(Buffer.from(value));
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw Errors.unavailable(
+        errorContext,
+        `Calendar download failed: ${error instanceof Error ? error.message : String(error)}`,
+        "Não foi possível descarregar o calendário"
+    );
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// ==================== FEED ====================
+
+/**
+ * Get the caller's calendar feed URL, creating the feed on first use
+ * rotate: true issues a new token - the previous URL stops working.
+ */
+export const getCalendarFeedUrl = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "getCalendarFeedUrl",
+            async (
+                data: {rotate?: boolean},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = SupplierLogger("getCalendarFeedUrl").setContext(errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const callerId = context.auth.uid;
+              const supplierDoc = await getCallerSupplier(callerId, errorContext);
+              const feedRef = db.collection("calendar_feeds").doc(supplierDoc.id);
+              const feedDoc = await feedRef.get();
+              const existingToken = feedDoc.data()?.token;
+
+              if (existingToken && data?.rotate !== true) {
+                return {
+                  success: true,
+                  feedUrl: buildFeedUrl(supplierDoc.id, existingToken),
+                  rotated: false,
+                };
+              }
+
+              const token = crypto.randomBytes(24).toString("hex");
+              const now = admin.firestore.FieldValue.serverTimestamp();
+
+              await feedRef.set({
+                supplierId: supplierDoc.id,
+                token,
+                createdAt: feedDoc.exists ? feedDoc.data()?.createdAt || now : now,
+                rotatedAt: existingToken ? now : null,
+                lastAccessedAt: null,
+              }, {merge: true});
+
+              if (existingToken) {
+                await db.collection("audit_logs").add({
+                  category: "security",
+                  eventType: "calendarFeedTokenRotated",
+                  userId: callerId,
+                  resourceId: supplierDoc.id,
+                  resourceType: "supplier",
+                  previousValue: null,
+                  newValue: null,
+                  description: "Calendar feed token rotated",
+                  metadata: {supplierId: supplierDoc.id},
+                  timestamp: now,
+                });
+              }
+
+              logger.info("calendar_feed_token_issued", {
+                supplierId: supplierDoc.id,
+                rotated: Boolean(existingToken),
+              });
+
+              return {
+                success: true,
+                feedUrl: buildFeedUrl(supplierDoc.id, token),
+                rotated: Boolean(existingToken),
+              };
+            }
+        )
+    );
+
+/**
+ * Supplier Calendar Feed - HTTP Cloud Function
+ *
+ * GET ?supplier=<supplierId>&token=<token> returns the supplier's agenda
+ * as text/calendar. Unknown suppliers and wrong tokens get the same 404.
+ */
+export const supplierCalendarFeed = functions
+    .region(REGION)
+    .https.onRequest(
+        wrapHttpHandler("supplierCalendarFeed", async (req, res, errorContext) => {
+          if (req.method !== "GET" && req.method !== "HEAD") {
+            res.status(405).send("Method not allowed");
+            return;
+          }
+
+          const supplierId = typeof req.query.supplier === "string" ? req.query.supplier : "";
+          const token = typeof req.query.token === "string" ? req.query.token : "";
+
+          const feedDoc = supplierId ?
+            await db.collection("calendar_feeds").doc(supplierId).get() :
+            null;
+          if (!feedDoc?.exists || !tokensMatch(feedDoc.data()?.token, token)) {
+            throw Errors.notFound(errorContext, "Calendário", supplierId || undefined);
+          }
+
+          const supplierDoc = await db.collection("suppliers").doc(supplierId).get();
+          const supplier = supplierDoc.data() || {};
+          const now = new Date();
+          const events = await buildFeedEvents(supplierId, now.toISOString().slice(0, 10));
+
+          await feedDoc.ref.update({
+            lastAccessedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+
+          res.set("Content-Type", "text/calendar; charset=utf-8");
+          res.set("Content-Disposition", "inline; filename=\"agenda.ics\"");
+          res.set("Cache-Control", "private, max-age=900");
+          res.status(200).send(renderIcsCalendar(
+              `Boda Connect - ${supplier.businessName || supplier.name || "Agenda"}`,
+              events,
+              now
+          ));
+        })
+    );
+
+// ==================== IMPORT ====================
+
+interface ImportCalendarRequest {
+  icsContent?: string; // Uploaded .ics document
+  url?: string; // Linked calendar (https:// or webcal://)
+  name?: string; // Name of the source (uploads with the same name replace each other)
+}
+
+/**
+ * Import the busy dates of a calendar as blocked dates
+ * Only dates from today to one year ahead are imported.
+ */
+export const importCalendar = functions
+    .region(REGION)
+    .runWith({
+      timeoutSeconds: 120,
+    })
+    .https.onCall(
+        wrapHandler(
+            "importCalendar",
+            async (
+                data: ImportCalendarRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = SupplierLogger("importCalendar").setContext(errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const callerId = context.auth.uid;
+              const hasContent = typeof data.icsContent === "string" && data.icsContent.length > 0;
+              const hasUrl = typeof data.url === "string" && data.url.trim().length > 0;
+
+              if (hasContent === hasUrl) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "icsContent",
+                    "Envie o ficheiro .ics ou o link do calendário"
+                );
+              }
+
+              let url: string | null = null;
+              if (hasUrl) {
+                url = (data.url as string).trim().replace(/^webcal:\/\//i, "https://");
+                let parsedUrl: URL | null = null;
+                try {
+                  parsedUrl = new URL(url);
+                } catch {
+                  parsedUrl = null;
+                }
+                if (!parsedUrl || parsedUrl.protocol !== "https:") {
+                  throw Errors.invalidArgument(errorContext, "url", "Use um link https:// ou webcal://");
+                }
+              }
+
+              if (hasContent && Buffer.byteLength(data.icsContent as string) > MAX_ICS_BYTES) {
+                throw Errors.invalidArgument(errorContext, "icsContent", "Calendário demasiado grande");
+              }
+
+              const supplierDoc = await getCallerSupplier(callerId, errorContext);
+              const supplierId = supplierDoc.id;
+
+              const content = url ?
+                await fetchCalendar(url, errorContext) :
+                data.icsContent as string;
+              if (Buffer.byteLength(content) > MAX_ICS_BYTES) {
+                throw Errors.invalidArgument(errorContext, "url", "Calendário demasiado grande");
+              }
+              if (!/BEGIN:VCALENDAR/i.test(content)) {
+                throw Errors.invalidArgument(errorContext, "icsContent", "Não é um calendário .ics válido");
+              }
+
+              // ========== BUSY DATES ==========
+              const today = new Date().toISOString().slice(0, 10);
+              const windowEnd = shiftDate(today, IMPORT_DAYS);
+              const events = parseIcsEvents(content);
+
+              const busyDates = new Set<string>();
+              let unsupportedRecurrences = 0;
+              for (const event of events) {
+                if (event.rrule && !isSupportedRecurrence(event.rrule)) {
+                  unsupportedRecurrences++;
+                }
+                getEventBusyDates(event, today, windowEnd).forEach((date) => busyDates.add(date));
+              }
+
+              const name = typeof data.name === "string" && data.name.trim() ?
+                data.name.trim().slice(0, 100) :
+                (url ? new URL(url).hostname : "Calendário importado");
+              const sourceId = crypto
+                  .createHash("sha256")
+                  .update(url || `upload:${name}`)
+                  .digest("hex")
+                  .slice(0, 20);
+
+              // ========== RECONCILE BLOCKED DATES ==========
+              const blockedDatesRef = db
+                  .collection("suppliers")
+                  .doc(supplierId)
+                  .collection("blocked_dates");
+              const existingSnapshot = await blockedDatesRef
+                  .where("date", ">=", dateKeyToTimestamp(today))
+                  .where("date", "<=", dateKeyToTimestamp(windowEnd))
+                  .get();
+
+              const importedByDate = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+              const manualDates = new Set<string>();
+              existingSnapshot.docs.forEach((doc) => {
+                const existing = doc.data();
+                const dateKey = toDateKey(existing.date);
+                if (!dateKey) return;
+
+                if (existing.source === "ics_import") {
+                  importedByDate.set(dateKey, doc);
+                } else if (existing.type !== "reserved" && existing.type !== "requested") {
+                  manualDates.add(dateKey);
+                }
+              });
+
+              const now = admin.firestore.FieldValue.serverTimestamp();
+              const writes: Array<(batch: FirebaseFirestore.WriteBatch) => void> = [];
+              let added = 0;
+              let removed = 0;
+              let skipped = 0;
+
+              for (const date of [...busyDates].sort()) {
+                if (manualDates.has(date)) {
+                  skipped++;
+                  continue;
+                }
+
+                const imported = importedByDate.get(date);
+                if (imported) {
+                  if (!(imported.data().importSources || []).includes(sourceId)) {
+                    writes.push((batch) => batch.update(imported.ref, {
+                      importSources: admin.firestore.FieldValue.arrayUnion(sourceId),
+                      updatedAt: now,
+                    }));
+                  }
+                  continue;
+                }
+
+                writes.push((batch) => batch.set(blockedDatesRef.doc(date), {
+                  date: dateKeyToTimestamp(date),
+                  type: "blocked",
+                  reason: IMPORTED_BLOCK_REASON,
+                  source: "ics_import",
+                  importSources: [sourceId],
+                  createdAt: now,
+                  updatedAt: now,
+                }));
+                added++;
+              }
+
+              importedByDate.forEach((doc, date) => {
+                const sources: string[] = doc.data().importSources || [];
+                if (busyDates.has(date) || !sources.includes(sourceId)) return;
+
+                if (sources.length > 1) {
+                  writes.push((batch) => batch.update(doc.ref, {
+                    importSources: admin.firestore.FieldValue.arrayRemove(sourceId),
+                    updatedAt: now,
+                  }));
+                } else {
+                  writes.push((batch) => batch.delete(doc.ref));
+                  removed++;
+                }
+              });
+
+              for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+                const batch = db.batch();
+                writes.slice(i, i + MAX_BATCH_WRITES).forEach((write) => write(batch));
+                await batch.commit();
+              }
+
+              const result = {
+                sourceId,
+                name,
+                eventCount: events.length,
+                busyDateCount: busyDates.size,
+                added,
+                removed,
+                skipped,
+                unsupportedRecurrences,
+              };
+
+              await db.collection("calendar_imports").doc(`${supplierId}_${sourceId}`).set({
+                supplierId,
+                ...result,
+                type: url ? "url" : "upload",
+                url,
+                importedBy: callerId,
+                lastImportedAt: now,
+              }, {merge: true});
+
+              logger.info("calendar_imported", {supplierId, ...result});
+
+              return {
+                success: true,
+                ...result,
+              };
+            }
+        )
+    );
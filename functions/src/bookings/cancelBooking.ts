@@ -2,9 +2,12 @@ import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
 import {canCancel} from "./bookingStateMachine";
 import {
-  getEscrowByBookingId,
-  refundEscrow,
+  getHeldEscrowsByBookingId,
+  splitEscrow,
 } from "../finance/escrowService";
+import {calculateCancellationRefund} from "./cancellationPolicy";
+import {getBookingSlots} from "./bookingUtils";
+import {offerWaitlistSpots} from "./waitlist";
 
 const db = admin.firestore();
 const REGION = "us-central1";
@@ -22,6 +25,23 @@ interface CancelBookingResponse {
   errorCode?: string;
 }
 
+/**
+ * Whether a booking's held funds are under a client dispute or a chargeback
+ *
+ * @param booking - Booking document data
+ * @param heldEscrows - The booking's funded, service completed and disputed escrows
+ */
+export function hasOpenDispute(
+    booking: FirebaseFirestore.DocumentData,
+    heldEscrows: FirebaseFirestore.DocumentData[]
+): boolean {
+  if (booking.disputeId && booking.disputeStatus !== "resolved") {
+    return true;
+  }
+
+  return heldEscrows.some((escrow) => escrow.status === "disputed");
+}
+
 /**
  * Cancel Booking - Callable Cloud Function
  *
@@ -29,11 +49,12 @@ interface CancelBookingResponse {
  * 1. Validates the caller is authenticated
  * 2. Validates the booking exists
  * 3. Validates the caller is a participant (client, supplier) or admin
- * 4. Validates the booking can be cancelled (using state machine)
- * 5. Updates the booking status to cancelled with audit trail
- *
- * NOTE: This function does NOT handle refunds. Refund logic will be
- * implemented in Phase 2.3B (Escrow/Refund Authority).
+ * 4. Validates the booking can be cancelled (using state machine) and
+ *    has no open dispute or chargeback
+ * 5. Applies the cancellation policy snapshotted on the booking
+ * 6. Updates the booking status to cancelled with audit trail
+ * 7. Splits held escrow between client refund and supplier compensation
+ * 8. Offers the freed dates to waitlisted clients
  */
 export const cancelBooking = functions
     .region(REGION)
@@ -114,6 +135,19 @@ export const cancelBooking = functions
           );
         }
 
+        // Funds under a client dispute or a chargeback are settled by
+        // resolveDispute or the card network, not the cancellation policy
+        const heldEscrows = await getHeldEscrowsByBookingId(
+            data.bookingId,
+            ["funded", "service_completed", "disputed"]
+        );
+        if (hasOpenDispute(booking, heldEscrows)) {
+          throw new functions.https.HttpsError(
+              "failed-precondition",
+              "Esta reserva tem uma disputa em curso. Só pode ser cancelada após a decisão."
+          );
+        }
+
         // 7. Build the update
         const now = admin.firestore.FieldValue.serverTimestamp();
         const updates: Record<string, unknown> = {
@@ -124,19 +158,42 @@ export const cancelBooking = functions
           updatedBy: callerId,
         };
 
+        // Stop installment reminders
+        if (booking.paymentSchedule) {
+          updates["paymentSchedule.nextDueDate"] = null;
+        }
+
         // Add cancellation reason if provided
         if (data.reason) {
           updates.cancellationReason = data.reason;
         }
 
         // Determine canceller role for tracking
-        if (isClient) {
-          updates.cancelledByRole = "client";
-        } else if (isSupplierUser) {
-          updates.cancelledByRole = "supplier";
-        } else if (isAdmin) {
-          updates.cancelledByRole = "admin";
-        }
+        const cancelledByRole: "client" | "supplier" | "admin" =
+          isClient ? "client" : isSupplierUser ? "supplier" : "admin";
+        updates.cancelledByRole = cancelledByRole;
+
+        // Apply the cancellation policy to funds held in escrow
+        const refundTerms = calculateCancellationRefund(
+            booking.cancellationPolicy,
+            booking.eventDate?.toDate?.() || new Date(),
+            new Date(),
+            cancelledByRole
+        );
+        const escrowRefunds = heldEscrows.map((escrow) => {
+          const escrowTotal = escrow.totalAmount || 0;
+          const refundAmount = Math.round(escrowTotal * refundTerms.refundPercent / 100);
+          return {escrow, refundAmount};
+        });
+        const heldAmount = heldEscrows.reduce((sum, escrow) => sum + (escrow.totalAmount || 0), 0);
+        const clientRefundAmount = escrowRefunds.reduce((sum, item) => sum + item.refundAmount, 0);
+
+        updates.cancellationRefund = {
+          ...refundTerms,
+          heldAmount,
+          refundAmount: clientRefundAmount,
+          retainedAmount: heldAmount - clientRefundAmount,
+        };
 
         // 8. Update the booking
         await bookingRef.update(updates);
@@ -145,33 +202,33 @@ export const cancelBooking = functions
             `Booking ${data.bookingId} cancelled: ${currentStatus} → cancelled by ${callerId}`
         );
 
-        // 9. Handle escrow refund if applicable
-        // When a booking is cancelled, any funded escrow should be refunded to the client
-        const escrow = await getEscrowByBookingId(data.bookingId);
-        if (escrow) {
-          const refundableStatuses = ["funded", "service_completed", "disputed"];
-          if (refundableStatuses.includes(escrow.status)) {
-            try {
-              const cancelledByRole = isClient ? "client" : isSupplierUser ? "supplier" : "admin";
-              const refundReason = data.reason ||
-                `Booking cancelled by ${cancelledByRole}`;
-
-              await refundEscrow(escrow.id, `${cancelledByRole}:${callerId}`, refundReason);
-
-              console.log(
-                  `Escrow ${escrow.id} refunded for cancelled booking ${data.bookingId}`
-              );
-            } catch (escrowError) {
-              // Log error but don't fail the cancellation
-              // Admin will need to manually process the refund
-              console.error(
-                  `Error refunding escrow for cancelled booking ${data.bookingId}:`,
-                  escrowError
-              );
-            }
-          } else {
+        // 9. Split held escrow according to the cancellation policy
+        // Client refund goes back through the escrow service, the retained
+        // part is released to the supplier as compensation
+        let supplierCompensation = 0;
+        const refundReason = data.reason ||
+          `Booking cancelled by ${cancelledByRole}`;
+
+        for (const {escrow, refundAmount} of escrowRefunds) {
+          try {
+            const split = await splitEscrow(
+                escrow.id,
+                refundAmount,
+                `${cancelledByRole}:${callerId}`,
+                refundReason
+            );
+            supplierCompensation += split.supplierCompensation;
+
             console.log(
-                `Escrow ${escrow.id} not refundable (status: ${escrow.status})`
+                `Escrow ${escrow.id} settled for cancelled booking ${data.bookingId}: ` +
+                `refund ${refundAmount} of ${escrow.totalAmount}`
+            );
+          } catch (escrowError) {
+            // Log error but don't fail the cancellation
+            // Admin will need to manually process the refund
+            console.error(
+                `Error settling escrow ${escrow.id} for cancelled booking ${data.bookingId}:`,
+                escrowError
             );
           }
         }
@@ -185,14 +242,20 @@ export const cancelBooking = functions
           resourceType: "booking",
           previousValue: currentStatus,
           newValue: "cancelled",
-          description: `Booking cancelled by ${isClient ? "client" : isSupplierUser ? "supplier" : "admin"}`,
+          description: `Booking cancelled by ${cancelledByRole}`,
           metadata: {
             bookingId: data.bookingId,
             clientId: booking.clientId,
             supplierId: booking.supplierId,
             reason: data.reason || null,
-            cancelledByRole: isClient ? "client" : isSupplierUser ? "supplier" : "admin",
+            cancelledByRole,
             isAdmin,
+            policyType: refundTerms.policyType,
+            daysBeforeEvent: refundTerms.daysBeforeEvent,
+            refundPercent: refundTerms.refundPercent,
+            heldAmount,
+            refundAmount: clientRefundAmount,
+            supplierCompensation,
           },
           timestamp: now,
         });
@@ -221,6 +284,17 @@ export const cancelBooking = functions
           });
         }
 
+        // 12. Offer the freed dates to waitlisted clients
+        try {
+          await offerWaitlistSpots(
+              booking.supplierId,
+              getBookingSlots(booking).map((slot) => slot.date)
+          );
+        } catch (waitlistError) {
+          // The next cancellation or hold expiry retries the offer
+          console.error(`Error offering waitlist spots for ${data.bookingId}:`, waitlistError);
+        }
+
         return {
           success: true,
           bookingId: data.bookingId,
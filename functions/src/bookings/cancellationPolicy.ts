@@ -0,0 +1,238 @@
+/**
+ * Cancellation Policies
+ *
+ * Suppliers pick one of the standard policies below. The policy in force
+ * is snapshotted onto the booking at creation, so later policy changes
+ * never affect existing bookings.
+ *
+ * When a CLIENT cancels, the refund percentage comes from the first tier
+ * whose minDaysBefore is met. When the SUPPLIER or an ADMIN cancels, the
+ * client is always refunded in full.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {SupplierLogger} from "../common/logger";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+const FUNCTION_NAME = "setCancellationPolicy";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ==================== TYPES ====================
+
+export type CancellationPolicyType = "flexible" | "moderate" | "strict";
+
+/**
+ * Refund tier - applies when the event is at least minDaysBefore days away
+ */
+export interface CancellationTier {
+  minDaysBefore: number;
+  refundPercent: number;
+}
+
+/**
+ * Policy as stored on suppliers and snapshotted on bookings
+ */
+export interface CancellationPolicy {
+  type: CancellationPolicyType;
+  tiers: CancellationTier[]; // Sorted by minDaysBefore DESC
+}
+
+/**
+ * Outcome of applying a policy to a cancellation
+ */
+export interface CancellationRefundTerms {
+  policyType: CancellationPolicyType | null;
+  cancelledByRole: "client" | "supplier" | "admin";
+  daysBeforeEvent: number;
+  refundPercent: number;
+}
+
+// ==================== POLICIES ====================
+
+export const CANCELLATION_POLICIES: Record<CancellationPolicyType, CancellationPolicy> = {
+  flexible: {
+    type: "flexible",
+    tiers: [
+      {minDaysBefore: 1, refundPercent: 100},
+      {minDaysBefore: 0, refundPercent: 50},
+    ],
+  },
+  moderate: {
+    type: "moderate",
+    tiers: [
+      {minDaysBefore: 7, refundPercent: 100},
+      {minDaysBefore: 2, refundPercent: 50},
+      {minDaysBefore: 0, refundPercent: 0},
+    ],
+  },
+  strict: {
+    type: "strict",
+    tiers: [
+      {minDaysBefore: 30, refundPercent: 100},
+      {minDaysBefore: 14, refundPercent: 50},
+      {minDaysBefore: 0, refundPercent: 0},
+    ],
+  },
+};
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicyType = "moderate";
+
+/**
+ * Check if a value is a valid policy type
+ */
+export function isValidCancellationPolicy(value: unknown): value is CancellationPolicyType {
+  return typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(CANCELLATION_POLICIES, value);
+}
+
+/**
+ * Build the policy snapshot stored on a booking
+ * Falls back to the default policy when the supplier has not picked one.
+ *
+ * @param supplierPolicy - suppliers/{id}.cancellationPolicy
+ */
+export function snapshotCancellationPolicy(supplierPolicy: unknown): CancellationPolicy {
+  const type = isValidCancellationPolicy(supplierPolicy) ?
+    supplierPolicy :
+    DEFAULT_CANCELLATION_POLICY;
+
+  const policy = CANCELLATION_POLICIES[type];
+  return {
+    type: policy.type,
+    tiers: policy.tiers.map((tier) => ({...tier})),
+  };
+}
+
+/**
+ * Work out how much of the paid amount goes back to the client
+ *
+ * Bookings created before policies existed carry no snapshot and keep
+ * the previous behaviour (full refund).
+ *
+ * @param policy - Snapshot stored on the booking (may be missing)
+ * @param eventDate - Start of the event
+ * @param cancelledAt - Moment of cancellation
+ * @param cancelledByRole - Who cancelled
+ */
+export function calculateCancellationRefund(
+    policy: CancellationPolicy | null | undefined,
+    eventDate: Date,
+    cancelledAt: Date,
+    cancelledByRole: "client" | "supplier" | "admin"
+): CancellationRefundTerms {
+  const daysBeforeEvent = Math.max(
+      0,
+      Math.floor((eventDate.getTime() - cancelledAt.getTime()) / MS_PER_DAY)
+  );
+
+  const base = {
+    policyType: policy?.type || null,
+    cancelledByRole,
+    daysBeforeEvent,
+  };
+
+  if (cancelledByRole !== "client" || !policy || !Array.isArray(policy.tiers)) {
+    return {...base, refundPercent: 100};
+  }
+
+  const tier = [...policy.tiers]
+      .sort((a, b) => b.minDaysBefore - a.minDaysBefore)
+      .find((t) => daysBeforeEvent >= t.minDaysBefore);
+
+  return {
+    ...base,
+    refundPercent: Math.min(100, Math.max(0, tier?.refundPercent ?? 0)),
+  };
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Set Cancellation Policy - Callable Cloud Function
+ *
+ * Lets a supplier choose the policy applied to NEW bookings.
+ * Existing bookings keep the policy snapshotted at creation.
+ */
+export const setCancellationPolicy = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            FUNCTION_NAME,
+            async (
+                data: {policy: CancellationPolicyType},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = SupplierLogger(FUNCTION_NAME).setContext(errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const callerId = context.auth.uid;
+
+              if (!isValidCancellationPolicy(data.policy)) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "policy",
+                    `Must be one of: ${Object.keys(CANCELLATION_POLICIES).join(", ")}`
+                );
+              }
+
+              const supplierQuery = await db
+                  .collection("suppliers")
+                  .where("userId", "==", callerId)
+                  .limit(1)
+                  .get();
+
+              if (supplierQuery.empty) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `No supplier profile for ${callerId}`,
+                    "Perfil de fornecedor não encontrado"
+                );
+              }
+
+              const supplierDoc = supplierQuery.docs[0];
+              const previousPolicy = supplierDoc.data().cancellationPolicy || null;
+              const now = admin.firestore.FieldValue.serverTimestamp();
+
+              await supplierDoc.ref.update({
+                cancellationPolicy: data.policy,
+                updatedAt: now,
+              });
+
+              await db.collection("audit_logs").add({
+                category: "supplier",
+                eventType: "cancellationPolicyChanged",
+                userId: callerId,
+                resourceId: supplierDoc.id,
+                resourceType: "supplier",
+                previousValue: previousPolicy,
+                newValue: data.policy,
+                description: `Cancellation policy set to ${data.policy}`,
+                metadata: {supplierId: supplierDoc.id},
+                timestamp: now,
+              });
+
+              logger.info("cancellation_policy_updated", {
+                supplierId: supplierDoc.id,
+                previousPolicy,
+                policy: data.policy,
+              });
+
+              return {
+                success: true,
+                policy: CANCELLATION_POLICIES[data.policy],
+              };
+            }
+        )
+    );
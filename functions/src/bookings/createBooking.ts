@@ -9,7 +9,27 @@ import {
 import {BookingLogger} from "../common/logger";
 import {requireFeatureEnabled} from "../common/killSwitch";
 import {isSupplierBookable} from "../suppliers/supplierEligibility";
+import {snapshotCancellationPolicy} from "./cancellationPolicy";
+import {buildPaymentSchedule, parsePaymentTerms} from "./paymentSchedule";
 import {checkRateLimitForKey} from "../rateLimit/checkRateLimit";
+import {isSupportedCurrency, normalizeCurrency} from "../common/currency";
+import {
+  BookingPromotion,
+  buildBookingPromotion,
+  reservePromotion,
+  resolvePromotion,
+} from "../promotions/promotionService";
+import {calculateServiceTaxLines, getTaxRates} from "../finance/taxEngine";
+import {AddOnSelection, calculatePackagePrice} from "./pricingEngine";
+import {checkWaitlistHolds, markWaitlistBooked} from "./waitlist";
+import {
+  BookingSlot,
+  BookingSlotInput,
+  normalizeBookingSlots,
+  findConflictingSlots,
+  dateKeyToTimestamp,
+  getBookingSlots,
+} from "./bookingUtils";
 
 const db = admin.firestore();
 const REGION = "us-central1";
@@ -34,13 +54,17 @@ const RATE_LIMIT_REASON_CODES = {
 interface CreateBookingRequest {
   supplierId: string;
   packageId: string;
-  eventDate: string; // ISO date string YYYY-MM-DD
+  eventDate?: string; // ISO date string YYYY-MM-DD (single-slot bookings)
   startTime?: string; // HH:mm format
   endTime?: string; // HH:mm format
+  slots?: BookingSlotInput[]; // Multi-day / multi-slot bookings (overrides eventDate)
   notes?: string;
   eventName?: string;
   eventLocation?: string;
   guestCount?: number;
+  addOns?: AddOnSelection[]; // Optional extras of the package
+  currency?: string; // Currency the client wants to pay in (defaults to the package currency)
+  promoCode?: string;
   clientRequestId?: string; // For idempotency
 }
 
@@ -158,56 +182,25 @@ async function enforceRateLimitOrFail(params: {
 }
 
 /**
- * Atomic conflict check - returns true if there's a conflict
- * Uses Timestamp range query to match how eventDate is stored
+ * Comparable form of a normalized slot list
  */
-async function hasBookingConflict(
-    supplierId: string,
-    eventDate: string,
-    excludeBookingId?: string
-): Promise<boolean> {
-  // Convert string date to Timestamp range for the entire day
-  // eventDate is stored as Timestamp, not string, so we must query with Timestamp
-  const eventDateParts = eventDate.split("-");
-  const startOfDay = new Date(
-      parseInt(eventDateParts[0]),
-      parseInt(eventDateParts[1]) - 1,
-      parseInt(eventDateParts[2]),
-      0, 0, 0
-  );
-  const endOfDay = new Date(
-      parseInt(eventDateParts[0]),
-      parseInt(eventDateParts[1]) - 1,
-      parseInt(eventDateParts[2]),
-      23, 59, 59, 999
-  );
-
-  const conflictQuery = db
-      .collection("bookings")
-      .where("supplierId", "==", supplierId)
-      .where("eventDate", ">=", admin.firestore.Timestamp.fromDate(startOfDay))
-      .where("eventDate", "<=", admin.firestore.Timestamp.fromDate(endOfDay))
-      .where("status", "in", ["pending", "confirmed"]);
-
-  const conflictSnapshot = await conflictQuery.get();
-
-  if (excludeBookingId) {
-    return conflictSnapshot.docs.some((doc) => doc.id !== excludeBookingId);
-  }
-
-  return !conflictSnapshot.empty;
+function slotsKey(slots: BookingSlot[]): string {
+  return slots.map((slot) => `${slot.date}|${slot.startTime || ""}|${slot.endTime || ""}`).join(",");
 }
 
 /**
  * Check for duplicate booking (idempotency)
- * Uses Timestamp range query to match how eventDate is stored
+ * Candidates share the first slot's day (Timestamp range query to match
+ * how eventDate is stored); a duplicate also has the same full slot list.
  */
 async function findExistingBooking(
     clientId: string,
     supplierId: string,
     packageId: string,
-    eventDate: string
+    slots: BookingSlot[]
 ): Promise<string | null> {
+  const eventDate = slots[0].date;
+
   // Convert string date to Timestamp range for the entire day
   // eventDate is stored as Timestamp, not string, so we must query with Timestamp
   const eventDateParts = eventDate.split("-");
@@ -231,16 +224,16 @@ async function findExistingBooking(
       .where("packageId", "==", packageId)
       .where("eventDate", ">=", admin.firestore.Timestamp.fromDate(startOfDay))
       .where("eventDate", "<=", admin.firestore.Timestamp.fromDate(endOfDay))
-      .where("status", "in", ["pending", "confirmed", "partially_paid"])
-      .limit(1);
+      .where("status", "in", ["pending", "confirmed", "partially_paid"]);
 
   const existingSnapshot = await existingQuery.get();
 
-  if (!existingSnapshot.empty) {
-    return existingSnapshot.docs[0].id;
-  }
+  const requestedKey = slotsKey(slots);
+  const existing = existingSnapshot.docs.find((doc) =>
+    slotsKey(getBookingSlots(doc.data())) === requestedKey
+  );
 
-  return null;
+  return existing?.id || null;
 }
 
 /**
@@ -248,13 +241,15 @@ async function findExistingBooking(
  *
  * This function:
  * 1. Validates the caller is authenticated
- * 2. Validates required fields and event date
+ * 2. Validates required fields and event slots
  * 3. Checks idempotency to avoid duplicates
  * 4. Enforces server-side rate limits (user/supplier/IP/device)
  * 5. Validates supplier eligibility (canonical gate)
- * 6. Validates package belongs to supplier
- * 7. Performs atomic conflict check
- * 8. Creates the booking if no conflicts
+ * 6. Validates package belongs to supplier and prices it server-side
+ *    (guests, add-ons, minimum spend, surcharges - see pricingEngine)
+ * 7. Validates the promo code, if any (discount computed server-side)
+ * 8. Checks for conflicting bookings (per slot)
+ * 9. Creates the booking if no conflicts, reserving the promo code use
  */
 export const createBooking = functions
     .region(REGION)
@@ -270,6 +265,7 @@ export const createBooking = functions
               logger.operationStart("create_booking", {
                 supplierId: data.supplierId,
                 eventDate: data.eventDate,
+                slotCount: data.slots?.length || 1,
               });
 
               // Check kill-switch
@@ -283,7 +279,8 @@ export const createBooking = functions
               const clientId = context.auth.uid;
 
               // 2. Validate required fields
-              if (!data.supplierId || !data.packageId || !data.eventDate) {
+              const hasSlots = Array.isArray(data.slots) && data.slots.length > 0;
+              if (!data.supplierId || !data.packageId || (!data.eventDate && !hasSlots)) {
                 throw Errors.invalidArgument(
                     errorContext,
                     "supplierId, packageId, eventDate",
@@ -291,22 +288,54 @@ export const createBooking = functions
                 );
               }
 
-              // Validate event date format and not in past
-              const dateValidation = validateEventDate(data.eventDate);
-              if (!dateValidation.valid) {
+              if (data.guestCount !== undefined && data.guestCount !== null &&
+                  (!Number.isInteger(data.guestCount) || data.guestCount < 1)) {
+                throw Errors.invalidArgument(errorContext, "guestCount", "Número de convidados inválido");
+              }
+
+              if (data.addOns !== undefined && !Array.isArray(data.addOns)) {
+                throw Errors.invalidArgument(errorContext, "addOns", "Lista de extras inválida");
+              }
+
+              const presentmentCurrency = data.currency ? data.currency.toUpperCase() : null;
+              if (presentmentCurrency && !isSupportedCurrency(presentmentCurrency)) {
+                throw Errors.invalidArgument(errorContext, "currency", "Moeda não suportada");
+              }
+
+              // Single-date requests are a booking with one slot
+              const requestedSlots: BookingSlotInput[] = data.slots && hasSlots ?
+                data.slots :
+                [{date: data.eventDate || "", startTime: data.startTime, endTime: data.endTime}];
+              const slotValidation = normalizeBookingSlots(requestedSlots);
+              if (!slotValidation.valid || !slotValidation.slots) {
                 throw Errors.invalidArgument(
                     errorContext,
-                    "eventDate",
-                    dateValidation.error
+                    hasSlots ? "slots" : "eventDate",
+                    slotValidation.error
                 );
               }
+              const slots: BookingSlot[] = slotValidation.slots;
+              const slotDates = [...new Set(slots.map((slot) => slot.date))];
+              const eventDate = slots[0].date;
+
+              // Validate event dates are not in past
+              for (const slotDate of slotDates) {
+                const dateValidation = validateEventDate(slotDate);
+                if (!dateValidation.valid) {
+                  throw Errors.invalidArgument(
+                      errorContext,
+                      hasSlots ? "slots" : "eventDate",
+                      dateValidation.error
+                  );
+                }
+              }
 
               // 3. Check for existing booking (idempotency)
               const existingBookingId = await findExistingBooking(
                   clientId,
                   data.supplierId,
                   data.packageId,
-                  data.eventDate
+                  slots
               );
 
               if (existingBookingId) {
@@ -377,30 +406,34 @@ export const createBooking = functions
 
               // 5. Supplier eligibility gate (CANONICAL CHECK)
               // This is the single source of truth for booking eligibility
-              const eligibility = await isSupplierBookable(
-                  data.supplierId,
-                  data.eventDate,
-                  errorContext
-              );
-
-              if (!eligibility.eligible) {
-                logger.debug("supplier_not_eligible", {
-                  supplierId: data.supplierId,
-                  eventDate: data.eventDate,
-                  uiState: eligibility.uiState,
-                  reasons: eligibility.reasons,
-                  debugInfo: eligibility.debugInfo,
-                });
-
-                // Use the first reason as user message, or default
-                const userMessage = eligibility.reasons[0] ||
-                    "Este fornecedor não está disponível para reservas";
-
-                throw Errors.failedPrecondition(
+              // Every slot of a multi-slot booking must pass the gate
+              for (const slot of slots) {
+                const eligibility = await isSupplierBookable(
+                    data.supplierId,
+                    slot.date,
                     errorContext,
-                    `Supplier not eligible: ${eligibility.reasons.join(", ")}`,
-                    userMessage
+                    {packageId: data.packageId, slot}
                 );
+
+                if (!eligibility.eligible) {
+                  logger.debug("supplier_not_eligible", {
+                    supplierId: data.supplierId,
+                    eventDate: slot.date,
+                    uiState: eligibility.uiState,
+                    reasons: eligibility.reasons,
+                    debugInfo: eligibility.debugInfo,
+                  });
+
+                  // Use the first reason as user message, or default
+                  const userMessage = eligibility.reasons[0] ||
+                      "Este fornecedor não está disponível para reservas";
+
+                  throw Errors.failedPrecondition(
+                      errorContext,
+                      `Supplier not eligible on ${slot.date}: ${eligibility.reasons.join(", ")}`,
+                      userMessage
+                  );
+                }
               }
 
               // 6. Fetch supplier for additional validation
@@ -438,37 +471,95 @@ export const createBooking = functions
 
               const packageData = packageDoc.data()!;
 
-              // 9. Atomic conflict check (existing bookings on same date)
-              const hasConflict = await hasBookingConflict(
+              // Prices, escrow and payouts use the supplier's (settlement) currency
+              const currency = normalizeCurrency(packageData.currency || supplier.currency);
+              const packagePrice = packageData.price || 0;
+
+              const pricing = calculatePackagePrice(data.packageId, packageData, currency, {
+                guestCount: data.guestCount,
+                slots,
+                addOns: data.addOns,
+              });
+              if (!pricing.valid || !pricing.breakdown) {
+                throw Errors.invalidArgument(errorContext, "guestCount, addOns", pricing.error);
+              }
+              const priceBreakdown = pricing.breakdown;
+
+              // 9. Promo code (validated and priced server-side)
+              let promotion: BookingPromotion | null = null;
+              if (data.promoCode) {
+                const resolved = await resolvePromotion(
+                    data.promoCode,
+                    {
+                      userId: clientId,
+                      supplierId: data.supplierId,
+                      category: supplier.category || null,
+                      amount: priceBreakdown.total,
+                      currency,
+                    },
+                    errorContext
+                );
+                promotion = buildBookingPromotion(resolved.promotion, resolved.discountAmount);
+              }
+              const discountAmount = promotion?.discountAmount || 0;
+              const totalAmount = priceBreakdown.total - discountAmount;
+
+              // Tax rates in force are snapshotted with the booking
+              const taxRates = await getTaxRates(data.supplierId, supplier);
+              const platformDiscount = promotion?.fundedBy === "platform" ? discountAmount : 0;
+
+              // 10. Conflict check (remaining capacity for every slot)
+              const conflictingSlots = await findConflictingSlots(
                   data.supplierId,
-                  data.eventDate
+                  slots,
+                  undefined,
+                  data.packageId
               );
 
-              if (hasConflict) {
+              if (conflictingSlots.length > 0) {
+                logger.info("booking_slot_conflict", {
+                  supplierId: data.supplierId,
+                  conflictingDates: conflictingSlots.map((slot) => slot.date),
+                });
                 throw Errors.alreadyExists(
                     errorContext,
                     "Reserva",
-                    "Já existe uma reserva para esta data"
+                    slots.length > 1 ?
+                      `Já existe uma reserva para ${conflictingSlots[0].date}` :
+                      "Já existe uma reserva para esta data"
                 );
               }
 
-              // 10. Get client info
+              // Spots freed by a cancellation may be held for waitlisted clients
+              const {heldDate} = await checkWaitlistHolds(
+                  data.supplierId,
+                  slots,
+                  clientId,
+                  data.packageId
+              );
+              if (heldDate) {
+                logger.info("booking_slot_held_for_waitlist", {
+                  supplierId: data.supplierId,
+                  heldDate,
+                });
+                throw Errors.alreadyExists(
+                    errorContext,
+                    "Reserva",
+                    `A vaga de ${heldDate} está reservada para um cliente da lista de espera`
+                );
+              }
+
+              // 11. Get client info
               const clientDoc = await db.collection("users").doc(clientId).get();
               const clientData = clientDoc.exists ? clientDoc.data() : {};
 
-              // 11. Create the booking
+              // 12. Create the booking
               const bookingRef = db.collection("bookings").doc();
               const now = admin.firestore.FieldValue.serverTimestamp();
 
-              // Convert eventDate string to Firestore Timestamp
-              const eventDateParts = data.eventDate.split("-");
-              const eventDateObj = new Date(
-                  parseInt(eventDateParts[0]),
-                  parseInt(eventDateParts[1]) - 1,
-                  parseInt(eventDateParts[2]),
-                  12, 0, 0
-              );
-              const eventDateTimestamp = admin.firestore.Timestamp.fromDate(eventDateObj);
+              // eventDate/startTime/endTime mirror the first slot for legacy readers
+              const firstSlot = slots[0];
+              const lastSlot = slots[slots.length - 1];
 
               const bookingData = {
                 id: bookingRef.id,
@@ -481,17 +572,33 @@ export const createBooking = functions
                 supplierPhone: supplier.phone || "",
                 packageId: data.packageId,
                 packageName: packageData.name || "Pacote",
-                packagePrice: packageData.price || 0,
-                eventDate: eventDateTimestamp,
-                eventTime: data.startTime || null,
-                startTime: data.startTime || null,
-                endTime: data.endTime || null,
+                packagePrice,
+                eventDate: dateKeyToTimestamp(firstSlot.date),
+                eventEndDate: dateKeyToTimestamp(lastSlot.date),
+                eventTime: firstSlot.startTime,
+                startTime: firstSlot.startTime,
+                endTime: firstSlot.endTime,
+                slots,
                 eventName: data.eventName || null,
                 eventLocation: data.eventLocation || null,
                 guestCount: data.guestCount || null,
                 notes: data.notes || null,
+                cancellationPolicy: snapshotCancellationPolicy(supplier.cancellationPolicy),
+                paymentSchedule: buildPaymentSchedule(
+                    totalAmount,
+                    dateKeyToTimestamp(firstSlot.date).toDate(),
+                    parsePaymentTerms(supplier.paymentTerms)
+                ),
                 status: "pending",
-                totalAmount: packageData.price || 0,
+                priceBreakdown,
+                originalAmount: priceBreakdown.total,
+                discountAmount,
+                promotion,
+                totalAmount,
+                taxRates,
+                taxLines: calculateServiceTaxLines(totalAmount + platformDiscount, taxRates),
+                currency,
+                presentmentCurrency: presentmentCurrency !== currency ? presentmentCurrency : null,
                 paidAmount: 0,
                 platformFee: 0,
                 supplierEarnings: 0,
@@ -501,22 +608,53 @@ export const createBooking = functions
                 clientRequestId: data.clientRequestId || null,
               };
 
-              await bookingRef.set(bookingData);
+              // The promo code use is reserved with the booking, or not at all
+              await db.runTransaction(async (transaction) => {
+                if (promotion) {
+                  await reservePromotion(transaction, {
+                    promotionId: promotion.promotionId,
+                    bookingId: bookingRef.id,
+                    userId: clientId,
+                    discountAmount,
+                  }, errorContext);
+                }
+                transaction.set(bookingRef, bookingData);
+              });
 
               logger.stateTransition("booking", bookingRef.id, "none", "pending", clientId);
+              if (promotion) {
+                logger.info("promotion_applied", {
+                  bookingId: bookingRef.id,
+                  code: promotion.code,
+                  discountAmount,
+                  fundedBy: promotion.fundedBy,
+                });
+              }
+
+              try {
+                await markWaitlistBooked(data.supplierId, slotDates, clientId, bookingRef.id);
+              } catch (waitlistError) {
+                logger.warn("waitlist_update_failed", {
+                  bookingId: bookingRef.id,
+                  error: waitlistError instanceof Error ? waitlistError.message : "unknown",
+                });
+              }
 
-              // 12. Create notification for supplier
+              // 13. Create notification for supplier
               const notificationRef = db.collection("notifications").doc();
+              const datesLabel = slotDates.length > 1 ?
+                `${slotDates.length} datas (${slotDates[0]} a ${slotDates[slotDates.length - 1]})` :
+                eventDate;
               await notificationRef.set({
                 id: notificationRef.id,
                 userId: supplier.userId,
                 type: "new_booking",
                 title: "Nova Reserva",
-                body: `${clientData?.displayName || "Um cliente"} solicitou uma reserva para ${data.eventDate}`,
+                body: `${clientData?.displayName || "Um cliente"} solicitou uma reserva para ${datesLabel}`,
                 data: {
                   bookingId: bookingRef.id,
                   clientId: clientId,
-                  eventDate: data.eventDate,
+                  eventDate: eventDate,
                 },
                 read: false,
                 createdAt: now,
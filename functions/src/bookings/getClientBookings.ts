@@ -1,5 +1,6 @@
 import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
+import {PriceBreakdown} from "./pricingEngine";
 
 const db = admin.firestore();
 const REGION = "us-central1";
@@ -29,6 +30,7 @@ interface ClientBooking {
   notes?: string;
   clientNotes?: string;
   selectedCustomizations: string[];
+  priceBreakdown: PriceBreakdown | null; // Server-side price (see pricingEngine)
   payments: PaymentInfo[];
   createdAt: string;
   updatedAt: string;
@@ -137,6 +139,7 @@ function sanitizeBookingForClient(
     clientNotes: data.clientNotes,
     // supplierNotes intentionally omitted - private to supplier
     selectedCustomizations: customizations,
+    priceBreakdown: data.priceBreakdown || null,
     payments,
     createdAt: data.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
     updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
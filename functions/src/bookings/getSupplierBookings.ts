@@ -1,5 +1,7 @@
 import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
+import {getBookingSlots, dateKeyToTimestamp} from "./bookingUtils";
+import {PriceBreakdown} from "./pricingEngine";
 
 const db = admin.firestore();
 const REGION = "us-central1";
@@ -27,8 +29,10 @@ interface SupplierBooking {
   eventName: string;
   eventDate: string; // ISO string
   eventTime?: string;
+  slots: SupplierBookingSlot[];
   eventLocation?: string;
   totalPrice: number;
+  priceBreakdown: PriceBreakdown | null; // Server-side price (see pricingEngine)
   paidAmount: number;
   remainingAmount: number;
   status: string;
@@ -39,6 +43,22 @@ interface SupplierBooking {
   uiFlags: SupplierBookingUIFlags;
 }
 
+interface SupplierBookingSlot {
+  date: string; // ISO string
+  startTime: string | null;
+  endTime: string | null;
+}
+
+/**
+ * Agenda entry - one per booking slot
+ */
+interface SupplierAgendaEvent extends SupplierBooking {
+  slotIndex: number;
+  slotCount: number;
+  startTime: string | null;
+  endTime: string | null;
+}
+
 interface GetSupplierBookingsResponse {
   success: boolean;
   bookings?: SupplierBooking[];
@@ -53,7 +73,7 @@ interface GetSupplierBookingDetailsResponse {
 
 interface GetSupplierAgendaResponse {
   success: boolean;
-  events?: SupplierBooking[];
+  events?: SupplierAgendaEvent[];
   error?: string;
 }
 
@@ -153,6 +173,11 @@ function sanitizeBookingForSupplier(
   const status = data.status || "pending";
   const totalPrice = data.totalPrice || 0;
   const paidAmount = data.paidAmount || 0;
+  const slots = getBookingSlots(data).map((slot) => ({
+    date: dateKeyToTimestamp(slot.date).toDate().toISOString(),
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+  }));
 
   return {
     id: doc.id,
@@ -164,8 +189,10 @@ function sanitizeBookingForSupplier(
     eventName: data.eventName || "",
     eventDate: data.eventDate?.toDate?.()?.toISOString() || new Date().toISOString(),
     eventTime: data.eventTime,
+    slots,
     eventLocation: data.eventLocation,
     totalPrice,
+    priceBreakdown: data.priceBreakdown || null,
     paidAmount,
     remainingAmount: totalPrice - paidAmount,
     status,
@@ -365,21 +392,37 @@ export const getSupplierAgenda = functions
               .get(),
         ]);
 
-        // 4. Merge and deduplicate results
+        // 4. Merge and deduplicate results, one agenda entry per slot
         const seenIds = new Set<string>();
-        const events: SupplierBooking[] = [];
+        const events: SupplierAgendaEvent[] = [];
 
         for (const doc of [...confirmedQuery.docs, ...inProgressQuery.docs]) {
           if (seenIds.has(doc.id)) continue;
           seenIds.add(doc.id);
 
           const clientInfo = await getClientInfo(doc.data().clientId);
-          events.push(sanitizeBookingForSupplier(doc, clientInfo));
+          const booking = sanitizeBookingForSupplier(doc, clientInfo);
+          const slots = booking.slots.length > 0 ?
+            booking.slots :
+            [{date: booking.eventDate, startTime: booking.eventTime || null, endTime: null}];
+
+          slots.forEach((slot, slotIndex) => {
+            events.push({
+              ...booking,
+              eventDate: slot.date,
+              eventTime: slot.startTime || undefined,
+              slotIndex,
+              slotCount: slots.length,
+              startTime: slot.startTime,
+              endTime: slot.endTime,
+            });
+          });
         }
 
-        // 5. Sort by event date
+        // 5. Sort by slot date and start time
         events.sort((a, b) =>
-          new Date(a.eventDate).getTime() - new Date(b.eventDate).getTime()
+          new Date(a.eventDate).getTime() - new Date(b.eventDate).getTime() ||
+          (a.startTime || "").localeCompare(b.startTime || "")
         );
 
         console.log(
@@ -0,0 +1,429 @@
+/**
+ * iCalendar (RFC 5545) - Rendering and Parsing
+ *
+ * Renders supplier agendas as ICS feeds and reads the busy dates of
+ * calendars suppliers import (see calendarSync.ts).
+ *
+ * Times are wall-clock times in Africa/Luanda (UTC+1, no daylight saving):
+ * - rendering writes them with TZID=Africa/Luanda
+ * - parsing converts UTC times (…Z) to Luanda; times with another TZID
+ *   and floating times are taken as they are
+ *
+ * Recurring events are expanded for FREQ=DAILY/WEEKLY/MONTHLY/YEARLY with
+ * INTERVAL, COUNT, UNTIL, BYDAY (weekly) and EXDATE. Other recurrence
+ * parts are not supported - only the first occurrence is used.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const LUANDA_UTC_OFFSET_MS = 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+const MAX_RECURRENCE_STEPS = 20000;
+
+export const ICS_TIMEZONE = "Africa/Luanda";
+const PRODUCT_ID = "-//Boda Connect//Agenda do Fornecedor//PT";
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const SUPPORTED_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const SUPPORTED_RULE_PARTS = ["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "WKST"];
+
+// ==================== TYPES ====================
+
+/**
+ * Event to render: an all-day event when startTime is null
+ */
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  date: string; // YYYY-MM-DD
+  startTime: string | null; // HH:mm
+  endTime: string | null; // HH:mm, on the next day when before startTime
+  status: "CONFIRMED" | "TENTATIVE";
+}
+
+/**
+ * Event read from an imported calendar
+ * start/end are Luanda wall-clock times as epoch milliseconds (end exclusive)
+ */
+export interface ParsedIcsEvent {
+  uid: string;
+  start: number;
+  end: number;
+  busy: boolean; // Not cancelled and not marked free (TRANSP:TRANSPARENT)
+  rrule: Record<string, string> | null;
+  exdates: string[]; // YYYY-MM-DD
+}
+
+// ==================== RENDERING ====================
+
+function escapeText(value: string): string {
+  return value
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets (continuation lines start with a space)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatDate(dateKey: string): string {
+  return dateKey.replace(/-/g, "");
+}
+
+function formatDateTime(dateKey: string, time: string): string {
+  return `${formatDate(dateKey)}T${time.replace(":", "")}00`;
+}
+
+function formatUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").slice(0, 15) + "Z";
+}
+
+function nextDay(dateKey: string): string {
+  return new Date(Date.parse(dateKey + "T00:00:00.000Z") + MS_PER_DAY)
+      .toISOString()
+      .slice(0, 10);
+}
+
+/**
+ * Render a calendar with its events
+ * @param name - Calendar name shown by calendar apps
+ * @param events - Events to include
+ * @param now - Time the feed is generated (DTSTAMP)
+ * @returns ICS document (CRLF line endings)
+ */
+export function renderIcsCalendar(name: string, events: IcsEvent[], now: Date): string {
+  const stamp = formatUtcStamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${ICS_TIMEZONE}`,
+    "BEGIN:VTIMEZONE",
+    `TZID:${ICS_TIMEZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0100",
+    "TZOFFSETTO:+0100",
+    "TZNAME:WAT",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ];
+
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+
+    if (event.startTime) {
+      lines.push(`DTSTART;TZID=${ICS_TIMEZONE}:${formatDateTime(event.date, event.startTime)}`);
+      if (event.endTime) {
+        const endDate = event.endTime <= event.startTime ? nextDay(event.date) : event.date;
+        lines.push(`DTEND;TZID=${ICS_TIMEZONE}:${formatDateTime(endDate, event.endTime)}`);
+      }
+    } else {
+      lines.push(
+          `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+          `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`
+      );
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push(`STATUS:${event.status}`, "TRANSP:OPAQUE", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ==================== PARSING ====================
+
+/**
+ * Property of a component (parameters such as TZID are not needed)
+ */
+interface ContentLine {
+  name: string;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  const colon = line.indexOf(":");
+  if (colon <= 0) return null;
+
+  return {
+    name: line.slice(0, colon).split(";")[0].toUpperCase(),
+    value: line.slice(colon + 1),
+  };
+}
+
+/**
+ * Parse a DATE or DATE-TIME value to Luanda wall-clock epoch milliseconds
+ */
+function parseIcsTime(value: string): {time: number; isDate: boolean} | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const time = Date.UTC(
+      parseInt(year),
+      parseInt(month) - 1,
+      parseInt(day),
+      parseInt(hours || "0"),
+      parseInt(minutes || "0"),
+      parseInt(seconds || "0")
+  );
+  if (isNaN(time)) return null;
+
+  return {
+    time: utc ? time + LUANDA_UTC_OFFSET_MS : time,
+    isDate: hours === undefined,
+  };
+}
+
+/**
+ * Parse a DURATION value (e.g. P1D, PT2H30M) to milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+      .exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = (parseInt(weeks || "0") * 7 + parseInt(days || "0")) * MS_PER_DAY +
+    ((parseInt(hours || "0") * 60 + parseInt(minutes || "0")) * 60 +
+      parseInt(seconds || "0")) * 1000;
+
+  return sign === "-" ? -ms : ms;
+}
+
+function toDateKeyFromTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Read the events of an ICS document
+ * Events without a valid DTSTART are skipped.
+ */
+export function parseIcsEvents(content: string): ParsedIcsEvent[] {
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+
+    if (upper === "BEGIN:VEVENT") {
+      current = [];
+      nestedDepth = 0;
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (upper.startsWith("BEGIN:")) {
+      nestedDepth++;
+      continue;
+    }
+
+    if (upper.startsWith("END:")) {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+        continue;
+      }
+
+      const event = buildParsedEvent(current, events.length);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+
+    // Properties of VALARM and other nested components are ignored
+    if (nestedDepth === 0) {
+      const contentLine = parseContentLine(line);
+      if (contentLine) current.push(contentLine);
+    }
+  }
+
+  return events;
+}
+
+function buildParsedEvent(properties: ContentLine[], index: number): ParsedIcsEvent | null {
+  const get = (name: string) => properties.find((property) => property.name === name);
+
+  const dtStart = get("DTSTART");
+  const start = dtStart ? parseIcsTime(dtStart.value) : null;
+  if (!start) return null;
+
+  const dtEnd = get("DTEND");
+  const end = dtEnd ? parseIcsTime(dtEnd.value) : null;
+  const duration = get("DURATION");
+  const durationMs = duration ? parseDuration(duration.value) : null;
+
+  let endTime: number;
+  if (end && end.time > start.time) {
+    endTime = end.time;
+  } else if (durationMs && durationMs > 0) {
+    endTime = start.time + durationMs;
+  } else {
+    // No (valid) end: a date lasts the whole day, a time is a point in time
+    endTime = start.isDate ? start.time + MS_PER_DAY : start.time;
+  }
+
+  const status = (get("STATUS")?.value || "").trim().toUpperCase();
+  const transparency = (get("TRANSP")?.value || "").trim().toUpperCase();
+
+  const rruleValue = get("RRULE")?.value;
+  const rrule = rruleValue ?
+    Object.fromEntries(rruleValue.split(";").map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.trim().toUpperCase(), value.trim().toUpperCase()];
+    })) :
+    null;
+
+  const exdates = properties
+      .filter((property) => property.name === "EXDATE")
+      .flatMap((property) => property.value.split(","))
+      .map((value) => parseIcsTime(value))
+      .filter((value): value is {time: number; isDate: boolean} => value !== null)
+      .map((value) => toDateKeyFromTime(value.time));
+
+  return {
+    uid: get("UID")?.value.trim() || `event_${index}`,
+    start: start.time,
+    end: endTime,
+    busy: status !== "CANCELLED" && transparency !== "TRANSPARENT",
+    rrule,
+    exdates,
+  };
+}
+
+/**
+ * Check if a recurrence rule can be expanded (see header)
+ */
+export function isSupportedRecurrence(rrule: Record<string, string>): boolean {
+  if (!SUPPORTED_FREQUENCIES.includes(rrule.FREQ)) return false;
+  if (Object.keys(rrule).some((key) => !SUPPORTED_RULE_PARTS.includes(key))) return false;
+
+  // BYDAY only as plain weekdays of a weekly rule
+  return !rrule.BYDAY || (rrule.FREQ === "WEEKLY" &&
+    rrule.BYDAY.split(",").every((code) => WEEKDAY_CODES.includes(code)));
+}
+
+/**
+ * Start times of an event's occurrences that overlap a time range
+ */
+function getOccurrenceStarts(event: ParsedIcsEvent, from: number, until: number): number[] {
+  const duration = event.end - event.start;
+  const overlaps = (start: number) => start + Math.max(duration, 1) > from && start <= until;
+
+  const rrule = event.rrule;
+  if (!rrule || !isSupportedRecurrence(rrule)) {
+    return overlaps(event.start) ? [event.start] : [];
+  }
+
+  const interval = Math.max(parseInt(rrule.INTERVAL || "1") || 1, 1);
+  const count = rrule.COUNT ? parseInt(rrule.COUNT) || 0 : 0;
+  const ruleUntil = rrule.UNTIL ? parseIcsTime(rrule.UNTIL)?.time ?? until : until;
+  const limit = Math.min(until, ruleUntil);
+
+  const startDate = new Date(event.start);
+  const weekdays = rrule.BYDAY ?
+    rrule.BYDAY.split(",").map((code) => WEEKDAY_CODES.indexOf(code)).sort((a, b) => a - b) :
+    [startDate.getUTCDay()];
+
+  // COUNT includes the occurrences before the range
+  let occurrenceCount = 0;
+  const starts: number[] = [];
+
+  for (let step = 0; step < MAX_RECURRENCE_STEPS; step++) {
+    let candidates: number[];
+
+    if (rrule.FREQ === "DAILY") {
+      candidates = [event.start + step * interval * MS_PER_DAY];
+    } else if (rrule.FREQ === "WEEKLY") {
+      const weekStart = event.start - startDate.getUTCDay() * MS_PER_DAY +
+        step * interval * 7 * MS_PER_DAY;
+      candidates = weekdays
+          .map((weekday) => weekStart + weekday * MS_PER_DAY)
+          .filter((time) => time >= event.start);
+    } else {
+      const monthsAhead = rrule.FREQ === "MONTHLY" ? step * interval : step * interval * 12;
+      const candidate = new Date(event.start);
+      candidate.setUTCMonth(startDate.getUTCMonth() + monthsAhead);
+      // Months without the start's day (e.g. the 31st) have no occurrence
+      candidates = candidate.getUTCDate() === startDate.getUTCDate() ? [candidate.getTime()] : [];
+    }
+
+    for (const candidate of candidates) {
+      if (candidate > limit || (count > 0 && occurrenceCount >= count)) {
+        return starts;
+      }
+      occurrenceCount++;
+      if (overlaps(candidate)) starts.push(candidate);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Get the dates (YYYY-MM-DD) a busy event occupies within a window,
+ * expanding recurrences
+ * @param event - Parsed event
+ * @param windowStart - First date of the window (YYYY-MM-DD)
+ * @param windowEnd - Last date of the window (YYYY-MM-DD)
+ */
+export function getEventBusyDates(
+    event: ParsedIcsEvent,
+    windowStart: string,
+    windowEnd: string
+): string[] {
+  if (!event.busy) return [];
+
+  const duration = event.end - event.start;
+  const windowStartTime = Date.parse(windowStart + "T00:00:00.000Z");
+  const windowEndTime = Date.parse(windowEnd + "T23:59:59.999Z");
+  const dates = new Set<string>();
+
+  for (const start of getOccurrenceStarts(event, windowStartTime, windowEndTime)) {
+    if (event.exdates.includes(toDateKeyFromTime(start))) continue;
+
+    // The end is exclusive: an event ending at midnight does not take the next day
+    // Only the days inside the window are walked, however long the event
+    const firstDate = [toDateKeyFromTime(start), windowStart].sort()[1];
+    const lastDate = [toDateKeyFromTime(Math.max(start, start + duration - 1)), windowEnd].sort()[0];
+    for (let date = firstDate; date <= lastDate; date = nextDay(date)) {
+      dates.add(date);
+    }
+  }
+
+  return [...dates].sort();
+}
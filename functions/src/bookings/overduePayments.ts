@@ -0,0 +1,304 @@
+/**
+ * Payment Schedule Follow-up - Scheduled Cloud Function
+ *
+ * Runs daily over bookings whose next installment is due soon:
+ * - Reminds the client INSTALLMENT_REMINDER_DAYS before the due date
+ * - Marks the installment overdue once the due date passes
+ * - Cancels the booking OVERDUE_GRACE_DAYS later when the supplier's
+ *   terms ask for it (client cancellation rules apply to held funds)
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {canCancel} from "./bookingStateMachine";
+import {formatCurrency} from "../common/currency";
+import {calculateCancellationRefund} from "./cancellationPolicy";
+import {getBookingSlots} from "./bookingUtils";
+import {offerWaitlistSpots} from "./waitlist";
+import {
+  getNextInstallment,
+  updateInstallment,
+  PaymentInstallment,
+  PaymentSchedule,
+  INSTALLMENT_REMINDER_DAYS,
+  OVERDUE_GRACE_DAYS,
+} from "./paymentSchedule";
+import {
+  getHeldEscrowsByBookingId,
+  splitEscrow,
+} from "../finance/escrowService";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the user ID associated with a supplier
+ */
+async function getSupplierUserId(supplierId: string): Promise<string | null> {
+  const supplierDoc = await db.collection("suppliers").doc(supplierId).get();
+  return supplierDoc.data()?.userId || null;
+}
+
+/**
+ * Create an in-app notification
+ */
+async function notify(
+    userId: string | null,
+    type: string,
+    title: string,
+    body: string,
+    data: Record<string, unknown>
+): Promise<void> {
+  if (!userId) return;
+  await db.collection("notifications").add({
+    userId,
+    type,
+    title,
+    body,
+    data,
+    isRead: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Cancel a booking whose installment stayed unpaid past the grace period
+ * Held escrow is split as if the client had cancelled.
+ */
+async function cancelOverdueBooking(
+    bookingId: string,
+    booking: FirebaseFirestore.DocumentData,
+    installment: PaymentInstallment
+): Promise<void> {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  const heldEscrows = await getHeldEscrowsByBookingId(bookingId);
+  const refundTerms = calculateCancellationRefund(
+      booking.cancellationPolicy,
+      booking.eventDate?.toDate?.() || new Date(),
+      new Date(),
+      "client"
+  );
+  const heldAmount = heldEscrows.reduce((sum, escrow) => sum + (escrow.totalAmount || 0), 0);
+
+  await db.collection("bookings").doc(bookingId).update({
+    status: "cancelled",
+    cancelledAt: now,
+    cancelledBy: "system",
+    cancelledByRole: "system",
+    cancellationReason: `Prestação "${installment.type}" em atraso`,
+    "paymentSchedule.nextDueDate": null,
+    updatedAt: now,
+    updatedBy: "system",
+  });
+
+  let refundAmount = 0;
+  let supplierCompensation = 0;
+  for (const escrow of heldEscrows) {
+    const escrowRefund = Math.round((escrow.totalAmount || 0) * refundTerms.refundPercent / 100);
+    try {
+      const split = await splitEscrow(
+          escrow.id,
+          escrowRefund,
+          "system:overdue_payment",
+          `Installment ${installment.id} overdue`
+      );
+      refundAmount += split.refundAmount;
+      supplierCompensation += split.supplierCompensation;
+    } catch (escrowError) {
+      // Admin will need to settle this escrow manually
+      console.error(`Error settling escrow ${escrow.id} for overdue booking ${bookingId}:`, escrowError);
+    }
+  }
+
+  await db.collection("bookings").doc(bookingId).update({
+    cancellationRefund: {
+      ...refundTerms,
+      heldAmount,
+      refundAmount,
+      retainedAmount: heldAmount - refundAmount,
+    },
+  });
+
+  await db.collection("audit_logs").add({
+    category: "booking",
+    eventType: "autoCancelledOverdue",
+    userId: "system",
+    resourceId: bookingId,
+    resourceType: "booking",
+    previousValue: booking.status,
+    newValue: "cancelled",
+    description: `Booking auto-cancelled: installment ${installment.id} overdue`,
+    metadata: {
+      bookingId,
+      clientId: booking.clientId,
+      supplierId: booking.supplierId,
+      installmentId: installment.id,
+      installmentAmount: installment.amount,
+      graceDays: OVERDUE_GRACE_DAYS,
+      refundPercent: refundTerms.refundPercent,
+      heldAmount,
+      refundAmount,
+      supplierCompensation,
+    },
+    timestamp: now,
+  });
+
+  const eventLabel = booking.eventName || "seu evento";
+  await notify(
+      booking.clientId,
+      "booking_cancelled",
+      "Reserva Cancelada",
+      `A reserva para ${eventLabel} foi cancelada por falta de pagamento`,
+      {bookingId}
+  );
+  await notify(
+      await getSupplierUserId(booking.supplierId),
+      "booking_cancelled",
+      "Reserva Cancelada",
+      "Uma reserva foi cancelada porque o cliente não pagou a prestação em atraso",
+      {bookingId}
+  );
+
+  // Offer the freed dates to waitlisted clients
+  try {
+    await offerWaitlistSpots(
+        booking.supplierId,
+        getBookingSlots(booking).map((slot) => slot.date)
+    );
+  } catch (waitlistError) {
+    // The next cancellation or hold expiry retries the offer
+    console.error(`Error offering waitlist spots for ${bookingId}:`, waitlistError);
+  }
+}
+
+/**
+ * Process installments of one booking
+ */
+async function processBookingSchedule(
+    bookingId: string,
+    booking: FirebaseFirestore.DocumentData,
+    nowMs: number
+): Promise<"reminded" | "overdue" | "cancelled" | null> {
+  const schedule = booking.paymentSchedule as PaymentSchedule;
+  const installment = getNextInstallment(schedule);
+
+  if (!installment || !installment.dueDate || !canCancel(booking.status)) {
+    return null;
+  }
+
+  const dueMs = installment.dueDate.toMillis();
+  const amountLabel = formatCurrency(installment.amount, booking.currency);
+
+  // Upcoming: remind once
+  if (dueMs > nowMs) {
+    if (installment.reminderSentAt) {
+      return null;
+    }
+
+    const daysLeft = Math.ceil((dueMs - nowMs) / MS_PER_DAY);
+    await notify(
+        booking.clientId,
+        "installment_due_soon",
+        "Pagamento a Vencer 📅",
+        `A prestação de ${amountLabel} vence em ${daysLeft} dia(s)`,
+        {bookingId, installmentId: installment.id}
+    );
+    await updateInstallment(bookingId, installment.id, {
+      reminderSentAt: admin.firestore.Timestamp.now(),
+    });
+    return "reminded";
+  }
+
+  // Past grace period: cancel when the supplier opted in
+  if (schedule.terms?.autoCancelOverdue && nowMs >= dueMs + OVERDUE_GRACE_DAYS * MS_PER_DAY) {
+    await cancelOverdueBooking(bookingId, booking, installment);
+    return "cancelled";
+  }
+
+  if (installment.status === "overdue") {
+    return null;
+  }
+
+  await updateInstallment(bookingId, installment.id, {status: "overdue"});
+
+  await db.collection("audit_logs").add({
+    category: "booking",
+    eventType: "installmentOverdue",
+    userId: "system",
+    resourceId: bookingId,
+    resourceType: "booking",
+    previousValue: "pending",
+    newValue: "overdue",
+    description: `Installment ${installment.id} overdue`,
+    metadata: {
+      bookingId,
+      installmentId: installment.id,
+      amount: installment.amount,
+      dueDate: installment.dueDate,
+      autoCancelOverdue: schedule.terms?.autoCancelOverdue === true,
+    },
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await notify(
+      booking.clientId,
+      "installment_overdue",
+      "Pagamento em Atraso ⚠️",
+      schedule.terms?.autoCancelOverdue ?
+        `A prestação de ${amountLabel} está em atraso. Pague em ${OVERDUE_GRACE_DAYS} dia(s) para manter a reserva.` :
+        `A prestação de ${amountLabel} está em atraso`,
+      {bookingId, installmentId: installment.id}
+  );
+  await notify(
+      await getSupplierUserId(booking.supplierId),
+      "installment_overdue",
+      "Pagamento em Atraso",
+      `O cliente ainda não pagou a prestação de ${amountLabel}`,
+      {bookingId, installmentId: installment.id}
+  );
+
+  return "overdue";
+}
+
+/**
+ * Process Payment Schedules - Scheduled Cloud Function
+ * Runs daily at 9 AM (Luanda)
+ */
+export const processPaymentSchedules = functions
+    .region(REGION)
+    .pubsub
+    .schedule("0 9 * * *")
+    .timeZone("Africa/Luanda")
+    .onRun(async () => {
+      const nowMs = Date.now();
+      const horizon = admin.firestore.Timestamp.fromMillis(
+          nowMs + INSTALLMENT_REMINDER_DAYS * MS_PER_DAY
+      );
+
+      const bookings = await db
+          .collection("bookings")
+          .where("paymentSchedule.nextDueDate", "<=", horizon)
+          .get();
+
+      const counts = {reminded: 0, overdue: 0, cancelled: 0};
+
+      for (const bookingDoc of bookings.docs) {
+        try {
+          const result = await processBookingSchedule(bookingDoc.id, bookingDoc.data(), nowMs);
+          if (result) {
+            counts[result]++;
+          }
+        } catch (error) {
+          console.error(`Error processing payment schedule for booking ${bookingDoc.id}:`, error);
+        }
+      }
+
+      console.log(
+          `Payment schedules processed: ${counts.reminded} reminded, ` +
+          `${counts.overdue} overdue, ${counts.cancelled} cancelled`
+      );
+      return null;
+    });
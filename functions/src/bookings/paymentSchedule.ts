@@ -0,0 +1,471 @@
+/**
+ * Payment Schedules
+ *
+ * Suppliers can split the booking price into a deposit ("sinal") due on
+ * confirmation and a balance due some days before the event. The terms in
+ * force are snapshotted onto the booking at creation as `paymentSchedule`.
+ *
+ * Each installment is paid through its own payment (and escrow), so
+ * createPaymentIntent always charges the next unpaid installment and
+ * fundEscrow records it here.
+ *
+ * A 100% deposit means a single "full" installment (previous behaviour).
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {SupplierLogger} from "../common/logger";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+const FUNCTION_NAME = "setPaymentTerms";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Days after confirmation the deposit must be paid
+ */
+export const DEPOSIT_DUE_DAYS = 3;
+
+/**
+ * Days after the due date before an unpaid installment cancels the booking
+ */
+export const OVERDUE_GRACE_DAYS = 2;
+
+/**
+ * Days before the due date the client gets a reminder
+ */
+export const INSTALLMENT_REMINDER_DAYS = 3;
+
+// ==================== TYPES ====================
+
+export type InstallmentType = "full" | "deposit" | "balance";
+export type InstallmentStatus = "pending" | "overdue" | "paid";
+export type PaymentScheduleStatus = "pending" | "partially_paid" | "paid";
+
+/**
+ * Supplier payment terms (suppliers/{id}.paymentTerms)
+ */
+export interface PaymentTerms {
+  depositPercent: number; // 1-100, 100 = single payment
+  balanceDueDays: number; // Days before the event the balance is due
+  autoCancelOverdue: boolean; // Cancel the booking when an installment is overdue
+}
+
+export interface PaymentInstallment {
+  id: string;
+  type: InstallmentType;
+  amount: number;
+  dueOn: "confirmation" | "date";
+  dueDate: FirebaseFirestore.Timestamp | null; // null until the booking is confirmed
+  status: InstallmentStatus;
+  paymentId: string | null;
+  paidAt: FirebaseFirestore.Timestamp | null;
+  reminderSentAt: FirebaseFirestore.Timestamp | null;
+}
+
+/**
+ * Schedule stored on bookings/{id}.paymentSchedule
+ */
+export interface PaymentSchedule {
+  terms: PaymentTerms;
+  installments: PaymentInstallment[];
+  totalAmount: number;
+  paidAmount: number;
+  status: PaymentScheduleStatus;
+  nextDueDate: FirebaseFirestore.Timestamp | null; // Queried by the reminder job
+}
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = {
+  depositPercent: 100,
+  balanceDueDays: 7,
+  autoCancelOverdue: false,
+};
+
+// ==================== HELPERS ====================
+
+/**
+ * Read supplier payment terms, falling back to the defaults
+ */
+export function parsePaymentTerms(value: unknown): PaymentTerms {
+  const terms = (value && typeof value === "object" ? value : {}) as Partial<PaymentTerms>;
+  const depositPercent = Number(terms.depositPercent);
+  const balanceDueDays = Number(terms.balanceDueDays);
+
+  return {
+    depositPercent: Number.isInteger(depositPercent) && depositPercent >= 1 && depositPercent <= 100 ?
+      depositPercent :
+      DEFAULT_PAYMENT_TERMS.depositPercent,
+    balanceDueDays: Number.isInteger(balanceDueDays) && balanceDueDays >= 0 && balanceDueDays <= 90 ?
+      balanceDueDays :
+      DEFAULT_PAYMENT_TERMS.balanceDueDays,
+    autoCancelOverdue: terms.autoCancelOverdue === true,
+  };
+}
+
+/**
+ * Get the first installment that is not paid yet
+ */
+export function getNextInstallment(
+    schedule: PaymentSchedule | null | undefined
+): PaymentInstallment | null {
+  if (!schedule || !Array.isArray(schedule.installments)) {
+    return null;
+  }
+  return schedule.installments.find((installment) => installment.status !== "paid") || null;
+}
+
+/**
+ * Booking paymentStatus once a payment is recorded against its schedule
+ * A deposit leaves the booking partially paid until the last installment.
+ *
+ * @param schedule - Schedule after the payment, or null for bookings without one
+ * @param settledStatus - Status when nothing is left to pay
+ */
+export function getPaymentStatusAfterPayment(
+    schedule: PaymentSchedule | null,
+    settledStatus: "paid" | "escrow_funded"
+): "partially_paid" | "paid" | "escrow_funded" {
+  return schedule && schedule.status !== "paid" ? "partially_paid" : settledStatus;
+}
+
+/**
+ * Recompute the derived fields of a schedule after installments changed
+ */
+function summarizeSchedule(
+    terms: PaymentTerms,
+    installments: PaymentInstallment[]
+): PaymentSchedule {
+  const totalAmount = installments.reduce((sum, installment) => sum + installment.amount, 0);
+  const paidAmount = installments
+      .filter((installment) => installment.status === "paid")
+      .reduce((sum, installment) => sum + installment.amount, 0);
+  const next = installments.find((installment) => installment.status !== "paid");
+
+  return {
+    terms,
+    installments,
+    totalAmount,
+    paidAmount,
+    status: !next ? "paid" : paidAmount > 0 ? "partially_paid" : "pending",
+    nextDueDate: next?.dueDate || null,
+  };
+}
+
+function buildInstallment(
+    id: string,
+    type: InstallmentType,
+    amount: number,
+    dueDate: Date | null
+): PaymentInstallment {
+  return {
+    id,
+    type,
+    amount,
+    dueOn: dueDate ? "date" : "confirmation",
+    dueDate: dueDate ? admin.firestore.Timestamp.fromDate(dueDate) : null,
+    status: "pending",
+    paymentId: null,
+    paidAt: null,
+    reminderSentAt: null,
+  };
+}
+
+/**
+ * Balance due date, or null when it would fall before the deposit is even due
+ */
+function getBalanceDueDate(eventDate: Date, terms: PaymentTerms, now: Date): Date | null {
+  const dueDate = new Date(eventDate.getTime() - terms.balanceDueDays * MS_PER_DAY);
+  const earliest = new Date(now.getTime() + DEPOSIT_DUE_DAYS * MS_PER_DAY);
+  return dueDate > earliest ? dueDate : null;
+}
+
+/**
+ * Build the schedule for a new booking
+ * Bookings too close to the event to split are charged in a single payment.
+ *
+ * @param totalAmount - Booking price
+ * @param eventDate - First event day
+ * @param terms - Supplier payment terms
+ * @param now - Booking creation time
+ */
+export function buildPaymentSchedule(
+    totalAmount: number,
+    eventDate: Date,
+    terms: PaymentTerms,
+    now: Date = new Date()
+): PaymentSchedule {
+  const balanceDueDate = getBalanceDueDate(eventDate, terms, now);
+  const depositAmount = Math.round(totalAmount * terms.depositPercent / 100);
+
+  if (terms.depositPercent >= 100 || !balanceDueDate || depositAmount <= 0 ||
+      depositAmount >= totalAmount) {
+    return summarizeSchedule(terms, [buildInstallment("full", "full", totalAmount, null)]);
+  }
+
+  return summarizeSchedule(terms, [
+    buildInstallment("deposit", "deposit", depositAmount, null),
+    buildInstallment("balance", "balance", totalAmount - depositAmount, balanceDueDate),
+  ]);
+}
+
+/**
+ * Re-plan the unpaid part of a schedule after the booking total changed
+ * Paid installments are kept; whatever is still owed becomes the balance.
+ *
+ * @param schedule - Current schedule
+ * @param totalAmount - New booking total
+ * @param eventDate - (New) first event day
+ */
+export function rescheduleRemaining(
+    schedule: PaymentSchedule,
+    totalAmount: number,
+    eventDate: Date
+): PaymentSchedule {
+  const paid = schedule.installments.filter((installment) => installment.status === "paid");
+
+  if (paid.length === 0) {
+    // Keep the deposit clock if the booking was already confirmed
+    const rebuilt = buildPaymentSchedule(totalAmount, eventDate, schedule.terms);
+    const activeDueDate = schedule.installments.find(
+        (installment) => installment.dueOn === "confirmation"
+    )?.dueDate;
+    if (!activeDueDate) {
+      return rebuilt;
+    }
+    return summarizeSchedule(schedule.terms, rebuilt.installments.map((installment) =>
+      installment.dueOn === "confirmation" ? {...installment, dueDate: activeDueDate} : installment
+    ));
+  }
+
+  const paidAmount = paid.reduce((sum, installment) => sum + installment.amount, 0);
+  const outstanding = totalAmount - paidAmount;
+
+  if (outstanding <= 0) {
+    return summarizeSchedule(schedule.terms, paid);
+  }
+
+  // Balance keeps its usual due date, or is due right away when too close
+  const dueDate = getBalanceDueDate(eventDate, schedule.terms, new Date()) ||
+    new Date(Date.now() + DEPOSIT_DUE_DAYS * MS_PER_DAY);
+
+  return summarizeSchedule(schedule.terms, [
+    ...paid,
+    buildInstallment(`balance_${paid.length}`, "balance", outstanding, dueDate),
+  ]);
+}
+
+/**
+ * Start the deposit clock once the supplier confirms
+ *
+ * @param bookingId - Confirmed booking
+ * @param confirmedAt - Confirmation time
+ */
+export async function activatePaymentSchedule(
+    bookingId: string,
+    confirmedAt: Date = new Date()
+): Promise<void> {
+  const bookingRef = db.collection("bookings").doc(bookingId);
+
+  await db.runTransaction(async (transaction) => {
+    const bookingDoc = await transaction.get(bookingRef);
+    const schedule = bookingDoc.data()?.paymentSchedule as PaymentSchedule | undefined;
+    if (!schedule || !Array.isArray(schedule.installments)) {
+      return;
+    }
+
+    const dueDate = admin.firestore.Timestamp.fromDate(
+        new Date(confirmedAt.getTime() + DEPOSIT_DUE_DAYS * MS_PER_DAY)
+    );
+    const installments = schedule.installments.map((installment) =>
+      installment.dueOn === "confirmation" && !installment.dueDate ?
+        {...installment, dueDate} :
+        installment
+    );
+
+    transaction.update(bookingRef, {
+      paymentSchedule: summarizeSchedule(schedule.terms, installments),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Mark the installment covered by a payment as paid
+ * Called by fundEscrow, so every provider path goes through here.
+ *
+ * @param bookingId - Booking ID
+ * @param paymentId - Confirmed payment
+ * @param installmentId - Installment the payment was created for
+ * @returns Updated schedule, or null for bookings without a schedule
+ */
+export async function recordInstallmentPayment(
+    bookingId: string,
+    paymentId: string,
+    installmentId?: string
+): Promise<PaymentSchedule | null> {
+  const bookingRef = db.collection("bookings").doc(bookingId);
+
+  return db.runTransaction(async (transaction) => {
+    const bookingDoc = await transaction.get(bookingRef);
+    const schedule = bookingDoc.data()?.paymentSchedule as PaymentSchedule | undefined;
+    if (!schedule || !Array.isArray(schedule.installments)) {
+      return null;
+    }
+
+    const alreadyRecorded = schedule.installments.some(
+        (installment) => installment.paymentId === paymentId && installment.status === "paid"
+    );
+    if (alreadyRecorded) {
+      return schedule; // Idempotent
+    }
+
+    const target = schedule.installments.find(
+        (installment) => installment.id === installmentId && installment.status !== "paid"
+    ) || getNextInstallment(schedule);
+    if (!target) {
+      return schedule;
+    }
+
+    const installments = schedule.installments.map((installment) =>
+      installment.id === target.id ?
+        {
+          ...installment,
+          status: "paid" as InstallmentStatus,
+          paymentId,
+          paidAt: admin.firestore.Timestamp.now(),
+        } :
+        installment
+    );
+    const updated = summarizeSchedule(schedule.terms, installments);
+
+    transaction.update(bookingRef, {
+      paymentSchedule: updated,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Update a single installment in place
+ */
+export async function updateInstallment(
+    bookingId: string,
+    installmentId: string,
+    changes: Partial<Pick<PaymentInstallment, "status" | "reminderSentAt">>
+): Promise<void> {
+  const bookingRef = db.collection("bookings").doc(bookingId);
+
+  await db.runTransaction(async (transaction) => {
+    const bookingDoc = await transaction.get(bookingRef);
+    const schedule = bookingDoc.data()?.paymentSchedule as PaymentSchedule | undefined;
+    if (!schedule || !Array.isArray(schedule.installments)) {
+      return;
+    }
+
+    const installments = schedule.installments.map((installment) =>
+      installment.id === installmentId && installment.status !== "paid" ?
+        {...installment, ...changes} :
+        installment
+    );
+
+    transaction.update(bookingRef, {
+      paymentSchedule: summarizeSchedule(schedule.terms, installments),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Set Payment Terms - Callable Cloud Function
+ *
+ * Lets a supplier choose the deposit/balance split applied to NEW bookings.
+ * Existing bookings keep the schedule built at creation.
+ */
+export const setPaymentTerms = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            FUNCTION_NAME,
+            async (
+                data: Partial<PaymentTerms>,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = SupplierLogger(FUNCTION_NAME).setContext(errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const callerId = context.auth.uid;
+
+              const depositPercent = Number(data.depositPercent);
+              if (!Number.isInteger(depositPercent) || depositPercent < 1 || depositPercent > 100) {
+                throw Errors.invalidArgument(errorContext, "depositPercent", "Deve estar entre 1 e 100");
+              }
+
+              if (data.balanceDueDays !== undefined &&
+                  (!Number.isInteger(data.balanceDueDays) ||
+                   data.balanceDueDays < 0 || data.balanceDueDays > 90)) {
+                throw Errors.invalidArgument(errorContext, "balanceDueDays", "Deve estar entre 0 e 90");
+              }
+
+              const supplierQuery = await db
+                  .collection("suppliers")
+                  .where("userId", "==", callerId)
+                  .limit(1)
+                  .get();
+
+              if (supplierQuery.empty) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `No supplier profile for ${callerId}`,
+                    "Perfil de fornecedor não encontrado"
+                );
+              }
+
+              const supplierDoc = supplierQuery.docs[0];
+              const previousTerms = supplierDoc.data().paymentTerms || null;
+              const terms = parsePaymentTerms(data);
+              const now = admin.firestore.FieldValue.serverTimestamp();
+
+              await supplierDoc.ref.update({
+                paymentTerms: terms,
+                updatedAt: now,
+              });
+
+              await db.collection("audit_logs").add({
+                category: "supplier",
+                eventType: "paymentTermsChanged",
+                userId: callerId,
+                resourceId: supplierDoc.id,
+                resourceType: "supplier",
+                previousValue: previousTerms,
+                newValue: terms,
+                description: `Payment terms set to ${terms.depositPercent}% deposit`,
+                metadata: {supplierId: supplierDoc.id},
+                timestamp: now,
+              });
+
+              logger.info("payment_terms_updated", {
+                supplierId: supplierDoc.id,
+                ...terms,
+              });
+
+              return {
+                success: true,
+                terms,
+              };
+            }
+        )
+    );
@@ -0,0 +1,394 @@
+/**
+ * Pricing Engine - Package Prices (SERVER-ONLY)
+ *
+ * Prices a package booking from the package configuration, so clients
+ * never supply a total. The result is persisted on the booking as
+ * `priceBreakdown` (before any promotion discount).
+ *
+ * Price components, in order:
+ * 1. basePrice: package price (covers `pricing.includedGuests`)
+ * 2. guestCharge: guests above includedGuests x the per-guest price of
+ *    the tier the guest count falls in (`pricing.guestTiers`)
+ * 3. addOns: optional extras chosen by the client (`addOns` on the
+ *    package, legacy `customizations` are fixed-price add-ons)
+ * 4. minimumSpendAdjustment: tops the subtotal up to `pricing.minimumSpend`
+ * 5. surcharges: percentage of the amount above when any slot falls on a
+ *    weekend day (`pricing.weekendSurchargePercent`) or in a high season
+ *    (`pricing.highSeasons`, the highest matching season applies)
+ *
+ * Packages without a `pricing` block price at their package price, as
+ * before. Amounts are integers in the package currency.
+ */
+
+import * as admin from "firebase-admin";
+import {BookingSlot} from "./bookingUtils";
+
+const db = admin.firestore();
+
+/**
+ * Weekend days when the package does not set them (0 = Sunday, 6 = Saturday)
+ */
+export const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+const MONTH_DAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+// ==================== TYPES ====================
+
+export type AddOnPricingType = "fixed" | "per_guest";
+
+/**
+ * Optional extra of a package (suppliers/{id}/packages/{pkg}.addOns)
+ */
+export interface PackageAddOn {
+  id: string;
+  name: string;
+  price: number; // Per unit, or per guest and unit for per_guest add-ons
+  pricingType: AddOnPricingType;
+  maxQuantity: number;
+}
+
+/**
+ * Per-guest price for a guest count range (maxGuests null = no upper limit)
+ */
+export interface GuestTier {
+  minGuests: number;
+  maxGuests: number | null;
+  pricePerGuest: number;
+}
+
+/**
+ * Surcharge for event dates between start and end (MM-DD, inclusive,
+ * may wrap around the new year)
+ */
+export interface SeasonSurcharge {
+  name: string;
+  start: string;
+  end: string;
+  surchargePercent: number;
+}
+
+/**
+ * Pricing rules of a package (suppliers/{id}/packages/{pkg}.pricing)
+ */
+export interface PackagePricing {
+  includedGuests: number;
+  guestTiers: GuestTier[];
+  minimumSpend: number;
+  weekendSurchargePercent: number;
+  weekendDays: number[];
+  highSeasons: SeasonSurcharge[];
+}
+
+/**
+ * Add-on chosen by the client
+ */
+export interface AddOnSelection {
+  id: string;
+  quantity?: number;
+}
+
+export interface PricedAddOn {
+  id: string;
+  name: string;
+  pricingType: AddOnPricingType;
+  unitPrice: number;
+  quantity: number;
+  amount: number;
+}
+
+export interface PriceSurcharge {
+  type: "weekend" | "high_season";
+  label: string;
+  percent: number;
+  amount: number;
+}
+
+/**
+ * Price of a booking, stored on bookings/{id}.priceBreakdown
+ */
+export interface PriceBreakdown {
+  packageId: string;
+  currency: string;
+  basePrice: number;
+  guestCount: number | null;
+  includedGuests: number;
+  guestTier: GuestTier | null;
+  guestCharge: number;
+  addOns: PricedAddOn[];
+  addOnsTotal: number;
+  subtotal: number;
+  minimumSpend: number;
+  minimumSpendAdjustment: number;
+  surcharges: PriceSurcharge[];
+  total: number;
+}
+
+export interface PriceInput {
+  guestCount?: number | null;
+  slots: BookingSlot[];
+  addOns?: AddOnSelection[];
+}
+
+// ==================== CONFIGURATION ====================
+
+function toNonNegativeInteger(value: unknown): number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : 0;
+}
+
+function toPercent(value: unknown): number {
+  return typeof value === "number" && value > 0 && value <= 100 ? value : 0;
+}
+
+/**
+ * Read the pricing rules of a package, ignoring malformed entries
+ */
+export function parsePackagePricing(packageData: FirebaseFirestore.DocumentData): PackagePricing {
+  const pricing = (packageData.pricing && typeof packageData.pricing === "object" ?
+    packageData.pricing :
+    {}) as Record<string, unknown>;
+
+  const guestTiers = (Array.isArray(pricing.guestTiers) ? pricing.guestTiers : [])
+      .filter((tier) => tier && typeof tier === "object")
+      .map((tier) => ({
+        minGuests: toNonNegativeInteger(tier.minGuests),
+        maxGuests: tier.maxGuests === null || tier.maxGuests === undefined ?
+          null :
+          toNonNegativeInteger(tier.maxGuests),
+        pricePerGuest: toNonNegativeInteger(tier.pricePerGuest),
+      }))
+      .filter((tier) => tier.maxGuests === null || tier.maxGuests >= tier.minGuests)
+      .sort((a, b) => a.minGuests - b.minGuests);
+
+  const weekendDays = Array.isArray(pricing.weekendDays) ?
+    pricing.weekendDays.filter((day) => Number.isInteger(day) && day >= 0 && day <= 6) :
+    DEFAULT_WEEKEND_DAYS;
+
+  const highSeasons = (Array.isArray(pricing.highSeasons) ? pricing.highSeasons : [])
+      .filter((season) => season &&
+        MONTH_DAY_PATTERN.test(season.start) &&
+        MONTH_DAY_PATTERN.test(season.end) &&
+        toPercent(season.surchargePercent) > 0)
+      .map((season) => ({
+        name: typeof season.name === "string" && season.name ? season.name : "Época alta",
+        start: season.start,
+        end: season.end,
+        surchargePercent: toPercent(season.surchargePercent),
+      }));
+
+  return {
+    includedGuests: toNonNegativeInteger(pricing.includedGuests),
+    guestTiers,
+    minimumSpend: toNonNegativeInteger(pricing.minimumSpend),
+    weekendSurchargePercent: toPercent(pricing.weekendSurchargePercent),
+    weekendDays,
+    highSeasons,
+  };
+}
+
+/**
+ * Read the add-ons of a package
+ * Legacy `customizations` (name + price) are fixed add-ons with
+ * positional IDs (customization_0, customization_1...).
+ */
+export function parsePackageAddOns(packageData: FirebaseFirestore.DocumentData): PackageAddOn[] {
+  const addOns: PackageAddOn[] = (Array.isArray(packageData.addOns) ? packageData.addOns : [])
+      .filter((addOn: Record<string, unknown>) => addOn &&
+        typeof addOn.id === "string" && addOn.id &&
+        addOn.isActive !== false)
+      .map((addOn: Record<string, unknown>) => ({
+        id: addOn.id as string,
+        name: typeof addOn.name === "string" && addOn.name ? addOn.name : "Extra",
+        price: toNonNegativeInteger(addOn.price),
+        pricingType: addOn.pricingType === "per_guest" ? "per_guest" : "fixed",
+        maxQuantity: toNonNegativeInteger(addOn.maxQuantity) || 1,
+      }));
+
+  const customizations = Array.isArray(packageData.customizations) ? packageData.customizations : [];
+  customizations.forEach((customization: Record<string, unknown>, index: number) => {
+    if (customization && typeof customization.name === "string") {
+      addOns.push({
+        id: `customization_${index}`,
+        name: customization.name,
+        price: toNonNegativeInteger(customization.price),
+        pricingType: "fixed",
+        maxQuantity: 1,
+      });
+    }
+  });
+
+  return addOns;
+}
+
+// ==================== PRICING ====================
+
+function isWeekend(dateKey: string, weekendDays: number[]): boolean {
+  const [year, month, day] = dateKey.split("-").map((part) => parseInt(part));
+  return weekendDays.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+}
+
+function isInSeason(dateKey: string, season: SeasonSurcharge): boolean {
+  const monthDay = dateKey.slice(5);
+  return season.start <= season.end ?
+    monthDay >= season.start && monthDay <= season.end :
+    monthDay >= season.start || monthDay <= season.end;
+}
+
+/**
+ * Price a package booking
+ * @param packageId - Package ID (recorded in the breakdown)
+ * @param packageData - Package document
+ * @param currency - Package (settlement) currency
+ * @param input - Guest count, slots and chosen add-ons
+ * @returns Validation result with the price breakdown
+ */
+export function calculatePackagePrice(
+    packageId: string,
+    packageData: FirebaseFirestore.DocumentData,
+    currency: string,
+    input: PriceInput
+): {valid: boolean; error?: string; breakdown?: PriceBreakdown} {
+  const pricing = parsePackagePricing(packageData);
+  const basePrice = toNonNegativeInteger(packageData.price);
+  const guestCount = input.guestCount ?? null;
+
+  // 2. Guests
+  let guestTier: GuestTier | null = null;
+  let guestCharge = 0;
+  if (pricing.guestTiers.length > 0) {
+    if (guestCount === null) {
+      return {valid: false, error: "Indique o número de convidados"};
+    }
+
+    guestTier = pricing.guestTiers.find((tier) =>
+      guestCount >= tier.minGuests && (tier.maxGuests === null || guestCount <= tier.maxGuests)
+    ) || null;
+
+    if (!guestTier) {
+      const maxGuests = pricing.guestTiers[pricing.guestTiers.length - 1].maxGuests;
+      return {
+        valid: false,
+        error: maxGuests !== null && guestCount > maxGuests ?
+          `Este pacote aceita no máximo ${maxGuests} convidados` :
+          "Número de convidados não disponível para este pacote",
+      };
+    }
+
+    guestCharge = Math.max(0, guestCount - pricing.includedGuests) * guestTier.pricePerGuest;
+  }
+
+  // 3. Add-ons
+  const available = parsePackageAddOns(packageData);
+  const addOns: PricedAddOn[] = [];
+  for (const selection of input.addOns || []) {
+    const addOn = available.find((candidate) => candidate.id === selection?.id);
+    if (!addOn) {
+      return {valid: false, error: "Extra não disponível para este pacote"};
+    }
+
+    if (addOns.some((priced) => priced.id === addOn.id)) {
+      return {valid: false, error: `O extra "${addOn.name}" foi indicado mais de uma vez`};
+    }
+
+    const quantity = selection.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > addOn.maxQuantity) {
+      return {valid: false, error: `Quantidade inválida para "${addOn.name}"`};
+    }
+
+    if (addOn.pricingType === "per_guest" && !guestCount) {
+      return {valid: false, error: `Indique o número de convidados para "${addOn.name}"`};
+    }
+
+    const units = addOn.pricingType === "per_guest" ? quantity * (guestCount || 0) : quantity;
+    addOns.push({
+      id: addOn.id,
+      name: addOn.name,
+      pricingType: addOn.pricingType,
+      unitPrice: addOn.price,
+      quantity,
+      amount: units * addOn.price,
+    });
+  }
+  const addOnsTotal = addOns.reduce((sum, addOn) => sum + addOn.amount, 0);
+
+  // 4. Minimum spend
+  const subtotal = basePrice + guestCharge + addOnsTotal;
+  const minimumSpendAdjustment = Math.max(0, pricing.minimumSpend - subtotal);
+  const surchargeBase = subtotal + minimumSpendAdjustment;
+
+  // 5. Surcharges (on the amount after the minimum spend)
+  const surcharges: PriceSurcharge[] = [];
+  const dates = [...new Set(input.slots.map((slot) => slot.date))];
+
+  if (pricing.weekendSurchargePercent > 0 &&
+      dates.some((date) => isWeekend(date, pricing.weekendDays))) {
+    surcharges.push({
+      type: "weekend",
+      label: "Fim de semana",
+      percent: pricing.weekendSurchargePercent,
+      amount: Math.round(surchargeBase * pricing.weekendSurchargePercent / 100),
+    });
+  }
+
+  const season = pricing.highSeasons
+      .filter((candidate) => dates.some((date) => isInSeason(date, candidate)))
+      .sort((a, b) => b.surchargePercent - a.surchargePercent)[0];
+  if (season) {
+    surcharges.push({
+      type: "high_season",
+      label: season.name,
+      percent: season.surchargePercent,
+      amount: Math.round(surchargeBase * season.surchargePercent / 100),
+    });
+  }
+
+  const total = surchargeBase + surcharges.reduce((sum, surcharge) => sum + surcharge.amount, 0);
+
+  return {
+    valid: true,
+    breakdown: {
+      packageId,
+      currency,
+      basePrice,
+      guestCount,
+      includedGuests: pricing.includedGuests,
+      guestTier,
+      guestCharge,
+      addOns,
+      addOnsTotal,
+      subtotal,
+      minimumSpend: pricing.minimumSpend,
+      minimumSpendAdjustment,
+      surcharges,
+      total,
+    },
+  };
+}
+
+/**
+ * Load a package and price a booking for it
+ * @param supplierId - The supplier's ID
+ * @param packageId - The package's ID
+ * @param currency - Settlement currency of the booking
+ * @param input - Guest count, slots and chosen add-ons
+ * @returns Validation result, or null if the package does not exist
+ */
+export async function priceSupplierPackage(
+    supplierId: string,
+    packageId: string,
+    currency: string,
+    input: PriceInput
+): Promise<{valid: boolean; error?: string; breakdown?: PriceBreakdown} | null> {
+  const packageDoc = await db
+      .collection("suppliers")
+      .doc(supplierId)
+      .collection("packages")
+      .doc(packageId)
+      .get();
+
+  const packageData = packageDoc.data();
+  if (!packageData) {
+    return null;
+  }
+
+  return calculatePackagePrice(packageId, packageData, currency, input);
+}
@@ -0,0 +1,875 @@
+/**
+ * Quotes and Custom Proposals
+ *
+ * For jobs priced per event (decor, catering, photography...) instead of
+ * from a fixed package:
+ * 1. requestQuote: the client asks for a quote from a conversation
+ *    (event dates, guests, what they need)
+ * 2. sendQuoteProposal: the supplier replies with an itemized proposal -
+ *    line items, validity date and deposit terms. Sending again revises
+ *    the proposal while it has not been answered.
+ * 3. respondToQuote: the client accepts (creating the booking at the
+ *    quoted price, with the quoted deposit terms) or declines
+ *
+ * Quotes are stored in quotes/{id}. Requests and proposals are posted to
+ * the conversation as quote_request / quote_proposal messages (see
+ * chat/sendMessage) whose quoteData mirrors the quote's status.
+ *
+ * Bookings from a quote have no package (packageId null) and go through
+ * the usual supplier confirmation.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {BookingLogger} from "../common/logger";
+import {requireFeatureEnabled} from "../common/killSwitch";
+import {formatCurrency, normalizeCurrency} from "../common/currency";
+import {isSupplierBookable} from "../suppliers/supplierEligibility";
+import {getConversationRef, postConversationMessage} from "../chat/sendMessage";
+import {snapshotCancellationPolicy} from "./cancellationPolicy";
+import {buildPaymentSchedule, parsePaymentTerms, PaymentTerms} from "./paymentSchedule";
+import {calculateServiceTaxLines, getTaxRates} from "../finance/taxEngine";
+import {checkWaitlistHolds, markWaitlistBooked} from "./waitlist";
+import {
+  BookingSlot,
+  BookingSlotInput,
+  normalizeBookingSlots,
+  findConflictingSlots,
+  dateKeyToTimestamp,
+} from "./bookingUtils";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+/**
+ * Maximum number of line items in a proposal
+ */
+const MAX_LINE_ITEMS = 30;
+
+/**
+ * Days a proposal stays valid when the supplier does not set a date
+ */
+const DEFAULT_VALIDITY_DAYS = 14;
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_LINE_ITEM_DESCRIPTION_LENGTH = 200;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ==================== TYPES ====================
+
+export type QuoteStatus = "requested" | "proposed" | "accepted" | "declined" | "expired";
+
+export interface QuoteLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // quantity x unitPrice
+}
+
+/**
+ * Supplier's proposal (amounts in the supplier's settlement currency)
+ */
+export interface QuoteProposal {
+  lineItems: QuoteLineItem[];
+  totalAmount: number;
+  currency: string;
+  validUntil: string; // YYYY-MM-DD, last day the client can accept
+  depositPercent: number;
+  balanceDueDays: number;
+  notes: string | null;
+  revision: number; // 1 for the first proposal, +1 per revision
+}
+
+/**
+ * Quote stored in quotes/{id}
+ */
+export interface QuoteRecord {
+  id: string;
+  conversationId: string;
+  clientId: string;
+  supplierId: string; // Supplier profile ID
+  supplierUserId: string; // Supplier's auth UID
+  status: QuoteStatus;
+  description: string;
+  slots: BookingSlot[];
+  eventName: string | null;
+  eventLocation: string | null;
+  guestCount: number | null;
+  proposal: QuoteProposal | null;
+  requestMessageId: string | null;
+  proposalMessageId: string | null;
+  bookingId: string | null;
+  declinedBy: string | null;
+  declineReason: string | null;
+  createdAt: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.Timestamp;
+}
+
+interface RequestQuoteRequest {
+  conversationId: string;
+  description: string;
+  eventDate?: string; // YYYY-MM-DD (single-slot events)
+  startTime?: string; // HH:mm
+  endTime?: string; // HH:mm
+  slots?: BookingSlotInput[]; // Multi-day / multi-slot events (overrides eventDate)
+  eventName?: string;
+  eventLocation?: string;
+  guestCount?: number;
+}
+
+interface SendQuoteProposalRequest {
+  quoteId: string;
+  lineItems: Array<{description: string; quantity?: number; unitPrice: number}>;
+  validUntil?: string; // YYYY-MM-DD
+  depositPercent?: number; // Defaults to the supplier's payment terms
+  balanceDueDays?: number; // Defaults to the supplier's payment terms
+  notes?: string;
+}
+
+interface RespondToQuoteRequest {
+  quoteId: string;
+  accept: boolean;
+  reason?: string;
+}
+
+// ==================== HELPERS ====================
+
+function todayKey(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve the supplier profile of a conversation
+ * conversation.supplierId holds either the profile ID or the owner's auth UID.
+ */
+async function getConversationSupplier(
+    supplierRef: string
+): Promise<{id: string; data: FirebaseFirestore.DocumentData} | null> {
+  const directSupplier = await db.collection("suppliers").doc(supplierRef).get();
+  if (directSupplier.exists) {
+    return {id: directSupplier.id, data: directSupplier.data() || {}};
+  }
+
+  const supplierQuery = await db
+      .collection("suppliers")
+      .where("userId", "==", supplierRef)
+      .limit(1)
+      .get();
+
+  return supplierQuery.empty ?
+    null :
+    {id: supplierQuery.docs[0].id, data: supplierQuery.docs[0].data()};
+}
+
+/**
+ * Validate the line items of a proposal and compute their amounts
+ * Prices are whole units of the settlement currency (cents for EUR/USD).
+ */
+function parseLineItems(
+    input: SendQuoteProposalRequest["lineItems"],
+    errorContext: ErrorContext
+): QuoteLineItem[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw Errors.invalidArgument(errorContext, "lineItems", "Indique pelo menos um item");
+  }
+
+  if (input.length > MAX_LINE_ITEMS) {
+    throw Errors.invalidArgument(
+        errorContext,
+        "lineItems",
+        `Máximo de ${MAX_LINE_ITEMS} itens por proposta`
+    );
+  }
+
+  return input.map((item) => {
+    const description = typeof item?.description === "string" ? item.description.trim() : "";
+    if (!description || description.length > MAX_LINE_ITEM_DESCRIPTION_LENGTH) {
+      throw Errors.invalidArgument(errorContext, "lineItems.description", "Descrição do item inválida");
+    }
+
+    const quantity = item.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw Errors.invalidArgument(errorContext, "lineItems.quantity", "Quantidade inválida");
+    }
+
+    if (!Number.isInteger(item.unitPrice) || item.unitPrice < 0) {
+      throw Errors.invalidArgument(errorContext, "lineItems.unitPrice", "Preço inválido");
+    }
+
+    return {
+      description,
+      quantity,
+      unitPrice: item.unitPrice,
+      amount: quantity * item.unitPrice,
+    };
+  });
+}
+
+/**
+ * Deposit terms of a proposal: explicit values are validated, missing
+ * ones come from the supplier's payment terms
+ */
+function resolveProposalTerms(
+    data: SendQuoteProposalRequest,
+    supplierTerms: unknown,
+    errorContext: ErrorContext
+): PaymentTerms {
+  if (data.depositPercent !== undefined &&
+      (!Number.isInteger(data.depositPercent) || data.depositPercent < 1 || data.depositPercent > 100)) {
+    throw Errors.invalidArgument(errorContext, "depositPercent", "Percentagem do sinal inválida (1-100)");
+  }
+
+  if (data.balanceDueDays !== undefined &&
+      (!Number.isInteger(data.balanceDueDays) || data.balanceDueDays < 0 || data.balanceDueDays > 90)) {
+    throw Errors.invalidArgument(errorContext, "balanceDueDays", "Prazo do saldo inválido (0-90 dias)");
+  }
+
+  const terms = parsePaymentTerms(supplierTerms);
+  return {
+    ...terms,
+    depositPercent: data.depositPercent ?? terms.depositPercent,
+    balanceDueDays: data.balanceDueDays ?? terms.balanceDueDays,
+  };
+}
+
+/**
+ * Snapshot of a quote shown in its conversation messages
+ */
+function buildQuoteMessageData(quote: QuoteRecord): Record<string, unknown> {
+  return {
+    quoteId: quote.id,
+    status: quote.status,
+    description: quote.description,
+    slots: quote.slots,
+    eventDate: quote.slots[0]?.date || null,
+    guestCount: quote.guestCount,
+    ...(quote.proposal ? {
+      amount: quote.proposal.totalAmount,
+      currency: quote.proposal.currency,
+      validUntil: quote.proposal.validUntil,
+      lineItems: quote.proposal.lineItems,
+      depositPercent: quote.proposal.depositPercent,
+      balanceDueDays: quote.proposal.balanceDueDays,
+      notes: quote.proposal.notes,
+      revision: quote.proposal.revision,
+    } : {}),
+  };
+}
+
+/**
+ * Mirror a quote's status on its messages (best effort - the quote is
+ * the source of truth)
+ */
+async function updateQuoteMessageStatus(
+    quote: QuoteRecord,
+    status: QuoteStatus | "superseded",
+    messageIds: Array<string | null>,
+    logger: ReturnType<typeof BookingLogger>
+): Promise<void> {
+  const conversationRef = await getConversationRef(quote.conversationId);
+
+  for (const messageId of messageIds) {
+    if (!messageId) continue;
+    try {
+      await conversationRef.collection("messages").doc(messageId).update({
+        "quoteData.status": status,
+      });
+    } catch (error) {
+      logger.warn("quote_message_update_failed", {
+        quoteId: quote.id,
+        messageId,
+        error: error instanceof Error ? error.message : "unknown",
+      });
+    }
+  }
+}
+
+async function getQuote(
+    quoteId: string,
+    errorContext: ErrorContext
+): Promise<QuoteRecord> {
+  if (!quoteId) {
+    throw Errors.invalidArgument(errorContext, "quoteId", "is required");
+  }
+
+  const quoteDoc = await db.collection("quotes").doc(quoteId).get();
+  if (!quoteDoc.exists) {
+    throw Errors.notFound(errorContext, "Orçamento", quoteId);
+  }
+
+  return quoteDoc.data() as QuoteRecord;
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Request a quote from the supplier of a conversation (client)
+ */
+export const requestQuote = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "requestQuote",
+            async (
+                data: RequestQuoteRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = BookingLogger("requestQuote").setContext(errorContext);
+
+              await requireFeatureEnabled("bookings", errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const clientId = context.auth.uid;
+
+              if (!data?.conversationId) {
+                throw Errors.invalidArgument(errorContext, "conversationId", "is required");
+              }
+
+              const description = typeof data.description === "string" ? data.description.trim() : "";
+              if (!description || description.length > MAX_DESCRIPTION_LENGTH) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "description",
+                    `Descreva o que precisa (até ${MAX_DESCRIPTION_LENGTH} caracteres)`
+                );
+              }
+
+              if (data.guestCount !== undefined &&
+                  (!Number.isInteger(data.guestCount) || data.guestCount < 1)) {
+                throw Errors.invalidArgument(errorContext, "guestCount", "Número de convidados inválido");
+              }
+
+              // Event dates (same rules as createBooking)
+              const hasSlots = Array.isArray(data.slots) && data.slots.length > 0;
+              const requestedSlots: BookingSlotInput[] = data.slots && hasSlots ?
+                data.slots :
+                [{date: data.eventDate || "", startTime: data.startTime, endTime: data.endTime}];
+              const slotValidation = normalizeBookingSlots(requestedSlots);
+              if (!slotValidation.valid || !slotValidation.slots) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    hasSlots ? "slots" : "eventDate",
+                    slotValidation.error
+                );
+              }
+              const slots = slotValidation.slots;
+              if (slots[0].date < todayKey()) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    hasSlots ? "slots" : "eventDate",
+                    "Data do evento não pode ser no passado"
+                );
+              }
+
+              // The caller must be the client of the conversation
+              const conversationRef = await getConversationRef(data.conversationId);
+              const conversationDoc = await conversationRef.get();
+              const conversation = conversationDoc.data();
+              if (!conversation) {
+                throw Errors.notFound(errorContext, "Conversa", data.conversationId);
+              }
+
+              const participants = conversation.participants as string[] || [];
+              if (!participants.includes(clientId)) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `User ${clientId} is not in conversation ${data.conversationId}`,
+                    "Não tem acesso a esta conversa"
+                );
+              }
+
+              const supplier = conversation.supplierId ?
+                await getConversationSupplier(conversation.supplierId) :
+                null;
+              if (!supplier) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Conversation ${data.conversationId} has no supplier`,
+                    "Esta conversa não é com um fornecedor"
+                );
+              }
+
+              const supplierUserId = supplier.data.userId || supplier.id;
+              if (supplierUserId === clientId) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    "Self-quote not allowed",
+                    "Você não pode pedir um orçamento a si mesmo"
+                );
+              }
+
+              const quoteRef = db.collection("quotes").doc();
+              const now = admin.firestore.Timestamp.now();
+              const quote: QuoteRecord = {
+                id: quoteRef.id,
+                conversationId: data.conversationId,
+                clientId,
+                supplierId: supplier.id,
+                supplierUserId,
+                status: "requested",
+                description,
+                slots,
+                eventName: data.eventName || null,
+                eventLocation: data.eventLocation || null,
+                guestCount: data.guestCount ?? null,
+                proposal: null,
+                requestMessageId: null,
+                proposalMessageId: null,
+                bookingId: null,
+                declinedBy: null,
+                declineReason: null,
+                createdAt: now,
+                updatedAt: now,
+              };
+
+              await quoteRef.set(quote);
+
+              const messageId = await postConversationMessage(
+                  data.conversationId,
+                  clientId,
+                  "quote_request",
+                  {text: description, quoteData: buildQuoteMessageData(quote)}
+              );
+              await quoteRef.update({requestMessageId: messageId});
+
+              logger.stateTransition("quote", quoteRef.id, "none", "requested", clientId);
+
+              return {
+                success: true,
+                quoteId: quoteRef.id,
+                messageId,
+              };
+            }
+        )
+    );
+
+/**
+ * Send (or revise) an itemized proposal for a quote request (supplier)
+ */
+export const sendQuoteProposal = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "sendQuoteProposal",
+            async (
+                data: SendQuoteProposalRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = BookingLogger("sendQuoteProposal").setContext(errorContext);
+
+              await requireFeatureEnabled("bookings", errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const callerId = context.auth.uid;
+              const quote = await getQuote(data?.quoteId, errorContext);
+
+              if (quote.supplierUserId !== callerId && quote.supplierId !== callerId) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `User ${callerId} is not the supplier of quote ${quote.id}`,
+                    "Apenas o fornecedor pode enviar a proposta"
+                );
+              }
+
+              if (quote.status !== "requested" && quote.status !== "proposed") {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Quote ${quote.id} is ${quote.status}`,
+                    "Este pedido de orçamento já foi respondido"
+                );
+              }
+
+              const lineItems = parseLineItems(data.lineItems, errorContext);
+              const totalAmount = lineItems.reduce((sum, item) => sum + item.amount, 0);
+              if (totalAmount <= 0) {
+                throw Errors.invalidArgument(errorContext, "lineItems", "O total da proposta deve ser maior que zero");
+              }
+
+              const today = todayKey();
+              const eventDate = quote.slots[0]?.date || today;
+              const validUntil = data.validUntil ||
+                new Date(Math.min(
+                    Date.now() + DEFAULT_VALIDITY_DAYS * MS_PER_DAY,
+                    new Date(eventDate + "T00:00:00.000Z").getTime()
+                )).toISOString().slice(0, 10);
+              if (!/^\d{4}-\d{2}-\d{2}$/.test(validUntil) || validUntil < today || validUntil > eventDate) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "validUntil",
+                    "A validade deve estar entre hoje e a data do evento"
+                );
+              }
+
+              const supplierDoc = await db.collection("suppliers").doc(quote.supplierId).get();
+              if (!supplierDoc.exists) {
+                throw Errors.notFound(errorContext, "Fornecedor", quote.supplierId);
+              }
+              const supplier = supplierDoc.data() || {};
+
+              const terms = resolveProposalTerms(data, supplier.paymentTerms, errorContext);
+              const currency = normalizeCurrency(supplier.currency);
+
+              const proposal: QuoteProposal = {
+                lineItems,
+                totalAmount,
+                currency,
+                validUntil,
+                depositPercent: terms.depositPercent,
+                balanceDueDays: terms.balanceDueDays,
+                notes: data.notes?.trim() || null,
+                revision: (quote.proposal?.revision || 0) + 1,
+              };
+
+              // Only one answer per request - re-read the status in a transaction
+              const quoteRef = db.collection("quotes").doc(quote.id);
+              await db.runTransaction(async (transaction) => {
+                const current = (await transaction.get(quoteRef)).data();
+                if (current?.status !== "requested" && current?.status !== "proposed") {
+                  throw Errors.failedPrecondition(
+                      errorContext,
+                      `Quote ${quote.id} is ${current?.status}`,
+                      "Este pedido de orçamento já foi respondido"
+                  );
+                }
+                transaction.update(quoteRef, {
+                  status: "proposed",
+                  proposal,
+                  proposedAt: admin.firestore.FieldValue.serverTimestamp(),
+                  updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+              });
+
+              const updatedQuote: QuoteRecord = {...quote, status: "proposed", proposal};
+              const messageId = await postConversationMessage(
+                  quote.conversationId,
+                  callerId,
+                  "quote_proposal",
+                  {
+                    text: proposal.notes || "",
+                    quoteData: buildQuoteMessageData(updatedQuote),
+                  }
+              );
+              await quoteRef.update({proposalMessageId: messageId});
+
+              // The previous proposal's card no longer accepts answers
+              await updateQuoteMessageStatus(quote, "superseded", [quote.proposalMessageId], logger);
+              await updateQuoteMessageStatus(updatedQuote, "proposed", [quote.requestMessageId], logger);
+
+              await db.collection("notifications").add({
+                userId: quote.clientId,
+                type: "quote_received",
+                title: proposal.revision > 1 ? "Proposta atualizada" : "Nova proposta",
+                body: `${supplier.businessName || "O fornecedor"} enviou uma proposta de ` +
+                  `${formatCurrency(totalAmount, currency)}, válida até ${validUntil}`,
+                data: {quoteId: quote.id, conversationId: quote.conversationId},
+                isRead: false,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+              });
+
+              logger.stateTransition("quote", quote.id, quote.status, "proposed", callerId);
+
+              return {
+                success: true,
+                quoteId: quote.id,
+                messageId,
+                totalAmount,
+                currency,
+                validUntil,
+                revision: proposal.revision,
+              };
+            }
+        )
+    );
+
+/**
+ * Accept or decline a proposal (client)
+ * Accepting creates the booking at the quoted price and deposit terms.
+ */
+export const respondToQuote = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "respondToQuote",
+            async (
+                data: RespondToQuoteRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = BookingLogger("respondToQuote").setContext(errorContext);
+
+              await requireFeatureEnabled("bookings", errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const clientId = context.auth.uid;
+              const quote = await getQuote(data?.quoteId, errorContext);
+              const quoteRef = db.collection("quotes").doc(quote.id);
+              const messageIds = [quote.requestMessageId, quote.proposalMessageId];
+
+              if (quote.clientId !== clientId) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `User ${clientId} is not the client of quote ${quote.id}`,
+                    "Apenas o cliente pode responder a esta proposta"
+                );
+              }
+
+              if (quote.status === "accepted" && data.accept) {
+                logger.idempotentSkip("respond_to_quote", quote.id, "already_accepted");
+                return {success: true, quoteId: quote.id, status: quote.status, bookingId: quote.bookingId};
+              }
+
+              if (quote.status !== "proposed" || !quote.proposal) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Quote ${quote.id} is ${quote.status}`,
+                    quote.status === "requested" ?
+                      "O fornecedor ainda não enviou a proposta" :
+                      "Esta proposta já não está disponível"
+                );
+              }
+
+              const proposal = quote.proposal;
+
+              if (proposal.validUntil < todayKey()) {
+                await quoteRef.update({
+                  status: "expired",
+                  updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+                await updateQuoteMessageStatus(quote, "expired", messageIds, logger);
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Quote ${quote.id} expired on ${proposal.validUntil}`,
+                    "Esta proposta expirou. Peça uma nova ao fornecedor"
+                );
+              }
+
+              const supplierDoc = await db.collection("suppliers").doc(quote.supplierId).get();
+              if (!supplierDoc.exists) {
+                throw Errors.notFound(errorContext, "Fornecedor", quote.supplierId);
+              }
+              const supplier = supplierDoc.data() || {};
+
+              // ==================== DECLINE ====================
+              if (!data.accept) {
+                await db.runTransaction(async (transaction) => {
+                  const current = (await transaction.get(quoteRef)).data();
+                  if (current?.status !== "proposed") {
+                    throw Errors.failedPrecondition(
+                        errorContext,
+                        `Quote ${quote.id} is ${current?.status}`,
+                        "Esta proposta já não está disponível"
+                    );
+                  }
+                  transaction.update(quoteRef, {
+                    status: "declined",
+                    declinedBy: clientId,
+                    declineReason: data.reason || null,
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                  });
+                });
+                await updateQuoteMessageStatus(quote, "declined", messageIds, logger);
+
+                await db.collection("notifications").add({
+                  userId: quote.supplierUserId,
+                  type: "quote_declined",
+                  title: "Proposta recusada",
+                  body: `O cliente recusou a sua proposta de ${formatCurrency(proposal.totalAmount, proposal.currency)}` +
+                    (data.reason ? `: ${data.reason}` : ""),
+                  data: {quoteId: quote.id, conversationId: quote.conversationId},
+                  isRead: false,
+                  createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+
+                logger.stateTransition("quote", quote.id, "proposed", "declined", clientId);
+                return {success: true, quoteId: quote.id, status: "declined" as QuoteStatus};
+              }
+
+              // ==================== ACCEPT ====================
+
+              // Every slot must still pass the booking gate
+              for (const slot of quote.slots) {
+                const eligibility = await isSupplierBookable(
+                    quote.supplierId,
+                    slot.date,
+                    errorContext,
+                    {slot}
+                );
+                if (!eligibility.eligible) {
+                  throw Errors.failedPrecondition(
+                      errorContext,
+                      `Supplier not eligible on ${slot.date}: ${eligibility.reasons.join(", ")}`,
+                      eligibility.reasons[0] || "Este fornecedor não está disponível para reservas"
+                  );
+                }
+              }
+
+              const conflictingSlots = await findConflictingSlots(quote.supplierId, quote.slots);
+              if (conflictingSlots.length > 0) {
+                throw Errors.alreadyExists(
+                    errorContext,
+                    "Reserva",
+                    quote.slots.length > 1 ?
+                      `Já existe uma reserva para ${conflictingSlots[0].date}` :
+                      "Já existe uma reserva para esta data"
+                );
+              }
+
+              // Spots freed by a cancellation may be held for waitlisted clients
+              const {heldDate} = await checkWaitlistHolds(quote.supplierId, quote.slots, clientId);
+              if (heldDate) {
+                logger.info("booking_slot_held_for_waitlist", {
+                  supplierId: quote.supplierId,
+                  heldDate,
+                });
+                throw Errors.alreadyExists(
+                    errorContext,
+                    "Reserva",
+                    `A vaga de ${heldDate} está reservada para um cliente da lista de espera`
+                );
+              }
+
+              const clientDoc = await db.collection("users").doc(clientId).get();
+              const clientData = clientDoc.exists ? clientDoc.data() : {};
+              const taxRates = await getTaxRates(quote.supplierId, supplier);
+
+              const totalAmount = proposal.totalAmount;
+              const terms: PaymentTerms = {
+                ...parsePaymentTerms(supplier.paymentTerms),
+                depositPercent: proposal.depositPercent,
+                balanceDueDays: proposal.balanceDueDays,
+              };
+
+              const bookingRef = db.collection("bookings").doc();
+              const now = admin.firestore.FieldValue.serverTimestamp();
+              const firstSlot = quote.slots[0];
+              const lastSlot = quote.slots[quote.slots.length - 1];
+
+              // Same shape as createBooking, priced from the proposal
+              const bookingData = {
+                id: bookingRef.id,
+                clientId,
+                clientName: clientData?.displayName || clientData?.name || "Cliente",
+                clientPhone: clientData?.phone || "",
+                clientEmail: clientData?.email || "",
+                supplierId: quote.supplierId,
+                supplierName: supplier.businessName || supplier.name || "Fornecedor",
+                supplierPhone: supplier.phone || "",
+                packageId: null,
+                packageName: "Orçamento personalizado",
+                packagePrice: totalAmount,
+                quoteId: quote.id,
+                quoteLineItems: proposal.lineItems,
+                eventDate: dateKeyToTimestamp(firstSlot.date),
+                eventEndDate: dateKeyToTimestamp(lastSlot.date),
+                eventTime: firstSlot.startTime,
+                startTime: firstSlot.startTime,
+                endTime: firstSlot.endTime,
+                slots: quote.slots,
+                eventName: quote.eventName,
+                eventLocation: quote.eventLocation,
+                guestCount: quote.guestCount,
+                notes: quote.description,
+                cancellationPolicy: snapshotCancellationPolicy(supplier.cancellationPolicy),
+                paymentSchedule: buildPaymentSchedule(
+                    totalAmount,
+                    dateKeyToTimestamp(firstSlot.date).toDate(),
+                    terms
+                ),
+                status: "pending",
+                originalAmount: totalAmount,
+                discountAmount: 0,
+                promotion: null,
+                totalAmount,
+                taxRates,
+                taxLines: calculateServiceTaxLines(totalAmount, taxRates),
+                currency: proposal.currency,
+                presentmentCurrency: null,
+                paidAmount: 0,
+                platformFee: 0,
+                supplierEarnings: 0,
+                createdAt: now,
+                updatedAt: now,
+                createdBy: "cloud_function",
+                clientRequestId: null,
+              };
+
+              // One booking per quote - accepted and booked together, or not at all
+              await db.runTransaction(async (transaction) => {
+                const current = (await transaction.get(quoteRef)).data();
+                if (current?.status !== "proposed" || current?.proposal?.revision !== proposal.revision) {
+                  throw Errors.failedPrecondition(
+                      errorContext,
+                      `Quote ${quote.id} changed before acceptance`,
+                      "A proposta foi alterada. Reveja a nova proposta"
+                  );
+                }
+                transaction.set(bookingRef, bookingData);
+                transaction.update(quoteRef, {
+                  status: "accepted",
+                  bookingId: bookingRef.id,
+                  acceptedAt: now,
+                  updatedAt: now,
+                });
+              });
+
+              logger.stateTransition("quote", quote.id, "proposed", "accepted", clientId);
+              logger.stateTransition("booking", bookingRef.id, "none", "pending", clientId);
+
+              try {
+                await markWaitlistBooked(
+                    quote.supplierId,
+                    quote.slots.map((slot) => slot.date),
+                    clientId,
+                    bookingRef.id
+                );
+              } catch (waitlistError) {
+                logger.warn("waitlist_update_failed", {
+                  bookingId: bookingRef.id,
+                  error: waitlistError instanceof Error ? waitlistError.message : "unknown",
+                });
+              }
+
+              await updateQuoteMessageStatus(quote, "accepted", messageIds, logger);
+
+              await db.collection("notifications").add({
+                userId: quote.supplierUserId,
+                type: "quote_accepted",
+                title: "Proposta aceite",
+                body: `${clientData?.displayName || "O cliente"} aceitou a sua proposta de ` +
+                  `${formatCurrency(totalAmount, proposal.currency)} para ${firstSlot.date}. ` +
+                  "Confirme a reserva",
+                data: {
+                  quoteId: quote.id,
+                  bookingId: bookingRef.id,
+                  eventDate: firstSlot.date,
+                },
+                isRead: false,
+                createdAt: now,
+              });
+
+              return {
+                success: true,
+                quoteId: quote.id,
+                status: "accepted" as QuoteStatus,
+                bookingId: bookingRef.id,
+              };
+            }
+        )
+    );
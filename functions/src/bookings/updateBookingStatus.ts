@@ -1,10 +1,13 @@
 import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
 import {validateTransition} from "./bookingStateMachine";
+import {getBookingSlots, dateKeyToTimestamp} from "./bookingUtils";
 import {
-  getEscrowByBookingId,
+  getHeldEscrowsByBookingId,
   markServiceCompleted,
 } from "../finance/escrowService";
+import {activatePaymentSchedule} from "./paymentSchedule";
+import {offerWaitlistSpots} from "./waitlist";
 
 const db = admin.firestore();
 const REGION = "us-central1";
@@ -155,13 +158,13 @@ export const updateBookingStatus = functions
             `Booking ${data.bookingId} status updated: ${currentStatus} → ${data.newStatus} by ${callerId}`
         );
 
-        // 9. Block date in supplier's calendar when confirmed
+        // 9. Block date(s) in supplier's calendar when confirmed
         if (data.newStatus === "confirmed") {
           try {
             await blockDateForBooking(
                 booking.supplierId,
                 data.bookingId,
-                booking.eventDate,
+                booking,
                 booking.eventName || "Reserva confirmada"
             );
             console.log(
@@ -174,14 +177,25 @@ export const updateBookingStatus = functions
                 blockError
             );
           }
+
+          // Deposit becomes due from confirmation
+          try {
+            await activatePaymentSchedule(data.bookingId);
+          } catch (scheduleError) {
+            console.error(
+                `Error activating payment schedule for booking ${data.bookingId}:`,
+                scheduleError
+            );
+          }
         }
 
         // 10. Handle escrow operations based on new status
         if (data.newStatus === "completed") {
           // When booking is completed, mark escrow service as completed
           // This starts the auto-release timer (48 hours by default)
-          const escrow = await getEscrowByBookingId(data.bookingId);
-          if (escrow && escrow.status === "funded") {
+          // Scheduled bookings hold one escrow per paid installment
+          const escrows = await getHeldEscrowsByBookingId(data.bookingId, ["funded"]);
+          for (const escrow of escrows) {
             try {
               await markServiceCompleted(escrow.id);
               console.log(
@@ -197,7 +211,23 @@ export const updateBookingStatus = functions
           }
         }
 
-        // 11. Create audit log entry
+        // 11. Offer the dates of a rejected/cancelled booking to waitlisted clients
+        if (data.newStatus === "cancelled") {
+          try {
+            await offerWaitlistSpots(
+                booking.supplierId,
+                getBookingSlots(booking).map((slot) => slot.date)
+            );
+          } catch (waitlistError) {
+            // The next cancellation or hold expiry retries the offer
+            console.error(
+                `Error offering waitlist spots for booking ${data.bookingId}:`,
+                waitlistError
+            );
+          }
+        }
+
+        // 12. Create audit log entry
         await db.collection("audit_logs").add({
           category: "booking",
           eventType: "statusChanged",
@@ -270,11 +300,12 @@ async function checkIsAdmin(userId: string): Promise<boolean> {
 /**
  * Block a date in supplier's calendar when booking is confirmed
  * Creates an entry in the supplier's blocked_dates subcollection
+ * (one per date for multi-day bookings)
  */
 async function blockDateForBooking(
     supplierId: string,
     bookingId: string,
-    eventDate: admin.firestore.Timestamp | Date,
+    booking: admin.firestore.DocumentData,
     eventName: string
 ): Promise<void> {
   // Check if this booking already has a blocked date entry
@@ -291,7 +322,31 @@ async function blockDateForBooking(
     return;
   }
 
+  // Multi-day bookings reserve every date they cover
+  const slotDates = [...new Set(getBookingSlots(booking).map((slot) => slot.date))];
+  if (slotDates.length > 1) {
+    const batch = db.batch();
+    const blockedDatesRef = db
+        .collection("suppliers")
+        .doc(supplierId)
+        .collection("blocked_dates");
+
+    for (const slotDate of slotDates) {
+      batch.set(blockedDatesRef.doc(), {
+        date: dateKeyToTimestamp(slotDate),
+        reason: eventName,
+        type: "reserved",
+        bookingId: bookingId,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    await batch.commit();
+    return;
+  }
+
   // Convert eventDate to proper format if needed
+  const eventDate = booking.eventDate;
   let dateTimestamp: admin.firestore.Timestamp;
   if (eventDate instanceof admin.firestore.Timestamp) {
     dateTimestamp = eventDate;
@@ -0,0 +1,490 @@
+/**
+ * Waitlist for Fully Booked Dates
+ *
+ * When a supplier has no capacity left on a date, clients can join the
+ * waitlist for that supplier and date (waitlist/{supplierId}_{date}_{clientId}).
+ *
+ * When a booking on the date is cancelled (cancelBooking) or expires
+ * (expirePendingBookings), offerWaitlistSpots offers each freed spot to
+ * the longest-waiting client: the entry becomes "offered" and holds the
+ * spot for HOLD_HOURS. While the hold lasts, createBooking keeps the
+ * spot for that client (see checkWaitlistHolds). Holds not used in time
+ * expire (expireWaitlistHolds) and the spot goes to the next client.
+ *
+ * Entry status: waiting → offered → booked | expired; cancelled when the
+ * client leaves.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {BookingLogger, createLogger} from "../common/logger";
+import {
+  BookingSlot,
+  checkDateAvailability,
+  getSlotCapacities,
+  toDateKey,
+} from "./bookingUtils";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const HOLD_HOURS = 24;
+const MAX_ACTIVE_ENTRIES_PER_CLIENT = 10;
+const SWEEP_BATCH_SIZE = 200;
+
+const logger = createLogger("booking", "waitlist");
+
+// ==================== TYPES ====================
+
+export type WaitlistStatus = "waiting" | "offered" | "booked" | "expired" | "cancelled";
+
+/**
+ * Waitlist entry as stored in waitlist/{supplierId}_{date}_{clientId}
+ */
+export interface WaitlistEntry {
+  supplierId: string;
+  clientId: string;
+  date: string; // YYYY-MM-DD
+  packageId: string | null;
+  status: WaitlistStatus;
+  offeredAt: FirebaseFirestore.Timestamp | null;
+  holdExpiresAt: FirebaseFirestore.Timestamp | null;
+  offerCount: number;
+  bookingId: string | null;
+  createdAt: FirebaseFirestore.Timestamp;
+}
+
+function getEntryId(supplierId: string, date: string, clientId: string): string {
+  return `${supplierId}_${date}_${clientId}`;
+}
+
+function isActiveHold(entry: FirebaseFirestore.DocumentData, nowMillis: number): boolean {
+  return entry.status === "offered" &&
+    (entry.holdExpiresAt?.toMillis?.() || 0) > nowMillis;
+}
+
+// ==================== OFFERS ====================
+
+/**
+ * Offer one waiting entry the freed spot
+ * @returns false if the entry was no longer waiting
+ */
+async function offerSpot(entryRef: FirebaseFirestore.DocumentReference): Promise<boolean> {
+  const holdExpiresAt = admin.firestore.Timestamp.fromMillis(
+      Date.now() + HOLD_HOURS * 60 * 60 * 1000
+  );
+
+  const entry = await db.runTransaction(async (transaction) => {
+    const latest = await transaction.get(entryRef);
+    const data = latest.data();
+    if (!data || data.status !== "waiting") {
+      return null;
+    }
+
+    transaction.update(entryRef, {
+      status: "offered",
+      offeredAt: admin.firestore.FieldValue.serverTimestamp(),
+      holdExpiresAt,
+      offerCount: admin.firestore.FieldValue.increment(1),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return data;
+  });
+
+  if (!entry) {
+    return false;
+  }
+
+  logger.stateTransition("waitlist", entryRef.id, "waiting", "offered");
+
+  const supplierDoc = await db.collection("suppliers").doc(entry.supplierId).get();
+  const supplierName = supplierDoc.data()?.businessName || "O fornecedor";
+
+  await db.collection("notifications").add({
+    userId: entry.clientId,
+    type: "waitlist_spot_available",
+    title: "Vaga disponível",
+    body: `${supplierName} tem uma vaga para ${entry.date}. ` +
+      `Está reservada para si durante ${HOLD_HOURS} horas - faça a sua reserva.`,
+    data: {
+      waitlistEntryId: entryRef.id,
+      supplierId: entry.supplierId,
+      packageId: entry.packageId || null,
+      eventDate: entry.date,
+      holdExpiresAt: holdExpiresAt.toDate().toISOString(),
+    },
+    isRead: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return true;
+}
+
+/**
+ * Offer the spots freed on a supplier's dates to waitlisted clients
+ * Each date gets as many offers as it has capacity left beyond the holds
+ * already running; clients are served in the order they joined.
+ * @param supplierId - The supplier's ID
+ * @param dates - Dates (YYYY-MM-DD) that may have freed up
+ * @returns Number of offers made
+ */
+export async function offerWaitlistSpots(
+    supplierId: string,
+    dates: string[]
+): Promise<number> {
+  const today = new Date().toISOString().slice(0, 10);
+  let offered = 0;
+
+  for (const date of [...new Set(dates)].filter((date) => date >= today)) {
+    const entriesSnapshot = await db
+        .collection("waitlist")
+        .where("supplierId", "==", supplierId)
+        .where("date", "==", date)
+        .where("status", "in", ["waiting", "offered"])
+        .get();
+
+    const waiting = entriesSnapshot.docs
+        .filter((doc) => doc.data().status === "waiting")
+        .sort((a, b) =>
+          (a.data().createdAt?.toMillis?.() || 0) - (b.data().createdAt?.toMillis?.() || 0)
+        );
+    if (waiting.length === 0) continue;
+
+    const availability = await checkDateAvailability(supplierId, date);
+    if (!availability.available) continue;
+
+    const nowMillis = Date.now();
+    const activeHolds = entriesSnapshot.docs
+        .filter((doc) => isActiveHold(doc.data(), nowMillis)).length;
+    let openSpots = (availability.remainingCapacity ?? 1) - activeHolds;
+
+    for (const entryDoc of waiting) {
+      if (openSpots <= 0) break;
+      if (await offerSpot(entryDoc.ref)) {
+        openSpots--;
+        offered++;
+      }
+    }
+  }
+
+  if (offered > 0) {
+    logger.info("waitlist_spots_offered", {supplierId, dates, offered});
+  }
+
+  return offered;
+}
+
+// ==================== BOOKING ====================
+
+/**
+ * Check the requested slots against the waitlist holds of other clients
+ * A held spot counts as taken for everyone but the client holding it.
+ * @param supplierId - The supplier's ID
+ * @param slots - The requested slots
+ * @param clientId - The client creating the booking
+ * @param packageId - Optional package to apply its own limit
+ * @returns The first date whose free capacity is held for other clients
+ */
+export async function checkWaitlistHolds(
+    supplierId: string,
+    slots: BookingSlot[],
+    clientId: string,
+    packageId?: string
+): Promise<{heldDate: string | null}> {
+  const nowMillis = Date.now();
+
+  for (const slot of slots) {
+    const holdsSnapshot = await db
+        .collection("waitlist")
+        .where("supplierId", "==", supplierId)
+        .where("date", "==", slot.date)
+        .where("status", "==", "offered")
+        .get();
+
+    const heldForOthers = holdsSnapshot.docs.filter((doc) =>
+      doc.data().clientId !== clientId && isActiveHold(doc.data(), nowMillis)
+    ).length;
+    if (heldForOthers === 0) continue;
+
+    const [capacity] = await getSlotCapacities(supplierId, [slot], {packageId});
+    if (capacity.remaining <= heldForOthers) {
+      return {heldDate: slot.date};
+    }
+  }
+
+  return {heldDate: null};
+}
+
+/**
+ * Close the client's waitlist entries for the dates they just booked
+ */
+export async function markWaitlistBooked(
+    supplierId: string,
+    dates: string[],
+    clientId: string,
+    bookingId: string
+): Promise<void> {
+  for (const date of new Set(dates)) {
+    const entryRef = db.collection("waitlist").doc(getEntryId(supplierId, date, clientId));
+    const entryDoc = await entryRef.get();
+    const status = entryDoc.data()?.status;
+    if (status !== "waiting" && status !== "offered") continue;
+
+    await entryRef.update({
+      status: "booked",
+      bookingId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    logger.stateTransition("waitlist", entryRef.id, status, "booked", clientId);
+  }
+}
+
+// ==================== CALLABLES ====================
+
+/**
+ * Join the waitlist of a fully booked supplier date
+ */
+export const joinWaitlist = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "joinWaitlist",
+            async (
+                data: {supplierId: string; date: string; packageId?: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const bookingLogger = BookingLogger("joinWaitlist").setContext(errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const clientId = context.auth.uid;
+
+              if (!data.supplierId) {
+                throw Errors.invalidArgument(errorContext, "supplierId", "Obrigatório");
+              }
+
+              const date = data.date;
+              if (typeof date !== "string" || toDateKey(date) !== date) {
+                throw Errors.invalidArgument(errorContext, "date", "Use o formato AAAA-MM-DD");
+              }
+
+              if (date < new Date().toISOString().slice(0, 10)) {
+                throw Errors.invalidArgument(errorContext, "date", "A data já passou");
+              }
+
+              const supplierDoc = await db.collection("suppliers").doc(data.supplierId).get();
+              if (!supplierDoc.exists) {
+                throw Errors.notFound(errorContext, "Fornecedor", data.supplierId);
+              }
+
+              if (supplierDoc.data()?.userId === clientId) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    "Supplier joining own waitlist",
+                    "Não pode entrar na lista de espera dos seus próprios serviços"
+                );
+              }
+
+              // Only fully booked dates have a waitlist - blocked dates are not
+              // freed by cancellations
+              const availability = await checkDateAvailability(
+                  data.supplierId,
+                  date,
+                  undefined,
+                  data.packageId
+              );
+              if (availability.available) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Date ${date} is available`,
+                    "Esta data está disponível - pode reservar já"
+                );
+              }
+              if (!availability.conflictingSlots) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Date ${date} is blocked: ${availability.reason}`,
+                    availability.reason || "Esta data não está disponível"
+                );
+              }
+
+              const entryRef = db.collection("waitlist").doc(getEntryId(data.supplierId, date, clientId));
+              const existing = await entryRef.get();
+              const existingStatus = existing.data()?.status;
+              if (existingStatus === "waiting" || existingStatus === "offered") {
+                return {
+                  success: true,
+                  waitlistEntryId: entryRef.id,
+                  status: existingStatus as WaitlistStatus,
+                };
+              }
+
+              const activeEntries = await db
+                  .collection("waitlist")
+                  .where("clientId", "==", clientId)
+                  .where("status", "in", ["waiting", "offered"])
+                  .get();
+              if (activeEntries.size >= MAX_ACTIVE_ENTRIES_PER_CLIENT) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Client ${clientId} has ${activeEntries.size} active waitlist entries`,
+                    `Pode estar em no máximo ${MAX_ACTIVE_ENTRIES_PER_CLIENT} listas de espera`
+                );
+              }
+
+              const now = admin.firestore.FieldValue.serverTimestamp();
+              await entryRef.set({
+                supplierId: data.supplierId,
+                clientId,
+                date,
+                packageId: data.packageId || null,
+                status: "waiting",
+                offeredAt: null,
+                holdExpiresAt: null,
+                offerCount: 0,
+                bookingId: null,
+                createdAt: now,
+                updatedAt: now,
+              });
+
+              const position = (await db
+                  .collection("waitlist")
+                  .where("supplierId", "==", data.supplierId)
+                  .where("date", "==", date)
+                  .where("status", "==", "waiting")
+                  .get()).size;
+
+              bookingLogger.info("waitlist_joined", {
+                waitlistEntryId: entryRef.id,
+                supplierId: data.supplierId,
+                date,
+                position,
+              });
+
+              return {
+                success: true,
+                waitlistEntryId: entryRef.id,
+                status: "waiting" as WaitlistStatus,
+                position,
+              };
+            }
+        )
+    );
+
+/**
+ * Leave a waitlist
+ * Giving up a running hold passes the spot on to the next client.
+ */
+export const leaveWaitlist = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "leaveWaitlist",
+            async (
+                data: {supplierId: string; date: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const clientId = context.auth.uid;
+              const entryRef = db
+                  .collection("waitlist")
+                  .doc(getEntryId(data.supplierId || "", data.date || "", clientId));
+              const entryDoc = await entryRef.get();
+              const status = entryDoc.data()?.status;
+
+              if (!entryDoc.exists) {
+                throw Errors.notFound(errorContext, "Lista de espera", entryRef.id);
+              }
+
+              if (status !== "waiting" && status !== "offered") {
+                return {success: true, waitlistEntryId: entryRef.id, status};
+              }
+
+              await entryRef.update({
+                status: "cancelled",
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+              });
+              logger.stateTransition("waitlist", entryRef.id, status, "cancelled", clientId);
+
+              if (status === "offered") {
+                await offerWaitlistSpots(data.supplierId, [data.date]);
+              }
+
+              return {success: true, waitlistEntryId: entryRef.id, status: "cancelled"};
+            }
+        )
+    );
+
+// ==================== SCHEDULED ====================
+
+/**
+ * Expire Waitlist Holds - Scheduled Cloud Function
+ * Runs every 15 minutes; expired holds pass the spot to the next client
+ */
+export const expireWaitlistHolds = functions
+    .region(REGION)
+    .pubsub
+    .schedule("*/15 * * * *")
+    .timeZone("Africa/Luanda")
+    .onRun(async () => {
+      const holds = await db
+          .collection("waitlist")
+          .where("status", "==", "offered")
+          .where("holdExpiresAt", "<=", admin.firestore.Timestamp.now())
+          .orderBy("holdExpiresAt")
+          .limit(SWEEP_BATCH_SIZE)
+          .get();
+
+      const freedDates = new Map<string, Set<string>>();
+      for (const holdDoc of holds.docs) {
+        const hold = holdDoc.data();
+
+        // The client may have booked since the query ran
+        const expired = await db.runTransaction(async (transaction) => {
+          const latest = await transaction.get(holdDoc.ref);
+          if (latest.data()?.status !== "offered") {
+            return false;
+          }
+          transaction.update(holdDoc.ref, {
+            status: "expired",
+            expiredAt: admin.firestore.FieldValue.serverTimestamp(),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          return true;
+        });
+        if (!expired) continue;
+
+        logger.stateTransition("waitlist", holdDoc.id, "offered", "expired");
+
+        const dates = freedDates.get(hold.supplierId) || new Set<string>();
+        dates.add(hold.date);
+        freedDates.set(hold.supplierId, dates);
+      }
+
+      let offered = 0;
+      for (const [supplierId, dates] of freedDates) {
+        try {
+          offered += await offerWaitlistSpots(supplierId, [...dates]);
+        } catch (error) {
+          logger.warn("waitlist_offer_failed", {
+            supplierId,
+            error: error instanceof Error ? error.message : "unknown",
+          });
+        }
+      }
+
+      logger.info("waitlist_holds_swept", {expired: holds.size, offered});
+      return null;
+    });
@@ -6,10 +6,39 @@ const REGION = "us-central1";
 
 // ==================== TYPES ====================
 
+/**
+ * Message types
+ * quote_request and quote_proposal are posted by the quote callables
+ * (bookings/quotes) and carry a snapshot of the quote in quoteData.
+ */
+export type MessageType =
+  | "text"
+  | "image"
+  | "quote"
+  | "file"
+  | "quote_request"
+  | "quote_proposal";
+
+/**
+ * Message types only the server can post
+ */
+const SERVER_MESSAGE_TYPES: MessageType[] = ["quote_request", "quote_proposal"];
+
+/**
+ * Conversation list preview per message type
+ */
+const MESSAGE_PREVIEWS: Record<Exclude<MessageType, "text">, string> = {
+  image: "📷 Imagem",
+  quote: "💰 Orçamento",
+  file: "📎 Arquivo",
+  quote_request: "📝 Pedido de orçamento",
+  quote_proposal: "💰 Proposta",
+};
+
 interface SendMessageRequest {
   conversationId: string;
   text?: string;
-  type?: "text" | "image" | "quote" | "file";
+  type?: MessageType;
   imageUrl?: string;
   quoteData?: {
     description: string;
@@ -118,6 +147,81 @@ async function getOtherParticipant(
   return participants.find((p) => p !== currentUserId) || null;
 }
 
+/**
+ * Resolve a conversation, falling back to the legacy chats collection
+ */
+export async function getConversationRef(
+    conversationId: string
+): Promise<FirebaseFirestore.DocumentReference> {
+  const convDoc = await db
+      .collection("conversations")
+      .doc(conversationId)
+      .get();
+
+  return convDoc.exists ?
+    db.collection("conversations").doc(conversationId) :
+    db.collection("chats").doc(conversationId);
+}
+
+/**
+ * Write a message and update the conversation's last message and unread count
+ * The sender must already be validated as a participant.
+ *
+ * @param conversationId - Conversation (or legacy chat) ID
+ * @param senderId - Sender's auth UID
+ * @param messageType - Message type
+ * @param fields - Type-specific fields (text, imageUrl, quoteData...)
+ * @returns The new message ID
+ */
+export async function postConversationMessage(
+    conversationId: string,
+    senderId: string,
+    messageType: MessageType,
+    fields: Record<string, unknown>
+): Promise<string> {
+  const senderInfo = await getUserInfo(senderId);
+
+  const receiverId = await getOtherParticipant(conversationId, senderId);
+  if (!receiverId) {
+    throw new functions.https.HttpsError(
+        "not-found",
+        "Destinatário não encontrado"
+    );
+  }
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const messageData: Record<string, unknown> = {
+    senderId,
+    senderName: senderInfo.name,
+    senderPhoto: senderInfo.photo,
+    receiverId,
+    type: messageType,
+    timestamp: now,
+    createdAt: now,
+    isRead: false,
+    readBy: [senderId],
+    ...fields,
+  };
+
+  const conversationRef = await getConversationRef(conversationId);
+  const messageRef = await conversationRef.collection("messages").add(messageData);
+
+  const lastMessagePreview = messageType === "text" ?
+    String(fields.text || "").substring(0, 100) :
+    MESSAGE_PREVIEWS[messageType];
+
+  await conversationRef.update({
+    lastMessage: lastMessagePreview,
+    lastMessageAt: now,
+    lastMessageSenderId: senderId,
+    updatedAt: now,
+    // Increment unread count for receiver
+    [`unreadCount.${receiverId}`]: admin.firestore.FieldValue.increment(1),
+  });
+
+  return messageRef.id;
+}
+
 // ==================== CLOUD FUNCTIONS ====================
 
 /**
@@ -152,6 +256,13 @@ export const sendMessage = functions
         );
       }
 
+      if (SERVER_MESSAGE_TYPES.includes(messageType)) {
+        throw new functions.https.HttpsError(
+            "invalid-argument",
+            "Use o fluxo de orçamentos para enviar pedidos e propostas"
+        );
+      }
+
       if (messageType === "image" && !data.imageUrl) {
         throw new functions.https.HttpsError(
             "invalid-argument",
@@ -171,95 +282,42 @@ export const sendMessage = functions
           );
         }
 
-        // 4. Get sender info
-        const senderInfo = await getUserInfo(senderId);
-
-        // 5. Get receiver ID
-        const receiverId = await getOtherParticipant(data.conversationId, senderId);
-        if (!receiverId) {
-          throw new functions.https.HttpsError(
-              "not-found",
-              "Destinatário não encontrado"
-          );
-        }
-
-        // 6. Create message document
-        const now = admin.firestore.FieldValue.serverTimestamp();
-        const messageData: Record<string, unknown> = {
-          senderId,
-          senderName: senderInfo.name,
-          senderPhoto: senderInfo.photo,
-          receiverId,
-          type: messageType,
-          timestamp: now,
-          createdAt: now,
-          isRead: false,
-          readBy: [senderId],
-        };
-
-        // Add type-specific fields
+        // 4. Type-specific fields
+        const fields: Record<string, unknown> = {};
         if (messageType === "text") {
-          messageData.text = data.text;
+          fields.text = data.text;
         } else if (messageType === "image") {
-          messageData.imageUrl = data.imageUrl;
-          messageData.text = data.text || "";
+          fields.imageUrl = data.imageUrl;
+          fields.text = data.text || "";
         } else if (messageType === "quote" && data.quoteData) {
-          messageData.quoteData = {
+          fields.quoteData = {
             description: data.quoteData.description,
             amount: data.quoteData.amount,
             currency: data.quoteData.currency || "AOA",
             validUntil: data.quoteData.validUntil,
           };
-          messageData.text = data.text || "";
+          fields.text = data.text || "";
         } else if (messageType === "file") {
-          messageData.fileUrl = data.fileUrl;
-          messageData.fileName = data.fileName;
-          messageData.text = data.text || "";
-        }
-
-        // 7. Write message - try conversations first, fallback to chats
-        let messagesRef: FirebaseFirestore.CollectionReference;
-        let conversationRef: FirebaseFirestore.DocumentReference;
-
-        const convDoc = await db
-            .collection("conversations")
-            .doc(data.conversationId)
-            .get();
-
-        if (convDoc.exists) {
-          conversationRef = db.collection("conversations").doc(data.conversationId);
-          messagesRef = conversationRef.collection("messages");
-        } else {
-          conversationRef = db.collection("chats").doc(data.conversationId);
-          messagesRef = conversationRef.collection("messages");
+          fields.fileUrl = data.fileUrl;
+          fields.fileName = data.fileName;
+          fields.text = data.text || "";
         }
 
-        // Add the message
-        const messageRef = await messagesRef.add(messageData);
-
-        // 8. Update conversation with last message
-        const lastMessagePreview = messageType === "text" ?
-          (data.text || "").substring(0, 100) :
-          messageType === "image" ? "📷 Imagem" :
-          messageType === "quote" ? "💰 Orçamento" :
-          messageType === "file" ? "📎 Arquivo" : "";
-
-        await conversationRef.update({
-          lastMessage: lastMessagePreview,
-          lastMessageAt: now,
-          lastMessageSenderId: senderId,
-          updatedAt: now,
-          // Increment unread count for receiver
-          [`unreadCount.${receiverId}`]: admin.firestore.FieldValue.increment(1),
-        });
+        // 5. Write the message and update the conversation
+        const messageId = await postConversationMessage(
+            data.conversationId,
+            senderId,
+            messageType,
+            fields
+        );
 
         console.log(
-            `sendMessage: Message ${messageRef.id} sent in conversation ${data.conversationId}`
+            `sendMessage: Message ${messageId} sent in conversation ${data.conversationId}`
         );
 
         return {
           success: true,
-          messageId: messageRef.id,
+          messageId,
         };
       } catch (error) {
         console.error("Error in sendMessage:", error);
@@ -0,0 +1,92 @@
+/**
+ * Currency Helpers
+ *
+ * Amounts are stored as integers in each currency's storage unit:
+ * - AOA: whole kwanzas (how the app has always stored prices)
+ * - EUR/USD: cents (what Stripe expects)
+ *
+ * Terminology:
+ * - settlement currency: the booking/package currency the supplier is
+ *   paid in (escrow, fees, ledger and payouts use it)
+ * - presentment currency: the currency the client is charged in
+ */
+
+// ==================== CURRENCIES ====================
+
+export const SUPPORTED_CURRENCIES = ["AOA", "EUR", "USD"] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "AOA";
+
+/**
+ * Decimal places of the stored integer amount per currency
+ */
+const CURRENCY_MINOR_UNITS: Record<CurrencyCode, number> = {
+  AOA: 0,
+  EUR: 2,
+  USD: 2,
+};
+
+/**
+ * Check if a currency code is supported
+ */
+export function isSupportedCurrency(code: string): code is CurrencyCode {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(code);
+}
+
+/**
+ * Normalize a stored/requested currency code (defaults to AOA)
+ */
+export function normalizeCurrency(code: unknown): CurrencyCode {
+  const upper = typeof code === "string" ? code.toUpperCase() : "";
+  return isSupportedCurrency(upper) ? upper : DEFAULT_CURRENCY;
+}
+
+// ==================== AMOUNTS ====================
+
+/**
+ * Convert a stored amount to major units (e.g. cents → euros)
+ */
+export function toMajorUnits(amount: number, currency: string): number {
+  return amount / Math.pow(10, CURRENCY_MINOR_UNITS[normalizeCurrency(currency)]);
+}
+
+/**
+ * Convert major units to a stored (integer) amount
+ */
+export function fromMajorUnits(amount: number, currency: string): number {
+  return Math.round(amount * Math.pow(10, CURRENCY_MINOR_UNITS[normalizeCurrency(currency)]));
+}
+
+/**
+ * Convert a stored amount between currencies
+ *
+ * @param amount - Stored amount in `from`
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param rate - Units of `to` per unit of `from`
+ * @returns Stored amount in `to`
+ */
+export function convertAmount(
+    amount: number,
+    from: string,
+    to: string,
+    rate: number
+): number {
+  if (normalizeCurrency(from) === normalizeCurrency(to)) {
+    return amount;
+  }
+  return fromMajorUnits(toMajorUnits(amount, from) * rate, to);
+}
+
+/**
+ * Format a stored amount for notifications
+ */
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const code = normalizeCurrency(currency);
+  return new Intl.NumberFormat("pt-AO", {
+    style: "currency",
+    currency: code,
+  }).format(toMajorUnits(amount, code));
+}
@@ -0,0 +1,13 @@
+/**
+ * Firebase Admin Initialization
+ *
+ * Modules read admin.firestore() when they load, so the app must be
+ * initialized before any of them is imported: index.ts imports this
+ * module first.
+ */
+
+import * as admin from "firebase-admin";
+
+if (admin.apps.length === 0) {
+  admin.initializeApp();
+}
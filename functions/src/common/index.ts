@@ -6,6 +6,7 @@
  * - Structured logging
  * - Kill-switches
  * - Idempotency guards
+ * - Currency helpers
  */
 
 // Error handling
@@ -61,3 +62,16 @@ export {
   stateTransitionKey,
   cleanupExpiredKeys,
 } from "./idempotency";
+
+// Currency
+export {
+  CurrencyCode,
+  SUPPORTED_CURRENCIES,
+  DEFAULT_CURRENCY,
+  isSupportedCurrency,
+  normalizeCurrency,
+  toMajorUnits,
+  fromMajorUnits,
+  convertAmount,
+  formatCurrency,
+} from "./currency";
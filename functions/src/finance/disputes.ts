@@ -0,0 +1,868 @@
+/**
+ * Disputes - Callable Cloud Functions
+ *
+ * Dispute workflow on top of the escrow "disputed" status:
+ * 1. Client opens a dispute while funds are held (before auto-release)
+ *    → held escrows are frozen, processAutoReleases skips them
+ * 2. Client, supplier and admin add statements with attachments
+ *    → first admin statement moves the dispute to under_review
+ * 3. Admin resolves with a full release, full refund or a split
+ *
+ * Collection: disputes/{disputeId}
+ * Statements: disputes/{disputeId}/statements/{statementId}
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {EscrowLogger} from "../common/logger";
+import {requireFeatureEnabled} from "../common/killSwitch";
+import {
+  getHeldEscrowsByBookingId,
+  isInDisputeWindow,
+  openEscrowDispute,
+  releaseEscrow,
+  refundEscrow,
+  splitEscrow,
+} from "./escrowService";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const MAX_REASON_LENGTH = 1000;
+const MAX_STATEMENT_LENGTH = 5000;
+const MAX_ATTACHMENTS = 10;
+// A resolution claimed longer ago than this is treated as abandoned
+const RESOLUTION_CLAIM_MS = 10 * 60 * 1000;
+
+// ==================== TYPES ====================
+
+export type DisputeStatus = "open" | "under_review" | "resolved";
+export type DisputeOutcome = "release" | "refund" | "split";
+type DisputeRole = "client" | "supplier" | "admin";
+
+interface OpenDisputeRequest {
+  bookingId: string;
+  reason: string;
+  statement?: string;
+  attachments?: string[]; // Storage paths under bookings/{bookingId}/
+}
+
+interface SubmitDisputeStatementRequest {
+  disputeId: string;
+  text: string;
+  attachments?: string[];
+}
+
+interface GetDisputeDetailsRequest {
+  disputeId: string;
+}
+
+interface ResolveDisputeRequest {
+  disputeId: string;
+  outcome: DisputeOutcome;
+  refundAmount?: number; // Required for "split"
+  notes: string;
+}
+
+interface DisputeResolution {
+  outcome: DisputeOutcome;
+  refundAmount: number;
+  supplierAmount: number;
+  notes: string;
+  resolvedBy: string;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Check if a user is an admin
+ */
+async function checkIsAdmin(userId: string): Promise<boolean> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  if (!userDoc.exists) return false;
+  return userDoc.data()?.role === "admin";
+}
+
+/**
+ * Get the user ID associated with a supplier
+ */
+async function getSupplierUserId(supplierId: string): Promise<string | null> {
+  const supplierDoc = await db.collection("suppliers").doc(supplierId).get();
+  return supplierDoc.data()?.userId || null;
+}
+
+/**
+ * Resolve the caller's role in a dispute (null = not a participant)
+ */
+async function getDisputeRole(
+    dispute: FirebaseFirestore.DocumentData,
+    userId: string
+): Promise<DisputeRole | null> {
+  if (dispute.clientId === userId) return "client";
+  if (dispute.supplierUserId === userId) return "supplier";
+  if (await checkIsAdmin(userId)) return "admin";
+  return null;
+}
+
+/**
+ * Validate attachment paths
+ * Evidence must already be uploaded to the booking's Storage folder,
+ * which only booking participants can write to.
+ */
+function validateAttachments(
+    attachments: unknown,
+    bookingId: string,
+    errorContext: ErrorContext
+): string[] {
+  if (attachments === undefined || attachments === null) {
+    return [];
+  }
+
+  if (!Array.isArray(attachments) || attachments.length > MAX_ATTACHMENTS) {
+    throw Errors.invalidArgument(
+        errorContext,
+        "attachments",
+        `Máximo de ${MAX_ATTACHMENTS} anexos`
+    );
+  }
+
+  const prefix = `bookings/${bookingId}/`;
+  for (const path of attachments) {
+    if (typeof path !== "string" || !path.startsWith(prefix) || path.includes("..")) {
+      throw Errors.invalidArgument(errorContext, "attachments", "Anexo inválido");
+    }
+  }
+
+  return attachments as string[];
+}
+
+/**
+ * Record a statement on a dispute
+ */
+async function addStatement(
+    disputeId: string,
+    authorId: string,
+    authorRole: DisputeRole,
+    text: string,
+    attachments: string[]
+): Promise<string> {
+  const statementRef = db
+      .collection("disputes")
+      .doc(disputeId)
+      .collection("statements")
+      .doc();
+
+  await statementRef.set({
+    id: statementRef.id,
+    disputeId,
+    authorId,
+    authorRole,
+    text,
+    attachments,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return statementRef.id;
+}
+
+/**
+ * Notify a list of users about a dispute event
+ */
+async function notifyUsers(
+    userIds: Array<string | null>,
+    type: string,
+    title: string,
+    body: string,
+    data: Record<string, unknown>
+): Promise<void> {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  for (const userId of userIds) {
+    if (!userId) continue;
+    await db.collection("notifications").add({
+      userId,
+      type,
+      title,
+      body,
+      data,
+      isRead: false,
+      createdAt: now,
+    });
+  }
+}
+
+/**
+ * Spread a refund across the disputed escrows, filling each in turn
+ */
+function allocateRefund(
+    escrows: FirebaseFirestore.DocumentData[],
+    refundAmount: number
+): Array<{escrowId: string; totalAmount: number; refundAmount: number}> {
+  let remaining = refundAmount;
+  return escrows.map((escrow) => {
+    const totalAmount = escrow.totalAmount || 0;
+    const allocated = Math.min(totalAmount, remaining);
+    remaining -= allocated;
+    return {escrowId: escrow.id, totalAmount, refundAmount: allocated};
+  });
+}
+
+/**
+ * Settle the escrows still frozen by a dispute
+ * Each escrow goes from disputed straight to released or refunded in one
+ * write, so one left disputed by an earlier, failed attempt is settled on
+ * retry and one it already settled is skipped.
+ *
+ * @returns Held amount, client refund and supplier share
+ */
+async function settleDisputedEscrows(
+    disputeId: string,
+    dispute: FirebaseFirestore.DocumentData,
+    data: ResolveDisputeRequest,
+    adminId: string,
+    notes: string,
+    errorContext: ErrorContext
+): Promise<{heldAmount: number; refundAmount: number; supplierAmount: number}> {
+  const escrowDocs = await Promise.all(
+      (dispute.escrowIds as string[]).map((id) => db.collection("escrow").doc(id).get())
+  );
+  const escrows = escrowDocs
+      .filter((doc) => doc.exists && doc.data()?.status === "disputed")
+      .map((doc) => ({id: doc.id, ...doc.data()}) as FirebaseFirestore.DocumentData);
+  const heldAmount = escrows.reduce((sum, escrow) => sum + (escrow.totalAmount || 0), 0);
+
+  // Work out the client refund
+  let refundAmount: number;
+  if (data.outcome === "release") {
+    refundAmount = 0;
+  } else if (data.outcome === "refund") {
+    refundAmount = heldAmount;
+  } else {
+    refundAmount = Math.round(Number(data.refundAmount));
+    if (!Number.isFinite(refundAmount) || refundAmount <= 0 || refundAmount >= heldAmount) {
+      throw Errors.invalidArgument(
+          errorContext,
+          "refundAmount",
+          `Deve estar entre 0 e ${heldAmount}`
+      );
+    }
+  }
+
+  // Settle each escrow
+  const actor = `admin:${adminId}`;
+  const settleReason = `Dispute ${disputeId} resolved: ${data.outcome}`;
+  let supplierAmount = 0;
+
+  for (const allocation of allocateRefund(escrows, refundAmount)) {
+    if (allocation.refundAmount <= 0) {
+      const release = await releaseEscrow(allocation.escrowId, actor, notes, disputeId);
+      supplierAmount += release.supplierPayout;
+    } else if (allocation.refundAmount >= allocation.totalAmount) {
+      await refundEscrow(allocation.escrowId, actor, settleReason);
+    } else {
+      const split = await splitEscrow(
+          allocation.escrowId,
+          allocation.refundAmount,
+          actor,
+          settleReason,
+          disputeId
+      );
+      supplierAmount += split.supplierCompensation;
+    }
+  }
+
+  return {heldAmount, refundAmount, supplierAmount};
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Open Dispute - Callable Cloud Function
+ *
+ * Only the client can open a dispute, and only while funds are still held:
+ * escrow funded, or service completed and auto-release not yet reached.
+ */
+export const openDispute = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "openDispute",
+            async (
+                data: OpenDisputeRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = EscrowLogger("openDispute").setContext(errorContext);
+              logger.operationStart("open_dispute", {bookingId: data.bookingId});
+
+              await requireFeatureEnabled("escrow", errorContext);
+
+              // 1. Validate authentication and input
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const clientId = context.auth.uid;
+
+              if (!data.bookingId) {
+                throw Errors.invalidArgument(errorContext, "bookingId", "Campo obrigatório");
+              }
+
+              const reason = (data.reason || "").trim();
+              if (!reason || reason.length > MAX_REASON_LENGTH) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "reason",
+                    `Indique o motivo (máximo ${MAX_REASON_LENGTH} caracteres)`
+                );
+              }
+
+              const attachments = validateAttachments(data.attachments, data.bookingId, errorContext);
+
+              // 2. Validate booking ownership
+              const bookingRef = db.collection("bookings").doc(data.bookingId);
+              const bookingDoc = await bookingRef.get();
+
+              const booking = bookingDoc.data();
+              if (!booking) {
+                throw Errors.notFound(errorContext, "Reserva", data.bookingId);
+              }
+
+              if (booking.clientId !== clientId) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Caller ${clientId} is not the client of booking ${data.bookingId}`,
+                    "Apenas o cliente pode abrir uma disputa"
+                );
+              }
+
+              if (booking.disputeId) {
+                throw Errors.alreadyExists(
+                    errorContext,
+                    "Disputa",
+                    `Booking ${data.bookingId} already has dispute ${booking.disputeId}`
+                );
+              }
+
+              // 3. Funds must still be held and inside the auto-release window
+              const nowMs = Date.now();
+              const heldEscrows = (await getHeldEscrowsByBookingId(data.bookingId)).filter(
+                  (escrow) => isInDisputeWindow({
+                    status: escrow.status,
+                    autoReleaseAt: escrow.autoReleaseAt,
+                  }, nowMs)
+              );
+
+              if (heldEscrows.length === 0) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `No held escrow in dispute window for booking ${data.bookingId}`,
+                    "O prazo para abrir uma disputa terminou"
+                );
+              }
+
+              // 4. Create dispute and link it to the booking, then freeze escrow
+              const disputeRef = db.collection("disputes").doc();
+              const now = admin.firestore.FieldValue.serverTimestamp();
+              const supplierUserId = await getSupplierUserId(booking.supplierId);
+              const heldAmount = heldEscrows.reduce((sum, escrow) => sum + (escrow.totalAmount || 0), 0);
+              const escrowIds = heldEscrows.map((escrow) => escrow.id as string);
+
+              // Re-read under the transaction: a concurrent call may have opened one
+              const existingDisputeId = await db.runTransaction(async (transaction) => {
+                const latest = await transaction.get(bookingRef);
+                const linkedDisputeId = latest.data()?.disputeId;
+                if (linkedDisputeId) {
+                  return linkedDisputeId as string;
+                }
+
+                transaction.create(disputeRef, {
+                  id: disputeRef.id,
+                  bookingId: data.bookingId,
+                  escrowIds,
+                  clientId,
+                  supplierId: booking.supplierId,
+                  supplierUserId,
+                  openedBy: clientId,
+                  status: "open" as DisputeStatus,
+                  reason,
+                  heldAmount,
+                  currency: heldEscrows[0].currency || booking.currency || "AOA",
+                  statementCount: 0,
+                  resolution: null,
+                  createdAt: now,
+                  updatedAt: now,
+                });
+                transaction.update(bookingRef, {
+                  disputeId: disputeRef.id,
+                  disputeStatus: "open",
+                  updatedAt: now,
+                });
+                return null;
+              });
+
+              if (existingDisputeId) {
+                throw Errors.alreadyExists(
+                    errorContext,
+                    "Disputa",
+                    `Booking ${data.bookingId} already has dispute ${existingDisputeId}`
+                );
+              }
+
+              for (const escrowId of escrowIds) {
+                await openEscrowDispute(escrowId, disputeRef.id, clientId, reason);
+              }
+
+              if (data.statement || attachments.length > 0) {
+                await addStatement(
+                    disputeRef.id,
+                    clientId,
+                    "client",
+                    (data.statement || "").slice(0, MAX_STATEMENT_LENGTH),
+                    attachments
+                );
+                await disputeRef.update({statementCount: admin.firestore.FieldValue.increment(1)});
+              }
+
+              // 5. Audit + notifications
+              await db.collection("audit_logs").add({
+                category: "finance",
+                eventType: "disputeOpened",
+                userId: clientId,
+                resourceId: disputeRef.id,
+                resourceType: "dispute",
+                previousValue: null,
+                newValue: "open",
+                description: `Dispute opened for booking ${data.bookingId}`,
+                metadata: {
+                  bookingId: data.bookingId,
+                  supplierId: booking.supplierId,
+                  escrowIds,
+                  heldAmount,
+                  reason,
+                },
+                timestamp: now,
+              });
+
+              await notifyUsers(
+                  [supplierUserId],
+                  "dispute_opened",
+                  "Disputa Aberta",
+                  "O cliente abriu uma disputa. O pagamento fica retido até à decisão da equipa.",
+                  {bookingId: data.bookingId, disputeId: disputeRef.id}
+              );
+
+              await db.collection("admin_notifications").add({
+                type: "dispute_opened",
+                title: "Nova disputa",
+                body: `Disputa aberta para a reserva ${data.bookingId}`,
+                data: {bookingId: data.bookingId, disputeId: disputeRef.id, heldAmount},
+                isRead: false,
+                createdAt: now,
+              });
+
+              logger.stateTransition("booking", data.bookingId, booking.status, "disputed", clientId);
+              logger.operationSuccess("open_dispute", {
+                disputeId: disputeRef.id,
+                escrowIds,
+                heldAmount,
+              });
+
+              return {
+                success: true,
+                disputeId: disputeRef.id,
+                status: "open" as DisputeStatus,
+                heldAmount,
+              };
+            }
+        )
+    );
+
+/**
+ * Submit Dispute Statement - Callable Cloud Function
+ *
+ * Client, supplier or admin adds a statement (and evidence) to an
+ * unresolved dispute.
+ */
+export const submitDisputeStatement = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "submitDisputeStatement",
+            async (
+                data: SubmitDisputeStatementRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = EscrowLogger("submitDisputeStatement").setContext(errorContext);
+
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const callerId = context.auth.uid;
+
+              if (!data.disputeId) {
+                throw Errors.invalidArgument(errorContext, "disputeId", "Campo obrigatório");
+              }
+
+              const text = (data.text || "").trim();
+              if (!text || text.length > MAX_STATEMENT_LENGTH) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "text",
+                    `Escreva a sua declaração (máximo ${MAX_STATEMENT_LENGTH} caracteres)`
+                );
+              }
+
+              const disputeRef = db.collection("disputes").doc(data.disputeId);
+              const disputeDoc = await disputeRef.get();
+
+              const dispute = disputeDoc.data();
+              if (!dispute) {
+                throw Errors.notFound(errorContext, "Disputa", data.disputeId);
+              }
+              const role = await getDisputeRole(dispute, callerId);
+
+              if (!role) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Caller ${callerId} is not part of dispute ${data.disputeId}`,
+                    "Você não faz parte desta disputa"
+                );
+              }
+
+              if (dispute.status === "resolved") {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Dispute ${data.disputeId} already resolved`,
+                    "Esta disputa já foi resolvida"
+                );
+              }
+
+              const attachments = validateAttachments(data.attachments, dispute.bookingId, errorContext);
+              const statementId = await addStatement(data.disputeId, callerId, role, text, attachments);
+
+              // Admin involvement means the dispute is being mediated
+              const newStatus: DisputeStatus = role === "admin" ? "under_review" : dispute.status;
+              const now = admin.firestore.FieldValue.serverTimestamp();
+
+              await disputeRef.update({
+                status: newStatus,
+                statementCount: admin.firestore.FieldValue.increment(1),
+                lastStatementAt: now,
+                updatedAt: now,
+              });
+
+              if (newStatus !== dispute.status) {
+                await db.collection("bookings").doc(dispute.bookingId).update({
+                  disputeStatus: newStatus,
+                  updatedAt: now,
+                });
+              }
+
+              await db.collection("audit_logs").add({
+                category: "finance",
+                eventType: "disputeStatementAdded",
+                userId: callerId,
+                resourceId: data.disputeId,
+                resourceType: "dispute",
+                previousValue: dispute.status,
+                newValue: newStatus,
+                description: `Dispute statement added by ${role}`,
+                metadata: {
+                  bookingId: dispute.bookingId,
+                  statementId,
+                  authorRole: role,
+                  attachmentCount: attachments.length,
+                },
+                timestamp: now,
+              });
+
+              // Notify the other participants
+              const recipients = [dispute.clientId, dispute.supplierUserId].filter(
+                  (userId) => userId !== callerId
+              );
+              await notifyUsers(
+                  recipients,
+                  "dispute_statement_added",
+                  "Disputa Atualizada",
+                  "Foi adicionada uma nova declaração à disputa",
+                  {bookingId: dispute.bookingId, disputeId: data.disputeId}
+              );
+
+              logger.info("dispute_statement_added", {
+                disputeId: data.disputeId,
+                statementId,
+                authorRole: role,
+                status: newStatus,
+              });
+
+              return {
+                success: true,
+                statementId,
+                status: newStatus,
+              };
+            }
+        )
+    );
+
+/**
+ * Get Dispute Details - Callable Cloud Function
+ *
+ * Returns the dispute and all statements to participants and admins.
+ */
+export const getDisputeDetails = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "getDisputeDetails",
+            async (
+                data: GetDisputeDetailsRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              if (!data.disputeId) {
+                throw Errors.invalidArgument(errorContext, "disputeId", "Campo obrigatório");
+              }
+
+              const disputeRef = db.collection("disputes").doc(data.disputeId);
+              const disputeDoc = await disputeRef.get();
+
+              const dispute = disputeDoc.data();
+              if (!dispute) {
+                throw Errors.notFound(errorContext, "Disputa", data.disputeId);
+              }
+              const role = await getDisputeRole(dispute, context.auth.uid);
+
+              if (!role) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Caller ${context.auth.uid} is not part of dispute ${data.disputeId}`,
+                    "Você não faz parte desta disputa"
+                );
+              }
+
+              const statementsSnapshot = await disputeRef
+                  .collection("statements")
+                  .orderBy("createdAt", "asc")
+                  .get();
+
+              return {
+                success: true,
+                role,
+                dispute: {
+                  ...dispute,
+                  createdAt: dispute.createdAt?.toDate?.()?.toISOString() || null,
+                  updatedAt: dispute.updatedAt?.toDate?.()?.toISOString() || null,
+                  resolvedAt: dispute.resolvedAt?.toDate?.()?.toISOString() || null,
+                },
+                statements: statementsSnapshot.docs.map((doc) => {
+                  const statement = doc.data();
+                  return {
+                    ...statement,
+                    createdAt: statement.createdAt?.toDate?.()?.toISOString() || null,
+                  };
+                }),
+              };
+            }
+        )
+    );
+
+/**
+ * Resolve Dispute - Callable Cloud Function
+ *
+ * Admin only. Unfreezes the disputed escrows and settles them:
+ * - release: everything goes to the supplier
+ * - refund: everything goes back to the client
+ * - split: refundAmount goes back to the client, the rest to the supplier
+ */
+export const resolveDispute = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "resolveDispute",
+            async (
+                data: ResolveDisputeRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              const logger = EscrowLogger("resolveDispute").setContext(errorContext);
+              logger.operationStart("resolve_dispute", {
+                disputeId: data.disputeId,
+                outcome: data.outcome,
+              });
+
+              await requireFeatureEnabled("escrow", errorContext);
+
+              // 1. Validate admin caller and input
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const adminId = context.auth.uid;
+
+              if (!(await checkIsAdmin(adminId))) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Caller ${adminId} is not an admin`,
+                    "Apenas administradores podem resolver disputas"
+                );
+              }
+
+              if (!data.disputeId) {
+                throw Errors.invalidArgument(errorContext, "disputeId", "Campo obrigatório");
+              }
+
+              if (!["release", "refund", "split"].includes(data.outcome)) {
+                throw Errors.invalidArgument(errorContext, "outcome", "Deve ser release, refund ou split");
+              }
+
+              const notes = (data.notes || "").trim();
+              if (!notes) {
+                throw Errors.invalidArgument(errorContext, "notes", "Indique a justificação da decisão");
+              }
+
+              // 2. Claim the dispute, so a concurrent call cannot settle it twice
+              const disputeRef = db.collection("disputes").doc(data.disputeId);
+              const claim = await db.runTransaction(async (transaction) => {
+                const disputeDoc = await transaction.get(disputeRef);
+                const current = disputeDoc.data();
+                if (!current || current.status === "resolved") {
+                  return {dispute: current, claimed: false};
+                }
+
+                const startedAt = current.resolutionStartedAt as FirebaseFirestore.Timestamp | undefined;
+                if (startedAt && Date.now() - startedAt.toMillis() < RESOLUTION_CLAIM_MS) {
+                  return {dispute: current, claimed: false};
+                }
+
+                transaction.update(disputeRef, {
+                  resolutionStartedAt: admin.firestore.Timestamp.now(),
+                  resolvingBy: adminId,
+                  updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+                return {dispute: current, claimed: true};
+              });
+
+              const dispute = claim.dispute;
+              if (!dispute) {
+                throw Errors.notFound(errorContext, "Disputa", data.disputeId);
+              }
+
+              if (dispute.status === "resolved") {
+                logger.idempotentSkip("resolve_dispute", data.disputeId, "already resolved");
+                return {
+                  success: true,
+                  disputeId: data.disputeId,
+                  resolution: dispute.resolution as DisputeResolution,
+                };
+              }
+
+              if (!claim.claimed) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Dispute ${data.disputeId} is being resolved by ${dispute.resolvingBy}`,
+                    "Esta disputa já está a ser resolvida"
+                );
+              }
+
+              // A failed settlement gives the dispute back so it can be retried
+              const releaseClaim = () => disputeRef.update({
+                resolutionStartedAt: null,
+                resolvingBy: null,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+              });
+
+              // 3. Work out the refund and settle each escrow
+              let settlement: {heldAmount: number; refundAmount: number; supplierAmount: number};
+              try {
+                settlement = await settleDisputedEscrows(
+                    data.disputeId,
+                    dispute,
+                    data,
+                    adminId,
+                    notes,
+                    errorContext
+                );
+              } catch (error) {
+                await releaseClaim();
+                throw error;
+              }
+              const {heldAmount, refundAmount, supplierAmount} = settlement;
+
+              // 4. Record resolution
+              const resolution: DisputeResolution = {
+                outcome: data.outcome,
+                refundAmount,
+                supplierAmount,
+                notes,
+                resolvedBy: adminId,
+              };
+              const now = admin.firestore.FieldValue.serverTimestamp();
+
+              await disputeRef.update({
+                status: "resolved" as DisputeStatus,
+                resolution,
+                resolvedAt: now,
+                updatedAt: now,
+              });
+
+              await db.collection("bookings").doc(dispute.bookingId).update({
+                disputeStatus: "resolved",
+                updatedAt: now,
+              });
+
+              await db.collection("audit_logs").add({
+                category: "finance",
+                eventType: "disputeResolved",
+                userId: adminId,
+                resourceId: data.disputeId,
+                resourceType: "dispute",
+                previousValue: dispute.status,
+                newValue: "resolved",
+                description: `Dispute resolved: ${data.outcome}`,
+                metadata: {
+                  bookingId: dispute.bookingId,
+                  escrowIds: dispute.escrowIds,
+                  heldAmount,
+                  ...resolution,
+                },
+                timestamp: now,
+              });
+
+              const outcomeLabels: Record<DisputeOutcome, string> = {
+                release: "o pagamento foi libertado ao fornecedor",
+                refund: "o valor foi reembolsado ao cliente",
+                split: "o valor foi dividido entre cliente e fornecedor",
+              };
+              await notifyUsers(
+                  [dispute.clientId, dispute.supplierUserId],
+                  "dispute_resolved",
+                  "Disputa Resolvida",
+                  `A disputa foi resolvida: ${outcomeLabels[data.outcome]}`,
+                  {bookingId: dispute.bookingId, disputeId: data.disputeId, ...resolution}
+              );
+
+              logger.stateTransition("dispute", data.disputeId, dispute.status, "resolved", adminId);
+              logger.operationSuccess("resolve_dispute", {
+                disputeId: data.disputeId,
+                ...resolution,
+              });
+
+              return {
+                success: true,
+                disputeId: data.disputeId,
+                resolution,
+              };
+            }
+        )
+    );
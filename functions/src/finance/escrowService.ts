@@ -7,18 +7,47 @@
  * Escrow Lifecycle:
  * 1. pending_payment - Escrow created when payment intent is created
  * 2. funded - Payment confirmed (via webhook or confirmPayment)
+ *    Bookings with a payment schedule get one escrow per installment.
  * 3. service_completed - Booking marked completed, waiting for release
  * 4. released - Funds released to supplier (auto or manual)
- * 5. disputed - Client opened dispute, release frozen
+ *    Queues a payout; suppliers on Stripe Connect are transferred to at once
+ * 5. disputed - Client opened dispute, or the payment was charged back
+ *    (chargebackId), release frozen
  * 6. refunded - Funds returned to client
+ * 7. expired - Payment intent expired unpaid (see payments/paymentExpiry);
+ *    never funded, so no ledger entries. A late payment still funds it.
+ *
+ * A lost chargeback refunds held escrow; after release the supplier's
+ * share becomes a receivable deducted from their next payout (see
+ * payments/paymentReversals).
+ *
+ * Funding, release and refunds post to the ledger (see ledger.ts) in the
+ * same write as the escrow update.
+ * Receipts, credit notes and commission invoices are issued from those
+ * writes by triggers (see invoiceService.ts).
  *
  * Platform Fee Calculation (SERVER-ONLY):
  * - Default: 10% platform fee
  * - Tiered suppliers may have reduced fees
  * - Fee calculated on server, never trusted from client
+ * - Platform-funded promotion discounts are covered by the platform at
+ *   release, the supplier payout is unaffected (see promotions/)
+ * - IVA and withholding are reported as tax lines (see taxEngine.ts),
+ *   carried from the escrow onto its payout
+ *
+ * Currencies:
+ * - Escrow amounts, fees and payouts are in the settlement (booking) currency
+ * - Clients paying in another currency have the presentment amount and
+ *   FX rate snapshot stored on the escrow; refunds reuse that rate
  */
 
 import * as admin from "firebase-admin";
+import {getPaymentStatusAfterPayment, recordInstallmentPayment} from "../bookings/paymentSchedule";
+import {addLedgerTransaction, ledgerTransfer} from "./ledger";
+import {FxRateSnapshot} from "./fxRates";
+import {convertAmount, formatCurrency} from "../common/currency";
+import {calculateTaxLines, getTaxRates, TaxLine, TaxRates} from "./taxEngine";
+import {sendPayoutOnRelease, SupplierReceivableRecord} from "./payoutService";
 
 const db = admin.firestore();
 
@@ -55,19 +84,27 @@ export type EscrowStatus =
   | "service_completed"
   | "released"
   | "disputed"
-  | "refunded";
+  | "refunded"
+  | "expired";
 
 export interface EscrowRecord {
   id: string;
   bookingId: string;
   paymentId?: string;
+  installmentId?: string; // Payment schedule installment this escrow holds
   clientId: string;
   supplierId: string;
   totalAmount: number;
   platformFee: number;
   platformFeePercent: number;
   supplierPayout: number;
-  currency: string;
+  platformDiscount?: number; // Platform-funded promotion discount covered at release
+  taxRates: TaxRates; // Booking snapshot
+  taxLines: TaxLine[];
+  currency: string; // Settlement currency
+  presentmentAmount?: number; // What the client was charged, when paying in another currency
+  presentmentCurrency?: string;
+  fxRate?: FxRateSnapshot; // Settlement → presentment rate at payment time
   status: EscrowStatus;
   createdAt: FirebaseFirestore.FieldValue;
   updatedAt: FirebaseFirestore.FieldValue;
@@ -77,6 +114,11 @@ export interface EscrowRecord {
   releasedBy?: string;
   disputedAt?: FirebaseFirestore.FieldValue;
   disputeReason?: string;
+  disputeId?: string;
+  statusBeforeDispute?: EscrowStatus;
+  chargebackId?: string; // Provider chargeback that froze or clawed back the escrow
+  chargebackOpenedAt?: FirebaseFirestore.FieldValue;
+  chargedBackAt?: FirebaseFirestore.FieldValue;
   refundedAt?: FirebaseFirestore.FieldValue;
   refundReason?: string;
   autoReleaseAt?: FirebaseFirestore.Timestamp;
@@ -123,20 +165,128 @@ export async function getPlatformFeePercent(supplierId: string): Promise<number>
  * Calculate platform fee and supplier payout
  * This is the AUTHORITATIVE calculation
  *
+ * A platform-funded promotion discount does not reduce the supplier's
+ * share: fee and payout are computed on the undiscounted amount and the
+ * platform covers the discount, so totalAmount = supplierPayout +
+ * platformFee - platformDiscount.
+ *
  * @param totalAmount - Total payment amount
  * @param platformFeePercent - Fee percentage
+ * @param platformDiscount - Platform-funded discount included in this payment
  * @returns Object with platformFee and supplierPayout
  */
 export function calculateFees(
     totalAmount: number,
-    platformFeePercent: number
+    platformFeePercent: number,
+    platformDiscount = 0
 ): { platformFee: number; supplierPayout: number } {
-  const platformFee = Math.round(totalAmount * platformFeePercent / 100);
-  const supplierPayout = totalAmount - platformFee;
+  const grossAmount = totalAmount + platformDiscount;
+  const platformFee = Math.round(grossAmount * platformFeePercent / 100);
+  const supplierPayout = grossAmount - platformFee;
 
   return {platformFee, supplierPayout};
 }
 
+/**
+ * Booking fields tracking what the client paid in their own currency
+ * presentmentPaid is a map of presentment currency → amount.
+ *
+ * @param escrowData - Escrow document data
+ * @param presentmentDelta - Presentment amount paid (+) or refunded (-)
+ */
+function presentmentPaidUpdate(
+    escrowData: FirebaseFirestore.DocumentData,
+    presentmentDelta: number
+): Record<string, unknown> {
+  if (!escrowData.presentmentCurrency || !presentmentDelta) {
+    return {};
+  }
+
+  return {
+    [`presentmentPaid.${escrowData.presentmentCurrency}`]:
+      admin.firestore.FieldValue.increment(presentmentDelta),
+    presentmentCurrency: escrowData.presentmentCurrency,
+  };
+}
+
+/**
+ * Presentment share of a settlement amount, at the rate the client paid
+ * Returns 0 when the escrow was paid in its settlement currency.
+ */
+function toPresentmentAmount(
+    escrowData: FirebaseFirestore.DocumentData,
+    amount: number
+): number {
+  if (!escrowData.presentmentCurrency || !escrowData.fxRate) {
+    return 0;
+  }
+
+  return convertAmount(
+      amount,
+      escrowData.currency || "AOA",
+      escrowData.presentmentCurrency,
+      escrowData.fxRate.rate
+  );
+}
+
+/**
+ * Escrow fields after part of it is returned to the client
+ * Fees, tax lines and the presentment amount are recalculated on what is
+ * left; the escrow status is unchanged.
+ *
+ * @param escrowData - Escrow document data
+ * @param amount - Amount returned (less than the escrow total)
+ */
+function shrinkEscrowUpdate(
+    escrowData: FirebaseFirestore.DocumentData,
+    amount: number
+): {update: Record<string, unknown>; remainingAmount: number; presentmentRefund: number} {
+  const totalAmount = escrowData.totalAmount || 0;
+  const remainingAmount = totalAmount - amount;
+  const platformFeePercent = escrowData.platformFeePercent ?? DEFAULT_PLATFORM_FEE_PERCENT;
+  const platformDiscount = Math.round((escrowData.platformDiscount || 0) * remainingAmount / totalAmount);
+  const {platformFee, supplierPayout} = calculateFees(
+      remainingAmount,
+      platformFeePercent,
+      platformDiscount
+  );
+  const presentmentRefund = toPresentmentAmount(escrowData, amount);
+
+  return {
+    update: {
+      totalAmount: remainingAmount,
+      platformFee,
+      supplierPayout,
+      ...(escrowData.platformDiscount ? {platformDiscount} : {}),
+      ...(escrowData.taxRates ? {
+        taxLines: calculateTaxLines(remainingAmount + platformDiscount, platformFee, escrowData.taxRates),
+      } : {}),
+      ...(presentmentRefund ? {
+        presentmentAmount: Math.max((escrowData.presentmentAmount || 0) - presentmentRefund, 0),
+      } : {}),
+      originalAmount: escrowData.originalAmount ?? totalAmount,
+      partiallyRefundedAmount: admin.firestore.FieldValue.increment(amount),
+      partialRefundCount: (escrowData.partialRefundCount || 0) + 1,
+    },
+    remainingAmount,
+    presentmentRefund,
+  };
+}
+
+/**
+ * Refund record (and ledger source) ID for a refund of an escrow
+ * Keyed on the escrow and partial refund sequence rather than a random
+ * ID: a retried or concurrent refund then fails the ledger create()
+ * instead of being posted twice.
+ *
+ * @param escrowId - Escrow ID
+ * @param partialSequence - Number of the partial refund (1, 2...); omit
+ * for the full refund
+ */
+export function escrowRefundId(escrowId: string, partialSequence?: number): string {
+  return partialSequence ? `${escrowId}_partial_${partialSequence}` : `${escrowId}_refund`;
+}
+
 // ==================== ESCROW OPERATIONS ====================
 
 /**
@@ -152,12 +302,30 @@ export async function createEscrow(data: {
   supplierId: string;
   totalAmount: number;
   currency?: string;
+  installmentId?: string;
+  presentment?: {amount: number; currency: string; fxRate: FxRateSnapshot};
+  platformDiscount?: number;
+  taxRates?: TaxRates; // Booking snapshot (current rates for older bookings)
 }): Promise<string> {
-  const {bookingId, clientId, supplierId, totalAmount, currency = "AOA"} = data;
+  const {
+    bookingId,
+    clientId,
+    supplierId,
+    totalAmount,
+    currency = "AOA",
+    installmentId,
+    presentment,
+    platformDiscount = 0,
+  } = data;
 
   // Get platform fee for this supplier (server-calculated)
   const platformFeePercent = await getPlatformFeePercent(supplierId);
-  const {platformFee, supplierPayout} = calculateFees(totalAmount, platformFeePercent);
+  const {platformFee, supplierPayout} = calculateFees(
+      totalAmount,
+      platformFeePercent,
+      platformDiscount
+  );
+  const taxRates = data.taxRates || await getTaxRates(supplierId);
 
   const escrowRef = db.collection("escrow").doc();
   const now = admin.firestore.FieldValue.serverTimestamp();
@@ -171,12 +339,28 @@ export async function createEscrow(data: {
     platformFee,
     platformFeePercent,
     supplierPayout,
+    taxRates,
+    taxLines: calculateTaxLines(totalAmount + platformDiscount, platformFee, taxRates),
     currency,
     status: "pending_payment",
     createdAt: now,
     updatedAt: now,
   };
 
+  if (installmentId) {
+    escrowData.installmentId = installmentId;
+  }
+
+  if (platformDiscount > 0) {
+    escrowData.platformDiscount = platformDiscount;
+  }
+
+  if (presentment && presentment.currency !== currency) {
+    escrowData.presentmentAmount = presentment.amount;
+    escrowData.presentmentCurrency = presentment.currency;
+    escrowData.fxRate = presentment.fxRate;
+  }
+
   await escrowRef.set(escrowData);
 
   console.log(`Escrow created: ${escrowRef.id} for booking ${bookingId}`);
@@ -204,26 +388,59 @@ export async function fundEscrow(
   }
 
   const currentStatus = escrowDoc.data()?.status;
-  if (currentStatus !== "pending_payment") {
+  if (currentStatus !== "pending_payment" && currentStatus !== "expired") {
     console.log(`Escrow ${escrowId} already funded (status: ${currentStatus})`);
     return; // Idempotent
   }
+  if (currentStatus === "expired") {
+    // The provider took the money after we expired the payment
+    console.warn(`Funding expired escrow ${escrowId} from late payment ${paymentId}`);
+  }
 
   const now = admin.firestore.FieldValue.serverTimestamp();
+  const bookingId = escrowDoc.data()?.bookingId;
 
-  await escrowRef.update({
+  // Escrow status and ledger are written together
+  const writeBatch = db.batch();
+  writeBatch.update(escrowRef, {
     status: "funded",
     paymentId,
     fundedAt: now,
     updatedAt: now,
   });
+  addLedgerTransaction(writeBatch, {
+    type: "escrowFunded",
+    sourceId: escrowId,
+    currency: escrowDoc.data()?.currency || "AOA",
+    entries: ledgerTransfer(
+        "client_funds",
+        "escrow_holding",
+        escrowDoc.data()?.totalAmount || 0,
+        bookingId || null
+    ),
+    metadata: {escrowId, paymentId},
+  });
+  await writeBatch.commit();
 
   // Update booking
-  const bookingId = escrowDoc.data()?.bookingId;
+  // Bookings with a payment schedule stay partially paid until the
+  // last installment is funded
   if (bookingId) {
+    const schedule = await recordInstallmentPayment(
+        bookingId,
+        paymentId,
+        escrowDoc.data()?.installmentId
+    );
+    const funding = await getBookingEscrowFunding(bookingId);
+    const bookingDoc = await db.collection("bookings").doc(bookingId).get();
+
     await db.collection("bookings").doc(bookingId).update({
-      paymentStatus: "escrow_funded",
+      paymentStatus: getPaymentStatusAfterPayment(schedule, "escrow_funded"),
       escrowId,
+      escrowFunding: funding,
+      ...presentmentPaidUpdate(escrowDoc.data() || {}, escrowDoc.data()?.presentmentAmount || 0),
+      // The payment waiting on the booking is settled
+      ...(bookingDoc.data()?.pendingPayment?.paymentId === paymentId ? {pendingPayment: null} : {}),
       updatedAt: now,
     });
   }
@@ -241,7 +458,8 @@ export async function fundEscrow(
         userId: supplierUserId,
         type: "escrow_funded",
         title: "Pagamento Garantido 🔒",
-        body: `Cliente pagou ${formatCurrency(totalAmount)}. Valor será liberado após conclusão do serviço.`,
+        body: `Cliente pagou ${formatCurrency(totalAmount, escrowDoc.data()?.currency)}. ` +
+          "Valor será liberado após conclusão do serviço.",
         data: {escrowId, bookingId: bookingId || ""},
         isRead: false,
         createdAt: now,
@@ -252,6 +470,31 @@ export async function fundEscrow(
   console.log(`Escrow funded: ${escrowId}`);
 }
 
+/**
+ * Mark an unfunded escrow as expired when its payment intent expires
+ * Called ONLY by payments/paymentExpiry
+ *
+ * @param escrowId - Escrow ID to expire
+ * @returns Whether the escrow was expired (false if already funded or expired)
+ */
+export async function expireEscrow(escrowId: string): Promise<boolean> {
+  const escrowRef = db.collection("escrow").doc(escrowId);
+
+  return db.runTransaction(async (transaction) => {
+    const escrowDoc = await transaction.get(escrowRef);
+    if (escrowDoc.data()?.status !== "pending_payment") {
+      return false;
+    }
+
+    transaction.update(escrowRef, {
+      status: "expired",
+      expiredAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
 /**
  * Mark service as completed and start auto-release timer
  * Called when booking status changes to completed
@@ -292,6 +535,14 @@ export async function markServiceCompleted(
   const clientId = escrowDoc.data()?.clientId;
   const bookingId = escrowDoc.data()?.bookingId;
 
+  // Disputes can be opened until auto-release
+  if (bookingId) {
+    await db.collection("bookings").doc(bookingId).update({
+      disputeWindowEndsAt: autoReleaseAt,
+      updatedAt: now,
+    });
+  }
+
   if (clientId) {
     await db.collection("notifications").add({
       userId: clientId,
@@ -314,24 +565,28 @@ export async function markServiceCompleted(
  * @param escrowId - Escrow ID to release
  * @param releasedBy - Who initiated release (userId, 'system', 'auto')
  * @param notes - Optional release notes
+ * @param disputeId - Dispute being resolved: escrow it froze is released
+ *   straight from disputed, in the same write
  */
 export async function releaseEscrow(
     escrowId: string,
     releasedBy: string,
-    notes?: string
+    notes?: string,
+    disputeId?: string
 ): Promise<{success: boolean; supplierPayout: number; platformFee: number}> {
   const escrowRef = db.collection("escrow").doc(escrowId);
   const escrowDoc = await escrowRef.get();
 
-  if (!escrowDoc.exists) {
+  const escrowData = escrowDoc.data();
+  if (!escrowData) {
     throw new Error(`Escrow not found: ${escrowId}`);
   }
-
-  const escrowData = escrowDoc.data()!;
   const currentStatus = escrowData.status as EscrowStatus;
 
   // Validate status allows release
-  if (currentStatus !== "funded" && currentStatus !== "service_completed") {
+  const settlesDispute = currentStatus === "disputed" &&
+    !!disputeId && escrowData.disputeId === disputeId;
+  if (currentStatus !== "funded" && currentStatus !== "service_completed" && !settlesDispute) {
     throw new Error(`Escrow cannot be released: status is ${currentStatus}`);
   }
 
@@ -341,33 +596,66 @@ export async function releaseEscrow(
     platformFee,
     totalAmount,
     bookingId,
+    platformDiscount = 0,
   } = escrowData;
 
   const now = admin.firestore.FieldValue.serverTimestamp();
+  const currency = escrowData.currency || "AOA";
+  const writeBatch = db.batch();
 
   // Update escrow status
-  await escrowRef.update({
+  writeBatch.update(escrowRef, {
     status: "released",
     releasedAt: now,
     releasedBy,
     releaseNotes: notes || null,
+    ...(settlesDispute ? {disputeResolvedAt: now} : {}),
     updatedAt: now,
   });
 
-  // Create payout record for supplier
+  // Queue payout for the next batch run (see payoutService)
   const payoutRef = db.collection("payouts").doc();
-  await payoutRef.set({
+  writeBatch.set(payoutRef, {
     id: payoutRef.id,
     escrowId,
     bookingId: bookingId || null,
     supplierId,
     amount: supplierPayout,
     platformFee,
+    platformDiscount,
     totalAmount,
-    currency: escrowData.currency || "AOA",
-    status: "pending", // Would become "completed" after actual bank transfer
+    taxLines: escrowData.taxLines || [],
+    currency,
+    clientPresentment: escrowData.presentmentCurrency ? {
+      amount: escrowData.presentmentAmount || 0,
+      currency: escrowData.presentmentCurrency,
+    } : null,
+    status: "queued",
+    batchId: null,
     createdAt: now,
+    updatedAt: now,
+  });
+
+  addLedgerTransaction(writeBatch, {
+    type: "escrowReleased",
+    sourceId: escrowId,
+    currency,
+    entries: [
+      ...ledgerTransfer("escrow_holding", "platform_revenue", platformFee, bookingId || null),
+      ...ledgerTransfer("escrow_holding", "supplier_payable", supplierPayout, bookingId || null),
+      ...ledgerTransfer("platform_promotions", "escrow_holding", platformDiscount, bookingId || null),
+    ],
+    metadata: {escrowId, payoutId: payoutRef.id, releasedBy},
   });
+  await writeBatch.commit();
+
+  // Stripe Connect suppliers get the transfer now; a failure stays on the
+  // payout batch and is retried by the scheduled run
+  try {
+    await sendPayoutOnRelease(payoutRef.id);
+  } catch (error) {
+    console.error(`Payout on release failed for escrow ${escrowId}:`, error);
+  }
 
   // Update booking payment status
   if (bookingId) {
@@ -390,7 +678,7 @@ export async function releaseEscrow(
         userId: supplierUserId,
         type: "payout_released",
         title: "Pagamento Liberado! 💰",
-        body: `${formatCurrency(supplierPayout)} foi liberado para sua conta.`,
+        body: `${formatCurrency(supplierPayout, currency)} foi liberado para sua conta.`,
         data: {
           escrowId,
           bookingId: bookingId || "",
@@ -411,7 +699,8 @@ export async function releaseEscrow(
     resourceType: "escrow",
     previousValue: currentStatus,
     newValue: "released",
-    description: `Escrow released: ${formatCurrency(supplierPayout)} to supplier, ${formatCurrency(platformFee)} platform fee`,
+    description: `Escrow released: ${formatCurrency(supplierPayout, currency)} to supplier, ` +
+      `${formatCurrency(platformFee, currency)} platform fee`,
     metadata: {
       escrowId,
       bookingId: bookingId || null,
@@ -436,20 +725,22 @@ export async function releaseEscrow(
  * @param escrowId - Escrow ID to refund
  * @param refundedBy - Who initiated refund (userId, 'system', 'auto')
  * @param reason - Refund reason
+ * @param changeRequestId - Booking change the refund is for (see
+ *   partialRefundEscrow)
  */
 export async function refundEscrow(
     escrowId: string,
     refundedBy: string,
-    reason?: string
+    reason?: string,
+    changeRequestId?: string
 ): Promise<{success: boolean; refundAmount: number}> {
   const escrowRef = db.collection("escrow").doc(escrowId);
   const escrowDoc = await escrowRef.get();
 
-  if (!escrowDoc.exists) {
+  const escrowData = escrowDoc.data();
+  if (!escrowData) {
     throw new Error(`Escrow not found: ${escrowId}`);
   }
-
-  const escrowData = escrowDoc.data()!;
   const currentStatus = escrowData.status as EscrowStatus;
 
   // Validate status allows refund
@@ -467,9 +758,13 @@ export async function refundEscrow(
   } = escrowData;
 
   const now = admin.firestore.FieldValue.serverTimestamp();
+  const currency = escrowData.currency || "AOA";
+  // Clients paying in another currency get back what they paid
+  const presentmentRefund = escrowData.presentmentAmount || 0;
+  const writeBatch = db.batch();
 
   // Update escrow status
-  await escrowRef.update({
+  writeBatch.update(escrowRef, {
     status: "refunded",
     refundedAt: now,
     refundedBy,
@@ -478,8 +773,8 @@ export async function refundEscrow(
   });
 
   // Create refund record
-  const refundRef = db.collection("refunds").doc();
-  await refundRef.set({
+  const refundRef = db.collection("refunds").doc(escrowRefundId(escrowId));
+  writeBatch.create(refundRef, {
     id: refundRef.id,
     escrowId,
     bookingId: bookingId || null,
@@ -487,17 +782,31 @@ export async function refundEscrow(
     clientId,
     supplierId,
     amount: totalAmount,
-    currency: escrowData.currency || "AOA",
+    currency,
+    presentmentAmount: presentmentRefund || null,
+    presentmentCurrency: escrowData.presentmentCurrency || null,
     reason: reason || "Booking cancelled",
-    status: "pending", // Would become "completed" after actual refund processed
+    changeRequestId: changeRequestId || null,
+    status: "pending", // Issued by refundIssuer, completed by the provider webhook
     createdAt: now,
   });
 
+  addLedgerTransaction(writeBatch, {
+    type: "escrowRefunded",
+    sourceId: refundRef.id,
+    currency,
+    entries: ledgerTransfer("escrow_holding", "client_funds", totalAmount, bookingId || null),
+    metadata: {escrowId, refundId: refundRef.id, refundedBy},
+  });
+  await writeBatch.commit();
+
   // Update booking payment status
   if (bookingId) {
     await db.collection("bookings").doc(bookingId).update({
       paymentStatus: "refunded",
-      refundedAmount: totalAmount,
+      paidAmount: admin.firestore.FieldValue.increment(-totalAmount),
+      refundedAmount: admin.firestore.FieldValue.increment(totalAmount),
+      ...presentmentPaidUpdate(escrowData, -presentmentRefund),
       updatedAt: now,
     });
   }
@@ -508,7 +817,9 @@ export async function refundEscrow(
       userId: clientId,
       type: "escrow_refunded",
       title: "Reembolso Processado",
-      body: `${formatCurrency(totalAmount)} será devolvido à sua conta.`,
+      body: `${presentmentRefund ?
+        formatCurrency(presentmentRefund, escrowData.presentmentCurrency) :
+        formatCurrency(totalAmount, currency)} será devolvido à sua conta.`,
       data: {
         escrowId,
         bookingId: bookingId || "",
@@ -528,7 +839,7 @@ export async function refundEscrow(
     resourceType: "escrow",
     previousValue: currentStatus,
     newValue: "refunded",
-    description: `Escrow refunded: ${formatCurrency(totalAmount)} to client`,
+    description: `Escrow refunded: ${formatCurrency(totalAmount, currency)} to client`,
     metadata: {
       escrowId,
       bookingId: bookingId || null,
@@ -544,6 +855,827 @@ export async function refundEscrow(
   return {success: true, refundAmount: totalAmount};
 }
 
+/**
+ * Partially refund escrow to client
+ * Used when a booking becomes cheaper after funds were already held.
+ * The remaining amount stays in escrow with fees recalculated on it.
+ *
+ * @param escrowId - Escrow ID to refund from
+ * @param amount - Amount to return to the client
+ * @param refundedBy - Who initiated refund (userId, 'system', 'auto')
+ * @param reason - Refund reason
+ * @param changeRequestId - Booking change the refund is for, stored on the
+ *   refund record so a retried change refund can tell what it already did
+ */
+export async function partialRefundEscrow(
+    escrowId: string,
+    amount: number,
+    refundedBy: string,
+    reason?: string,
+    changeRequestId?: string
+): Promise<{success: boolean; refundAmount: number; remainingAmount: number}> {
+  const escrowRef = db.collection("escrow").doc(escrowId);
+  const escrowDoc = await escrowRef.get();
+
+  const escrowData = escrowDoc.data();
+  if (!escrowData) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+  const currentStatus = escrowData.status as EscrowStatus;
+  const totalAmount = escrowData.totalAmount || 0;
+
+  if (amount <= 0) {
+    throw new Error(`Invalid partial refund amount: ${amount}`);
+  }
+
+  // Refunding everything is a regular refund
+  if (amount >= totalAmount) {
+    const result = await refundEscrow(escrowId, refundedBy, reason, changeRequestId);
+    return {...result, remainingAmount: 0};
+  }
+
+  const refundableStatuses: EscrowStatus[] = ["funded", "service_completed", "disputed"];
+  if (!refundableStatuses.includes(currentStatus)) {
+    throw new Error(`Escrow cannot be refunded: status is ${currentStatus}`);
+  }
+
+  const {clientId, supplierId, bookingId, paymentId} = escrowData;
+  const {update, remainingAmount, presentmentRefund} = shrinkEscrowUpdate(escrowData, amount);
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const currency = escrowData.currency || "AOA";
+  const writeBatch = db.batch();
+
+  // Keep escrow status, shrink the held amount
+  writeBatch.update(escrowRef, {...update, updatedAt: now});
+
+  // Create refund record
+  const refundRef = db.collection("refunds").doc(
+      escrowRefundId(escrowId, update.partialRefundCount as number)
+  );
+  writeBatch.create(refundRef, {
+    id: refundRef.id,
+    escrowId,
+    bookingId: bookingId || null,
+    paymentId: paymentId || null,
+    clientId,
+    supplierId,
+    amount,
+    currency,
+    presentmentAmount: presentmentRefund || null,
+    presentmentCurrency: escrowData.presentmentCurrency || null,
+    reason: reason || "Partial refund",
+    type: "partial",
+    changeRequestId: changeRequestId || null,
+    status: "pending", // Issued by refundIssuer, completed by the provider webhook
+    createdAt: now,
+  });
+
+  addLedgerTransaction(writeBatch, {
+    type: "escrowRefunded",
+    sourceId: refundRef.id,
+    currency,
+    entries: ledgerTransfer("escrow_holding", "client_funds", amount, bookingId || null),
+    metadata: {escrowId, refundId: refundRef.id, refundedBy, partial: true},
+  });
+  await writeBatch.commit();
+
+  // Update booking payment totals
+  if (bookingId) {
+    await db.collection("bookings").doc(bookingId).update({
+      paidAmount: admin.firestore.FieldValue.increment(-amount),
+      refundedAmount: admin.firestore.FieldValue.increment(amount),
+      ...presentmentPaidUpdate(escrowData, -presentmentRefund),
+      updatedAt: now,
+    });
+  }
+
+  // Notify client of refund
+  if (clientId) {
+    await db.collection("notifications").add({
+      userId: clientId,
+      type: "escrow_partially_refunded",
+      title: "Reembolso Parcial",
+      body: `${presentmentRefund ?
+        formatCurrency(presentmentRefund, escrowData.presentmentCurrency) :
+        formatCurrency(amount, currency)} será devolvido à sua conta.`,
+      data: {
+        escrowId,
+        bookingId: bookingId || "",
+        amount: amount.toString(),
+      },
+      isRead: false,
+      createdAt: now,
+    });
+  }
+
+  // Create audit log
+  await db.collection("audit_logs").add({
+    category: "finance",
+    eventType: "escrowPartiallyRefunded",
+    userId: refundedBy,
+    resourceId: escrowId,
+    resourceType: "escrow",
+    previousValue: totalAmount,
+    newValue: remainingAmount,
+    description: `Escrow partially refunded: ${formatCurrency(amount, currency)} to client, ` +
+      `${formatCurrency(remainingAmount, currency)} still held`,
+    metadata: {
+      escrowId,
+      bookingId: bookingId || null,
+      clientId,
+      refundAmount: amount,
+      remainingAmount,
+      reason: reason || null,
+    },
+    timestamp: now,
+  });
+
+  console.log(`Escrow partially refunded: ${escrowId}, amount: ${amount}, remaining: ${remainingAmount}`);
+
+  return {success: true, refundAmount: amount, remainingAmount};
+}
+
+/**
+ * Split escrow between a client refund and a supplier release
+ * Used for cancellations under a cancellation policy: refundAmount goes
+ * back to the client, the remainder is released to the supplier as
+ * compensation (platform fee applies as on any release).
+ *
+ * @param escrowId - Escrow ID to split
+ * @param refundAmount - Amount to return to the client
+ * @param actor - Who initiated the split (userId, 'system', 'auto')
+ * @param reason - Split reason
+ * @param disputeId - Dispute being resolved (see releaseEscrow)
+ */
+export async function splitEscrow(
+    escrowId: string,
+    refundAmount: number,
+    actor: string,
+    reason?: string,
+    disputeId?: string
+): Promise<{
+  success: boolean;
+  refundAmount: number;
+  supplierCompensation: number;
+  platformFee: number;
+}> {
+  const escrowDoc = await db.collection("escrow").doc(escrowId).get();
+
+  if (!escrowDoc.exists) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+
+  const totalAmount = escrowDoc.data()?.totalAmount || 0;
+
+  // Everything back to the client
+  if (refundAmount >= totalAmount) {
+    const result = await refundEscrow(escrowId, actor, reason);
+    return {
+      success: true,
+      refundAmount: result.refundAmount,
+      supplierCompensation: 0,
+      platformFee: 0,
+    };
+  }
+
+  let refunded = 0;
+  if (refundAmount > 0) {
+    const result = await partialRefundEscrow(escrowId, refundAmount, actor, reason);
+    refunded = result.refundAmount;
+  }
+
+  const release = await releaseEscrow(
+      escrowId,
+      actor,
+      `Cancellation compensation${reason ? `: ${reason}` : ""}`,
+      disputeId
+  );
+
+  return {
+    success: true,
+    refundAmount: refunded,
+    supplierCompensation: release.supplierPayout,
+    platformFee: release.platformFee,
+  };
+}
+
+/**
+ * Freeze escrow while a dispute is open
+ * Disputed escrow cannot be released and is skipped by processAutoReleases.
+ *
+ * @param escrowId - Escrow ID to freeze
+ * @param disputeId - Dispute that froze it
+ * @param openedBy - Who opened the dispute
+ * @param reason - Dispute reason
+ */
+export async function openEscrowDispute(
+    escrowId: string,
+    disputeId: string,
+    openedBy: string,
+    reason: string
+): Promise<void> {
+  const escrowRef = db.collection("escrow").doc(escrowId);
+  const escrowDoc = await escrowRef.get();
+
+  if (!escrowDoc.exists) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+
+  const currentStatus = escrowDoc.data()?.status as EscrowStatus;
+  if (currentStatus === "disputed") {
+    console.log(`Escrow ${escrowId} already disputed`);
+    return; // Idempotent
+  }
+
+  if (currentStatus !== "funded" && currentStatus !== "service_completed") {
+    throw new Error(`Escrow cannot be disputed: status is ${currentStatus}`);
+  }
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  await escrowRef.update({
+    status: "disputed",
+    statusBeforeDispute: currentStatus,
+    disputeId,
+    disputeReason: reason,
+    disputedAt: now,
+    updatedAt: now,
+  });
+
+  await db.collection("audit_logs").add({
+    category: "finance",
+    eventType: "escrowDisputed",
+    userId: openedBy,
+    resourceId: escrowId,
+    resourceType: "escrow",
+    previousValue: currentStatus,
+    newValue: "disputed",
+    description: `Escrow frozen by dispute ${disputeId}`,
+    metadata: {
+      escrowId,
+      disputeId,
+      bookingId: escrowDoc.data()?.bookingId || null,
+      reason,
+    },
+    timestamp: now,
+  });
+
+  console.log(`Escrow disputed: ${escrowId} (dispute ${disputeId})`);
+}
+
+/**
+ * Unfreeze a disputed escrow, restoring the status it had before
+ * Called by dispute resolution right before releasing/refunding.
+ *
+ * @param escrowId - Escrow ID to unfreeze
+ * @returns Restored status
+ */
+export async function closeEscrowDispute(escrowId: string): Promise<EscrowStatus> {
+  const escrowRef = db.collection("escrow").doc(escrowId);
+  const escrowDoc = await escrowRef.get();
+
+  const escrowData = escrowDoc.data();
+  if (!escrowData) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+  if (escrowData.status !== "disputed") {
+    return escrowData.status as EscrowStatus;
+  }
+
+  const restoredStatus = (escrowData.statusBeforeDispute || "funded") as EscrowStatus;
+
+  await escrowRef.update({
+    status: restoredStatus,
+    disputeResolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return restoredStatus;
+}
+
+/**
+ * Freeze escrow while a provider chargeback is open
+ * Frozen like a client dispute; escrow already disputed just records the
+ * chargeback.
+ *
+ * @param escrowId - Escrow ID to freeze
+ * @param chargebackId - Provider chargeback ID
+ * @param reason - Chargeback reason reported by the provider
+ * @returns Escrow status after the freeze
+ */
+export async function freezeEscrowForChargeback(
+    escrowId: string,
+    chargebackId: string,
+    reason: string
+): Promise<EscrowStatus> {
+  const escrowRef = db.collection("escrow").doc(escrowId);
+  const escrowDoc = await escrowRef.get();
+
+  const escrowData = escrowDoc.data();
+  if (!escrowData) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+
+  const currentStatus = escrowData.status as EscrowStatus;
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  if (escrowData.chargebackId === chargebackId) {
+    return currentStatus; // Idempotent
+  }
+
+  // Released or refunded escrow has nothing left to freeze
+  if (!["funded", "service_completed", "disputed"].includes(currentStatus)) {
+    await escrowRef.update({chargebackId, chargebackOpenedAt: now, updatedAt: now});
+    return currentStatus;
+  }
+
+  await escrowRef.update({
+    status: "disputed",
+    ...(currentStatus === "disputed" ? {} : {
+      statusBeforeDispute: currentStatus,
+      disputeReason: `Chargeback: ${reason}`,
+      disputedAt: now,
+    }),
+    chargebackId,
+    chargebackOpenedAt: now,
+    updatedAt: now,
+  });
+
+  await db.collection("audit_logs").add({
+    category: "finance",
+    eventType: "escrowChargebackOpened",
+    userId: "system",
+    resourceId: escrowId,
+    resourceType: "escrow",
+    previousValue: currentStatus,
+    newValue: "disputed",
+    description: `Escrow frozen by chargeback ${chargebackId}`,
+    metadata: {
+      escrowId,
+      chargebackId,
+      bookingId: escrowData.bookingId || null,
+      reason,
+    },
+    timestamp: now,
+  });
+
+  console.log(`Escrow frozen by chargeback: ${escrowId} (${chargebackId})`);
+
+  return "disputed";
+}
+
+/**
+ * Unfreeze escrow after a chargeback was won
+ * Stays frozen if a client dispute is also open on it.
+ *
+ * @param escrowId - Escrow ID to unfreeze
+ * @param chargebackId - Provider chargeback ID
+ * @returns Escrow status after the chargeback closed
+ */
+export async function unfreezeEscrowAfterChargeback(
+    escrowId: string,
+    chargebackId: string
+): Promise<EscrowStatus> {
+  const escrowRef = db.collection("escrow").doc(escrowId);
+  const escrowDoc = await escrowRef.get();
+
+  const escrowData = escrowDoc.data();
+  if (!escrowData) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+
+  if (escrowData.chargebackId !== chargebackId) {
+    return escrowData.status as EscrowStatus;
+  }
+
+  await escrowRef.update({
+    chargebackId: null,
+    chargebackClosedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  if (escrowData.status !== "disputed" || escrowData.disputeId) {
+    return escrowData.status as EscrowStatus;
+  }
+
+  return closeEscrowDispute(escrowId);
+}
+
+/**
+ * Resolve a client dispute a chargeback settled
+ * The bank already decided for the client: once none of the dispute's
+ * escrows is still frozen, the dispute is closed as a refund so it does
+ * not wait on an admin decision that can no longer move any money.
+ *
+ * @param disputeId - Client dispute on the charged-back escrow
+ * @param chargebackId - Provider chargeback ID
+ * @param refundAmount - Amount the chargeback returned to the client
+ */
+async function closeDisputeAfterChargeback(
+    disputeId: string,
+    chargebackId: string,
+    refundAmount: number
+): Promise<void> {
+  const disputeRef = db.collection("disputes").doc(disputeId);
+  const disputeDoc = await disputeRef.get();
+
+  const dispute = disputeDoc.data();
+  if (!dispute || dispute.status === "resolved") {
+    return;
+  }
+
+  const escrowDocs = await Promise.all(
+      ((dispute.escrowIds || []) as string[]).map((id) => db.collection("escrow").doc(id).get())
+  );
+  if (escrowDocs.some((doc) => doc.data()?.status === "disputed")) {
+    return; // Part of the held money is still for the admin to decide
+  }
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const resolution = {
+    outcome: "refund",
+    refundAmount,
+    supplierAmount: 0,
+    notes: `Closed by chargeback ${chargebackId}`,
+    resolvedBy: "system",
+  };
+
+  await disputeRef.update({
+    status: "resolved",
+    resolution,
+    resolvedAt: now,
+    updatedAt: now,
+  });
+
+  if (dispute.bookingId) {
+    await db.collection("bookings").doc(dispute.bookingId).update({
+      disputeStatus: "resolved",
+      updatedAt: now,
+    });
+  }
+
+  await db.collection("audit_logs").add({
+    category: "finance",
+    eventType: "disputeResolved",
+    userId: "system",
+    resourceId: disputeId,
+    resourceType: "dispute",
+    previousValue: dispute.status,
+    newValue: "resolved",
+    description: `Dispute closed by chargeback ${chargebackId}`,
+    metadata: {
+      bookingId: dispute.bookingId || null,
+      escrowIds: dispute.escrowIds || [],
+      chargebackId,
+      ...resolution,
+    },
+    timestamp: now,
+  });
+}
+
+/**
+ * Settle a lost chargeback against an escrow
+ * - Held escrow: the charged-back amount is refunded - the whole escrow,
+ *   or part of it like partialRefundEscrow. The provider already returned
+ *   the money to the client, so the refund record is completed at once
+ * - Released escrow: the platform fee share is taken back and the
+ *   supplier's share becomes a receivable deducted from their next payout
+ *   batch
+ * - Anything else (already refunded, never funded) is left to an admin
+ * A client dispute on the escrow is closed once nothing in it is held.
+ *
+ * Each chargeback is recorded once (chargebacks/{chargebackId}, created in
+ * the same batch), so a redelivered chargeback is skipped while another
+ * chargeback on the same escrow is still settled.
+ *
+ * @param escrowId - Escrow ID the charged-back payment funded
+ * @param chargebackId - Provider chargeback ID
+ * @param amount - Amount charged back, in the escrow (settlement) currency
+ * @param reason - Chargeback reason reported by the provider
+ */
+export async function chargebackEscrow(
+    escrowId: string,
+    chargebackId: string,
+    amount: number,
+    reason: string
+): Promise<"refunded" | "receivable" | "manual_review"> {
+  const escrowRef = db.collection("escrow").doc(escrowId);
+  const escrowDoc = await escrowRef.get();
+
+  const escrowData = escrowDoc.data();
+  if (!escrowData) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+
+  const currentStatus = escrowData.status as EscrowStatus;
+
+  const chargebackRef = db.collection("chargebacks").doc(chargebackId);
+  const chargebackDoc = await chargebackRef.get();
+  if (chargebackDoc.exists) {
+    console.log(`Chargeback ${chargebackId} already settled against escrow ${escrowId}`);
+    return chargebackDoc.data()?.outcome; // Idempotent
+  }
+
+  const isHeld = ["funded", "service_completed", "disputed"].includes(currentStatus);
+  if (!isHeld && currentStatus !== "released") {
+    return "manual_review";
+  }
+
+  const {
+    clientId,
+    supplierId,
+    totalAmount,
+    supplierPayout,
+    platformFee,
+    bookingId,
+    paymentId,
+    disputeId,
+    platformDiscount = 0,
+  } = escrowData;
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error(`Invalid chargeback amount for escrow ${escrowId}: ${amount}`);
+  }
+
+  const chargedAmount = Math.min(Math.round(amount), totalAmount);
+  const isFull = chargedAmount >= totalAmount;
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const currency = escrowData.currency || "AOA";
+  const refundReason = `Chargeback: ${reason}`;
+  const writeBatch = db.batch();
+
+  // Released escrow: the fee and promotion are taken back in proportion
+  const feeShare = isFull ? platformFee : Math.round(platformFee * chargedAmount / totalAmount);
+  const discountShare = isFull ?
+    platformDiscount :
+    Math.round(platformDiscount * chargedAmount / totalAmount);
+  const supplierShare = isFull ? supplierPayout : chargedAmount + discountShare - feeShare;
+
+  let presentmentRefund = isFull ? escrowData.presentmentAmount || 0 : 0;
+  let newStatus: EscrowStatus = currentStatus;
+
+  // A concurrent run for the same chargeback fails the commit here
+  writeBatch.create(chargebackRef, {
+    id: chargebackId,
+    escrowId,
+    bookingId: bookingId || null,
+    paymentId: paymentId || null,
+    outcome: isHeld ? "refunded" : "receivable",
+    amount: chargedAmount,
+    currency,
+    reason,
+    createdAt: now,
+  });
+
+  if (isHeld) {
+    let refundId = escrowRefundId(escrowId);
+
+    if (isFull) {
+      newStatus = "refunded";
+      writeBatch.update(escrowRef, {
+        status: "refunded",
+        refundedAt: now,
+        refundedBy: "system",
+        refundReason,
+        chargebackId,
+        chargedBackAt: now,
+        updatedAt: now,
+      });
+    } else {
+      const shrink = shrinkEscrowUpdate(escrowData, chargedAmount);
+      presentmentRefund = shrink.presentmentRefund;
+      refundId = escrowRefundId(escrowId, shrink.update.partialRefundCount as number);
+
+      // Frozen only by this chargeback: back to what it was before
+      if (currentStatus === "disputed" && !disputeId) {
+        newStatus = (escrowData.statusBeforeDispute || "funded") as EscrowStatus;
+      }
+
+      writeBatch.update(escrowRef, {
+        ...shrink.update,
+        status: newStatus,
+        chargebackId,
+        chargedBackAt: now,
+        updatedAt: now,
+      });
+    }
+
+    // Already returned by the provider: completed, and a credit note is issued
+    const refundRef = db.collection("refunds").doc(refundId);
+    writeBatch.create(refundRef, {
+      id: refundRef.id,
+      escrowId,
+      bookingId: bookingId || null,
+      paymentId: paymentId || null,
+      clientId,
+      supplierId,
+      amount: chargedAmount,
+      currency,
+      presentmentAmount: presentmentRefund || null,
+      presentmentCurrency: escrowData.presentmentCurrency || null,
+      reason: refundReason,
+      type: "chargeback",
+      providerChargebackId: chargebackId,
+      status: "completed",
+      completedAt: now,
+      createdAt: now,
+    });
+
+    addLedgerTransaction(writeBatch, {
+      type: "escrowRefunded",
+      sourceId: refundRef.id,
+      currency,
+      entries: ledgerTransfer("escrow_holding", "client_funds", chargedAmount, bookingId || null),
+      metadata: {escrowId, refundId: refundRef.id, refundedBy: "system", chargebackId},
+    });
+  } else {
+    writeBatch.update(escrowRef, {
+      chargebackId,
+      chargedBackAt: now,
+      chargedBackAmount: admin.firestore.FieldValue.increment(chargedAmount),
+      updatedAt: now,
+    });
+
+    const receivable: SupplierReceivableRecord = {
+      id: chargebackId,
+      supplierId,
+      escrowId,
+      bookingId: bookingId || null,
+      amount: supplierShare,
+      remaining: supplierShare,
+      currency,
+      reason: "chargeback",
+      status: "open",
+      deductions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    writeBatch.create(db.collection("supplier_receivables").doc(chargebackId), receivable);
+
+    addLedgerTransaction(writeBatch, {
+      type: "escrowChargedBack",
+      sourceId: chargebackId,
+      currency,
+      entries: [
+        ...ledgerTransfer("platform_revenue", "client_funds", feeShare, bookingId || null),
+        ...ledgerTransfer("supplier_receivable", "client_funds", supplierShare, bookingId || null),
+        ...ledgerTransfer("client_funds", "platform_promotions", discountShare, bookingId || null),
+      ],
+      metadata: {escrowId, chargebackId, receivableId: chargebackId, amount: chargedAmount},
+    });
+  }
+  await writeBatch.commit();
+
+  if (bookingId) {
+    await db.collection("bookings").doc(bookingId).update({
+      paymentStatus: "charged_back",
+      ...(isHeld ? {
+        paidAmount: admin.firestore.FieldValue.increment(-chargedAmount),
+        refundedAmount: admin.firestore.FieldValue.increment(chargedAmount),
+        ...presentmentPaidUpdate(escrowData, -presentmentRefund),
+      } : {}),
+      updatedAt: now,
+    });
+  }
+
+  if (isHeld && disputeId) {
+    await closeDisputeAfterChargeback(disputeId, chargebackId, chargedAmount);
+  }
+
+  // Let the supplier know why the booking's money was taken back
+  if (supplierId) {
+    const supplierDoc = await db.collection("suppliers").doc(supplierId).get();
+    const supplierUserId = supplierDoc.data()?.userId;
+
+    if (supplierUserId) {
+      await db.collection("notifications").add({
+        userId: supplierUserId,
+        type: "escrow_charged_back",
+        title: "Pagamento Contestado",
+        body: isHeld ?
+          `O cliente contestou o pagamento de ${formatCurrency(chargedAmount, currency)} junto do banco. ` +
+            "O valor foi devolvido ao cliente." :
+          `O cliente contestou o pagamento de ${formatCurrency(chargedAmount, currency)} junto do banco. ` +
+            `${formatCurrency(supplierShare, currency)} será descontado do seu próximo pagamento.`,
+        data: {
+          escrowId,
+          bookingId: bookingId || "",
+          amount: (isHeld ? chargedAmount : supplierShare).toString(),
+        },
+        isRead: false,
+        createdAt: now,
+      });
+    }
+  }
+
+  await db.collection("audit_logs").add({
+    category: "finance",
+    eventType: "escrowChargedBack",
+    userId: "system",
+    resourceId: escrowId,
+    resourceType: "escrow",
+    previousValue: currentStatus,
+    newValue: newStatus,
+    description: isHeld ?
+      `Escrow refunded by chargeback ${chargebackId}: ${formatCurrency(chargedAmount, currency)} to client` :
+      `Chargeback ${chargebackId} after release: ${formatCurrency(supplierShare, currency)} receivable from supplier`,
+    metadata: {
+      escrowId,
+      chargebackId,
+      bookingId: bookingId || null,
+      disputeId: disputeId || null,
+      supplierId,
+      totalAmount,
+      chargedAmount,
+      receivable: isHeld ? 0 : supplierShare,
+      reason,
+    },
+    timestamp: now,
+  });
+
+  console.log(`Escrow charged back: ${escrowId} (${chargebackId}, ${isHeld ? "refunded" : "receivable"})`);
+
+  return isHeld ? "refunded" : "receivable";
+}
+
+/**
+ * Whether a client can still dispute a held escrow
+ * Funded escrow can be disputed at any time; once the service is completed,
+ * only until auto-release. Shared by openDispute and the booking views.
+ *
+ * @param escrow - Escrow status and auto-release time
+ * @param nowMs - Current time in milliseconds
+ */
+export function isInDisputeWindow(
+    escrow: {status: string; autoReleaseAt?: FirebaseFirestore.Timestamp | null},
+    nowMs: number
+): boolean {
+  if (escrow.status === "funded") {
+    return true;
+  }
+
+  return escrow.status === "service_completed" &&
+    (!escrow.autoReleaseAt || escrow.autoReleaseAt.toMillis() > nowMs);
+}
+
+/**
+ * Get all escrows currently holding funds for a booking
+ * (funded or service completed by default)
+ *
+ * @param bookingId - Booking ID
+ * @param statuses - Escrow statuses that count as held
+ * @returns Escrow documents with their IDs
+ */
+export async function getHeldEscrowsByBookingId(
+    bookingId: string,
+    statuses: EscrowStatus[] = ["funded", "service_completed"]
+): Promise<FirebaseFirestore.DocumentData[]> {
+  const escrowQuery = await db
+      .collection("escrow")
+      .where("bookingId", "==", bookingId)
+      .get();
+
+  return escrowQuery.docs
+      .filter((doc) => statuses.includes(doc.data().status))
+      .map((doc) => ({id: doc.id, ...doc.data()}));
+}
+
+/**
+ * Funded vs total amount held in escrow for a booking
+ * Counts every escrow that received money and was not refunded.
+ *
+ * @param bookingId - Booking ID
+ */
+export async function getBookingEscrowFunding(bookingId: string): Promise<{
+  totalAmount: number;
+  fundedAmount: number;
+  outstandingAmount: number;
+  fullyFunded: boolean;
+}> {
+  const [bookingDoc, escrowQuery] = await Promise.all([
+    db.collection("bookings").doc(bookingId).get(),
+    db.collection("escrow")
+        .where("bookingId", "==", bookingId)
+        .where("status", "in", ["funded", "service_completed", "disputed", "released"])
+        .get(),
+  ]);
+
+  const totalAmount = bookingDoc.data()?.totalAmount || 0;
+  const fundedAmount = escrowQuery.docs.reduce(
+      (sum, doc) => sum + (doc.data().totalAmount || 0),
+      0
+  );
+  const outstandingAmount = Math.max(0, totalAmount - fundedAmount);
+
+  return {
+    totalAmount,
+    fundedAmount,
+    outstandingAmount,
+    fullyFunded: outstandingAmount === 0,
+  };
+}
+
 /**
  * Get escrow by booking ID
  *
@@ -569,6 +1701,7 @@ export async function getEscrowByBookingId(
 /**
  * Process auto-release for completed escrows
  * Should be called by a scheduled Cloud Function
+ * Disputed escrows are frozen and never picked up here.
  */
 export async function processAutoReleases(): Promise<number> {
   const now = admin.firestore.Timestamp.now();
@@ -596,15 +1729,3 @@ export async function processAutoReleases(): Promise<number> {
 
   return releasedCount;
 }
-
-// ==================== UTILITY FUNCTIONS ====================
-
-/**
- * Format currency for display
- */
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("pt-AO", {
-    style: "currency",
-    currency: "AOA",
-  }).format(amount);
-}
@@ -0,0 +1,49 @@
+/**
+ * Fixture FX Rate Provider
+ *
+ * Fixed rates for the emulator and tests, so payments in EUR/USD work
+ * without a rate API. Never used in production unless FX_RATE_SOURCE
+ * is explicitly set to "fixture".
+ */
+
+import {FxRateProvider} from "./FxRateProvider";
+
+/**
+ * Units of each currency per 1 USD
+ */
+const FIXTURE_RATES_PER_USD: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  AOA: 912,
+};
+
+/**
+ * Fixture FX Rate Provider Implementation
+ */
+export class FixtureFxRateProvider implements FxRateProvider {
+  readonly name = "fixture" as const;
+
+  async getRate(base: string, quote: string): Promise<number> {
+    const basePerUsd = FIXTURE_RATES_PER_USD[base];
+    const quotePerUsd = FIXTURE_RATES_PER_USD[quote];
+
+    if (!basePerUsd || !quotePerUsd) {
+      throw new Error(`No fixture rate for ${base}/${quote}`);
+    }
+
+    return quotePerUsd / basePerUsd;
+  }
+}
+
+// Singleton instance
+let fixtureProviderInstance: FixtureFxRateProvider | null = null;
+
+/**
+ * Get fixture FX rate provider instance
+ */
+export function getFixtureFxRateProvider(): FixtureFxRateProvider {
+  if (!fixtureProviderInstance) {
+    fixtureProviderInstance = new FixtureFxRateProvider();
+  }
+  return fixtureProviderInstance;
+}
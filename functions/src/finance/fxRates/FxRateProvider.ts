@@ -0,0 +1,37 @@
+/**
+ * FX Rate Provider Interface
+ *
+ * Abstracts where exchange rates come from:
+ * - HTTP rate API (production)
+ * - Local fixture rates (emulator/tests)
+ *
+ * All providers implement this interface for consistent handling.
+ */
+
+/**
+ * Available FX rate sources
+ */
+export type FxRateSourceType = "http" | "fixture";
+
+/**
+ * FX Rate Provider Interface
+ *
+ * All FX rate providers must implement this interface.
+ */
+export interface FxRateProvider {
+  /** Provider name identifier */
+  readonly name: FxRateSourceType;
+
+  /**
+   * Get the current rate
+   * Returns units of `quote` per unit of `base` (major units).
+   */
+  getRate(base: string, quote: string): Promise<number>;
+}
+
+/**
+ * Check if a rate source type is valid
+ */
+export function isValidFxRateSourceType(type: string): type is FxRateSourceType {
+  return ["http", "fixture"].includes(type);
+}
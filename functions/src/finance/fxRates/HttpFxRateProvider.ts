@@ -0,0 +1,71 @@
+/**
+ * HTTP FX Rate Provider
+ *
+ * Reads rates from an exchange rate API returning
+ * `{rates: {<QUOTE>: number}}` for `GET /latest?base=<BASE>&symbols=<QUOTE>`.
+ *
+ * Required Environment Variables:
+ * - FX_RATES_API_URL: Rate API base URL
+ * - FX_RATES_API_KEY: Rate API key
+ */
+
+import {FxRateProvider} from "./FxRateProvider";
+import {createLogger} from "../../common/logger";
+
+const logger = createLogger("payment", "HttpFxRateProvider");
+
+// Rate API configuration from environment
+const FX_CONFIG = {
+  apiUrl: process.env.FX_RATES_API_URL || "",
+  apiKey: process.env.FX_RATES_API_KEY || "",
+};
+
+/**
+ * HTTP FX Rate Provider Implementation
+ */
+export class HttpFxRateProvider implements FxRateProvider {
+  readonly name = "http" as const;
+
+  async getRate(base: string, quote: string): Promise<number> {
+    if (!FX_CONFIG.apiUrl || !FX_CONFIG.apiKey) {
+      throw new Error("FX rate API is not configured");
+    }
+
+    const query = new URLSearchParams({base, symbols: quote});
+    const response = await fetch(`${FX_CONFIG.apiUrl}/latest?${query}`, {
+      method: "GET",
+      headers: {
+        "Accept": "application/json",
+        "Authorization": `Bearer ${FX_CONFIG.apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("fx_rate_api_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`FX rate API error: ${response.status}`);
+    }
+
+    const data = await response.json() as {rates?: Record<string, number>};
+    const rate = Number(data.rates?.[quote]);
+
+    if (!rate || rate <= 0) {
+      throw new Error(`FX rate API returned no rate for ${base}/${quote}`);
+    }
+
+    return rate;
+  }
+}
+
+// Singleton instance
+let httpProviderInstance: HttpFxRateProvider | null = null;
+
+/**
+ * Get HTTP FX rate provider instance
+ */
+export function getHttpFxRateProvider(): HttpFxRateProvider {
+  if (!httpProviderInstance) {
+    httpProviderInstance = new HttpFxRateProvider();
+  }
+  return httpProviderInstance;
+}
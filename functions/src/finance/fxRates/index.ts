@@ -0,0 +1,72 @@
+/**
+ * FX Rates Module
+ *
+ * Exports FX rate provider interface and implementations.
+ * Use getFxRateSnapshot() to capture the rate used for a payment.
+ *
+ * Source selection (FX_RATE_SOURCE):
+ * - "http" - rate API (default in production)
+ * - "fixture" - fixed local rates (default in the emulator)
+ */
+
+import * as admin from "firebase-admin";
+import {FxRateProvider, isValidFxRateSourceType} from "./FxRateProvider";
+import {getHttpFxRateProvider} from "./HttpFxRateProvider";
+import {getFixtureFxRateProvider} from "./FixtureFxRateProvider";
+
+// Interface and types
+export {
+  FxRateProvider,
+  FxRateSourceType,
+  isValidFxRateSourceType,
+} from "./FxRateProvider";
+
+// Provider implementations
+export {getHttpFxRateProvider, HttpFxRateProvider} from "./HttpFxRateProvider";
+export {getFixtureFxRateProvider, FixtureFxRateProvider} from "./FixtureFxRateProvider";
+
+/**
+ * Rate captured at payment time, stored on payments, escrow and refunds
+ */
+export interface FxRateSnapshot {
+  /** Settlement currency */
+  base: string;
+  /** Presentment currency */
+  quote: string;
+  /** Units of quote per unit of base (major units) */
+  rate: number;
+  /** Rate source that produced it */
+  source: string;
+  capturedAt: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Get the configured FX rate provider
+ */
+export function getFxRateProvider(): FxRateProvider {
+  const configured = process.env.FX_RATE_SOURCE || "";
+  const source = isValidFxRateSourceType(configured) ?
+    configured :
+    process.env.FUNCTIONS_EMULATOR === "true" ? "fixture" : "http";
+
+  return source === "fixture" ? getFixtureFxRateProvider() : getHttpFxRateProvider();
+}
+
+/**
+ * Capture the current rate between two currencies
+ *
+ * @param base - Settlement currency
+ * @param quote - Presentment currency
+ */
+export async function getFxRateSnapshot(base: string, quote: string): Promise<FxRateSnapshot> {
+  const provider = getFxRateProvider();
+  const rate = base === quote ? 1 : await provider.getRate(base, quote);
+
+  return {
+    base,
+    quote,
+    rate,
+    source: provider.name,
+    capturedAt: admin.firestore.Timestamp.now(),
+  };
+}
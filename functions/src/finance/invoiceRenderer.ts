@@ -0,0 +1,241 @@
+/**
+ * Invoice Renderer - HTML and PDF
+ *
+ * Renders an issued invoice document (see invoiceService.ts) as:
+ * - HTML, for e-mail and in-app display
+ * - PDF, a plain text layout written directly in PDF syntax using the
+ *   standard Helvetica fonts (WinAnsi encoding covers Portuguese)
+ */
+
+import {formatCurrency} from "../common/currency";
+import type {InvoiceRecord} from "./invoiceService";
+
+// ==================== LAYOUT ====================
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const AMOUNT_COLUMN_X = 420;
+
+interface InvoiceRow {
+  text: string;
+  amount?: string;
+  size?: number;
+  bold?: boolean;
+  gapBefore?: number;
+}
+
+const DOCUMENT_TITLES: Record<InvoiceRecord["type"], string> = {
+  invoice_receipt: "Fatura-Recibo",
+  credit_note: "Nota de Crédito",
+  commission_invoice: "Fatura de Comissão",
+};
+
+const TAX_LINE_LABELS: Record<string, string> = {
+  service_iva: "IVA incluído no serviço",
+  commission_iva: "IVA incluído na comissão",
+  commission_withholding: "Retenção na fonte sobre a comissão",
+};
+
+// ==================== CONTENT ====================
+
+/**
+ * Format an ISO/Date value as a Luanda calendar date
+ */
+function formatIssueDate(value: Date): string {
+  return new Intl.DateTimeFormat("pt-AO", {
+    timeZone: "Africa/Luanda",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(value);
+}
+
+/**
+ * Rows shared by the HTML and PDF layouts
+ */
+function buildRows(invoice: InvoiceRecord): InvoiceRow[] {
+  const money = (amount: number) => formatCurrency(amount, invoice.currency);
+  const rows: InvoiceRow[] = [
+    {text: `${DOCUMENT_TITLES[invoice.type]} ${invoice.number}`, size: 16, bold: true},
+    {text: `Data de emissão: ${formatIssueDate(invoice.issuedAt.toDate())}`},
+    {text: invoice.issuer.name, bold: true, gapBefore: 10},
+    {text: `NIF: ${invoice.issuer.taxId || "-"}`},
+  ];
+
+  if (invoice.issuer.address) {
+    rows.push({text: invoice.issuer.address});
+  }
+
+  rows.push(
+      {text: "Cliente", bold: true, gapBefore: 10},
+      {text: invoice.issuedTo.name},
+      {text: `NIF: ${invoice.issuedTo.taxId || "Consumidor final"}`},
+  );
+
+  if (invoice.relatedNumber) {
+    rows.push({text: `Documento de origem: ${invoice.relatedNumber}`, gapBefore: 10});
+  }
+  if (invoice.reference) {
+    rows.push({text: invoice.reference, gapBefore: invoice.relatedNumber ? 0 : 10});
+  }
+
+  rows.push({text: "Descrição", amount: "Valor", bold: true, gapBefore: 10});
+  for (const line of invoice.lines) {
+    rows.push({text: line.description, amount: money(line.amount)});
+  }
+  rows.push({text: "Total", amount: money(invoice.amount), bold: true, gapBefore: 4});
+
+  if (invoice.presentment) {
+    rows.push({
+      text: "Pago em",
+      amount: formatCurrency(invoice.presentment.amount, invoice.presentment.currency),
+    });
+  }
+
+  if (invoice.taxLines.length > 0) {
+    rows.push({text: "Impostos", bold: true, gapBefore: 10});
+    for (const line of invoice.taxLines) {
+      rows.push({
+        text: `${TAX_LINE_LABELS[line.type] || line.type} (${line.rate}% sobre ${money(line.base)})`,
+        amount: money(line.amount),
+      });
+    }
+  }
+
+  rows.push({
+    text: "Documento processado por computador.",
+    size: 8,
+    gapBefore: 20,
+  });
+
+  return rows;
+}
+
+// ==================== HTML ====================
+
+function escapeHtml(value: string): string {
+  return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render an invoice as a standalone HTML page
+ */
+export function renderInvoiceHtml(invoice: InvoiceRecord): string {
+  const body = buildRows(invoice).map((row) => {
+    const style = [
+      row.bold ? "font-weight:bold" : "",
+      row.size ? `font-size:${row.size}px` : "",
+      row.gapBefore ? `padding-top:${row.gapBefore}px` : "",
+    ].filter(Boolean).join(";");
+    return `<tr style="${style}"><td>${escapeHtml(row.text)}</td>` +
+      `<td style="text-align:right">${escapeHtml(row.amount || "")}</td></tr>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="pt">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${DOCUMENT_TITLES[invoice.type]} ${invoice.number}`)}</title>
+</head>
+<body style="font-family:Helvetica,Arial,sans-serif;font-size:12px;max-width:640px;margin:24px auto">
+<table style="width:100%;border-collapse:collapse">
+${body}
+</table>
+</body>
+</html>
+`;
+}
+
+// ==================== PDF ====================
+
+/**
+ * Map a string to WinAnsi bytes (latin1 plus the few CP1252 extras)
+ */
+function toWinAnsi(value: string): string {
+  return value
+      .replace(/\u20AC/g, "\x80")
+      .replace(/\u2013/g, "\x96")
+      .replace(/\u2014/g, "\x97")
+      .replace(/[\u00A0\u202F]/g, " ")
+      .replace(/[^\x20-\xFF]/g, "?");
+}
+
+/**
+ * Escape a string for a PDF literal
+ */
+function pdfString(value: string): string {
+  return `(${toWinAnsi(value).replace(/([\\()])/g, "\\$1")})`;
+}
+
+/**
+ * Assemble PDF objects into a file with its cross-reference table
+ * Object N is objects[N - 1]; object 1 must be the catalog.
+ */
+function assemblePdf(objects: string[]): Buffer {
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every character is a single latin1 byte, so offsets are byte offsets
+  return Buffer.from(output, "latin1");
+}
+
+/**
+ * Render an invoice as an A4 PDF
+ */
+export function renderInvoicePdf(invoice: InvoiceRecord): Buffer {
+  // Lay rows out on pages (content stream per page)
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const row of buildRows(invoice)) {
+    const size = row.size || 10;
+    y -= (row.gapBefore || 0) + size * 1.5;
+    if (y < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN - size * 1.5;
+    }
+
+    const font = row.bold ? "F2" : "F1";
+    const page = pages[pages.length - 1];
+    page.push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td ${pdfString(row.text)} Tj ET`);
+    if (row.amount) {
+      page.push(`BT /${font} ${size} Tf ${AMOUNT_COLUMN_X} ${y.toFixed(1)} Td ${pdfString(row.amount)} Tj ET`);
+    }
+  }
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then page + content per page
+  const pageObjectIds = pages.map((_, index) => 5 + index * 2);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+
+  for (const [index, page] of pages.entries()) {
+    const content = page.join("\n");
+    objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectIds[index] + 1} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  }
+
+  return assemblePdf(objects);
+}
@@ -0,0 +1,510 @@
+/**
+ * Invoice Service - Invoices, Receipts and Credit Notes
+ *
+ * Documents are issued when escrow money moves:
+ * - invoice_receipt (FR) to the client when an escrow is funded
+ * - credit_note (NC) to the client when (part of) an escrow is refunded
+ * - commission_invoice (FT) to the supplier for the platform commission
+ *   when an escrow is released
+ *
+ * They are issued by Firestore triggers on escrow and refund writes, so a
+ * rendering or Storage failure never blocks fundEscrow, refundEscrow or
+ * releaseEscrow. Documents whose files failed to store are rendered
+ * again on the next listBookingInvoices call.
+ *
+ * Numbers are sequential per series and year (e.g. "FR 2026/17"): the
+ * counter is incremented in the same transaction that creates the
+ * document, so numbers have no gaps. Document IDs are derived from the
+ * source (escrow or refund), so re-runs never issue twice.
+ *
+ * Collections:
+ * - invoices/{type}_{sourceId}
+ * - invoice_counters/{series}_{year}
+ * Storage: invoices/{bookingId}/{invoiceId}.pdf|.html (server access only)
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {createLogger} from "../common/logger";
+import {renderInvoiceHtml, renderInvoicePdf} from "./invoiceRenderer";
+import {TaxLine} from "./taxEngine";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const logger = createLogger("payment", "invoices");
+
+/**
+ * How long download links stay valid
+ */
+const DOWNLOAD_URL_TTL_MINUTES = 60;
+
+// ==================== TYPES ====================
+
+export type InvoiceType = "invoice_receipt" | "credit_note" | "commission_invoice";
+
+const INVOICE_SERIES: Record<InvoiceType, string> = {
+  invoice_receipt: "FR",
+  credit_note: "NC",
+  commission_invoice: "FT",
+};
+
+interface InvoiceParty {
+  name: string;
+  taxId: string | null;
+  address: string | null;
+}
+
+export interface InvoiceRecord {
+  id: string;
+  type: InvoiceType;
+  series: string;
+  year: number;
+  sequence: number;
+  number: string;
+  bookingId: string;
+  escrowId: string;
+  refundId: string | null;
+  recipientRole: "client" | "supplier";
+  recipientId: string; // Client user ID or supplier ID
+  issuer: InvoiceParty;
+  issuedTo: InvoiceParty;
+  reference: string | null; // Booking/event description
+  relatedNumber: string | null; // Invoice a credit note corrects
+  lines: Array<{description: string; amount: number}>;
+  amount: number;
+  currency: string;
+  presentment: {amount: number; currency: string} | null;
+  taxLines: TaxLine[];
+  files: {pdfPath: string; htmlPath: string} | null;
+  issuedAt: FirebaseFirestore.Timestamp;
+  createdAt: FirebaseFirestore.FieldValue;
+}
+
+type InvoiceDraft = Omit<InvoiceRecord,
+  "id" | "series" | "year" | "sequence" | "number" | "files" | "issuedAt" | "createdAt">;
+
+// ==================== HELPERS ====================
+
+/**
+ * Check if a user is an admin
+ */
+async function checkIsAdmin(userId: string): Promise<boolean> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  if (!userDoc.exists) return false;
+  return userDoc.data()?.role === "admin";
+}
+
+/**
+ * Platform company details printed on every document
+ */
+function getIssuer(): InvoiceParty {
+  return {
+    name: process.env.INVOICE_ISSUER_NAME || "BODA CONNECT",
+    taxId: process.env.INVOICE_ISSUER_NIF || null,
+    address: process.env.INVOICE_ISSUER_ADDRESS || null,
+  };
+}
+
+/**
+ * Calendar year in Luanda (numbering restarts every year)
+ */
+function getIssueYear(date: Date): number {
+  return Number(new Intl.DateTimeFormat("en", {
+    timeZone: "Africa/Luanda",
+    year: "numeric",
+  }).format(date));
+}
+
+/**
+ * Booking/event description printed on the document
+ */
+function describeBooking(booking: FirebaseFirestore.DocumentData): string {
+  const eventDate = booking.eventDate?.toDate?.()?.toISOString().slice(0, 10);
+  return [
+    booking.packageName || "Reserva",
+    booking.eventName,
+    eventDate,
+  ].filter(Boolean).join(" - ");
+}
+
+/**
+ * Client details for documents issued to the client
+ */
+async function getClientParty(
+    clientId: string,
+    booking: FirebaseFirestore.DocumentData
+): Promise<InvoiceParty> {
+  const userDoc = await db.collection("users").doc(clientId).get();
+  const user = userDoc.data() || {};
+  return {
+    name: user.displayName || user.name || booking.clientName || "Cliente",
+    taxId: user.taxId || user.nif || null,
+    address: user.address || null,
+  };
+}
+
+/**
+ * Supplier details for commission invoices
+ */
+async function getSupplierParty(supplierId: string): Promise<InvoiceParty> {
+  const supplierDoc = await db.collection("suppliers").doc(supplierId).get();
+  const supplier = supplierDoc.data() || {};
+  return {
+    name: supplier.legalName || supplier.businessName || supplier.name || "Fornecedor",
+    taxId: supplier.taxId || supplier.nif || null,
+    address: supplier.address || null,
+  };
+}
+
+/**
+ * Render a document and store both formats in Storage
+ */
+async function storeInvoiceFiles(invoice: InvoiceRecord): Promise<InvoiceRecord> {
+  const bucket = admin.storage().bucket();
+  const basePath = `invoices/${invoice.bookingId}/${invoice.id}`;
+  const files = {pdfPath: `${basePath}.pdf`, htmlPath: `${basePath}.html`};
+
+  await Promise.all([
+    bucket.file(files.pdfPath).save(renderInvoicePdf(invoice), {
+      contentType: "application/pdf",
+      resumable: false,
+    }),
+    bucket.file(files.htmlPath).save(renderInvoiceHtml(invoice), {
+      contentType: "text/html; charset=utf-8",
+      resumable: false,
+    }),
+  ]);
+
+  await db.collection("invoices").doc(invoice.id).update({files});
+  return {...invoice, files};
+}
+
+/**
+ * Number and record a document, then render and store it
+ * Idempotent per (type, source): an existing document is returned as is
+ * (and its files stored if a previous attempt failed before that).
+ *
+ * @param type - Document type
+ * @param sourceId - Escrow ID (receipt, commission) or refund ID (credit note)
+ * @param draft - Document content
+ */
+async function issueInvoice(
+    type: InvoiceType,
+    sourceId: string,
+    draft: InvoiceDraft
+): Promise<InvoiceRecord> {
+  const invoiceRef = db.collection("invoices").doc(`${type}_${sourceId}`);
+  const issuedAt = admin.firestore.Timestamp.now();
+  const series = INVOICE_SERIES[type];
+  const year = getIssueYear(issuedAt.toDate());
+  const counterRef = db.collection("invoice_counters").doc(`${series}_${year}`);
+
+  const {invoice, created} = await db.runTransaction(async (transaction) => {
+    const [existing, counter] = await Promise.all([
+      transaction.get(invoiceRef),
+      transaction.get(counterRef),
+    ]);
+    if (existing.exists) {
+      return {invoice: existing.data() as InvoiceRecord, created: false};
+    }
+
+    const sequence = (counter.data()?.lastSequence || 0) + 1;
+    const record: InvoiceRecord = {
+      ...draft,
+      id: invoiceRef.id,
+      series,
+      year,
+      sequence,
+      number: `${series} ${year}/${sequence}`,
+      files: null,
+      issuedAt,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    transaction.set(counterRef, {series, year, lastSequence: sequence, updatedAt: issuedAt});
+    transaction.create(invoiceRef, record);
+    transaction.set(
+        db.collection("bookings").doc(draft.bookingId),
+        {invoiceIds: admin.firestore.FieldValue.arrayUnion(invoiceRef.id)},
+        {merge: true}
+    );
+
+    return {invoice: record, created: true};
+  });
+
+  if (created) {
+    logger.info("invoice_issued", {
+      invoiceId: invoice.id,
+      number: invoice.number,
+      bookingId: invoice.bookingId,
+      amount: invoice.amount,
+    });
+  }
+
+  return invoice.files ? invoice : storeInvoiceFiles(invoice);
+}
+
+// ==================== ISSUING ====================
+
+/**
+ * Issue the client's invoice-receipt for a funded escrow
+ */
+export async function issuePaymentReceipt(escrowId: string): Promise<InvoiceRecord> {
+  const escrow = (await db.collection("escrow").doc(escrowId).get()).data();
+  if (!escrow) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+
+  const booking = (await db.collection("bookings").doc(escrow.bookingId).get()).data() || {};
+  const platformDiscount = escrow.platformDiscount || 0;
+  const lines = [{
+    description: `${describeBooking(booking)} (${booking.supplierName || "Fornecedor"})`,
+    amount: escrow.totalAmount + platformDiscount,
+  }];
+  if (platformDiscount > 0) {
+    lines.push({description: "Desconto promocional", amount: -platformDiscount});
+  }
+
+  return issueInvoice("invoice_receipt", escrowId, {
+    type: "invoice_receipt",
+    bookingId: escrow.bookingId,
+    escrowId,
+    refundId: null,
+    recipientRole: "client",
+    recipientId: escrow.clientId,
+    issuer: getIssuer(),
+    issuedTo: await getClientParty(escrow.clientId, booking),
+    reference: escrow.installmentId ?
+      `Reserva ${escrow.bookingId} - prestação ${escrow.installmentId}` :
+      `Reserva ${escrow.bookingId}`,
+    relatedNumber: null,
+    lines,
+    amount: escrow.totalAmount,
+    currency: escrow.currency || "AOA",
+    presentment: escrow.presentmentCurrency ? {
+      amount: escrow.presentmentAmount || 0,
+      currency: escrow.presentmentCurrency,
+    } : null,
+    taxLines: ((escrow.taxLines || []) as TaxLine[]).filter((line) => line.type === "service_iva"),
+  });
+}
+
+/**
+ * Issue the client's credit note for a refund
+ */
+export async function issueRefundCreditNote(refundId: string): Promise<InvoiceRecord> {
+  const refund = (await db.collection("refunds").doc(refundId).get()).data();
+  if (!refund) {
+    throw new Error(`Refund not found: ${refundId}`);
+  }
+
+  const [escrowDoc, bookingDoc, receiptDoc] = await Promise.all([
+    db.collection("escrow").doc(refund.escrowId).get(),
+    db.collection("bookings").doc(refund.bookingId).get(),
+    db.collection("invoices").doc(`invoice_receipt_${refund.escrowId}`).get(),
+  ]);
+  const escrow = escrowDoc.data() || {};
+  const booking = bookingDoc.data() || {};
+
+  return issueInvoice("credit_note", refundId, {
+    type: "credit_note",
+    bookingId: refund.bookingId,
+    escrowId: refund.escrowId,
+    refundId,
+    recipientRole: "client",
+    recipientId: refund.clientId,
+    issuer: getIssuer(),
+    issuedTo: await getClientParty(refund.clientId, booking),
+    reference: `Reserva ${refund.bookingId}${refund.reason ? ` - ${refund.reason}` : ""}`,
+    relatedNumber: receiptDoc.data()?.number || null,
+    lines: [{
+      description: `Reembolso: ${describeBooking(booking)}`,
+      amount: refund.amount,
+    }],
+    amount: refund.amount,
+    currency: refund.currency || escrow.currency || "AOA",
+    presentment: refund.presentmentCurrency && refund.presentmentAmount ? {
+      amount: refund.presentmentAmount,
+      currency: refund.presentmentCurrency,
+    } : null,
+    taxLines: [],
+  });
+}
+
+/**
+ * Issue the supplier's commission invoice for a released escrow
+ */
+export async function issueCommissionInvoice(escrowId: string): Promise<InvoiceRecord> {
+  const escrow = (await db.collection("escrow").doc(escrowId).get()).data();
+  if (!escrow) {
+    throw new Error(`Escrow not found: ${escrowId}`);
+  }
+
+  const booking = (await db.collection("bookings").doc(escrow.bookingId).get()).data() || {};
+
+  return issueInvoice("commission_invoice", escrowId, {
+    type: "commission_invoice",
+    bookingId: escrow.bookingId,
+    escrowId,
+    refundId: null,
+    recipientRole: "supplier",
+    recipientId: escrow.supplierId,
+    issuer: getIssuer(),
+    issuedTo: await getSupplierParty(escrow.supplierId),
+    reference: `Reserva ${escrow.bookingId} - ${describeBooking(booking)}`,
+    relatedNumber: null,
+    lines: [{
+      description: `Comissão de intermediação (${escrow.platformFeePercent ?? 0}%)`,
+      amount: escrow.platformFee || 0,
+    }],
+    amount: escrow.platformFee || 0,
+    currency: escrow.currency || "AOA",
+    presentment: null,
+    taxLines: ((escrow.taxLines || []) as TaxLine[]).filter((line) => line.type !== "service_iva"),
+  });
+}
+
+// ==================== TRIGGERS ====================
+
+/**
+ * Issue Escrow Invoices - Firestore Trigger
+ * Receipt when an escrow is funded, commission invoice when released.
+ */
+export const onEscrowInvoiceEvent = functions
+    .region(REGION)
+    .firestore
+    .document("escrow/{escrowId}")
+    .onUpdate(async (change, context) => {
+      const before = change.before.data();
+      const after = change.after.data();
+      const escrowId = context.params.escrowId;
+
+      if (before.status === after.status) {
+        return null;
+      }
+
+      if (before.status === "pending_payment" && after.status === "funded") {
+        await issuePaymentReceipt(escrowId);
+      } else if (after.status === "released" && (after.platformFee || 0) > 0) {
+        await issueCommissionInvoice(escrowId);
+      }
+
+      return null;
+    });
+
+/**
+ * Issue Refund Credit Note - Firestore Trigger
+ */
+export const onRefundCreated = functions
+    .region(REGION)
+    .firestore
+    .document("refunds/{refundId}")
+    .onCreate(async (snapshot, context) => {
+      await issueRefundCreditNote(context.params.refundId);
+      return null;
+    });
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * List Booking Invoices - Callable Cloud Function
+ *
+ * Lists the documents of a booking with fresh download links. Clients
+ * see their receipts and credit notes, the supplier their commission
+ * invoices, admins everything. Files missing from Storage are rendered
+ * again, so this is also how a document is re-downloaded.
+ */
+export const listBookingInvoices = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "listBookingInvoices",
+            async (
+                data: {bookingId: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              if (!data?.bookingId) {
+                throw Errors.invalidArgument(errorContext, "bookingId", "Campo obrigatório");
+              }
+
+              const callerId = context.auth.uid;
+              const bookingDoc = await db.collection("bookings").doc(data.bookingId).get();
+              if (!bookingDoc.exists) {
+                throw Errors.notFound(errorContext, "Reserva", data.bookingId);
+              }
+              const booking = bookingDoc.data() || {};
+
+              let role: "client" | "supplier" | null = null;
+              if (booking.clientId === callerId) {
+                role = "client";
+              } else {
+                const supplierDoc = await db.collection("suppliers").doc(booking.supplierId).get();
+                if (supplierDoc.data()?.userId === callerId) {
+                  role = "supplier";
+                }
+              }
+
+              const isAdmin = !role && await checkIsAdmin(callerId);
+              if (!role && !isAdmin) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Caller ${callerId} is not part of booking ${data.bookingId}`,
+                    "Sem permissão para ver os documentos desta reserva"
+                );
+              }
+
+              const invoiceIds: string[] = booking.invoiceIds || [];
+              const invoiceDocs = invoiceIds.length ?
+                await db.getAll(...invoiceIds.map((id) => db.collection("invoices").doc(id))) :
+                [];
+
+              const bucket = admin.storage().bucket();
+              const expires = Date.now() + DOWNLOAD_URL_TTL_MINUTES * 60 * 1000;
+              const invoices = [];
+
+              for (const doc of invoiceDocs) {
+                let invoice = doc.data() as InvoiceRecord | undefined;
+                if (!invoice || (!isAdmin && invoice.recipientRole !== role)) continue;
+
+                if (!invoice.files || !(await bucket.file(invoice.files.pdfPath).exists())[0]) {
+                  invoice = await storeInvoiceFiles(invoice);
+                }
+                const files = invoice.files as {pdfPath: string; htmlPath: string};
+
+                const [[pdfUrl], [htmlUrl]] = await Promise.all([
+                  bucket.file(files.pdfPath).getSignedUrl({action: "read", expires}),
+                  bucket.file(files.htmlPath).getSignedUrl({action: "read", expires}),
+                ]);
+
+                invoices.push({
+                  id: invoice.id,
+                  type: invoice.type,
+                  number: invoice.number,
+                  amount: invoice.amount,
+                  currency: invoice.currency,
+                  issuedAt: invoice.issuedAt.toDate().toISOString(),
+                  pdfUrl,
+                  htmlUrl,
+                });
+              }
+
+              return {
+                success: true,
+                bookingId: data.bookingId,
+                invoices,
+                expiresAt: new Date(expires).toISOString(),
+              };
+            }
+        )
+    );
@@ -0,0 +1,329 @@
+/**
+ * Ledger - Double-Entry Record of Money Movements
+ *
+ * Every money movement is one ledger transaction whose entries sum to
+ * zero. Entries move an amount from one account to another:
+ * - escrowFunded:   client_funds     → escrow_holding
+ * - escrowReleased: escrow_holding   → platform_revenue + supplier_payable
+ *                   (platform_promotions → escrow_holding for discounts
+ *                   the platform funds)
+ * - escrowRefunded: escrow_holding   → client_funds
+ * - payoutSent:     supplier_payable → supplier_paid
+ * - payoutReversed: supplier_paid    → supplier_payable
+ * - escrowChargedBack: platform_revenue + supplier_receivable
+ *                   → client_funds (chargeback lost after release)
+ * - receivableSettled:  supplier_paid → supplier_receivable
+ *                   (deducted from a sent payout batch)
+ * - receivableReopened: supplier_receivable → supplier_paid
+ *                   (that batch was reversed)
+ *
+ * client_funds and supplier_paid are the outside world: a negative
+ * client_funds balance is money received from clients, a positive
+ * supplier_paid balance is money sent to suppliers. A negative
+ * platform_promotions balance is what promo codes cost the platform,
+ * a negative supplier_receivable balance what suppliers owe it.
+ *
+ * Transactions are added to the same WriteBatch as the escrow/payout
+ * update they describe, so both are committed or neither is.
+ *
+ * Collections:
+ * - ledger_transactions/{type}_{sourceId} - one per movement (idempotent)
+ * - ledger_accounts/{currency}_{account} - running balances
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+/**
+ * Transactions scanned by one trial balance run
+ */
+const MAX_TRANSACTIONS_SCANNED = 5000;
+
+// ==================== TYPES ====================
+
+export type LedgerAccount =
+  | "client_funds"
+  | "escrow_holding"
+  | "platform_revenue"
+  | "platform_promotions"
+  | "supplier_payable"
+  | "supplier_paid"
+  | "supplier_receivable";
+
+export type LedgerTransactionType =
+  | "escrowFunded"
+  | "escrowReleased"
+  | "escrowRefunded"
+  | "payoutSent"
+  | "payoutReversed"
+  | "escrowChargedBack"
+  | "receivableSettled"
+  | "receivableReopened";
+
+export const LEDGER_ACCOUNTS: LedgerAccount[] = [
+  "client_funds",
+  "escrow_holding",
+  "platform_revenue",
+  "platform_promotions",
+  "supplier_payable",
+  "supplier_paid",
+  "supplier_receivable",
+];
+
+export interface LedgerEntry {
+  account: LedgerAccount;
+  amount: number; // Positive = into the account, negative = out of it
+  bookingId: string | null;
+}
+
+export interface LedgerTransactionRecord {
+  id: string;
+  type: LedgerTransactionType;
+  currency: string;
+  entries: LedgerEntry[];
+  bookingIds: string[]; // For array-contains lookups per booking
+  sourceId: string; // escrowId, refundId, payout batchId or chargeback ID
+  metadata: Record<string, unknown>;
+  createdAt: FirebaseFirestore.FieldValue;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Check if a user is an admin
+ */
+async function checkIsAdmin(userId: string): Promise<boolean> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  if (!userDoc.exists) return false;
+  return userDoc.data()?.role === "admin";
+}
+
+/**
+ * Build the pair of entries moving an amount between two accounts
+ * Zero amounts produce no entries.
+ */
+export function ledgerTransfer(
+    from: LedgerAccount,
+    to: LedgerAccount,
+    amount: number,
+    bookingId: string | null
+): LedgerEntry[] {
+  if (!amount) return [];
+  return [
+    {account: from, amount: -amount, bookingId},
+    {account: to, amount, bookingId},
+  ];
+}
+
+/**
+ * Add a ledger transaction to a write batch
+ * The transaction ID is derived from the source, and create() fails the
+ * whole batch if that movement was already recorded.
+ *
+ * @throws Error if the entries do not sum to zero
+ */
+export function addLedgerTransaction(
+    writeBatch: FirebaseFirestore.WriteBatch,
+    transaction: {
+      type: LedgerTransactionType;
+      sourceId: string;
+      currency: string;
+      entries: LedgerEntry[];
+      metadata?: Record<string, unknown>;
+    }
+): string {
+  const {type, sourceId, currency, entries} = transaction;
+
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  if (total !== 0) {
+    throw new Error(`Unbalanced ledger transaction ${type} for ${sourceId}: entries sum to ${total}`);
+  }
+
+  const id = `${type}_${sourceId}`;
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  const record: LedgerTransactionRecord = {
+    id,
+    type,
+    currency,
+    entries,
+    bookingIds: [...new Set(entries.map((e) => e.bookingId).filter((b): b is string => !!b))],
+    sourceId,
+    metadata: transaction.metadata || {},
+    createdAt: now,
+  };
+
+  writeBatch.create(db.collection("ledger_transactions").doc(id), record);
+
+  // One increment per account touched
+  const deltas = new Map<LedgerAccount, number>();
+  for (const entry of entries) {
+    deltas.set(entry.account, (deltas.get(entry.account) || 0) + entry.amount);
+  }
+  for (const [account, delta] of deltas) {
+    writeBatch.set(
+        db.collection("ledger_accounts").doc(`${currency}_${account}`),
+        {
+          account,
+          currency,
+          balance: admin.firestore.FieldValue.increment(delta),
+          updatedAt: now,
+        },
+        {merge: true}
+    );
+  }
+
+  return id;
+}
+
+/**
+ * escrow_holding balance per booking, keyed "bookingId|currency"
+ * Both legs of a transfer carry the booking, so a booking's entries
+ * always sum to zero; its escrow_holding balance does not. A negative
+ * balance means more was released or refunded for the booking than was
+ * ever funded (e.g. a refund posted twice).
+ */
+export function getBookingEscrowBalances(
+    transactions: Array<Pick<LedgerTransactionRecord, "currency" | "entries">>
+): Map<string, number> {
+  const balances = new Map<string, number>();
+  for (const transaction of transactions) {
+    for (const entry of transaction.entries || []) {
+      if (!entry.bookingId || entry.account !== "escrow_holding") continue;
+
+      const key = `${entry.bookingId}|${transaction.currency}`;
+      balances.set(key, (balances.get(key) || 0) + entry.amount);
+    }
+  }
+  return balances;
+}
+
+/**
+ * escrow_holding balance of a booking in one currency, over its full history
+ */
+async function getBookingEscrowBalance(bookingId: string, currency: string): Promise<number> {
+  const snapshot = await db
+      .collection("ledger_transactions")
+      .where("bookingIds", "array-contains", bookingId)
+      .get();
+
+  const balances = getBookingEscrowBalances(
+      snapshot.docs.map((doc) => doc.data() as LedgerTransactionRecord)
+  );
+  return balances.get(`${bookingId}|${currency}`) || 0;
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Get Trial Balance - Callable Cloud Function
+ *
+ * Admin only. Reports account balances per currency (which must sum to
+ * zero), flags transactions whose entries do not, and bookings whose
+ * escrow_holding balance is negative (more paid out of escrow than in).
+ * Pass `since` (ISO date) to only check bookings with recent movements.
+ */
+export const getTrialBalance = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "getTrialBalance",
+            async (
+                data: {since?: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const adminId = context.auth.uid;
+              if (!(await checkIsAdmin(adminId))) {
+                throw Errors.permissionDenied(errorContext, `Caller ${adminId} is not an admin`);
+              }
+
+              let query: FirebaseFirestore.Query = db.collection("ledger_transactions");
+              if (data?.since) {
+                const since = new Date(data.since);
+                if (isNaN(since.getTime())) {
+                  throw Errors.invalidArgument(errorContext, "since", "Data inválida");
+                }
+                query = query.where("createdAt", ">=", admin.firestore.Timestamp.fromDate(since));
+              }
+
+              const [accountsSnapshot, transactionsSnapshot] = await Promise.all([
+                db.collection("ledger_accounts").get(),
+                query.orderBy("createdAt", "desc").limit(MAX_TRANSACTIONS_SCANNED).get(),
+              ]);
+
+              // Trial balance per currency
+              const currencies: Record<string, {
+                accounts: Record<string, number>;
+                total: number;
+                balanced: boolean;
+              }> = {};
+              for (const doc of accountsSnapshot.docs) {
+                const {account, currency, balance = 0} = doc.data();
+                const trial = currencies[currency] || (currencies[currency] = {
+                  accounts: Object.fromEntries(LEDGER_ACCOUNTS.map((a) => [a, 0])),
+                  total: 0,
+                  balanced: true,
+                });
+                trial.accounts[account] = balance;
+                trial.total += balance;
+                trial.balanced = trial.total === 0;
+              }
+
+              // Per-transaction sums and per-booking escrow balances
+              const transactions = transactionsSnapshot.docs.map(
+                  (doc) => doc.data() as LedgerTransactionRecord
+              );
+              const unbalancedTransactions: Array<{id: string; type: string; total: number}> = [];
+
+              for (const transaction of transactions) {
+                const total = (transaction.entries || []).reduce((sum, entry) => sum + entry.amount, 0);
+                if (total !== 0) {
+                  unbalancedTransactions.push({id: transaction.id, type: transaction.type, total});
+                }
+              }
+
+              const bookingBalances = getBookingEscrowBalances(transactions);
+
+              // A partial scan may miss older funding: re-check against full history
+              const partialScan = !!data?.since ||
+                transactionsSnapshot.size === MAX_TRANSACTIONS_SCANNED;
+              const overdrawnBookings: Array<{bookingId: string; currency: string; escrowBalance: number}> = [];
+
+              for (const [key, scannedBalance] of bookingBalances) {
+                if (scannedBalance >= 0 && !partialScan) continue;
+
+                const [bookingId, currency] = key.split("|");
+                const escrowBalance = partialScan ?
+                  await getBookingEscrowBalance(bookingId, currency) :
+                  scannedBalance;
+
+                if (escrowBalance < 0) {
+                  overdrawnBookings.push({bookingId, currency, escrowBalance});
+                }
+              }
+
+              return {
+                success: true,
+                currencies,
+                transactionsScanned: transactionsSnapshot.size,
+                partialScan,
+                bookingsChecked: bookingBalances.size,
+                overdrawnBookings,
+                unbalancedTransactions,
+              };
+            }
+        )
+    );
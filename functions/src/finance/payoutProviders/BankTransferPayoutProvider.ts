@@ -0,0 +1,151 @@
+/**
+ * Bank Transfer Payout Provider
+ *
+ * Sends supplier payouts as bank transfers (IBAN) through the
+ * platform bank's transfer API.
+ *
+ * Required Environment Variables:
+ * - PAYOUT_BANK_API_URL: Bank transfer API base URL
+ * - PAYOUT_BANK_API_KEY: Bank transfer API key
+ */
+
+import {
+  PayoutProvider,
+  PayoutDestination,
+  CreatePayoutParams,
+  CreatePayoutResult,
+  PayoutStatusResult,
+} from "./PayoutProvider";
+import {createLogger} from "../../common/logger";
+
+const logger = createLogger("payment", "BankTransferPayoutProvider");
+
+// Bank API configuration from environment
+const BANK_CONFIG = {
+  apiUrl: process.env.PAYOUT_BANK_API_URL || "",
+  apiKey: process.env.PAYOUT_BANK_API_KEY || "",
+};
+
+/**
+ * Normalize an Angolan IBAN (AO06 + 21 digits)
+ */
+function normalizeIban(iban: string): string {
+  return iban.replace(/\s/g, "").toUpperCase();
+}
+
+/**
+ * Bank Transfer Payout Provider Implementation
+ */
+export class BankTransferPayoutProvider implements PayoutProvider {
+  readonly name = "bankTransfer" as const;
+
+  private getHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "Accept": "application/json",
+      "Authorization": `Bearer ${BANK_CONFIG.apiKey}`,
+    };
+  }
+
+  private assertConfigured(): void {
+    if (!BANK_CONFIG.apiUrl || !BANK_CONFIG.apiKey) {
+      throw new Error("Bank transfer payouts are not configured");
+    }
+  }
+
+  validateDestination(destination: PayoutDestination): string | null {
+    if (!destination.iban) {
+      return "IBAN is required for bank transfer payouts";
+    }
+    if (!/^AO\d{23}$/.test(normalizeIban(destination.iban))) {
+      return "Invalid Angolan IBAN";
+    }
+    if (!destination.accountName) {
+      return "Account holder name is required";
+    }
+    return null;
+  }
+
+  async createPayout(params: CreatePayoutParams): Promise<CreatePayoutResult> {
+    this.assertConfigured();
+
+    logger.info("creating_bank_transfer", {
+      reference: params.reference,
+      amount: params.amount,
+      supplierId: params.supplierId,
+    });
+
+    const response = await fetch(`${BANK_CONFIG.apiUrl}/transfers`, {
+      method: "POST",
+      headers: {
+        ...this.getHeaders(),
+        "Idempotency-Key": params.reference,
+      },
+      body: JSON.stringify({
+        reference: params.reference,
+        amount: params.amount.toString(),
+        currency: params.currency,
+        beneficiary_name: params.destination.accountName,
+        beneficiary_iban: normalizeIban(params.destination.iban || ""),
+        description: params.description.substring(0, 140),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("bank_transfer_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`Bank transfer API error: ${response.status}`);
+    }
+
+    const data = await response.json() as {id: string; status?: string};
+
+    logger.info("bank_transfer_created", {
+      id: data.id,
+      reference: params.reference,
+    });
+
+    return {
+      providerPayoutId: data.id,
+      providerData: {transferId: data.id, status: data.status || null},
+    };
+  }
+
+  async getPayoutStatus(providerPayoutId: string): Promise<PayoutStatusResult> {
+    this.assertConfigured();
+
+    const response = await fetch(`${BANK_CONFIG.apiUrl}/transfers/${providerPayoutId}`, {
+      method: "GET",
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Bank transfer status error: ${response.status}`);
+    }
+
+    const data = await response.json() as {status: string; reason?: string};
+
+    switch (data.status?.toLowerCase()) {
+    case "rejected":
+    case "failed":
+      return {status: "failed", reason: data.reason};
+    case "returned":
+    case "reversed":
+      return {status: "reversed", reason: data.reason};
+    default:
+      return {status: "sent"};
+    }
+  }
+}
+
+// Singleton instance
+let bankTransferProviderInstance: BankTransferPayoutProvider | null = null;
+
+/**
+ * Get bank transfer payout provider instance
+ */
+export function getBankTransferPayoutProvider(): BankTransferPayoutProvider {
+  if (!bankTransferProviderInstance) {
+    bankTransferProviderInstance = new BankTransferPayoutProvider();
+  }
+  return bankTransferProviderInstance;
+}
@@ -0,0 +1,146 @@
+/**
+ * Multicaixa Express Payout Provider
+ *
+ * Sends supplier payouts to a Multicaixa Express wallet (phone number).
+ *
+ * Required Environment Variables:
+ * - MULTICAIXA_PAYOUT_API_URL: Payout API base URL
+ * - MULTICAIXA_PAYOUT_API_KEY: Payout API key
+ */
+
+import {
+  PayoutProvider,
+  PayoutDestination,
+  CreatePayoutParams,
+  CreatePayoutResult,
+  PayoutStatusResult,
+} from "./PayoutProvider";
+import {createLogger} from "../../common/logger";
+
+const logger = createLogger("payment", "MulticaixaPayoutProvider");
+
+// Multicaixa payout configuration from environment
+const MULTICAIXA_CONFIG = {
+  apiUrl: process.env.MULTICAIXA_PAYOUT_API_URL || "",
+  apiKey: process.env.MULTICAIXA_PAYOUT_API_KEY || "",
+};
+
+/**
+ * Format phone for Multicaixa Express (Angola format: 9XXXXXXXX)
+ */
+function formatPhone(phone: string): string {
+  let cleaned = phone.replace(/\D/g, "");
+  if (cleaned.startsWith("244")) {
+    cleaned = cleaned.substring(3);
+  }
+  return cleaned;
+}
+
+/**
+ * Multicaixa Express Payout Provider Implementation
+ */
+export class MulticaixaPayoutProvider implements PayoutProvider {
+  readonly name = "multicaixaExpress" as const;
+
+  private getHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "Accept": "application/json",
+      "Authorization": `Bearer ${MULTICAIXA_CONFIG.apiKey}`,
+    };
+  }
+
+  private assertConfigured(): void {
+    if (!MULTICAIXA_CONFIG.apiUrl || !MULTICAIXA_CONFIG.apiKey) {
+      throw new Error("Multicaixa Express payouts are not configured");
+    }
+  }
+
+  validateDestination(destination: PayoutDestination): string | null {
+    if (!destination.phone || !/^9\d{8}$/.test(formatPhone(destination.phone))) {
+      return "Valid Angolan phone number is required for Multicaixa Express payouts";
+    }
+    return null;
+  }
+
+  async createPayout(params: CreatePayoutParams): Promise<CreatePayoutResult> {
+    this.assertConfigured();
+
+    logger.info("creating_multicaixa_payout", {
+      reference: params.reference,
+      amount: params.amount,
+      supplierId: params.supplierId,
+    });
+
+    const response = await fetch(`${MULTICAIXA_CONFIG.apiUrl}/payouts`, {
+      method: "POST",
+      headers: {
+        ...this.getHeaders(),
+        "Idempotency-Key": params.reference,
+      },
+      body: JSON.stringify({
+        reference_id: params.reference,
+        amount: params.amount.toString(),
+        mobile: formatPhone(params.destination.phone || ""),
+        message: params.description.substring(0, 50),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("multicaixa_payout_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`Multicaixa payout API error: ${response.status}`);
+    }
+
+    const data = await response.json() as {id: string};
+
+    logger.info("multicaixa_payout_created", {
+      id: data.id,
+      reference: params.reference,
+    });
+
+    return {
+      providerPayoutId: data.id,
+      providerData: {payoutId: data.id},
+    };
+  }
+
+  async getPayoutStatus(providerPayoutId: string): Promise<PayoutStatusResult> {
+    this.assertConfigured();
+
+    const response = await fetch(`${MULTICAIXA_CONFIG.apiUrl}/payouts/${providerPayoutId}`, {
+      method: "GET",
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Multicaixa payout status error: ${response.status}`);
+    }
+
+    const data = await response.json() as {status: string; failure_reason?: string};
+
+    switch (data.status?.toLowerCase()) {
+    case "failed":
+    case "rejected":
+      return {status: "failed", reason: data.failure_reason};
+    case "reversed":
+    case "refunded":
+      return {status: "reversed", reason: data.failure_reason};
+    default:
+      return {status: "sent"};
+    }
+  }
+}
+
+// Singleton instance
+let multicaixaProviderInstance: MulticaixaPayoutProvider | null = null;
+
+/**
+ * Get Multicaixa Express payout provider instance
+ */
+export function getMulticaixaPayoutProvider(): MulticaixaPayoutProvider {
+  if (!multicaixaProviderInstance) {
+    multicaixaProviderInstance = new MulticaixaPayoutProvider();
+  }
+  return multicaixaProviderInstance;
+}
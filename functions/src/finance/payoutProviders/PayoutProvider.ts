@@ -0,0 +1,112 @@
+/**
+ * Payout Provider Interface
+ *
+ * Abstracts moving money OUT to suppliers, parallel to PaymentProvider:
+ * - Bank transfer (IBAN)
+ * - Multicaixa Express (mobile)
+ * - Stripe Connect (international suppliers)
+ *
+ * All providers implement this interface for consistent handling.
+ */
+
+/**
+ * Available payout providers
+ * Names match paymentMethods/{id}.type saved by suppliers, except
+ * stripeConnect, which comes from suppliers/{id}.stripeConnect.
+ */
+export type PayoutProviderType = "bankTransfer" | "multicaixaExpress" | "stripeConnect";
+
+/**
+ * Where a payout goes - read from the supplier's default payment method
+ */
+export interface PayoutDestination {
+  /** Provider used for this destination */
+  type: PayoutProviderType;
+  /** Account holder name */
+  accountName: string;
+  /** IBAN (bank transfer) */
+  iban?: string;
+  /** Bank account number (bank transfer) */
+  accountNumber?: string;
+  /** Bank name (bank transfer) */
+  bankName?: string;
+  /** Phone number (Multicaixa Express) */
+  phone?: string;
+  /** Connected account ID (Stripe Connect) */
+  stripeAccountId?: string;
+}
+
+/**
+ * Parameters for sending a payout
+ */
+export interface CreatePayoutParams {
+  /** Internal reference ID (idempotency key at the provider) */
+  reference: string;
+  /** Amount in smallest currency unit */
+  amount: number;
+  /** ISO 4217 currency code */
+  currency: string;
+  /** Destination account */
+  destination: PayoutDestination;
+  /** Transfer description shown to the supplier */
+  description: string;
+  /** Supplier ID for reference */
+  supplierId: string;
+  /** Additional metadata */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Result of sending a payout
+ */
+export interface CreatePayoutResult {
+  /** Provider's transfer ID */
+  providerPayoutId: string;
+  /** Additional provider-specific data */
+  providerData?: Record<string, unknown>;
+}
+
+/**
+ * Status of a payout at the provider
+ * - sent: accepted/settled by the provider
+ * - failed: rejected before reaching the supplier
+ * - reversed: returned after being sent (e.g. closed account)
+ */
+export interface PayoutStatusResult {
+  status: "sent" | "failed" | "reversed";
+  /** Reason reported by the provider for failed/reversed payouts */
+  reason?: string;
+}
+
+/**
+ * Payout Provider Interface
+ *
+ * All payout providers must implement this interface.
+ */
+export interface PayoutProvider {
+  /** Provider name identifier */
+  readonly name: PayoutProviderType;
+
+  /**
+   * Check the destination has everything this provider needs
+   * Returns an error message, or null when valid.
+   */
+  validateDestination(destination: PayoutDestination): string | null;
+
+  /**
+   * Send money to the destination
+   */
+  createPayout(params: CreatePayoutParams): Promise<CreatePayoutResult>;
+
+  /**
+   * Get the current status of a sent payout
+   */
+  getPayoutStatus(providerPayoutId: string): Promise<PayoutStatusResult>;
+}
+
+/**
+ * Check if a provider type is valid
+ */
+export function isValidPayoutProviderType(type: string): type is PayoutProviderType {
+  return ["bankTransfer", "multicaixaExpress", "stripeConnect"].includes(type);
+}
@@ -0,0 +1,124 @@
+/**
+ * Stripe Connect Payout Provider
+ *
+ * Pays international suppliers (Portugal, Brazil) by transferring their
+ * share from the platform's Stripe balance to their connected account.
+ * Stripe then pays the connected account out to the supplier's bank.
+ *
+ * Escrow holds client funds on the platform until release, so this uses
+ * separate charges and transfers (one transfer per payout batch, sent when
+ * escrow is released - see payoutService) rather than destination charges
+ * at payment time.
+ *
+ * Required Environment Variables:
+ * - STRIPE_SECRET_KEY: Stripe API secret key (platform account)
+ *
+ * Note: transfers are made in the settlement currency, which must be one
+ * the platform balance holds (EUR or USD). Brazilian suppliers settle in
+ * USD or EUR; Stripe converts on payout.
+ */
+
+import Stripe from "stripe";
+import {
+  PayoutProvider,
+  PayoutDestination,
+  CreatePayoutParams,
+  CreatePayoutResult,
+  PayoutStatusResult,
+} from "./PayoutProvider";
+import {createLogger} from "../../common/logger";
+
+const logger = createLogger("payment", "StripeConnectPayoutProvider");
+
+/**
+ * Settlement currencies that can be transferred to connected accounts
+ */
+export const STRIPE_CONNECT_CURRENCIES = ["EUR", "USD"];
+
+/**
+ * Stripe Connect Payout Provider Implementation
+ */
+export class StripeConnectPayoutProvider implements PayoutProvider {
+  readonly name = "stripeConnect" as const;
+  private stripe: Stripe;
+
+  constructor() {
+    const secretKey = process.env.STRIPE_SECRET_KEY || "";
+    if (!secretKey) {
+      throw new Error("STRIPE_SECRET_KEY environment variable is required");
+    }
+
+    this.stripe = new Stripe(secretKey);
+  }
+
+  validateDestination(destination: PayoutDestination): string | null {
+    if (!destination.stripeAccountId || !destination.stripeAccountId.startsWith("acct_")) {
+      return "Connected Stripe account is required for Stripe Connect payouts";
+    }
+    return null;
+  }
+
+  async createPayout(params: CreatePayoutParams): Promise<CreatePayoutResult> {
+    if (!STRIPE_CONNECT_CURRENCIES.includes(params.currency)) {
+      throw new Error(`Stripe Connect transfers are not available in ${params.currency}`);
+    }
+
+    logger.info("creating_stripe_transfer", {
+      reference: params.reference,
+      amount: params.amount,
+      currency: params.currency,
+      supplierId: params.supplierId,
+    });
+
+    // Amounts are already in cents for EUR/USD (see common/currency)
+    const transfer = await this.stripe.transfers.create({
+      amount: params.amount,
+      currency: params.currency.toLowerCase(),
+      destination: params.destination.stripeAccountId || "",
+      description: params.description.substring(0, 140),
+      transfer_group: params.reference,
+      metadata: {
+        reference: params.reference,
+        supplierId: params.supplierId,
+        ...params.metadata,
+      },
+    }, {
+      idempotencyKey: params.reference,
+    });
+
+    logger.info("stripe_transfer_created", {
+      id: transfer.id,
+      reference: params.reference,
+    });
+
+    return {
+      providerPayoutId: transfer.id,
+      providerData: {
+        transferId: transfer.id,
+        destination: transfer.destination as string,
+      },
+    };
+  }
+
+  async getPayoutStatus(providerPayoutId: string): Promise<PayoutStatusResult> {
+    const transfer = await this.stripe.transfers.retrieve(providerPayoutId);
+
+    if (transfer.reversed || transfer.amount_reversed >= transfer.amount) {
+      return {status: "reversed", reason: "Transfer reversed"};
+    }
+    return {status: "sent"};
+  }
+}
+
+// Singleton instance
+let stripeConnectProviderInstance: StripeConnectPayoutProvider | null = null;
+
+/**
+ * Get Stripe Connect payout provider instance
+ */
+export function getStripeConnectPayoutProvider(): StripeConnectPayoutProvider {
+  if (!stripeConnectProviderInstance) {
+    stripeConnectProviderInstance = new StripeConnectPayoutProvider();
+  }
+  return stripeConnectProviderInstance;
+}
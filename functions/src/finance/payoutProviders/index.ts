@@ -0,0 +1,57 @@
+/**
+ * Payout Providers Module
+ *
+ * Exports payout provider interface and implementations.
+ * Use getPayoutProvider() to get the appropriate provider.
+ */
+
+import {PayoutProvider, PayoutProviderType} from "./PayoutProvider";
+import {getBankTransferPayoutProvider} from "./BankTransferPayoutProvider";
+import {getMulticaixaPayoutProvider} from "./MulticaixaPayoutProvider";
+import {getStripeConnectPayoutProvider} from "./StripeConnectPayoutProvider";
+
+// Interface and types
+export {
+  PayoutProvider,
+  PayoutProviderType,
+  PayoutDestination,
+  CreatePayoutParams,
+  CreatePayoutResult,
+  PayoutStatusResult,
+  isValidPayoutProviderType,
+} from "./PayoutProvider";
+
+// Provider implementations
+export {
+  getBankTransferPayoutProvider,
+  BankTransferPayoutProvider,
+} from "./BankTransferPayoutProvider";
+export {
+  getMulticaixaPayoutProvider,
+  MulticaixaPayoutProvider,
+} from "./MulticaixaPayoutProvider";
+export {
+  getStripeConnectPayoutProvider,
+  StripeConnectPayoutProvider,
+  STRIPE_CONNECT_CURRENCIES,
+} from "./StripeConnectPayoutProvider";
+
+/**
+ * Get payout provider by type
+ *
+ * @param providerType - The provider type to get
+ * @returns The payout provider instance
+ * @throws Error if provider type is unknown
+ */
+export function getPayoutProvider(providerType: PayoutProviderType): PayoutProvider {
+  switch (providerType) {
+  case "bankTransfer":
+    return getBankTransferPayoutProvider();
+  case "multicaixaExpress":
+    return getMulticaixaPayoutProvider();
+  case "stripeConnect":
+    return getStripeConnectPayoutProvider();
+  default:
+    throw new Error(`Unknown payout provider type: ${providerType}`);
+  }
+}
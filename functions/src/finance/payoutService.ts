@@ -0,0 +1,985 @@
+/**
+ * Payout Service - Supplier Payouts
+ *
+ * releaseEscrow queues one payout per released escrow. A scheduled job
+ * groups queued payouts per supplier into a batch and sends each batch
+ * through a PayoutProvider (bank transfer or Multicaixa Express).
+ * Suppliers on Stripe Connect are paid at release instead: the payout
+ * goes out as its own batch right away (see sendPayoutOnRelease). Only
+ * EUR/USD payouts go through Stripe Connect; other currencies use the
+ * supplier's bank or Multicaixa method.
+ *
+ * Payout Lifecycle (payouts and payout_batches):
+ * 1. queued - Waiting for the next batch run
+ * 2. sent - Accepted by the provider
+ * 3. failed - Provider rejected it (retried with backoff up to MAX_PAYOUT_ATTEMPTS)
+ * 4. reversed - Returned after being sent (admin can requeue)
+ *
+ * Sending a batch and its later failure/reversal post to the ledger
+ * (supplier_payable ↔ supplier_paid) with the status change.
+ *
+ * Receivables (supplier_receivables, e.g. a chargeback lost after the
+ * escrow was released) are netted against the supplier's next batch:
+ * the batch amount is what is left after deductions, settled in the
+ * ledger when the batch is sent and reopened if it is reversed.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {createLogger} from "../common/logger";
+import {formatCurrency} from "../common/currency";
+import {
+  getPayoutProvider,
+  isValidPayoutProviderType,
+  PayoutDestination,
+  STRIPE_CONNECT_CURRENCIES,
+} from "./payoutProviders";
+import {addLedgerTransaction, ledgerTransfer, LedgerTransactionType} from "./ledger";
+import {addTaxTotals} from "./taxEngine";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const logger = createLogger("payment", "payoutService");
+
+/**
+ * Attempts before a failed batch stops being retried automatically
+ */
+export const MAX_PAYOUT_ATTEMPTS = 3;
+
+/**
+ * Delay before each retry (index = attempts already made - 1)
+ */
+const RETRY_BACKOFF_HOURS = [1, 6, 24];
+
+/**
+ * Sent batches are checked for reversals for this many days
+ */
+const REVERSAL_CHECK_DAYS = 14;
+
+/**
+ * Firestore batch writes are capped at 500 operations
+ */
+const MAX_ITEMS_PER_BATCH = 400;
+
+/**
+ * A batch still queued this long after it was created was left by a run
+ * that died before sending it (providers dedupe on the batch ID, so
+ * sending it again is safe)
+ */
+const STALE_QUEUED_MINUTES = 10;
+
+// ==================== TYPES ====================
+
+export type PayoutStatus = "queued" | "sent" | "failed" | "reversed";
+
+/**
+ * Part of a receivable netted against a payout batch
+ */
+export interface ReceivableDeduction {
+  receivableId: string;
+  amount: number;
+  bookingId: string | null;
+}
+
+/**
+ * Money a supplier owes the platform (supplier_receivables/{id})
+ */
+export interface SupplierReceivableRecord {
+  id: string; // The chargeback ID for chargebacks
+  supplierId: string;
+  escrowId: string;
+  bookingId: string | null;
+  amount: number;
+  remaining: number; // Not yet deducted from a batch
+  currency: string;
+  reason: "chargeback";
+  status: "open" | "settled";
+  deductions: Array<{batchId: string; amount: number}>;
+  createdAt: FirebaseFirestore.FieldValue;
+  updatedAt: FirebaseFirestore.FieldValue;
+}
+
+export interface PayoutBatchRecord {
+  id: string;
+  supplierId: string;
+  payoutIds: string[];
+  escrowIds: string[];
+  grossAmount: number; // Sum of the payouts
+  receivableDeductions: ReceivableDeduction[];
+  amount: number; // Sent to the supplier: gross minus deductions
+  currency: string; // Settlement currency the supplier is paid in
+  presentmentTotals: Record<string, number>; // What clients paid in other currencies
+  taxTotals: Record<string, number>; // Tax line type → amount (see taxEngine)
+  itemCount: number;
+  provider: string;
+  destination: PayoutDestination;
+  status: PayoutStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: FirebaseFirestore.Timestamp | null;
+  providerPayoutId: string | null;
+  createdAt: FirebaseFirestore.FieldValue;
+  updatedAt: FirebaseFirestore.FieldValue;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Check if a user is an admin
+ */
+async function checkIsAdmin(userId: string): Promise<boolean> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  if (!userDoc.exists) return false;
+  return userDoc.data()?.role === "admin";
+}
+
+/**
+ * Hide all but the last digits of an account identifier
+ */
+function maskAccount(value: string | undefined): string | null {
+  if (!value) return null;
+  const cleaned = value.replace(/\s/g, "");
+  return `****${cleaned.slice(-4)}`;
+}
+
+/**
+ * Resolve where a supplier's payouts in a currency go
+ * A Stripe Connect account ready for payouts wins for the currencies it
+ * can be paid in (EUR, USD); otherwise uses the default payout-capable
+ * method in paymentMethods, or the first one.
+ *
+ * @param supplierId - Supplier ID
+ * @param currency - Settlement currency of the payouts
+ * @returns Destination, or null when the supplier has none
+ */
+export async function getPayoutDestination(
+    supplierId: string,
+    currency: string
+): Promise<PayoutDestination | null> {
+  const [supplierDoc, methodsSnapshot] = await Promise.all([
+    db.collection("suppliers").doc(supplierId).get(),
+    db.collection("paymentMethods").where("supplierId", "==", supplierId).get(),
+  ]);
+
+  const stripeConnect = supplierDoc.data()?.stripeConnect;
+  if (stripeConnect?.accountId && stripeConnect.payoutsEnabled === true &&
+      STRIPE_CONNECT_CURRENCIES.includes(currency)) {
+    return {
+      type: "stripeConnect",
+      accountName: supplierDoc.data()?.businessName || "",
+      stripeAccountId: stripeConnect.accountId,
+    };
+  }
+
+  const methods = methodsSnapshot.docs
+      .map((doc) => doc.data())
+      .filter((method) => isValidPayoutProviderType(method.type) && method.type !== "stripeConnect");
+
+  const method = methods.find((m) => m.isDefault === true) || methods[0];
+  if (!method) {
+    return null;
+  }
+
+  const details = method.details || {};
+  return {
+    type: method.type,
+    accountName: details.accountName || "",
+    iban: details.iban || undefined,
+    accountNumber: details.accountNumber || undefined,
+    bankName: details.bankName || undefined,
+    phone: details.phone || undefined,
+  };
+}
+
+/**
+ * Give back the receivable amounts a batch deducted
+ */
+function reopenReceivableDeductions(
+    writeBatch: FirebaseFirestore.WriteBatch,
+    deductions: ReceivableDeduction[]
+): void {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  for (const deduction of deductions) {
+    writeBatch.update(db.collection("supplier_receivables").doc(deduction.receivableId), {
+      remaining: admin.firestore.FieldValue.increment(deduction.amount),
+      status: "open",
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Update a batch and mirror its status onto the payouts it contains
+ * With ledgerType, also posts one ledger transaction for the batch
+ * (one entry pair per payout, so each booking stays balanced), and one
+ * settling (or, on reversal, reopening) its receivable deductions.
+ */
+async function setBatchStatus(
+    batchRef: FirebaseFirestore.DocumentReference,
+    batch: PayoutBatchRecord,
+    status: PayoutStatus,
+    fields: Record<string, unknown>,
+    ledgerType?: Extract<LedgerTransactionType, "payoutSent" | "payoutReversed">
+): Promise<void> {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const writeBatch = db.batch();
+  const payoutRefs = batch.payoutIds.map((id) => db.collection("payouts").doc(id));
+
+  writeBatch.update(batchRef, {...fields, status, updatedAt: now});
+  for (const payoutRef of payoutRefs) {
+    writeBatch.update(payoutRef, {
+      status,
+      updatedAt: now,
+    });
+  }
+
+  if (ledgerType && payoutRefs.length > 0) {
+    const [from, to] = ledgerType === "payoutSent" ?
+      ["supplier_payable", "supplier_paid"] as const :
+      ["supplier_paid", "supplier_payable"] as const;
+    const payoutDocs = await db.getAll(...payoutRefs);
+
+    addLedgerTransaction(writeBatch, {
+      type: ledgerType,
+      sourceId: batchRef.id,
+      currency: batch.currency,
+      entries: payoutDocs.flatMap((doc) =>
+        ledgerTransfer(from, to, doc.data()?.amount || 0, doc.data()?.bookingId || null)
+      ),
+      metadata: {batchId: batchRef.id, supplierId: batch.supplierId, status},
+    });
+  }
+
+  const deductions = batch.receivableDeductions || [];
+  if (ledgerType && deductions.length > 0) {
+    const [from, to] = ledgerType === "payoutSent" ?
+      ["supplier_paid", "supplier_receivable"] as const :
+      ["supplier_receivable", "supplier_paid"] as const;
+
+    addLedgerTransaction(writeBatch, {
+      type: ledgerType === "payoutSent" ? "receivableSettled" : "receivableReopened",
+      sourceId: batchRef.id,
+      currency: batch.currency,
+      entries: deductions.flatMap((deduction) =>
+        ledgerTransfer(from, to, deduction.amount, deduction.bookingId)
+      ),
+      metadata: {
+        batchId: batchRef.id,
+        supplierId: batch.supplierId,
+        receivableIds: deductions.map((deduction) => deduction.receivableId),
+      },
+    });
+
+    if (ledgerType === "payoutReversed") {
+      reopenReceivableDeductions(writeBatch, deductions);
+    }
+  }
+
+  await writeBatch.commit();
+}
+
+/**
+ * Notify the supplier that owns a batch
+ */
+async function notifySupplier(
+    supplierId: string,
+    type: string,
+    title: string,
+    body: string,
+    data: Record<string, unknown>
+): Promise<void> {
+  const supplierDoc = await db.collection("suppliers").doc(supplierId).get();
+  const supplierUserId = supplierDoc.data()?.userId;
+  if (!supplierUserId) return;
+
+  await db.collection("notifications").add({
+    userId: supplierUserId,
+    type,
+    title,
+    body,
+    data,
+    isRead: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Send a batch through its provider
+ * Failures are recorded on the batch and retried by later runs.
+ *
+ * @param batchId - payout_batches document ID
+ * @returns Final status of this attempt
+ */
+export async function sendPayoutBatch(batchId: string): Promise<PayoutStatus> {
+  const batchRef = db.collection("payout_batches").doc(batchId);
+  const batchDoc = await batchRef.get();
+
+  if (!batchDoc.exists) {
+    throw new Error(`Payout batch not found: ${batchId}`);
+  }
+
+  const batch = batchDoc.data() as PayoutBatchRecord;
+  if (batch.status === "sent") {
+    logger.idempotentSkip("send_payout_batch", batchId, "already_sent");
+    return "sent";
+  }
+
+  const attempts = (batch.attempts || 0) + 1;
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  // Fully offset by receivables: nothing to transfer
+  if (batch.amount <= 0) {
+    await setBatchStatus(batchRef, batch, "sent", {
+      attempts,
+      providerPayoutId: null,
+      lastError: null,
+      nextAttemptAt: null,
+      sentAt: now,
+      offsetByReceivables: true,
+    }, "payoutSent");
+
+    logger.info("payout_batch_offset", {
+      batchId,
+      supplierId: batch.supplierId,
+      grossAmount: batch.grossAmount,
+    });
+    return "sent";
+  }
+
+  try {
+    const provider = getPayoutProvider(batch.destination.type);
+    const destinationError = provider.validateDestination(batch.destination);
+    if (destinationError) {
+      throw new Error(destinationError);
+    }
+
+    const result = await provider.createPayout({
+      reference: batchId,
+      amount: batch.amount,
+      currency: batch.currency,
+      destination: batch.destination,
+      description: `BODA CONNECT - ${batch.itemCount} reserva(s)`,
+      supplierId: batch.supplierId,
+      metadata: {batchId},
+    });
+
+    await setBatchStatus(batchRef, batch, "sent", {
+      attempts,
+      providerPayoutId: result.providerPayoutId,
+      providerData: result.providerData || null,
+      lastError: null,
+      nextAttemptAt: null,
+      sentAt: now,
+    }, "payoutSent");
+
+    logger.stateTransition("payout_batch", batchId, batch.status, "sent", "system");
+
+    await notifySupplier(
+        batch.supplierId,
+        "payout_sent",
+        "Pagamento Enviado 💸",
+        `Enviámos ${formatCurrency(batch.amount, batch.currency)} para a sua conta`,
+        {batchId, amount: batch.amount}
+    );
+
+    return "sent";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const canRetry = attempts < MAX_PAYOUT_ATTEMPTS;
+    const backoffHours = RETRY_BACKOFF_HOURS[Math.min(attempts, RETRY_BACKOFF_HOURS.length) - 1];
+
+    await setBatchStatus(batchRef, batch, "failed", {
+      attempts,
+      lastError: message,
+      nextAttemptAt: canRetry ?
+        admin.firestore.Timestamp.fromMillis(Date.now() + backoffHours * 60 * 60 * 1000) :
+        null,
+      failedAt: now,
+    });
+
+    logger.error("payout_batch_failed", message, {batchId, attempts, canRetry});
+
+    if (!canRetry) {
+      await db.collection("admin_notifications").add({
+        type: "payout_failed",
+        title: "Pagamento a fornecedor falhou",
+        body: `Lote ${batchId} falhou ${attempts} vezes: ${message}`,
+        data: {batchId, supplierId: batch.supplierId, amount: batch.amount},
+        isRead: false,
+        createdAt: now,
+      });
+    }
+
+    return "failed";
+  }
+}
+
+/**
+ * What a new batch takes: the payouts and receivable deductions
+ */
+export interface PayoutBatchPlan {
+  payoutIds: string[];
+  escrowIds: string[];
+  grossAmount: number;
+  receivableDeductions: ReceivableDeduction[];
+  amount: number;
+  presentmentTotals: Record<string, number>;
+  taxTotals: Record<string, number>;
+}
+
+/**
+ * Work out a batch from freshly read payouts and open receivables
+ * Payouts already in a batch or no longer queued are left out, and
+ * receivables in other currencies are not deducted.
+ *
+ * @returns The plan, or null when no payout is left to batch
+ */
+export function planPayoutBatch(
+    currency: string,
+    payouts: Array<{id: string; data: FirebaseFirestore.DocumentData | undefined}>,
+    receivables: Array<{id: string; data: SupplierReceivableRecord}>
+): PayoutBatchPlan | null {
+  const batchable = payouts.filter(({data}) =>
+    data && data.status === "queued" && !data.batchId
+  );
+  if (batchable.length === 0) {
+    return null;
+  }
+
+  const grossAmount = batchable.reduce((sum, {data}) => sum + (data?.amount || 0), 0);
+  const presentmentTotals: Record<string, number> = {};
+  const taxTotals: Record<string, number> = {};
+  for (const {data} of batchable) {
+    const clientPresentment = data?.clientPresentment;
+    if (clientPresentment?.currency) {
+      presentmentTotals[clientPresentment.currency] =
+        (presentmentTotals[clientPresentment.currency] || 0) + (clientPresentment.amount || 0);
+    }
+    addTaxTotals(taxTotals, data?.taxLines);
+  }
+
+  let available = grossAmount;
+  const receivableDeductions: ReceivableDeduction[] = [];
+  for (const {id, data: receivable} of receivables) {
+    if (receivable.currency !== currency || available <= 0) continue;
+
+    const amount = Math.min(receivable.remaining, available);
+    available -= amount;
+    receivableDeductions.push({receivableId: id, amount, bookingId: receivable.bookingId});
+  }
+
+  return {
+    payoutIds: batchable.map(({id}) => id),
+    escrowIds: batchable.map(({data}) => data?.escrowId).filter(Boolean),
+    grossAmount,
+    receivableDeductions,
+    amount: available,
+    presentmentTotals,
+    taxTotals,
+  };
+}
+
+/**
+ * Create a batch for queued payouts of one supplier and currency
+ * The supplier's open receivables in that currency are deducted from it.
+ * Payouts are re-read in the transaction, so one batched by a concurrent
+ * run in the meantime (or no longer queued) is left out.
+ *
+ * @returns ID of the batch created, or null when no payout was left to batch
+ */
+async function createPayoutBatch(
+    supplierId: string,
+    currency: string,
+    destination: PayoutDestination,
+    items: FirebaseFirestore.DocumentSnapshot[]
+): Promise<string | null> {
+  const batchRef = db.collection("payout_batches").doc();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  // In a transaction so two batches never take the same payout or
+  // deduct the same receivable
+  const plan = await db.runTransaction(async (transaction) => {
+    const payoutDocs = items.length > 0 ?
+      await transaction.getAll(...items.map((doc) => doc.ref)) :
+      [];
+    const receivablesSnapshot = await transaction.get(
+        db.collection("supplier_receivables")
+            .where("supplierId", "==", supplierId)
+            .where("status", "==", "open")
+    );
+
+    const batchPlan = planPayoutBatch(
+        currency,
+        payoutDocs.map((doc) => ({id: doc.id, data: doc.data()})),
+        receivablesSnapshot.docs.map((doc) => ({
+          id: doc.id,
+          data: doc.data() as SupplierReceivableRecord,
+        }))
+    );
+    if (!batchPlan) {
+      return null;
+    }
+
+    for (const deduction of batchPlan.receivableDeductions) {
+      const receivableDoc = receivablesSnapshot.docs.find((doc) => doc.id === deduction.receivableId);
+      if (!receivableDoc) continue;
+
+      const remaining = (receivableDoc.data() as SupplierReceivableRecord).remaining - deduction.amount;
+      transaction.update(receivableDoc.ref, {
+        remaining,
+        status: remaining > 0 ? "open" : "settled",
+        deductions: admin.firestore.FieldValue.arrayUnion({batchId: batchRef.id, amount: deduction.amount}),
+        updatedAt: now,
+      });
+    }
+
+    const record: PayoutBatchRecord = {
+      id: batchRef.id,
+      supplierId,
+      ...batchPlan,
+      currency,
+      itemCount: batchPlan.payoutIds.length,
+      provider: destination.type,
+      destination,
+      status: "queued",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: null,
+      providerPayoutId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    transaction.set(batchRef, record);
+    for (const payoutId of batchPlan.payoutIds) {
+      transaction.update(db.collection("payouts").doc(payoutId), {batchId: batchRef.id, updatedAt: now});
+    }
+
+    return batchPlan;
+  });
+
+  if (!plan) {
+    logger.info("payout_batch_skipped", {supplierId, currency, reason: "already_batched"});
+    return null;
+  }
+
+  return batchRef.id;
+}
+
+/**
+ * Group queued payouts per supplier into new batches
+ *
+ * @returns IDs of the batches created
+ */
+async function createPayoutBatches(): Promise<string[]> {
+  const queuedSnapshot = await db
+      .collection("payouts")
+      .where("status", "==", "queued")
+      .get();
+
+  // Group by supplier + currency, skipping payouts already in a batch
+  const groups = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+  for (const doc of queuedSnapshot.docs) {
+    const payout = doc.data();
+    if (payout.batchId || !payout.supplierId) continue;
+
+    const key = `${payout.supplierId}|${payout.currency || "AOA"}`;
+    groups.set(key, [...(groups.get(key) || []), doc]);
+  }
+
+  const batchIds: string[] = [];
+
+  for (const [key, docs] of groups) {
+    const [supplierId, currency] = key.split("|");
+    const destination = await getPayoutDestination(supplierId, currency);
+
+    if (!destination) {
+      logger.warn("payout_destination_missing", {supplierId, queued: docs.length});
+      continue;
+    }
+
+    const batchId = await createPayoutBatch(
+        supplierId,
+        currency,
+        destination,
+        docs.slice(0, MAX_ITEMS_PER_BATCH)
+    );
+    if (batchId) {
+      batchIds.push(batchId);
+    }
+  }
+
+  return batchIds;
+}
+
+/**
+ * Send a released escrow's payout right away when the supplier is on
+ * Stripe Connect; other destinations wait for the scheduled batch run
+ * A failed transfer is retried by the batch run like any other batch.
+ *
+ * @param payoutId - payouts document ID (queued by releaseEscrow)
+ * @returns Status of the attempt, or null when the payout stays queued
+ */
+export async function sendPayoutOnRelease(payoutId: string): Promise<PayoutStatus | null> {
+  const payoutDoc = await db.collection("payouts").doc(payoutId).get();
+  const payout = payoutDoc.data();
+  if (!payout || payout.status !== "queued" || payout.batchId) {
+    return null;
+  }
+
+  const currency = payout.currency || "AOA";
+  const destination = await getPayoutDestination(payout.supplierId, currency);
+  if (destination?.type !== "stripeConnect") {
+    return null;
+  }
+
+  const batchId = await createPayoutBatch(
+      payout.supplierId,
+      currency,
+      destination,
+      [payoutDoc]
+  );
+  if (!batchId) {
+    return null;
+  }
+
+  logger.info("payout_sent_on_release", {payoutId, batchId, supplierId: payout.supplierId});
+
+  return sendPayoutBatch(batchId);
+}
+
+/**
+ * Check recently sent batches for late failures/reversals
+ *
+ * @returns Number of batches that changed status
+ */
+async function syncSentPayoutBatches(): Promise<number> {
+  const since = admin.firestore.Timestamp.fromMillis(
+      Date.now() - REVERSAL_CHECK_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const sentSnapshot = await db
+      .collection("payout_batches")
+      .where("status", "==", "sent")
+      .where("sentAt", ">=", since)
+      .get();
+
+  let changed = 0;
+
+  for (const doc of sentSnapshot.docs) {
+    const batch = doc.data() as PayoutBatchRecord;
+    if (!batch.providerPayoutId) continue;
+
+    try {
+      const provider = getPayoutProvider(batch.destination.type);
+      const result = await provider.getPayoutStatus(batch.providerPayoutId);
+      if (result.status === "sent") continue;
+
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      // The money came back: move it from supplier_paid to supplier_payable again
+      await setBatchStatus(doc.ref, batch, result.status, {
+        lastError: result.reason || null,
+        nextAttemptAt: null,
+        [result.status === "reversed" ? "reversedAt" : "failedAt"]: now,
+      }, "payoutReversed");
+
+      logger.stateTransition("payout_batch", doc.id, "sent", result.status, "provider");
+
+      await notifySupplier(
+          batch.supplierId,
+          "payout_failed",
+          "Pagamento Devolvido",
+          "Não foi possível concluir o pagamento. Verifique os dados da sua conta.",
+          {batchId: doc.id, amount: batch.amount}
+      );
+      await db.collection("admin_notifications").add({
+        type: `payout_${result.status}`,
+        title: "Pagamento a fornecedor devolvido",
+        body: `Lote ${doc.id}: ${result.reason || result.status}`,
+        data: {batchId: doc.id, supplierId: batch.supplierId, amount: batch.amount},
+        isRead: false,
+        createdAt: now,
+      });
+
+      changed++;
+    } catch (error) {
+      logger.warn("payout_status_check_failed", {
+        batchId: doc.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Run one payout cycle: sync sent batches, retry failures and batches left
+ * queued, send new batches
+ * Should be called by a scheduled Cloud Function
+ */
+export async function processPayouts(): Promise<{
+  synced: number;
+  retried: number;
+  sent: number;
+  failed: number;
+}> {
+  const synced = await syncSentPayoutBatches();
+
+  // Retry failed batches whose backoff elapsed
+  const [retrySnapshot, staleSnapshot] = await Promise.all([
+    db.collection("payout_batches")
+        .where("status", "==", "failed")
+        .where("nextAttemptAt", "<=", admin.firestore.Timestamp.now())
+        .get(),
+    // Created but never sent: the run that created them stopped in between
+    db.collection("payout_batches")
+        .where("status", "==", "queued")
+        .where("createdAt", "<=", admin.firestore.Timestamp.fromMillis(
+            Date.now() - STALE_QUEUED_MINUTES * 60 * 1000
+        ))
+        .get(),
+  ]);
+
+  const batchIds = [
+    ...retrySnapshot.docs.map((doc) => doc.id),
+    ...staleSnapshot.docs.map((doc) => doc.id),
+    ...(await createPayoutBatches()),
+  ];
+
+  let sent = 0;
+  let failed = 0;
+  for (const batchId of batchIds) {
+    const status = await sendPayoutBatch(batchId);
+    if (status === "sent") sent++;
+    else failed++;
+  }
+
+  return {synced, retried: retrySnapshot.size + staleSnapshot.size, sent, failed};
+}
+
+/**
+ * Amount released to a supplier but not paid out yet
+ * Feeds SupplierView.earningsSummary.pendingPayout
+ *
+ * @param supplierId - Supplier ID
+ */
+export async function getPendingPayoutAmount(supplierId: string): Promise<number> {
+  const [snapshot, receivablesSnapshot] = await Promise.all([
+    db.collection("payouts")
+        .where("supplierId", "==", supplierId)
+        .where("status", "in", ["queued", "failed", "reversed"])
+        .get(),
+    db.collection("supplier_receivables")
+        .where("supplierId", "==", supplierId)
+        .where("status", "==", "open")
+        .get(),
+  ]);
+
+  const pending = snapshot.docs.reduce((sum, doc) => sum + (doc.data().amount || 0), 0);
+  // Open receivables are deducted from what is paid next
+  const owed = receivablesSnapshot.docs.reduce((sum, doc) => sum + (doc.data().remaining || 0), 0);
+  return Math.max(0, pending - owed);
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Process Payouts - Scheduled Cloud Function
+ * Runs daily at 10 AM (Luanda)
+ */
+export const processPayoutBatches = functions
+    .region(REGION)
+    .pubsub
+    .schedule("0 10 * * *")
+    .timeZone("Africa/Luanda")
+    .onRun(async () => {
+      const result = await processPayouts();
+      console.log(
+          `Payouts processed: ${result.sent} sent, ${result.failed} failed, ` +
+          `${result.retried} retried, ${result.synced} changed after sending`
+      );
+      return null;
+    });
+
+/**
+ * Get Payout History - Callable Cloud Function
+ *
+ * Supplier-facing list of payout batches plus the amount still pending.
+ */
+export const getPayoutHistory = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "getPayoutHistory",
+            async (
+                data: {limit?: number},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const supplierQuery = await db
+                  .collection("suppliers")
+                  .where("userId", "==", context.auth.uid)
+                  .limit(1)
+                  .get();
+
+              if (supplierQuery.empty) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `No supplier profile for ${context.auth.uid}`,
+                    "Perfil de fornecedor não encontrado"
+                );
+              }
+
+              const supplierId = supplierQuery.docs[0].id;
+              const limit = Math.min(Math.max(Number(data?.limit) || 20, 1), 100);
+
+              const [batchesSnapshot, pendingPayout] = await Promise.all([
+                db.collection("payout_batches")
+                    .where("supplierId", "==", supplierId)
+                    .orderBy("createdAt", "desc")
+                    .limit(limit)
+                    .get(),
+                getPendingPayoutAmount(supplierId),
+              ]);
+
+              const toIso = (value: FirebaseFirestore.Timestamp | undefined) =>
+                value?.toDate?.()?.toISOString() || null;
+
+              return {
+                success: true,
+                pendingPayout,
+                currency: batchesSnapshot.docs[0]?.data().currency || "AOA",
+                payouts: batchesSnapshot.docs.map((doc) => {
+                  const batch = doc.data();
+                  return {
+                    id: doc.id,
+                    amount: batch.amount,
+                    currency: batch.currency,
+                    // Client payments behind this payout made in other currencies
+                    presentmentTotals: Object.entries(batch.presentmentTotals || {})
+                        .map(([currency, amount]) => ({currency, amount})),
+                    taxTotals: batch.taxTotals || {},
+                    itemCount: batch.itemCount,
+                    status: batch.status,
+                    provider: batch.provider,
+                    destination: maskAccount(
+                        batch.destination?.iban ||
+                        batch.destination?.phone ||
+                        batch.destination?.stripeAccountId
+                    ),
+                    createdAt: toIso(batch.createdAt),
+                    sentAt: toIso(batch.sentAt),
+                    failedAt: toIso(batch.failedAt),
+                    reversedAt: toIso(batch.reversedAt),
+                  };
+                }),
+              };
+            }
+        )
+    );
+
+/**
+ * Retry Payout Batch - Callable Cloud Function
+ *
+ * Admin only. Puts the payouts of a failed or reversed batch back in the
+ * queue so the next run sends them again (to the current destination).
+ */
+export const retryPayoutBatch = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "retryPayoutBatch",
+            async (
+                data: {batchId: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const adminId = context.auth.uid;
+              if (!(await checkIsAdmin(adminId))) {
+                throw Errors.permissionDenied(errorContext, `Caller ${adminId} is not an admin`);
+              }
+
+              if (!data.batchId) {
+                throw Errors.invalidArgument(errorContext, "batchId", "Campo obrigatório");
+              }
+
+              const batchRef = db.collection("payout_batches").doc(data.batchId);
+              const batchDoc = await batchRef.get();
+
+              if (!batchDoc.exists) {
+                throw Errors.notFound(errorContext, "Lote de pagamento", data.batchId);
+              }
+
+              const batch = batchDoc.data() as PayoutBatchRecord;
+              if (batch.status !== "failed" && batch.status !== "reversed") {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Batch ${data.batchId} is ${batch.status}`,
+                    "Só é possível repetir lotes falhados ou devolvidos"
+                );
+              }
+
+              const now = admin.firestore.FieldValue.serverTimestamp();
+              const writeBatch = db.batch();
+              writeBatch.update(batchRef, {
+                nextAttemptAt: null,
+                requeuedAt: now,
+                requeuedBy: adminId,
+                updatedAt: now,
+              });
+              for (const payoutId of batch.payoutIds) {
+                writeBatch.update(db.collection("payouts").doc(payoutId), {
+                  status: "queued",
+                  batchId: null,
+                  updatedAt: now,
+                });
+              }
+              // A failed batch never settled its deductions (a reversed one
+              // reopened them already): the next batch deducts them again
+              if (batch.status === "failed") {
+                reopenReceivableDeductions(writeBatch, batch.receivableDeductions || []);
+              }
+              await writeBatch.commit();
+
+              await db.collection("audit_logs").add({
+                category: "finance",
+                eventType: "payoutRequeued",
+                userId: adminId,
+                resourceId: data.batchId,
+                resourceType: "payout_batch",
+                previousValue: batch.status,
+                newValue: "queued",
+                description: `Payout batch ${data.batchId} requeued`,
+                metadata: {
+                  supplierId: batch.supplierId,
+                  amount: batch.amount,
+                  payoutIds: batch.payoutIds,
+                  attempts: batch.attempts,
+                  lastError: batch.lastError,
+                },
+                timestamp: now,
+              });
+
+              return {
+                success: true,
+                batchId: data.batchId,
+                requeued: batch.payoutIds.length,
+              };
+            }
+        )
+    );
@@ -0,0 +1,383 @@
+/**
+ * Payment Reconciliation
+ *
+ * Daily check that what the webhooks recorded matches what the providers
+ * actually settled. For each provider, settled transactions are pulled
+ * through PaymentProvider.listTransactions and matched against payments
+ * (by reference, RPS reference number or provider payment ID) and their
+ * escrow.
+ *
+ * Report items:
+ * - missing (platform) - settled at the provider, not recorded/funded here
+ * - missing (provider) - recorded as paid here, not settled at the provider
+ * - duplicated - more than one settlement for the same payment
+ * - amount_mismatch - settled amount differs from the payment amount
+ *
+ * Collection: reconciliation_reports/{YYYY-MM-DD}
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {createLogger} from "../common/logger";
+import {formatCurrency} from "../common/currency";
+import {
+  getPaymentProvider,
+  PaymentProvider,
+  PaymentProviderType,
+  ProviderTransaction,
+} from "../payments/providers";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const logger = createLogger("payment", "reconciliation");
+
+/**
+ * Settlement window checked by each run
+ */
+const RECONCILIATION_WINDOW_HOURS = 24;
+
+/**
+ * How far back payments and settlements are loaded for matching
+ * Payments settle after creation, and the provider's settlement time and
+ * our completedAt/confirmedAt can fall on either side of a window edge.
+ */
+const PAYMENT_LOOKBACK_DAYS = 7;
+
+/**
+ * Items stored on a report (the summary always has the full counts)
+ */
+const MAX_REPORT_ITEMS = 500;
+
+const RECONCILED_PROVIDERS: PaymentProviderType[] = [
+  "proxypay_opg",
+  "proxypay_rps",
+  "emis_gpo",
+  "stripe",
+];
+
+/**
+ * Payment statuses that mean the money was received
+ * ProxyPay paths and confirmPayment use "completed", the Stripe and EMIS GPO
+ * webhooks use "confirmed". A refunded or charged-back payment was still
+ * settled first, so it is not reported as missing from the platform.
+ */
+const SETTLED_PAYMENT_STATUSES = ["completed", "confirmed", "paid", "refunded", "charged_back"];
+
+// ==================== TYPES ====================
+
+export type ReconciliationItemType = "missing" | "duplicated" | "amount_mismatch";
+
+export interface ReconciliationItem {
+  type: ReconciliationItemType;
+  missingFrom: "platform" | "provider" | null;
+  provider: PaymentProviderType;
+  reference: string;
+  providerTransactionIds: string[];
+  paymentId: string | null;
+  escrowId: string | null;
+  bookingId: string | null;
+  expectedAmount: number | null;
+  settledAmount: number | null;
+  currency: string;
+  detail: string;
+}
+
+interface ProviderSummary {
+  transactions: number;
+  matched: number;
+  error: string | null;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Pick the local payment a provider transaction belongs to
+ */
+function findPayment(
+    transaction: ProviderTransaction,
+    payments: FirebaseFirestore.QueryDocumentSnapshot[]
+): FirebaseFirestore.QueryDocumentSnapshot | undefined {
+  return payments.find((doc) => {
+    const payment = doc.data();
+    return (transaction.reference && payment.reference === transaction.reference) ||
+      (transaction.referenceNumber && payment.referenceNumber === transaction.referenceNumber) ||
+      payment.providerPaymentId === transaction.providerPaymentId;
+  });
+}
+
+/**
+ * When a payment was marked as settled by the webhook/confirm path
+ */
+function getSettledAt(payment: FirebaseFirestore.DocumentData): Date | null {
+  const value = payment.completedAt || payment.confirmedAt || payment.updatedAt;
+  return value?.toDate?.() || null;
+}
+
+/**
+ * Whether a time falls in the settlement window [from, to)
+ */
+function inWindow(time: Date, from: Date, to: Date): boolean {
+  return time >= from && time < to;
+}
+
+/**
+ * Reconcile one provider over a settlement window
+ * Both sides are loaded over the lookback and matched in full; each side
+ * only reports what it settled inside the window, so an item is reported
+ * once and a settlement just before the window still matches a payment
+ * we marked settled inside it.
+ */
+async function reconcileProvider(
+    provider: PaymentProvider,
+    providerType: PaymentProviderType,
+    from: Date,
+    to: Date
+): Promise<{summary: ProviderSummary; items: ReconciliationItem[]}> {
+  const lookbackFrom = new Date(from.getTime() - PAYMENT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const transactions = await provider.listTransactions({from: lookbackFrom, to});
+
+  const paymentsSnapshot = await db
+      .collection("payments")
+      .where("provider", "==", providerType)
+      .where("createdAt", ">=", admin.firestore.Timestamp.fromDate(lookbackFrom))
+      .get();
+  const payments = paymentsSnapshot.docs;
+
+  const items: ReconciliationItem[] = [];
+  const byPayment = new Map<string, {
+    doc: FirebaseFirestore.QueryDocumentSnapshot;
+    settled: ProviderTransaction[];
+  }>();
+
+  // Provider → platform
+  for (const transaction of transactions) {
+    const paymentDoc = findPayment(transaction, payments);
+
+    if (!paymentDoc) {
+      // Reported by the run whose window it settled in
+      if (!inWindow(transaction.settledAt, from, to)) continue;
+
+      items.push({
+        type: "missing",
+        missingFrom: "platform",
+        provider: providerType,
+        reference: transaction.reference || transaction.referenceNumber || "",
+        providerTransactionIds: [transaction.providerTransactionId],
+        paymentId: null,
+        escrowId: null,
+        bookingId: null,
+        expectedAmount: null,
+        settledAmount: transaction.amount,
+        currency: transaction.currency,
+        detail: "Settled at provider, no matching payment",
+      });
+      continue;
+    }
+
+    const match = byPayment.get(paymentDoc.id) || {doc: paymentDoc, settled: []};
+    match.settled.push(transaction);
+    byPayment.set(paymentDoc.id, match);
+  }
+
+  let matched = 0;
+  for (const [paymentId, {doc: paymentDoc, settled}] of byPayment) {
+    // Reported by the run whose window the latest settlement is in
+    const lastSettledAt = Math.max(...settled.map((t) => t.settledAt.getTime()));
+    if (!inWindow(new Date(lastSettledAt), from, to)) continue;
+    matched++;
+
+    const payment = paymentDoc.data();
+    const escrowId = payment.metadata?.escrowId || null;
+    const base = {
+      provider: providerType,
+      reference: payment.reference || "",
+      providerTransactionIds: settled.map((t) => t.providerTransactionId),
+      paymentId,
+      escrowId,
+      bookingId: payment.bookingId || null,
+      expectedAmount: payment.amount ?? null,
+      currency: payment.currency || "AOA",
+    };
+    const settledAmount = settled.reduce((sum, t) => sum + t.amount, 0);
+
+    if (settled.length > 1) {
+      items.push({
+        ...base,
+        type: "duplicated",
+        missingFrom: null,
+        settledAmount,
+        detail: `Settled ${settled.length} times at provider`,
+      });
+    } else if (settledAmount !== payment.amount) {
+      items.push({
+        ...base,
+        type: "amount_mismatch",
+        missingFrom: null,
+        settledAmount,
+        detail: `Provider settled ${settledAmount}, payment is ${payment.amount}`,
+      });
+    }
+
+    // Settled but the webhook never landed (or escrow was not funded)
+    let missingDetail: string | null = null;
+    if (!SETTLED_PAYMENT_STATUSES.includes(payment.status)) {
+      missingDetail = `Payment still ${payment.status}`;
+    } else if (escrowId) {
+      const escrowDoc = await db.collection("escrow").doc(escrowId).get();
+      if (["pending_payment", "expired"].includes(escrowDoc.data()?.status)) {
+        missingDetail = "Escrow not funded";
+      }
+    }
+
+    if (missingDetail) {
+      items.push({
+        ...base,
+        type: "missing",
+        missingFrom: "platform",
+        settledAmount,
+        detail: missingDetail,
+      });
+    }
+  }
+
+  // Platform → provider: marked paid in this window but never settled
+  for (const doc of payments) {
+    const payment = doc.data();
+    if (!SETTLED_PAYMENT_STATUSES.includes(payment.status) || byPayment.has(doc.id)) continue;
+
+    const settledAt = getSettledAt(payment);
+    if (!settledAt || !inWindow(settledAt, from, to)) continue;
+
+    items.push({
+      type: "missing",
+      missingFrom: "provider",
+      provider: providerType,
+      reference: payment.reference || "",
+      providerTransactionIds: [],
+      paymentId: doc.id,
+      escrowId: payment.metadata?.escrowId || null,
+      bookingId: payment.bookingId || null,
+      expectedAmount: payment.amount ?? null,
+      settledAmount: null,
+      currency: payment.currency || "AOA",
+      detail: `Payment ${payment.status} but not settled at provider`,
+    });
+  }
+
+  return {
+    summary: {
+      transactions: transactions.filter((t) => inWindow(t.settledAt, from, to)).length,
+      matched,
+      error: null,
+    },
+    items,
+  };
+}
+
+/**
+ * Reconcile all providers over a settlement window and store the report
+ *
+ * @param to - End of the window (exclusive)
+ * @returns Report ID and number of items found
+ */
+export async function runReconciliation(to: Date = new Date()): Promise<{
+  reportId: string;
+  itemCount: number;
+}> {
+  const from = new Date(to.getTime() - RECONCILIATION_WINDOW_HOURS * 60 * 60 * 1000);
+  const reportId = to.toISOString().slice(0, 10);
+
+  const providers: Record<string, ProviderSummary> = {};
+  const items: ReconciliationItem[] = [];
+
+  for (const providerType of RECONCILED_PROVIDERS) {
+    // Disabled providers (e.g. Stripe outside test) are skipped
+    let provider: PaymentProvider;
+    try {
+      provider = getPaymentProvider(providerType);
+    } catch (error) {
+      logger.debug("reconciliation_provider_skipped", {
+        provider: providerType,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    try {
+      const result = await reconcileProvider(provider, providerType, from, to);
+      providers[providerType] = result.summary;
+      items.push(...result.items);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn("reconciliation_provider_failed", {provider: providerType, error: message});
+      providers[providerType] = {transactions: 0, matched: 0, error: message};
+    }
+  }
+
+  const summary = {
+    missing: items.filter((i) => i.type === "missing").length,
+    duplicated: items.filter((i) => i.type === "duplicated").length,
+    amountMismatch: items.filter((i) => i.type === "amount_mismatch").length,
+    providerErrors: Object.values(providers).filter((p) => p.error).length,
+  };
+  const hasIssues = items.length > 0 || summary.providerErrors > 0;
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  await db.collection("reconciliation_reports").doc(reportId).set({
+    id: reportId,
+    periodStart: admin.firestore.Timestamp.fromDate(from),
+    periodEnd: admin.firestore.Timestamp.fromDate(to),
+    status: hasIssues ? "issues" : "clean",
+    providers,
+    summary,
+    items: items.slice(0, MAX_REPORT_ITEMS),
+    truncated: items.length > MAX_REPORT_ITEMS,
+    createdAt: now,
+  });
+
+  if (hasIssues) {
+    // Money received without a record, per currency
+    const unmatched = new Map<string, number>();
+    for (const item of items) {
+      if (item.type !== "missing" || item.missingFrom !== "platform" || !item.settledAmount) continue;
+      unmatched.set(item.currency, (unmatched.get(item.currency) || 0) + item.settledAmount);
+    }
+    const unmatchedLabel = [...unmatched]
+        .map(([currency, amount]) => formatCurrency(amount, currency))
+        .join(" + ");
+
+    await db.collection("admin_notifications").add({
+      type: "reconciliation_issues",
+      title: "Reconciliação de pagamentos com divergências",
+      body: `${summary.missing} em falta, ${summary.duplicated} duplicados, ` +
+        `${summary.amountMismatch} com valor divergente` +
+        (unmatchedLabel ? ` (${unmatchedLabel} recebidos sem registo)` : "") +
+        (summary.providerErrors ? `. ${summary.providerErrors} provedor(es) indisponível(eis)` : ""),
+      data: {reportId, ...summary},
+      isRead: false,
+      createdAt: now,
+    });
+  }
+
+  logger.info("reconciliation_completed", {reportId, ...summary});
+
+  return {reportId, itemCount: items.length};
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Reconcile Payments - Scheduled Cloud Function
+ * Runs daily at 6 AM (Luanda), covering the previous 24 hours
+ */
+export const reconcilePayments = functions
+    .region(REGION)
+    .pubsub
+    .schedule("0 6 * * *")
+    .timeZone("Africa/Luanda")
+    .onRun(async () => {
+      const result = await runReconciliation();
+      console.log(`Reconciliation ${result.reportId}: ${result.itemCount} item(s) flagged`);
+      return null;
+    });
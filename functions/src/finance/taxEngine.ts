@@ -0,0 +1,217 @@
+/**
+ * Tax Engine - IVA and Withholding (SERVER-ONLY)
+ *
+ * Prices are IVA-inclusive, so tax lines report the tax contained in an
+ * amount rather than adding to it. They do not change what the client
+ * pays or what the supplier is paid; finance uses them to file IVA and
+ * settle withholding with the tax authority (AGT).
+ *
+ * Tax lines:
+ * - service_iva: IVA in the supplier's service (booking price before any
+ *   platform-funded discount)
+ * - commission_iva: IVA in the platform commission
+ * - commission_withholding: withholding ("retenção na fonte") on the
+ *   commission, net of its IVA
+ *
+ * Rates come from settings/tax (defaults below), per supplier category
+ * and supplier tax regime (suppliers/{id}.taxRegime). They are
+ * snapshotted on the booking as `taxRates`, so later rate changes do
+ * not affect existing bookings; escrow and payouts reuse the snapshot.
+ */
+
+import * as admin from "firebase-admin";
+
+const db = admin.firestore();
+
+// ==================== TYPES ====================
+
+export type TaxRegime = "general" | "simplified" | "exempt";
+
+export type TaxLineType = "service_iva" | "commission_iva" | "commission_withholding";
+
+export const TAX_LINE_TYPES: TaxLineType[] = [
+  "service_iva",
+  "commission_iva",
+  "commission_withholding",
+];
+
+/**
+ * Rates applying to one booking (snapshotted on bookings/{id}.taxRates)
+ */
+export interface TaxRates {
+  regime: TaxRegime;
+  serviceIvaRate: number;
+  commissionIvaRate: number;
+  commissionWithholdingRate: number;
+}
+
+export interface TaxLine {
+  type: TaxLineType;
+  base: number; // Amount the rate applies to
+  rate: number; // Percentage
+  amount: number;
+}
+
+/**
+ * Tax configuration (settings/tax)
+ */
+interface TaxSettings {
+  ivaRate: number;
+  categoryIvaRates: Record<string, number>; // Supplier category name → rate
+  regimeIvaRates: Partial<Record<TaxRegime, number>>; // Overrides category/general rate
+  commissionIvaRate: number;
+  commissionWithholdingRate: number;
+  regimeWithholdingRates: Partial<Record<TaxRegime, number>>;
+}
+
+// ==================== DEFAULTS ====================
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  ivaRate: 14,
+  categoryIvaRates: {},
+  regimeIvaRates: {
+    simplified: 7,
+    exempt: 0,
+  },
+  commissionIvaRate: 14,
+  commissionWithholdingRate: 6.5,
+  regimeWithholdingRates: {},
+};
+
+// ==================== RATES ====================
+
+/**
+ * Read a supplier tax regime, defaulting to the general regime
+ */
+export function parseTaxRegime(value: unknown): TaxRegime {
+  return value === "simplified" || value === "exempt" ? value : "general";
+}
+
+/**
+ * Keep a configured rate within 0-100, or fall back
+ */
+function toRate(value: unknown, fallback: number): number {
+  return typeof value === "number" && value >= 0 && value <= 100 ? value : fallback;
+}
+
+/**
+ * Resolve the rates for a supplier from the tax settings
+ * Regime rates win over category rates, which win over the general rate.
+ */
+export function resolveTaxRates(
+    settings: FirebaseFirestore.DocumentData,
+    supplier: FirebaseFirestore.DocumentData
+): TaxRates {
+  const regime = parseTaxRegime(supplier.taxRegime);
+  const ivaRate = toRate(settings.ivaRate, DEFAULT_TAX_SETTINGS.ivaRate);
+  const regimeIvaRates = {...DEFAULT_TAX_SETTINGS.regimeIvaRates, ...settings.regimeIvaRates};
+  const categoryRate = supplier.category ?
+    settings.categoryIvaRates?.[supplier.category] :
+    undefined;
+  const withholdingRate = toRate(
+      settings.commissionWithholdingRate,
+      DEFAULT_TAX_SETTINGS.commissionWithholdingRate
+  );
+
+  return {
+    regime,
+    serviceIvaRate: toRate(regimeIvaRates[regime], toRate(categoryRate, ivaRate)),
+    commissionIvaRate: toRate(settings.commissionIvaRate, DEFAULT_TAX_SETTINGS.commissionIvaRate),
+    commissionWithholdingRate: toRate(settings.regimeWithholdingRates?.[regime], withholdingRate),
+  };
+}
+
+/**
+ * Get the tax rates for a supplier
+ * This is the AUTHORITATIVE calculation - never trust client values
+ *
+ * @param supplierId - Supplier ID
+ * @param supplierData - Supplier document data, when already loaded
+ */
+export async function getTaxRates(
+    supplierId: string,
+    supplierData?: FirebaseFirestore.DocumentData
+): Promise<TaxRates> {
+  try {
+    const [settingsDoc, supplier] = await Promise.all([
+      db.collection("settings").doc("tax").get(),
+      supplierData ?
+        Promise.resolve(supplierData) :
+        db.collection("suppliers").doc(supplierId).get().then((doc) => doc.data() || {}),
+    ]);
+
+    return resolveTaxRates(settingsDoc.data() || {}, supplier);
+  } catch (error) {
+    console.error("Error getting tax rates:", error);
+    return resolveTaxRates({}, supplierData || {});
+  }
+}
+
+// ==================== TAX LINES ====================
+
+/**
+ * Tax contained in an IVA-inclusive amount
+ */
+function includedTax(amount: number, rate: number): number {
+  return Math.round(amount * rate / (100 + rate));
+}
+
+/**
+ * Service IVA line for a booking price
+ *
+ * @param serviceAmount - Service price (IVA-inclusive)
+ * @param rates - Booking tax rates
+ */
+export function calculateServiceTaxLines(serviceAmount: number, rates: TaxRates): TaxLine[] {
+  return [{
+    type: "service_iva",
+    base: serviceAmount,
+    rate: rates.serviceIvaRate,
+    amount: includedTax(serviceAmount, rates.serviceIvaRate),
+  }];
+}
+
+/**
+ * All tax lines for a payment held in escrow
+ *
+ * @param serviceAmount - Service price covered by the payment (IVA-inclusive)
+ * @param platformFee - Platform commission on it (IVA-inclusive)
+ * @param rates - Booking tax rates
+ */
+export function calculateTaxLines(
+    serviceAmount: number,
+    platformFee: number,
+    rates: TaxRates
+): TaxLine[] {
+  const commissionIva = includedTax(platformFee, rates.commissionIvaRate);
+  const withholdingBase = platformFee - commissionIva;
+
+  return [
+    ...calculateServiceTaxLines(serviceAmount, rates),
+    {
+      type: "commission_iva",
+      base: platformFee,
+      rate: rates.commissionIvaRate,
+      amount: commissionIva,
+    },
+    {
+      type: "commission_withholding",
+      base: withholdingBase,
+      rate: rates.commissionWithholdingRate,
+      amount: Math.round(withholdingBase * rates.commissionWithholdingRate / 100),
+    },
+  ];
+}
+
+/**
+ * Add tax lines to running totals per line type
+ */
+export function addTaxTotals(
+    totals: Record<string, number>,
+    lines: TaxLine[] | undefined
+): Record<string, number> {
+  for (const line of lines || []) {
+    totals[line.type] = (totals[line.type] || 0) + (line.amount || 0);
+  }
+  return totals;
+}
@@ -1,7 +1,9 @@
+import "./common/firebaseApp";
 import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
-
-admin.initializeApp();
+import {getBookingSlots} from "./bookings/bookingUtils";
+import {offerWaitlistSpots} from "./bookings/waitlist";
+import {addTaxTotals} from "./finance/taxEngine";
 
 const db = admin.firestore();
 const messaging = admin.messaging();
@@ -29,10 +31,33 @@ export {
   acknowledgeRPSPayment
 } from "./webhooks/proxyPayWebhook";
 
+export {
+  listPaymentMethods,
+  removePaymentMethod
+} from "./payments/savedPaymentMethods";
+
 export {
   stripeWebhook
 } from "./payments/stripeWebhook";
 
+export {
+  emisGpoWebhook
+} from "./payments/emisGpoWebhook";
+
+export {
+  expireStalePayments
+} from "./payments/paymentExpiry";
+
+export {
+  issuePendingRefunds
+} from "./payments/refundIssuer";
+
+export {
+  retryFailedWebhooks,
+  inspectWebhookEvent,
+  replayWebhookEvent
+} from "./webhooks/webhookReplay";
+
 // Booking Cloud Functions exports
 export {
   createBooking
@@ -46,6 +71,47 @@ export {
   cancelBooking
 } from "./bookings/cancelBooking";
 
+export {
+  setCancellationPolicy
+} from "./bookings/cancellationPolicy";
+
+export {
+  setPaymentTerms
+} from "./bookings/paymentSchedule";
+
+export {
+  setAvailabilityRules,
+  previewAvailabilityCalendar
+} from "./bookings/availabilityCalendar";
+
+export {
+  getCalendarFeedUrl,
+  supplierCalendarFeed,
+  importCalendar
+} from "./bookings/calendarSync";
+
+export {
+  joinWaitlist,
+  leaveWaitlist,
+  expireWaitlistHolds
+} from "./bookings/waitlist";
+
+export {
+  processPaymentSchedules
+} from "./bookings/overduePayments";
+
+export {
+  requestBookingChange,
+  respondToBookingChange,
+  retryBookingChangeRefunds
+} from "./bookings/bookingChanges";
+
+export {
+  requestQuote,
+  sendQuoteProposal,
+  respondToQuote
+} from "./bookings/quotes";
+
 // Supplier Booking Data Access (SECURE - validates ownership)
 export {
   getSupplierBookings,
@@ -82,6 +148,10 @@ export {
   exportRateLimitMetrics
 } from "./admin/exportRateLimitMetrics";
 
+export {
+  exportTaxReport
+} from "./admin/exportTaxReport";
+
 // Admin Migration Functions (ONE-TIME USE)
 export {
   migrateSuppliers,
@@ -102,6 +172,48 @@ export {
   refundEscrowFunction as refundEscrow
 } from "./finance/refundEscrow";
 
+export {
+  processPayoutBatches,
+  getPayoutHistory,
+  retryPayoutBatch
+} from "./finance/payoutService";
+
+export {
+  openDispute,
+  submitDisputeStatement,
+  getDisputeDetails,
+  resolveDispute
+} from "./finance/disputes";
+
+export {
+  getTrialBalance
+} from "./finance/ledger";
+
+export {
+  reconcilePayments
+} from "./finance/reconciliation";
+
+export {
+  onEscrowInvoiceEvent,
+  onRefundCreated,
+  listBookingInvoices
+} from "./finance/invoiceService";
+
+// Stripe Connect (international supplier onboarding) exports
+export {
+  createStripeConnectOnboardingLink,
+  refreshStripeConnectStatus,
+  stripeConnectWebhook
+} from "./suppliers/stripeConnect";
+
+// Promotion Cloud Functions exports
+export {
+  createPromotion,
+  setPromotionActive,
+  previewPromoCode,
+  onBookingReleasePromotion
+} from "./promotions/promotionService";
+
 // UI-First Projection Triggers (maintain client_views and supplier_views)
 // Note: Renamed to avoid conflicts with notification triggers
 export {
@@ -116,6 +228,7 @@ export {
   onSupplierUpdated as projectionOnSupplierUpdated,
   onCartItemCreated as projectionOnCartItemCreated,
   onCartItemDeleted as projectionOnCartItemDeleted,
+  onPayoutBatchWritten as projectionOnPayoutBatchWritten,
 } from "./projections/projectionTriggers";
 
 // Projection Backfill & Maintenance (admin only)
@@ -451,6 +564,10 @@ export const onConversationMessageCreated = region.firestore
         preview = "📎 Enviou um arquivo";
       } else if (message.type === "booking") {
         preview = "📅 Enviou uma referência de reserva";
+      } else if (message.type === "quote_request") {
+        preview = "📝 Pediu um orçamento";
+      } else if (message.type === "quote_proposal") {
+        preview = "💰 Enviou uma proposta";
       }
 
       // Truncate long messages
@@ -801,6 +918,7 @@ export const cleanupInactiveUsers = region.pubsub
 /**
  * Auto-expire pending bookings that haven't been responded to
  * Runs daily at midnight, expires bookings pending for more than 7 days
+ * The freed dates are offered to waitlisted clients.
  */
 export const expirePendingBookings = region.pubsub
     .schedule("0 0 * * *") // Midnight daily
@@ -877,6 +995,16 @@ export const expirePendingBookings = region.pubsub
         } catch (error) {
           console.error(`Error expiring booking ${bookingDoc.id}:`, error);
         }
+
+        // Offer the freed dates to waitlisted clients
+        try {
+          await offerWaitlistSpots(
+              booking.supplierId,
+              getBookingSlots(booking).map((slot) => slot.date)
+          );
+        } catch (error) {
+          console.error(`Error offering waitlist spots for ${bookingDoc.id}:`, error);
+        }
       }
 
       console.log(`Auto-expired ${expiredCount} pending bookings`);
@@ -921,6 +1049,22 @@ export const sendPromoNotification = region.https.onCall(
         );
       }
 
+      // Optional promo code, sent in the push data so the app can apply it
+      const promoCode = data.promoCode ? String(data.promoCode).trim().toUpperCase() : null;
+      if (promoCode) {
+        const promotionQuery = await db
+            .collection("promotions")
+            .where("code", "==", promoCode)
+            .limit(1)
+            .get();
+        if (promotionQuery.empty || !promotionQuery.docs[0].data().isActive) {
+          throw new functions.https.HttpsError(
+              "invalid-argument",
+              `Promo code ${promoCode} not found or inactive`
+          );
+        }
+      }
+
       let usersQuery: admin.firestore.Query = db
           .collection("users")
           .where("isActive", "==", true);
@@ -941,6 +1085,7 @@ export const sendPromoNotification = region.https.onCall(
             title,
             body,
             type: "promotional",
+            data: promoCode ? {promoCode} : undefined,
           });
           sentCount++;
         } catch (error) {
@@ -988,6 +1133,8 @@ export const generateSupplierReport = region.https.onCall(
           .get();
 
       let totalRevenue = 0;
+      let revenueCurrency = "AOA";
+      const presentmentRevenue: Record<string, number> = {};
       let completedCount = 0;
       let cancelledCount = 0;
       const bookingsByStatus: Record<string, number> = {};
@@ -999,7 +1146,13 @@ export const generateSupplierReport = region.https.onCall(
           (bookingsByStatus[booking.status] || 0) + 1;
 
         if (booking.status === "completed") {
+          // paidAmount is in the settlement currency; presentmentPaid has
+          // what clients paying in other currencies were charged
           totalRevenue += booking.paidAmount || 0;
+          revenueCurrency = booking.currency || revenueCurrency;
+          for (const [currency, amount] of Object.entries(booking.presentmentPaid || {})) {
+            presentmentRevenue[currency] = (presentmentRevenue[currency] || 0) + Number(amount);
+          }
           completedCount++;
         } else if (booking.status === "cancelled") {
           cancelledCount++;
@@ -1023,6 +1176,32 @@ export const generateSupplierReport = region.https.onCall(
       const avgRating = reviews.docs.length > 0 ?
         totalRating / reviews.docs.length : 0;
 
+      // IVA and withholding on payouts released in the period (see taxEngine)
+      const payouts = await db
+          .collection("payouts")
+          .where("supplierId", "==", supplierId)
+          .where("createdAt", ">=",
+              admin.firestore.Timestamp.fromDate(start))
+          .where("createdAt", "<=",
+              admin.firestore.Timestamp.fromDate(end))
+          .get();
+
+      // Payouts settle in different currencies - never add them together
+      const taxesByCurrency: Record<string, {
+        payoutCount: number;
+        serviceAmount: number;
+        totals: Record<string, number>;
+      }> = {};
+      for (const doc of payouts.docs) {
+        const payout = doc.data();
+        const currency = payout.currency || "AOA";
+        const taxes = taxesByCurrency[currency] ||
+          (taxesByCurrency[currency] = {payoutCount: 0, serviceAmount: 0, totals: {}});
+        taxes.payoutCount++;
+        taxes.serviceAmount += (payout.amount || 0) + (payout.platformFee || 0);
+        addTaxTotals(taxes.totals, payout.taxLines);
+      }
+
       return {
         period: {start: startDate, end: endDate},
         bookings: {
@@ -1033,7 +1212,12 @@ export const generateSupplierReport = region.https.onCall(
         },
         revenue: {
           total: totalRevenue,
-          currency: "AOA",
+          currency: revenueCurrency,
+          presentmentTotals: presentmentRevenue,
+        },
+        taxes: {
+          payoutCount: payouts.docs.length,
+          byCurrency: taxesByCurrency,
         },
         reviews: {
           count: reviews.docs.length,
@@ -1,6 +1,7 @@
 import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
 import {fundEscrow} from "../finance/escrowService";
+import {getEmisGpoProvider} from "./providers";
 
 const db = admin.firestore();
 const REGION = "us-central1";
@@ -167,7 +168,7 @@ async function handleEscrowFunding(
  * This function:
  * 1. Validates the caller is authenticated
  * 2. Validates the caller owns the payment or is admin
- * 3. Checks payment status with ProxyPay API
+ * 3. Checks payment status with the provider API (ProxyPay or EMIS GPO)
  * 4. Updates payment record in Firestore
  * 5. Updates booking if payment is completed
  * 6. Handles escrow funding if applicable
@@ -224,11 +225,10 @@ export const confirmPayment = functions
           } as ConfirmPaymentResponse;
         }
 
-        // Check with ProxyPay API
-        const providerStatus = await checkProxyPayStatus(
-            payment.providerPaymentId,
-            payment.provider
-        );
+        // Check with the provider API (GPO statuses map like ProxyPay's)
+        const providerStatus = payment.provider === "emis_gpo" ?
+          await getEmisGpoProvider().getPaymentStatus(payment.providerPaymentId) :
+          await checkProxyPayStatus(payment.providerPaymentId, payment.provider);
 
         const newStatus = mapProxyPayStatus(providerStatus.status);
 
@@ -249,10 +249,11 @@ export const confirmPayment = functions
 
         // If payment completed, update booking
         if (newStatus === "completed" && payment.bookingId) {
+          // Booking totals are in the settlement currency
           await updateBookingPayment(
               payment.bookingId,
               data.paymentId,
-              payment.amount
+              payment.settlementAmount ?? payment.amount
           );
 
           // Handle escrow if applicable
@@ -2,6 +2,13 @@ import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
 import {enforceRateLimit} from "../rateLimit/checkRateLimit";
 import {createEscrow} from "../finance/escrowService";
+import {getFxRateSnapshot, FxRateSnapshot} from "../finance/fxRates";
+import {
+  convertAmount,
+  formatCurrency,
+  isSupportedCurrency,
+  normalizeCurrency,
+} from "../common/currency";
 import {
   wrapHandler,
   Errors,
@@ -10,11 +17,34 @@ import {
 import {PaymentLogger} from "../common/logger";
 import {requireFeatureEnabled} from "../common/killSwitch";
 import {
-  getPaymentProvider,
-  mapPaymentMethodToProvider,
-  PaymentProviderType,
+  getNextInstallment,
+  PaymentInstallment,
+  PaymentSchedule,
+  rescheduleRemaining,
+} from "../bookings/paymentSchedule";
+import {
+  buildBookingPromotion,
+  getPlatformDiscountShare,
+  reservePromotion,
+  resolvePromotion,
+} from "../promotions/promotionService";
+import {calculateServiceTaxLines} from "../finance/taxEngine";
+import {priceSupplierPackage} from "../bookings/pricingEngine";
+import {getBookingSlots} from "../bookings/bookingUtils";
+import {
+  createPaymentWithFailover,
   CreatePaymentParams,
+  PaymentDeclinedError,
+  PaymentProviderType,
 } from "./providers";
+import {
+  getOrCreateStripeCustomer,
+  getSavedPaymentMethod,
+  markSavedPaymentMethodUsed,
+  saveMulticaixaPhone,
+  SavedPaymentMethod,
+} from "./savedPaymentMethods";
+import {expirePayment, getPaymentExpiresAt} from "./paymentExpiry";
 
 const db = admin.firestore();
 const REGION = "us-central1";
@@ -25,9 +55,22 @@ const PROXYPAY_ENTITY_ID = process.env.PROXYPAY_ENTITY_ID || "";
 
 interface PaymentIntentRequest {
   bookingId: string;
-  amount: number;
+  /**
+   * In the booking currency. Optional - defaults to the next installment, or
+   * the outstanding balance; any other amount is rejected
+   */
+  amount?: number;
+  /** Installment to pay - must be the next unpaid one */
+  installmentId?: string;
+  /** Currency to charge the client in (defaults to the one chosen at booking) */
   currency?: string;
-  paymentMethod: "opg" | "rps" | "stripe";
+  /** Promo code to apply - only before the first payment, if the booking has none */
+  promoCode?: string;
+  paymentMethod: "opg" | "rps" | "gpo" | "stripe";
+  /** Saved method to pay with (see listPaymentMethods) - replaces card/phone details */
+  savedMethodId?: string;
+  /** Keep the card or Multicaixa number for future payments */
+  savePaymentMethod?: boolean;
   customerPhone?: string;
   customerEmail?: string;
   customerName?: string;
@@ -41,10 +84,16 @@ interface PaymentIntentRequest {
 interface PaymentIntentResponse {
   success: boolean;
   paymentId?: string;
+  installmentId?: string;
+  /** Amount charged, in the presentment currency */
+  amount?: number;
+  currency?: string;
   reference?: string;
   entityId?: string;
   paymentUrl?: string;
-  /** Stripe Checkout URL - client redirects here */
+  /** Provider used - differs from the requested method's provider on failover */
+  provider?: PaymentProviderType;
+  /** Stripe Checkout URL - client redirects here (3-D Secure page for saved cards, if asked) */
   checkoutUrl?: string;
   expiresAt?: string;
   error?: string;
@@ -63,12 +112,11 @@ async function validateBookingForPayment(
 }> {
   const bookingDoc = await db.collection("bookings").doc(bookingId).get();
 
-  if (!bookingDoc.exists) {
+  const booking = bookingDoc.data();
+  if (!booking) {
     return {valid: false, error: "Reserva não encontrada"};
   }
 
-  const booking = bookingDoc.data()!;
-
   // Verify caller is the client
   if (booking.clientId !== callerId) {
     return {valid: false, error: "Você não tem permissão para pagar esta reserva"};
@@ -93,6 +141,167 @@ async function validateBookingForPayment(
   return {valid: true, booking};
 }
 
+/**
+ * Resolve the installment a payment is for
+ * Installments are paid in order, so only the next unpaid one is accepted.
+ */
+function resolveInstallment(
+    schedule: PaymentSchedule | undefined,
+    installmentId: string | undefined
+): {valid: boolean; error?: string; installment?: PaymentInstallment} {
+  const next = getNextInstallment(schedule);
+
+  if (!next) {
+    return {valid: false, error: "Esta reserva já foi paga integralmente"};
+  }
+
+  if (installmentId && installmentId !== next.id) {
+    return {valid: false, error: "Pague primeiro a prestação anterior"};
+  }
+
+  return {valid: true, installment: next};
+}
+
+/**
+ * Apply a promo code to a booking that has not been paid yet
+ * The discount lowers the booking total and the unpaid schedule; the
+ * code use is reserved in the same transaction.
+ *
+ * @returns Updated booking data
+ */
+async function applyPromoCode(
+    bookingId: string,
+    booking: FirebaseFirestore.DocumentData,
+    promoCode: string,
+    callerId: string,
+    errorContext: ErrorContext
+): Promise<FirebaseFirestore.DocumentData> {
+  if (booking.promotion) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Booking ${bookingId} already has a promotion`,
+        "Esta reserva já tem um código promocional"
+    );
+  }
+
+  const supplierDoc = await db.collection("suppliers").doc(booking.supplierId).get();
+  const {promotion, discountAmount} = await resolvePromotion(
+      promoCode,
+      {
+        userId: callerId,
+        supplierId: booking.supplierId,
+        category: supplierDoc.data()?.category || null,
+        amount: booking.totalAmount || 0,
+        currency: normalizeCurrency(booking.currency),
+      },
+      errorContext,
+      bookingId
+  );
+
+  const bookingRef = db.collection("bookings").doc(bookingId);
+  return db.runTransaction(async (transaction) => {
+    const latest = (await transaction.get(bookingRef)).data() || {};
+    if (latest.promotion || (latest.paidAmount || 0) > 0) {
+      throw Errors.failedPrecondition(
+          errorContext,
+          `Booking ${bookingId} already paid or discounted`,
+          "Códigos promocionais só podem ser aplicados antes do primeiro pagamento"
+      );
+    }
+
+    await reservePromotion(transaction, {
+      promotionId: promotion.id,
+      bookingId,
+      userId: callerId,
+      discountAmount,
+    }, errorContext);
+
+    const originalAmount = latest.totalAmount || 0;
+    const totalAmount = originalAmount - discountAmount;
+    const updates: Record<string, unknown> = {
+      originalAmount,
+      discountAmount,
+      promotion: buildBookingPromotion(promotion, discountAmount),
+      totalAmount,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    if (latest.taxRates) {
+      // A platform-funded discount is still part of the supplier's service
+      const serviceAmount = promotion.fundedBy === "platform" ? originalAmount : totalAmount;
+      updates.taxLines = calculateServiceTaxLines(serviceAmount, latest.taxRates);
+    }
+    if (latest.paymentSchedule) {
+      updates.paymentSchedule = rescheduleRemaining(
+          latest.paymentSchedule,
+          totalAmount,
+          latest.eventDate.toDate()
+      );
+    }
+
+    transaction.update(bookingRef, updates);
+    return {...latest, ...updates};
+  });
+}
+
+/**
+ * Price a booking that was not priced server-side (written by older app
+ * versions) with the pricing engine before it is charged
+ * Only unpaid bookings without a promotion or quote are repriced.
+ *
+ * @returns Updated booking data
+ */
+async function ensureServerPrice(
+    bookingId: string,
+    booking: FirebaseFirestore.DocumentData,
+    errorContext: ErrorContext
+): Promise<FirebaseFirestore.DocumentData> {
+  if (booking.priceBreakdown || booking.createdBy === "cloud_function" ||
+      booking.quoteId || booking.promotion || !booking.packageId ||
+      (booking.paidAmount || 0) > 0) {
+    return booking;
+  }
+
+  const slots = getBookingSlots(booking);
+  const pricing = await priceSupplierPackage(
+      booking.supplierId,
+      booking.packageId,
+      normalizeCurrency(booking.currency),
+      {guestCount: booking.guestCount ?? null, slots}
+  );
+  if (!pricing) {
+    throw Errors.notFound(errorContext, "Pacote", booking.packageId);
+  }
+  if (!pricing.valid || !pricing.breakdown) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Booking ${bookingId} cannot be priced: ${pricing.error}`,
+        pricing.error
+    );
+  }
+
+  const totalAmount = pricing.breakdown.total;
+  const updates: Record<string, unknown> = {
+    priceBreakdown: pricing.breakdown,
+    originalAmount: totalAmount,
+    discountAmount: 0,
+    totalAmount,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  if (booking.taxRates) {
+    updates.taxLines = calculateServiceTaxLines(totalAmount, booking.taxRates);
+  }
+  if (booking.paymentSchedule && slots.length > 0) {
+    updates.paymentSchedule = rescheduleRemaining(
+        booking.paymentSchedule,
+        totalAmount,
+        booking.eventDate.toDate()
+    );
+  }
+
+  await db.collection("bookings").doc(bookingId).update(updates);
+  return {...booking, ...updates};
+}
+
 /**
  * Generate unique reference for payment
  */
@@ -108,15 +317,27 @@ function generateReference(): string {
  * Supports multiple payment providers:
  * - ProxyPay OPG (mobile payments)
  * - ProxyPay RPS (ATM/reference payments)
+ * - EMIS GPO (Multicaixa Express, direct)
  * - Stripe (test mode - hosted checkout)
  *
  * This function:
  * 1. Validates the caller is authenticated
  * 2. Validates the caller is the booking's client
  * 3. Validates the booking status allows payment
- * 4. Creates payment intent with the appropriate provider
- * 5. Creates escrow record (server-side)
- * 6. Writes payment record to /payments collection
+ * 4. Prices bookings not priced server-side (pricingEngine) and applies a
+ *    promo code if given (before the first payment only)
+ * 5. Charges the next installment when the booking has a payment schedule,
+ *    else the outstanding balance - never a client-supplied total
+ * 6. Converts to the client's currency with an FX rate snapshot
+ * 7. Creates payment intent with the first healthy provider for the method
+ *    (falls back per providerSelector; the routing is stored on the payment)
+ *    - with savedMethodId, pays with the saved card/number (one-tap)
+ *    - with savePaymentMethod, keeps the number now, or the card once the
+ *      payment is confirmed (stripeWebhook)
+ * 8. Creates escrow record (server-side, in the booking currency)
+ * 9. Writes payment record to /payments collection, with an expiry per
+ *    method (see paymentExpiry), and points the booking at it. A payment
+ *    still pending for the booking is expired first.
  */
 export const createPaymentIntent = functions
     .region(REGION)
@@ -149,16 +370,16 @@ export const createPaymentIntent = functions
               await enforceRateLimit(callerId, FUNCTION_NAME);
 
               // Validate required fields
-              if (!data.bookingId || !data.amount || !data.paymentMethod) {
+              if (!data.bookingId || !data.paymentMethod) {
                 throw Errors.invalidArgument(
                     errorContext,
-                    "bookingId, amount, paymentMethod",
+                    "bookingId, paymentMethod",
                     "Campos obrigatórios"
                 );
               }
 
               // Validate payment method
-              const validMethods = ["opg", "rps", "stripe"];
+              const validMethods = ["opg", "rps", "gpo", "stripe"];
               if (!validMethods.includes(data.paymentMethod)) {
                 throw Errors.invalidArgument(
                     errorContext,
@@ -167,17 +388,22 @@ export const createPaymentIntent = functions
                 );
               }
 
-              // Validate amount
-              if (data.amount < 100) {
-                throw Errors.invalidArgument(
-                    errorContext,
-                    "amount",
-                    "Valor mínimo de pagamento é 100 AOA"
-                );
+              // Paying with a saved method fills in its details
+              let savedMethod: SavedPaymentMethod | null = null;
+              if (data.savedMethodId) {
+                savedMethod = await getSavedPaymentMethod(callerId, data.savedMethodId, errorContext);
+                if (!(savedMethod.paymentMethods as string[]).includes(data.paymentMethod)) {
+                  throw Errors.invalidArgument(
+                      errorContext,
+                      "savedMethodId",
+                      "Este método guardado não pode ser usado com o método de pagamento escolhido"
+                  );
+                }
               }
+              const customerPhone = savedMethod?.phone || data.customerPhone;
 
               // For OPG, phone is required
-              if (data.paymentMethod === "opg" && !data.customerPhone) {
+              if (data.paymentMethod === "opg" && !customerPhone) {
                 throw Errors.invalidArgument(
                     errorContext,
                     "customerPhone",
@@ -191,7 +417,7 @@ export const createPaymentIntent = functions
                   callerId
               );
 
-              if (!validation.valid) {
+              if (!validation.valid || !validation.booking) {
                 throw Errors.failedPrecondition(
                     errorContext,
                     validation.error || "Booking validation failed",
@@ -199,44 +425,170 @@ export const createPaymentIntent = functions
                 );
               }
 
-              const booking = validation.booking!;
-              const reference = generateReference();
-              const description = data.description ||
-                `BODA CONNECT - ${booking.eventName || "Reserva"}`;
-              const expiresAt = new Date();
-              expiresAt.setMinutes(expiresAt.getMinutes() + 30);
+              let booking = await ensureServerPrice(data.bookingId, validation.booking, errorContext);
+              if (data.promoCode) {
+                booking = await applyPromoCode(
+                    data.bookingId,
+                    booking,
+                    data.promoCode,
+                    callerId,
+                    errorContext
+                );
+                logger.info("promotion_applied", {
+                  bookingId: data.bookingId,
+                  code: booking.promotion.code,
+                  discountAmount: booking.discountAmount,
+                });
+              }
 
-              // Get the appropriate payment provider
-              const providerType: PaymentProviderType = mapPaymentMethodToProvider(
-                  data.paymentMethod
-              );
+              const settlementCurrency = normalizeCurrency(booking.currency);
+
+              // Scheduled bookings are charged one installment at a time
+              let installment: PaymentInstallment | undefined;
+              if (booking.paymentSchedule) {
+                const resolved = resolveInstallment(booking.paymentSchedule, data.installmentId);
+                if (!resolved.valid || !resolved.installment) {
+                  throw Errors.failedPrecondition(
+                      errorContext,
+                      resolved.error || "Installment validation failed",
+                      resolved.error
+                  );
+                }
+
+                installment = resolved.installment;
+                if (data.amount !== undefined && data.amount !== installment.amount) {
+                  throw Errors.invalidArgument(
+                      errorContext,
+                      "amount",
+                      `O valor desta prestação é ${formatCurrency(installment.amount, settlementCurrency)}`
+                  );
+                }
+              }
 
-              let provider;
-              try {
-                provider = getPaymentProvider(providerType);
-              } catch (providerError) {
-                const errorMsg = providerError instanceof Error ?
-                  providerError.message : "unknown";
-                logger.error("provider_not_available", errorMsg, {providerType});
-                throw Errors.unavailable(
+              // Without a schedule the outstanding balance is charged
+              const outstanding = Math.max(0, (booking.totalAmount || 0) - (booking.paidAmount || 0));
+              if (!installment && data.amount !== undefined && data.amount !== outstanding) {
+                throw Errors.invalidArgument(
                     errorContext,
-                    `Payment provider ${providerType} not available`,
-                    "Método de pagamento temporariamente indisponível"
+                    "amount",
+                    `O valor em dívida é ${formatCurrency(outstanding, settlementCurrency)}`
+                );
+              }
+
+              const amount = installment ? installment.amount : outstanding;
+
+              // Validate amount
+              if (!amount || amount < 100) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "amount",
+                    "Valor mínimo de pagamento é 100 AOA"
+                );
+              }
+
+              // Amounts are in the booking (settlement) currency; the client
+              // may be charged in another currency at the current rate
+              const presentmentCurrency = (
+                data.currency || booking.presentmentCurrency || settlementCurrency
+              ).toUpperCase();
+              if (!isSupportedCurrency(presentmentCurrency)) {
+                throw Errors.invalidArgument(errorContext, "currency", "Moeda não suportada");
+              }
+
+              // ProxyPay and EMIS only charge in kwanzas
+              if (presentmentCurrency !== "AOA" && data.paymentMethod !== "stripe") {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "currency",
+                    "Pagamentos em moeda estrangeira só são aceites com cartão"
+                );
+              }
+
+              let fxRate: FxRateSnapshot | null = null;
+              let presentmentAmount = amount;
+              if (presentmentCurrency !== settlementCurrency) {
+                try {
+                  fxRate = await getFxRateSnapshot(settlementCurrency, presentmentCurrency);
+                } catch (fxError) {
+                  const errorMsg = fxError instanceof Error ? fxError.message : "unknown";
+                  logger.error("fx_rate_unavailable", errorMsg, {settlementCurrency, presentmentCurrency});
+                  throw Errors.unavailable(
+                      errorContext,
+                      `FX rate ${settlementCurrency}/${presentmentCurrency} not available`,
+                      "Câmbio temporariamente indisponível. Tente pagar em Kwanzas."
+                  );
+                }
+
+                presentmentAmount = convertAmount(
+                    amount,
+                    settlementCurrency,
+                    presentmentCurrency,
+                    fxRate.rate
                 );
               }
 
+              // Only one payment can be open per booking - an old RPS
+              // reference must not be payable next to the new one
+              const previousPaymentId = booking.pendingPayment?.paymentId;
+              if (previousPaymentId) {
+                let previous;
+                try {
+                  previous = await expirePayment(previousPaymentId, "superseded");
+                } catch (expiryError) {
+                  const errorMsg = expiryError instanceof Error ? expiryError.message : "unknown";
+                  logger.error("previous_payment_expiry_failed", errorMsg, {paymentId: previousPaymentId});
+                  throw Errors.unavailable(
+                      errorContext,
+                      `Could not expire payment ${previousPaymentId}: ${errorMsg}`,
+                      "Não foi possível anular o pagamento anterior. Tente novamente."
+                  );
+                }
+                if (previous === "paid") {
+                  throw Errors.failedPrecondition(
+                      errorContext,
+                      `Payment ${previousPaymentId} already paid at the provider`,
+                      "Já existe um pagamento em processamento para esta reserva. Aguarde a confirmação."
+                  );
+                }
+                logger.info("previous_payment_superseded", {
+                  paymentId: previousPaymentId,
+                  result: previous,
+                });
+              }
+
+              const reference = generateReference();
+              const description = data.description ||
+                `BODA CONNECT - ${booking.eventName || "Reserva"}`;
+              const expiresAt = getPaymentExpiresAt(data.paymentMethod);
+
               logger.info("creating_provider_payment", {
-                provider: provider.name,
                 method: data.paymentMethod,
+                savedMethod: savedMethod?.type || null,
               });
 
+              // Cards are kept on the client's Stripe customer
+              const savePaymentMethod = data.savePaymentMethod === true && !savedMethod;
+              let customerId = savedMethod?.stripeCustomerId;
+              if (savePaymentMethod && data.paymentMethod === "stripe") {
+                try {
+                  customerId = await getOrCreateStripeCustomer(callerId, {
+                    email: data.customerEmail,
+                    name: data.customerName,
+                  });
+                } catch (customerError) {
+                  // Pay without saving rather than not at all
+                  const errorMsg = customerError instanceof Error ? customerError.message : "unknown";
+                  logger.error("stripe_customer_unavailable", errorMsg, {userId: callerId});
+                }
+              }
+
               // Build provider params
               const providerParams: CreatePaymentParams = {
                 reference,
-                amount: data.amount,
-                currency: data.currency || "AOA",
+                amount: presentmentAmount,
+                currency: presentmentCurrency,
                 paymentMethod: data.paymentMethod,
-                customerPhone: data.customerPhone,
+                customerPhone,
                 customerEmail: data.customerEmail,
                 customerName: data.customerName,
                 description,
@@ -245,26 +597,79 @@ export const createPaymentIntent = functions
                 expiresAt,
                 successUrl: data.successUrl,
                 cancelUrl: data.cancelUrl,
+                customerId,
+                savePaymentMethod: savePaymentMethod && !!customerId,
+                savedPaymentMethod: savedMethod?.stripeCustomerId && savedMethod.stripePaymentMethodId ? {
+                  customerId: savedMethod.stripeCustomerId,
+                  paymentMethodId: savedMethod.stripePaymentMethodId,
+                } : undefined,
                 metadata: {
                   supplierId: booking.supplierId,
+                  installmentId: installment?.id || "",
                 },
               };
 
-              // Create payment with provider
-              const providerResult = await provider.createPaymentIntent(providerParams);
+              // Create payment with the first healthy provider for the method
+              let provider;
+              let providerResult;
+              let routing;
+              try {
+                ({provider, result: providerResult, routing} = await createPaymentWithFailover(
+                    data.paymentMethod,
+                    providerParams
+                ));
+              } catch (providerError) {
+                const errorMsg = providerError instanceof Error ?
+                  providerError.message : "unknown";
+                if (providerError instanceof PaymentDeclinedError) {
+                  throw Errors.failedPrecondition(
+                      errorContext,
+                      `Payment declined: ${errorMsg}`,
+                      "O pagamento foi recusado. Tente outro cartão ou método de pagamento."
+                  );
+                }
+                logger.error("provider_not_available", errorMsg, {method: data.paymentMethod});
+                throw Errors.unavailable(
+                    errorContext,
+                    `No payment provider available for ${data.paymentMethod}: ${errorMsg}`,
+                    "Método de pagamento temporariamente indisponível"
+                );
+              }
 
               logger.info("provider_payment_created", {
                 provider: provider.name,
                 providerPaymentId: providerResult.providerPaymentId,
+                fallback: routing.fallback,
               });
 
+              // Remember the method for next time (cards once confirmed)
+              try {
+                if (savedMethod) {
+                  await markSavedPaymentMethodUsed(callerId, savedMethod.id);
+                } else if (savePaymentMethod && customerPhone &&
+                    (data.paymentMethod === "opg" || data.paymentMethod === "gpo")) {
+                  await saveMulticaixaPhone(callerId, customerPhone);
+                }
+              } catch (savedMethodError) {
+                const errorMsg = savedMethodError instanceof Error ? savedMethodError.message : "unknown";
+                logger.error("saved_payment_method_update_failed", errorMsg, {userId: callerId});
+              }
+
               // Create escrow record (SERVER-SIDE)
               const escrowId = await createEscrow({
                 bookingId: data.bookingId,
                 clientId: callerId,
                 supplierId: booking.supplierId,
-                totalAmount: data.amount,
-                currency: data.currency || "AOA",
+                totalAmount: amount,
+                currency: settlementCurrency,
+                installmentId: installment?.id,
+                presentment: fxRate ? {
+                  amount: presentmentAmount,
+                  currency: presentmentCurrency,
+                  fxRate,
+                } : undefined,
+                platformDiscount: getPlatformDiscountShare(booking, amount),
+                taxRates: booking.taxRates,
               });
 
               logger.info("escrow_created", {escrowId, bookingId: data.bookingId});
@@ -276,16 +681,24 @@ export const createPaymentIntent = functions
                 bookingId: data.bookingId,
                 userId: callerId,
                 supplierId: booking.supplierId,
-                amount: data.amount,
-                currency: data.currency || "AOA",
+                amount: presentmentAmount, // What the provider charges
+                currency: presentmentCurrency,
+                settlementAmount: amount,
+                settlementCurrency,
+                fxRate,
+                installmentId: installment?.id || null,
                 reference: reference,
                 referenceNumber: providerResult.referenceNumber,
                 provider: provider.name,
                 providerPaymentId: providerResult.providerPaymentId,
+                routing,
                 status: "pending",
                 description: description,
                 paymentMethod: data.paymentMethod,
-                customerPhone: data.customerPhone,
+                savedMethodId: savedMethod?.id || null,
+                // Card is saved by stripeWebhook on confirmation
+                savePaymentMethod: providerParams.savePaymentMethod === true,
+                customerPhone,
                 customerEmail: data.customerEmail,
                 customerName: data.customerName,
                 paymentUrl: providerResult.paymentUrl,
@@ -301,6 +714,18 @@ export const createPaymentIntent = functions
 
               await paymentRef.set(paymentData);
 
+              // Booking waits on this payment until it settles or expires
+              await db.collection("bookings").doc(data.bookingId).update({
+                pendingPayment: {
+                  paymentId: paymentRef.id,
+                  provider: provider.name,
+                  installmentId: installment?.id || null,
+                  referenceNumber: providerResult.referenceNumber || null,
+                  expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+                },
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+              });
+
               // Update escrow with payment ID
               await db.collection("escrow").doc(escrowId).update({
                 paymentId: paymentRef.id,
@@ -318,16 +743,21 @@ export const createPaymentIntent = functions
               const response: PaymentIntentResponse = {
                 success: true,
                 paymentId: paymentRef.id,
+                provider: routing.provider,
+                installmentId: installment?.id,
+                amount: presentmentAmount,
+                currency: presentmentCurrency,
                 reference: reference,
                 expiresAt: expiresAt.toISOString(),
               };
 
-              // Add provider-specific response fields
-              if (data.paymentMethod === "stripe") {
+              // Add provider-specific response fields (by the provider
+              // actually used - failover may change the payment flow)
+              if (routing.provider === "stripe") {
                 response.checkoutUrl = providerResult.checkoutUrl;
-              } else if (data.paymentMethod === "opg") {
+              } else if (routing.provider === "proxypay_opg" || routing.provider === "emis_gpo") {
                 response.paymentUrl = providerResult.paymentUrl;
-              } else if (data.paymentMethod === "rps") {
+              } else if (routing.provider === "proxypay_rps") {
                 response.entityId = providerResult.entityId || PROXYPAY_ENTITY_ID;
                 response.reference = providerResult.referenceNumber;
               }
@@ -0,0 +1,335 @@
+/**
+ * EMIS GPO Webhook Handler
+ *
+ * Handles callbacks from the EMIS online payment gateway for direct
+ * Multicaixa Express payments. Uses the provider abstraction for
+ * signature verification and parsing.
+ *
+ * Callbacks are signed with an HMAC-SHA256 of the raw body (see
+ * EmisGpoProvider.verifyWebhookSignature), so do not add body-parsing
+ * middleware before this handler.
+ *
+ * Supported statuses:
+ * - ACCEPTED -> payment confirmed
+ * - REJECTED -> payment failed
+ * - EXPIRED -> payment expired
+ * - REFUNDED / REFUND_REJECTED -> refund completed / failed (reopened)
+ *
+ * Required Environment Variables:
+ * - EMIS_GPO_WEBHOOK_SECRET: Callback signing secret
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {getPaymentProvider, EMIS_GPO_SIGNATURE_HEADER} from "./providers";
+import {fundEscrow} from "../finance/escrowService";
+import {wrapHttpHandler} from "../common/errors";
+import {PaymentLogger} from "../common/logger";
+import {requireFeatureEnabled} from "../common/killSwitch";
+import {isWebhookProcessed, markWebhookProcessed} from "../common/idempotency";
+import {releaseExpiredPayment} from "./paymentExpiry";
+import {completeRefund, reopenFailedRefund} from "./paymentReversals";
+import {InboundWebhook, receiveWebhook, WebhookHandler} from "../webhooks/webhookEventStore";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+const FUNCTION_NAME = "emisGpoWebhook";
+
+/**
+ * Update payment status in Firestore
+ */
+async function updatePaymentStatus(
+    paymentId: string,
+    status: string,
+    additionalData: Record<string, unknown> = {}
+): Promise<void> {
+  await db.collection("payments").doc(paymentId).update({
+    status,
+    ...additionalData,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Find the GPO payment for a callback (by frame token, then reference)
+ */
+async function findPayment(
+    providerPaymentId: string,
+    reference: string
+): Promise<{id: string; data: FirebaseFirestore.DocumentData} | null> {
+  let snapshot = await db.collection("payments")
+      .where("providerPaymentId", "==", providerPaymentId)
+      .limit(1)
+      .get();
+
+  if (snapshot.empty && reference) {
+    snapshot = await db.collection("payments")
+        .where("provider", "==", "emis_gpo")
+        .where("reference", "==", reference)
+        .limit(1)
+        .get();
+  }
+
+  if (snapshot.empty) {
+    return null;
+  }
+
+  const doc = snapshot.docs[0];
+  return {id: doc.id, data: doc.data()};
+}
+
+/**
+ * Check a callback's signature before it is stored
+ * @returns null when the provider is not configured (the handler skips it)
+ */
+async function verifyEmisGpoWebhook(webhook: InboundWebhook): Promise<boolean | null> {
+  let provider;
+  try {
+    provider = getPaymentProvider("emis_gpo");
+  } catch {
+    return null;
+  }
+  return provider.verifyWebhookSignature(webhook);
+}
+
+/**
+ * Process an EMIS GPO callback (live delivery or stored event replay)
+ *
+ * 1. Verifies the callback signature (provider handles this)
+ * 2. Parses the callback
+ * 3. Checks idempotency (skip if already processed)
+ * 4. Triggers escrow funding on payment confirmation
+ * 5. Updates payment status (with the booking totals on confirmation)
+ */
+export const handleEmisGpoWebhook: WebhookHandler = async (webhook, errorContext) => {
+  const logger = PaymentLogger(FUNCTION_NAME).setContext(errorContext);
+
+  // Get the EMIS GPO provider
+  let provider;
+  try {
+    provider = getPaymentProvider("emis_gpo");
+  } catch (providerError) {
+    const errorMsg = providerError instanceof Error ?
+      providerError.message : "unknown";
+    logger.error("emis_gpo_provider_not_available", errorMsg);
+    return {outcome: "skipped", reason: "provider_unavailable", signatureValid: null};
+  }
+
+  // Verify callback signature
+  const isValid = await provider.verifyWebhookSignature(webhook);
+  if (!isValid) {
+    logger.error("webhook_signature_invalid", "Invalid webhook signature");
+    return {outcome: "rejected", reason: "invalid_signature", httpStatus: 401, signatureValid: false};
+  }
+
+  // Check kill-switch (the stored event can be replayed once re-enabled)
+  try {
+    await requireFeatureEnabled("payments", errorContext);
+    await requireFeatureEnabled("webhooks", errorContext);
+  } catch (killSwitchError) {
+    logger.killSwitchActive("payments");
+    return {outcome: "skipped", reason: "kill_switch", signatureValid: true};
+  }
+
+  // Parse the callback
+  let event;
+  try {
+    event = await provider.parseWebhook(webhook);
+  } catch (parseError) {
+    logger.warn("webhook_parse_error", {
+      error: parseError instanceof Error ? parseError.message : "unknown",
+    });
+    return {outcome: "rejected", reason: "invalid_payload", signatureValid: true};
+  }
+
+  const parsed = {signatureValid: true, eventType: event.type, eventId: event.eventId};
+
+  logger.info("emis_gpo_webhook_received", {
+    eventType: event.type,
+    eventId: event.eventId,
+    reference: event.reference,
+    replay: webhook.replay,
+  });
+
+  // Check idempotency
+  const alreadyProcessed = await isWebhookProcessed(
+      "emis_gpo",
+      event.type,
+      event.eventId,
+      errorContext
+  );
+
+  if (alreadyProcessed) {
+    logger.idempotentSkip("webhook", event.eventId, "already_processed");
+    return {outcome: "skipped", reason: "already_processed", ...parsed};
+  }
+
+  // Find the payment record
+  const payment = await findPayment(event.providerPaymentId, event.reference);
+  if (!payment) {
+    logger.warn("payment_not_found", {
+      providerPaymentId: event.providerPaymentId,
+      reference: event.reference,
+    });
+    return {outcome: "skipped", reason: "payment_not_found", ...parsed};
+  }
+
+  logger.info("payment_found", {
+    paymentId: payment.id,
+    currentStatus: payment.data.status,
+    eventType: event.type,
+  });
+
+  // Process based on event type
+  switch (event.type) {
+  case "payment.confirmed": {
+    // Skip if already settled (e.g. by confirmPayment polling)
+    if (["confirmed", "completed"].includes(payment.data.status)) {
+      logger.idempotentSkip("payment_confirmation", payment.id, "already_confirmed");
+      break;
+    }
+
+    if (event.amount !== payment.data.amount) {
+      logger.warn("emis_gpo_amount_mismatch", {
+        paymentId: payment.id,
+        expected: payment.data.amount,
+        received: event.amount,
+      });
+    }
+
+    logger.stateTransition("payment", payment.id, payment.data.status, "confirmed");
+
+    // Errors are rethrown so the stored callback is retried. The payment
+    // is only marked confirmed once the escrow and booking are updated,
+    // so a retry redoes whatever did not complete (fundEscrow is
+    // idempotent).
+    const escrowId = payment.data.metadata?.escrowId;
+    try {
+      if (escrowId) {
+        await fundEscrow(escrowId, payment.id);
+        logger.info("escrow_funded", {escrowId, paymentId: payment.id});
+      }
+    } catch (escrowError) {
+      const errorMsg = escrowError instanceof Error ?
+        escrowError.message : "unknown";
+      logger.error("escrow_funding_failed", errorMsg, {
+        escrowId,
+        paymentId: payment.id,
+      });
+      throw escrowError;
+    }
+
+    // Payment status and booking totals are written together
+    try {
+      const writeBatch = db.batch();
+      writeBatch.update(db.collection("payments").doc(payment.id), {
+        status: "confirmed",
+        confirmedAt: admin.firestore.FieldValue.serverTimestamp(),
+        paidAmount: event.amount,
+        gpoEventId: event.eventId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      writeBatch.update(db.collection("bookings").doc(payment.data.bookingId), {
+        // Booking totals are in the settlement currency
+        paidAmount: admin.firestore.FieldValue.increment(
+            payment.data.settlementAmount ?? event.amount
+        ),
+        paymentId: payment.id,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      await writeBatch.commit();
+      logger.info("booking_updated", {bookingId: payment.data.bookingId});
+    } catch (bookingError) {
+      const errorMsg = bookingError instanceof Error ?
+        bookingError.message : "unknown";
+      logger.error("booking_update_failed", errorMsg, {
+        bookingId: payment.data.bookingId,
+      });
+      throw bookingError;
+    }
+
+    break;
+  }
+
+  case "payment.failed": {
+    logger.stateTransition("payment", payment.id, payment.data.status, "failed");
+
+    await updatePaymentStatus(payment.id, "failed", {
+      failedAt: admin.firestore.FieldValue.serverTimestamp(),
+      failureReason: (event.rawData as {errorMessage?: string}).errorMessage || null,
+      gpoEventId: event.eventId,
+    });
+    break;
+  }
+
+  case "payment.expired": {
+    logger.stateTransition("payment", payment.id, payment.data.status, "expired");
+
+    await updatePaymentStatus(payment.id, "expired", {
+      expiredAt: admin.firestore.FieldValue.serverTimestamp(),
+      gpoEventId: event.eventId,
+    });
+    await releaseExpiredPayment(payment.id, payment.data, "provider");
+    break;
+  }
+
+  case "refund.succeeded": {
+    await completeRefund(payment, event);
+
+    // GPO reports the payment's cumulative refunded amount
+    logger.stateTransition("payment", payment.id, payment.data.status, "refunded");
+    await updatePaymentStatus(payment.id, "refunded", {
+      ...(payment.data.status !== "refunded" ? {statusBeforeRefund: payment.data.status} : {}),
+      refundedAt: admin.firestore.FieldValue.serverTimestamp(),
+      refundedAmount: event.amount,
+      gpoEventId: event.eventId,
+    });
+    break;
+  }
+
+  case "refund.failed": {
+    logger.warn("refund_failed", {
+      paymentId: payment.id,
+      eventId: event.eventId,
+      reason: event.reason,
+    });
+    await reopenFailedRefund(payment, event);
+    break;
+  }
+
+  default:
+    logger.warn("unhandled_event_type", {eventType: event.type});
+  }
+
+  // Mark webhook as processed
+  await markWebhookProcessed("emis_gpo", event.type, event.eventId, errorContext);
+
+  return {outcome: "processed", ...parsed};
+};
+
+/**
+ * EMIS GPO Webhook - HTTP Cloud Function
+ *
+ * Stores the callback, then processes it with handleEmisGpoWebhook.
+ * Failed callbacks are retried from the store (see webhookEventStore).
+ */
+export const emisGpoWebhook = functions
+    .region(REGION)
+    .runWith({
+      timeoutSeconds: 60,
+    })
+    .https.onRequest(
+        wrapHttpHandler(FUNCTION_NAME, (req, res, errorContext) =>
+          receiveWebhook(
+              {
+                source: "emis_gpo",
+                handler: handleEmisGpoWebhook,
+                storedHeaders: ["content-type", EMIS_GPO_SIGNATURE_HEADER],
+                verifySignature: verifyEmisGpoWebhook,
+              },
+              req,
+              res,
+              errorContext
+          )
+        )
+    );
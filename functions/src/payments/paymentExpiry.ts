@@ -0,0 +1,296 @@
+/**
+ * Payment Expiry - Scheduled Cloud Function
+ *
+ * Every payment intent gets an explicit expiresAt (getPaymentExpiresAt):
+ * - Multicaixa Express / card checkout: 30 minutes
+ * - RPS (ATM/reference): RPS_REFERENCE_VALIDITY_HOURS, also sent to
+ *   ProxyPay as the reference end date
+ *
+ * The booking points at the payment it is waiting on (pendingPayment).
+ *
+ * expireStalePayments runs every 15 minutes over pending payments past
+ * expiresAt (plus a grace period for late webhooks):
+ * 1. Expires the payment at the provider (deletes ProxyPay references).
+ *    A payment the provider reports as paid is left to webhooks and
+ *    reconciliation: it stays pending but is flagged (paidAtProviderAt)
+ *    and loses its expiresAt, so later sweeps no longer pick it up.
+ * 2. Marks the payment and its unfunded escrow expired
+ * 3. Clears the booking's pendingPayment so it can be paid again
+ * 4. Notifies the client to generate a new reference
+ *
+ * A new payment intent for the booking supersedes (expires) the pending
+ * one, so an old reference cannot be paid on top of the new one.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {expireEscrow} from "../finance/escrowService";
+import {formatCurrency} from "../common/currency";
+import {createLogger} from "../common/logger";
+import {getProviderByName, PaymentMethodInput} from "./providers";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const logger = createLogger("payment", "paymentExpiry");
+
+/**
+ * How long an RPS reference can be paid at ATMs / home banking
+ */
+const RPS_REFERENCE_VALIDITY_HOURS = 72;
+
+/**
+ * Payment intent lifetime per method
+ */
+const PAYMENT_EXPIRY_MINUTES: Record<PaymentMethodInput, number> = {
+  opg: 30,
+  gpo: 30,
+  stripe: 30,
+  rps: RPS_REFERENCE_VALIDITY_HOURS * 60,
+};
+
+/**
+ * Wait this long past expiresAt before sweeping (payments made just
+ * before expiry may be notified late)
+ */
+const EXPIRY_GRACE_MINUTES = 15;
+
+/**
+ * Payments expired per sweep (the next run picks up the rest)
+ */
+const SWEEP_BATCH_SIZE = 200;
+
+/**
+ * Why a payment expired
+ * - timeout: swept after expiresAt
+ * - provider: the provider reported it expired (webhook)
+ * - superseded: replaced by a new payment intent for the booking
+ */
+export type PaymentExpiryReason = "timeout" | "provider" | "superseded";
+
+/**
+ * When a payment intent created now expires
+ */
+export function getPaymentExpiresAt(method: PaymentMethodInput, from: Date = new Date()): Date {
+  return new Date(from.getTime() + PAYMENT_EXPIRY_MINUTES[method] * 60 * 1000);
+}
+
+/**
+ * Undo what an expired payment held: its escrow and the booking's
+ * pendingPayment. Notifies the client unless the payment was superseded.
+ * Called once the payment is marked expired (here or by a webhook).
+ */
+export async function releaseExpiredPayment(
+    paymentId: string,
+    payment: FirebaseFirestore.DocumentData,
+    reason: PaymentExpiryReason
+): Promise<void> {
+  const escrowId = payment.metadata?.escrowId;
+  if (escrowId) {
+    await expireEscrow(escrowId);
+  }
+
+  if (payment.bookingId) {
+    const bookingRef = db.collection("bookings").doc(payment.bookingId);
+    await db.runTransaction(async (transaction) => {
+      const bookingDoc = await transaction.get(bookingRef);
+      if (bookingDoc.data()?.pendingPayment?.paymentId !== paymentId) {
+        return;
+      }
+      transaction.update(bookingRef, {
+        pendingPayment: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+  }
+
+  await db.collection("audit_logs").add({
+    category: "finance",
+    eventType: "paymentExpired",
+    userId: "system",
+    resourceId: paymentId,
+    resourceType: "payment",
+    previousValue: "pending",
+    newValue: "expired",
+    description: `Payment ${paymentId} expired (${reason})`,
+    metadata: {
+      bookingId: payment.bookingId || null,
+      escrowId: escrowId || null,
+      provider: payment.provider || null,
+      referenceNumber: payment.referenceNumber || null,
+      reason,
+    },
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  if (reason === "superseded" || !payment.userId) {
+    return;
+  }
+
+  const amountLabel = formatCurrency(payment.amount || 0, payment.currency);
+  const isReference = payment.provider === "proxypay_rps";
+  await db.collection("notifications").add({
+    userId: payment.userId,
+    type: "payment_expired",
+    title: isReference ? "Referência Expirada ⏰" : "Pagamento Expirado ⏰",
+    body: isReference ?
+      `A referência de ${amountLabel} expirou sem pagamento. Gere uma nova referência para pagar a reserva.` :
+      `O pagamento de ${amountLabel} expirou. Inicie um novo pagamento para manter a reserva.`,
+    data: {
+      bookingId: payment.bookingId || "",
+      paymentId,
+      installmentId: payment.installmentId || "",
+    },
+    isRead: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Take a payment the provider reports as paid out of the expiry sweep
+ * It stays pending for the late webhook (or reconciliation's missing
+ * platform item) to confirm; without an expiresAt it no longer matches
+ * the sweep query, so it cannot crowd out the payments behind it.
+ */
+async function flagPaidAtProvider(
+    paymentRef: FirebaseFirestore.DocumentReference,
+    payment: FirebaseFirestore.DocumentData
+): Promise<void> {
+  const flagged = await db.runTransaction(async (transaction) => {
+    const latest = await transaction.get(paymentRef);
+    if (latest.data()?.status !== "pending") {
+      return false;
+    }
+    transaction.update(paymentRef, {
+      paidAtProviderAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  logger.warn("payment_paid_at_provider", {
+    paymentId: paymentRef.id,
+    provider: payment.provider,
+    providerPaymentId: payment.providerPaymentId,
+    flagged,
+  });
+
+  if (!flagged) {
+    return;
+  }
+
+  await db.collection("audit_logs").add({
+    category: "finance",
+    eventType: "paymentPaidAtProvider",
+    userId: "system",
+    resourceId: paymentRef.id,
+    resourceType: "payment",
+    previousValue: "pending",
+    newValue: "pending",
+    description: `Payment ${paymentRef.id} paid at provider but not confirmed - awaiting webhook or reconciliation`,
+    metadata: {
+      bookingId: payment.bookingId || null,
+      provider: payment.provider || null,
+      providerPaymentId: payment.providerPaymentId || null,
+      expiresAt: payment.expiresAt || null,
+    },
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Expire a pending payment at the provider and release what it held
+ *
+ * @returns "expired", "not_pending" if it already settled or expired, or
+ *   "paid" if the provider reports it as paid (flagged and left to
+ *   webhooks and reconciliation)
+ */
+export async function expirePayment(
+    paymentId: string,
+    reason: PaymentExpiryReason
+): Promise<"expired" | "not_pending" | "paid"> {
+  const paymentRef = db.collection("payments").doc(paymentId);
+  const paymentDoc = await paymentRef.get();
+  const payment = paymentDoc.data();
+
+  if (!payment || payment.status !== "pending") {
+    return "not_pending";
+  }
+
+  // Providers without an expiry API let their payments lapse on their own
+  const provider = getProviderByName(payment.provider);
+  if (provider.expirePayment && payment.providerPaymentId) {
+    const expired = await provider.expirePayment(payment.providerPaymentId);
+    if (!expired) {
+      await flagPaidAtProvider(paymentRef, payment);
+      return "paid";
+    }
+  }
+
+  // A webhook may have settled it while the provider was called
+  const marked = await db.runTransaction(async (transaction) => {
+    const latest = await transaction.get(paymentRef);
+    if (latest.data()?.status !== "pending") {
+      return false;
+    }
+    transaction.update(paymentRef, {
+      status: "expired",
+      expiredAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiryReason: reason,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (!marked) {
+    return "not_pending";
+  }
+
+  logger.stateTransition("payment", paymentId, "pending", "expired");
+
+  await releaseExpiredPayment(paymentId, payment, reason);
+
+  return "expired";
+}
+
+/**
+ * Expire Stale Payments - Scheduled Cloud Function
+ * Runs every 15 minutes
+ */
+export const expireStalePayments = functions
+    .region(REGION)
+    .pubsub
+    .schedule("*/15 * * * *")
+    .timeZone("Africa/Luanda")
+    .onRun(async () => {
+      const cutoff = admin.firestore.Timestamp.fromMillis(
+          Date.now() - EXPIRY_GRACE_MINUTES * 60 * 1000
+      );
+
+      const payments = await db
+          .collection("payments")
+          .where("status", "==", "pending")
+          .where("expiresAt", "<=", cutoff)
+          .orderBy("expiresAt")
+          .limit(SWEEP_BATCH_SIZE)
+          .get();
+
+      const counts = {expired: 0, not_pending: 0, paid: 0, failed: 0};
+
+      for (const paymentDoc of payments.docs) {
+        try {
+          counts[await expirePayment(paymentDoc.id, "timeout")]++;
+        } catch (error) {
+          // Provider unreachable - retried on the next run
+          counts.failed++;
+          logger.warn("payment_expiry_failed", {
+            paymentId: paymentDoc.id,
+            error: error instanceof Error ? error.message : "unknown",
+          });
+        }
+      }
+
+      logger.info("stale_payments_swept", {scanned: payments.size, ...counts});
+      return null;
+    });
@@ -0,0 +1,415 @@
+/**
+ * Payment Reversals - Chargebacks and Failed Refunds (SERVER-ONLY)
+ *
+ * Called by the provider webhooks (stripeWebhook, emisGpoWebhook) when
+ * money moves back after a payment settled.
+ *
+ * Chargebacks (Stripe disputes), stored on the payment (payment.chargeback):
+ * - chargeback.opened: escrow still held is frozen until the chargeback closes
+ * - chargeback.won: the freeze is lifted
+ * - chargeback.lost: held escrow is refunded to the client; after release
+ *   the supplier's payout becomes a receivable against their next payout
+ *   (see finance/escrowService chargebackEscrow)
+ *
+ * Refunds (refunds collection, created by refundEscrow/partialRefundEscrow
+ * and issued at the provider by refundIssuer), matched on the provider's
+ * refund ID:
+ * - refund.succeeded: the refund is completed
+ * - refund.failed: the provider rejected it after the fact - the refund is
+ *   reopened (pending again) so it is issued again
+ *
+ * Admins are notified (admin_notifications) of every chargeback, failed
+ * refund and refund webhook that matches no recorded refund.
+ */
+
+import * as admin from "firebase-admin";
+import {
+  chargebackEscrow,
+  freezeEscrowForChargeback,
+  unfreezeEscrowAfterChargeback,
+} from "../finance/escrowService";
+import {formatCurrency} from "../common/currency";
+import {createLogger} from "../common/logger";
+import {WebhookEvent} from "./providers";
+
+const db = admin.firestore();
+
+const logger = createLogger("payment", "paymentReversals");
+
+/**
+ * Payment matched by a webhook
+ */
+interface WebhookPayment {
+  id: string;
+  data: FirebaseFirestore.DocumentData;
+}
+
+async function notifyAdmins(
+    type: string,
+    title: string,
+    body: string,
+    data: Record<string, unknown>
+): Promise<void> {
+  await db.collection("admin_notifications").add({
+    type,
+    title,
+    body,
+    data,
+    isRead: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Find the refund a refund webhook is about, by the provider's refund ID
+ * stored when the refund was issued (see refundIssuer)
+ *
+ * Throws while a refund for the payment is being issued: the provider
+ * may report it before its ID is stored, and the webhook is retried.
+ */
+async function findRefund(
+    paymentId: string,
+    providerRefundId: string | undefined
+): Promise<FirebaseFirestore.QueryDocumentSnapshot | null> {
+  const snapshot = await db
+      .collection("refunds")
+      .where("paymentId", "==", paymentId)
+      .get();
+
+  const match = providerRefundId ?
+    snapshot.docs.find((doc) => doc.data().providerRefundId === providerRefundId) :
+    undefined;
+  if (match) {
+    return match;
+  }
+
+  const issuing = snapshot.docs.find((doc) => doc.data().status === "issuing");
+  if (issuing) {
+    throw new Error(`Refund ${issuing.id} for payment ${paymentId} is being issued`);
+  }
+
+  return null;
+}
+
+/**
+ * Notify admins of a refund webhook that matches no recorded refund
+ * (e.g. issued from the provider's dashboard, or a provider whose
+ * callbacks carry no refund ID) - it is left to them to reconcile
+ */
+async function notifyUnmatchedRefund(
+    payment: WebhookPayment,
+    event: WebhookEvent
+): Promise<void> {
+  logger.warn("refund_record_not_found", {
+    paymentId: payment.id,
+    eventId: event.eventId,
+    providerRefundId: event.providerRefundId || null,
+  });
+
+  const what = event.type === "refund.failed" ? "recusa de um reembolso" : "um reembolso";
+  await notifyAdmins(
+      "refund_unmatched",
+      "Reembolso não identificado",
+      `O fornecedor de pagamento reportou ${what} de ` +
+        `${formatCurrency(event.amount, event.currency)} do pagamento ${payment.id} ` +
+        "que não corresponde a nenhum reembolso registado. Verifique manualmente.",
+      {
+        paymentId: payment.id,
+        bookingId: payment.data.bookingId || null,
+        eventType: event.type,
+        eventId: event.eventId,
+        providerRefundId: event.providerRefundId || null,
+        amount: event.amount,
+        currency: event.currency,
+      }
+  );
+}
+
+// ==================== REFUNDS ====================
+
+/**
+ * Complete the refund a refund.succeeded webhook confirms, and mark the
+ * payment refunded (refundedAmount grows by this refund's amount)
+ *
+ * @returns true if this event completed the refund; false if it was
+ *   already completed or matches no recorded refund (admins notified)
+ */
+export async function completeRefund(
+    payment: WebhookPayment,
+    event: WebhookEvent
+): Promise<boolean> {
+  const refundDoc = await findRefund(payment.id, event.providerRefundId);
+  if (!refundDoc) {
+    await notifyUnmatchedRefund(payment, event);
+    return false;
+  }
+
+  const paymentRef = db.collection("payments").doc(payment.id);
+  const previousStatus = await db.runTransaction(async (transaction) => {
+    const [latestRefund, latestPayment] = await Promise.all([
+      transaction.get(refundDoc.ref),
+      transaction.get(paymentRef),
+    ]);
+    const status = latestRefund.data()?.status;
+    if (status === "completed") {
+      return null;
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const paymentStatus = latestPayment.data()?.status;
+    transaction.update(refundDoc.ref, {
+      status: "completed",
+      completedAt: now,
+    });
+    transaction.update(paymentRef, {
+      status: "refunded",
+      ...(paymentStatus !== "refunded" ? {statusBeforeRefund: paymentStatus} : {}),
+      refundedAt: now,
+      refundedAmount: admin.firestore.FieldValue.increment(event.amount),
+      updatedAt: now,
+    });
+    return status as string;
+  });
+
+  if (previousStatus === null) {
+    logger.idempotentSkip("completeRefund", refundDoc.id, "already_completed");
+    return false;
+  }
+
+  logger.stateTransition("refund", refundDoc.id, previousStatus, "completed", "provider");
+
+  return true;
+}
+
+/**
+ * Reopen a refund the provider rejected and notify admins
+ * The refund goes back to pending so refundIssuer issues it again, and a
+ * payment already marked refunded goes back to its previous status.
+ *
+ * @returns Refund ID, or null if no recorded refund matches (admins
+ *   notified) or it was already reopened
+ */
+export async function reopenFailedRefund(
+    payment: WebhookPayment,
+    event: WebhookEvent
+): Promise<string | null> {
+  const refundDoc = await findRefund(payment.id, event.providerRefundId);
+  if (!refundDoc) {
+    await notifyUnmatchedRefund(payment, event);
+    return null;
+  }
+
+  const failureReason = event.reason || "Recusado pelo fornecedor de pagamento";
+  const paymentRef = db.collection("payments").doc(payment.id);
+
+  const refund = await db.runTransaction(async (transaction) => {
+    const [latestRefund, latestPayment] = await Promise.all([
+      transaction.get(refundDoc.ref),
+      transaction.get(paymentRef),
+    ]);
+    const data = latestRefund.data();
+    // A redelivery, or the refund.updated / charge.refund.updated pair
+    if (!data || (data.status !== "issued" && data.status !== "completed")) {
+      return null;
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const paymentData = latestPayment.data();
+    transaction.update(refundDoc.ref, {
+      status: "pending",
+      providerRefundId: null,
+      failedProviderRefundIds: admin.firestore.FieldValue.arrayUnion(data.providerRefundId),
+      failureCount: admin.firestore.FieldValue.increment(1),
+      lastFailureReason: failureReason,
+      lastFailedAt: now,
+      reopenedAt: now,
+    });
+    transaction.update(paymentRef, {
+      ...(paymentData?.status === "refunded" ? {
+        status: paymentData.statusBeforeRefund || "confirmed",
+      } : {}),
+      // A refund that had completed no longer counts
+      ...(data.status === "completed" ? {
+        refundedAmount: admin.firestore.FieldValue.increment(-event.amount),
+      } : {}),
+      refundFailedAt: now,
+      refundFailureReason: failureReason,
+      updatedAt: now,
+    });
+    return data;
+  });
+
+  if (!refund) {
+    logger.idempotentSkip("reopenFailedRefund", refundDoc.id, "not_issued");
+    return null;
+  }
+
+  logger.stateTransition("refund", refundDoc.id, refund.status, "pending", "provider");
+
+  await notifyAdmins(
+      "refund_failed",
+      "Reembolso recusado",
+      `O reembolso de ${formatCurrency(refund.amount, refund.currency)} do pagamento ${payment.id} ` +
+        `foi recusado: ${failureReason}. O reembolso foi reaberto.`,
+      {
+        paymentId: payment.id,
+        refundId: refundDoc.id,
+        bookingId: payment.data.bookingId || null,
+        providerRefundId: event.providerRefundId || null,
+        amount: refund.amount,
+        currency: refund.currency,
+      }
+  );
+
+  await db.collection("audit_logs").add({
+    category: "finance",
+    eventType: "refundFailed",
+    userId: "system",
+    resourceId: refundDoc.id,
+    resourceType: "refund",
+    previousValue: refund.status,
+    newValue: "pending",
+    description: `Refund for payment ${payment.id} rejected by the provider and reopened`,
+    metadata: {
+      paymentId: payment.id,
+      providerRefundId: event.providerRefundId || null,
+      reason: failureReason,
+    },
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return refundDoc.id;
+}
+
+// ==================== CHARGEBACKS ====================
+
+/**
+ * Record a new chargeback and freeze the escrow it funded
+ */
+export async function openChargeback(
+    payment: WebhookPayment,
+    event: WebhookEvent
+): Promise<void> {
+  const chargebackId = event.providerChargebackId || event.eventId;
+  const reason = event.reason || "unknown";
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  await db.collection("payments").doc(payment.id).update({
+    chargeback: {
+      id: chargebackId,
+      status: "open",
+      reason,
+      amount: event.amount,
+      currency: event.currency,
+      openedAt: now,
+      closedAt: null,
+    },
+    updatedAt: now,
+  });
+
+  const escrowId = payment.data.metadata?.escrowId;
+  const escrowStatus = escrowId ?
+    await freezeEscrowForChargeback(escrowId, chargebackId, reason) :
+    null;
+
+  logger.info("chargeback_opened", {paymentId: payment.id, chargebackId, escrowId, escrowStatus});
+
+  await notifyAdmins(
+      "chargeback_opened",
+      "Pagamento contestado",
+      `O cliente contestou ${formatCurrency(event.amount, event.currency)} do pagamento ${payment.id} ` +
+        `(${reason}). ${escrowStatus === "disputed" ?
+          "O escrow foi congelado." :
+          "O escrow já não está retido - responda à contestação no Stripe."}`,
+      {
+        paymentId: payment.id,
+        chargebackId,
+        escrowId: escrowId || null,
+        bookingId: payment.data.bookingId || null,
+        amount: event.amount,
+        currency: event.currency,
+      }
+  );
+}
+
+/**
+ * Convert a provider amount (in the payment's presentment currency) to the
+ * settlement currency the escrow holds, at the rate the client paid
+ */
+function toSettlementAmount(payment: WebhookPayment, amount: number): number {
+  const {settlementAmount, amount: paymentAmount} = payment.data;
+  if (settlementAmount === undefined || settlementAmount === null || !paymentAmount) {
+    return amount;
+  }
+
+  return Math.round(amount * settlementAmount / paymentAmount);
+}
+
+/**
+ * Close a chargeback: lift the freeze when won, claw the money back when lost
+ */
+export async function closeChargeback(
+    payment: WebhookPayment,
+    event: WebhookEvent
+): Promise<void> {
+  const chargebackId = event.providerChargebackId || event.eventId;
+  const won = event.type === "chargeback.won";
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const escrowId = payment.data.metadata?.escrowId;
+
+  let outcome: string | null = null;
+  if (escrowId) {
+    outcome = won ?
+      await unfreezeEscrowAfterChargeback(escrowId, chargebackId) :
+      await chargebackEscrow(
+          escrowId,
+          chargebackId,
+          toSettlementAmount(payment, event.amount),
+          event.reason || "unknown"
+      );
+  }
+
+  await db.collection("payments").doc(payment.id).update({
+    ...(won ? {} : {status: "charged_back", chargedBackAt: now}),
+    "chargeback.id": chargebackId,
+    "chargeback.status": won ? "won" : "lost",
+    "chargeback.closedAt": now,
+    "updatedAt": now,
+  });
+
+  logger.info("chargeback_closed", {paymentId: payment.id, chargebackId, won, escrowId, outcome});
+
+  if (won) {
+    await notifyAdmins(
+        "chargeback_won",
+        "Contestação ganha",
+        `A contestação do pagamento ${payment.id} foi decidida a favor da plataforma.`,
+        {paymentId: payment.id, chargebackId, escrowId: escrowId || null}
+    );
+    return;
+  }
+
+  const body = {
+    refunded: "O escrow retido foi devolvido ao cliente.",
+    receivable: "O escrow já tinha sido libertado - o valor do fornecedor será descontado " +
+      "do seu próximo pagamento.",
+    manual_review: "O escrow não estava retido nem libertado - é necessária revisão manual.",
+  }[outcome as "refunded" | "receivable" | "manual_review"] ||
+    "Nenhum escrow associado - é necessária revisão manual.";
+
+  await notifyAdmins(
+      "chargeback_lost",
+      "Contestação perdida",
+      `${formatCurrency(event.amount, event.currency)} do pagamento ${payment.id} ` +
+        `foram devolvidos ao cliente pelo banco. ${body}`,
+      {
+        paymentId: payment.id,
+        chargebackId,
+        escrowId: escrowId || null,
+        bookingId: payment.data.bookingId || null,
+        outcome: outcome || "manual_review",
+        amount: event.amount,
+        currency: event.currency,
+      }
+  );
+}
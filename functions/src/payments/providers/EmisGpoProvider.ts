@@ -0,0 +1,384 @@
+/**
+ * EMIS GPO Payment Provider
+ *
+ * Direct integration with the EMIS online payment gateway (GPO) for
+ * Multicaixa Express, without going through ProxyPay.
+ *
+ * Flow:
+ * 1. createPaymentIntent requests a frame token; the client opens the
+ *    returned paymentUrl and approves the payment in the Multicaixa
+ *    Express app
+ * 2. EMIS calls back emisGpoWebhook with the final status (signed)
+ * 3. confirmPayment/getPaymentStatus poll the transaction as a fallback
+ *
+ * Required Environment Variables:
+ * - EMIS_GPO_FRAME_TOKEN: Merchant frame token issued by EMIS
+ * - EMIS_GPO_API_KEY: Merchant API key (status, refunds, settlements)
+ * - EMIS_GPO_WEBHOOK_SECRET: Callback signing secret
+ *
+ * Optional:
+ * - EMIS_GPO_API_URL: Gateway URL (defaults to the local mock server,
+ *   see mock/emisGpoMockServer.ts, in the emulator)
+ * - EMIS_GPO_WEBHOOK_URL: Callback URL sent with each payment
+ */
+
+import * as crypto from "crypto";
+import {
+  PaymentProvider,
+  CreatePaymentParams,
+  CreatePaymentResult,
+  ConfirmPaymentParams,
+  RefundPaymentParams,
+  RefundResult,
+  ListTransactionsParams,
+  ProviderTransaction,
+  WebhookRequest,
+  WebhookEvent,
+  WebhookEventType,
+} from "./PaymentProvider";
+import {createLogger} from "../../common/logger";
+
+const logger = createLogger("payment", "EmisGpoProvider");
+
+/**
+ * Header carrying the callback HMAC-SHA256 (hex) of the raw body
+ */
+export const EMIS_GPO_SIGNATURE_HEADER = "x-emis-signature";
+
+// EMIS GPO configuration from environment
+const EMIS_GPO_CONFIG = {
+  prodUrl: "https://pagamentonline.emis.co.ao",
+  mockUrl: "http://localhost:4010",
+  apiUrl: process.env.EMIS_GPO_API_URL || "",
+  frameToken: process.env.EMIS_GPO_FRAME_TOKEN || "",
+  apiKey: process.env.EMIS_GPO_API_KEY || "",
+  webhookSecret: process.env.EMIS_GPO_WEBHOOK_SECRET || "",
+  useMock: process.env.FUNCTIONS_EMULATOR === "true",
+  webhookCallbackUrl: process.env.EMIS_GPO_WEBHOOK_URL ||
+    "https://us-central1-boda-connect-49eb9.cloudfunctions.net/emisGpoWebhook",
+};
+
+/**
+ * GPO references are at most 15 alphanumeric characters
+ */
+const MAX_REFERENCE_LENGTH = 15;
+
+/**
+ * Transaction as returned by the GPO API and sent in callbacks
+ */
+interface GpoTransaction {
+  id: string;
+  reference: string;
+  amount: number | string;
+  currency?: string;
+  status: string;
+  transactionId?: string;
+  refundedAmount?: number | string;
+  errorMessage?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Check if EMIS GPO is configured
+ */
+export function isEmisGpoConfigured(): boolean {
+  return !!EMIS_GPO_CONFIG.frameToken;
+}
+
+/**
+ * Compute the callback signature for a raw body
+ */
+export function signEmisGpoPayload(rawBody: string | Buffer, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+/**
+ * Map GPO transaction status to webhook event type
+ */
+function mapEventType(status: string): WebhookEventType {
+  switch (status?.toUpperCase()) {
+  case "ACCEPTED":
+    return "payment.confirmed";
+  case "EXPIRED":
+    return "payment.expired";
+  case "REFUNDED":
+    return "refund.succeeded";
+  case "REFUND_REJECTED":
+    return "refund.failed";
+  case "REJECTED":
+  default:
+    return "payment.failed";
+  }
+}
+
+/**
+ * EMIS GPO Provider (Multicaixa Express, direct)
+ */
+export class EmisGpoProvider implements PaymentProvider {
+  readonly name = "emis_gpo";
+
+  private getBaseUrl(): string {
+    if (EMIS_GPO_CONFIG.apiUrl) {
+      return EMIS_GPO_CONFIG.apiUrl.replace(/\/$/, "");
+    }
+    return EMIS_GPO_CONFIG.useMock ? EMIS_GPO_CONFIG.mockUrl : EMIS_GPO_CONFIG.prodUrl;
+  }
+
+  private getAuthHeader(): string {
+    return `Bearer ${EMIS_GPO_CONFIG.apiKey}`;
+  }
+
+  async createPaymentIntent(params: CreatePaymentParams): Promise<CreatePaymentResult> {
+    if (params.currency !== "AOA") {
+      throw new Error("EMIS GPO only accepts AOA payments");
+    }
+
+    logger.info("creating_emis_gpo", {
+      reference: params.reference,
+      amount: params.amount,
+    });
+
+    const response = await fetch(`${this.getBaseUrl()}/online-payment-gateway/portal/frameToken`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Accept": "application/json",
+      },
+      body: JSON.stringify({
+        reference: params.reference.replace(/[^A-Za-z0-9]/g, "").substring(0, MAX_REFERENCE_LENGTH),
+        amount: params.amount.toFixed(2),
+        token: EMIS_GPO_CONFIG.frameToken,
+        mobile: "PAYMENT",
+        // Card payments routed here on failover use Multicaixa cards
+        card: params.paymentMethod === "stripe" ? "PAYMENT" : "DISABLED",
+        qrCode: "PAYMENT",
+        callbackUrl: EMIS_GPO_CONFIG.webhookCallbackUrl,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("emis_gpo_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`EMIS GPO API error: ${response.status}`);
+    }
+
+    const data = await response.json() as {id: string; timeToLive?: number};
+
+    logger.info("emis_gpo_created", {
+      id: data.id,
+      reference: params.reference,
+    });
+
+    return {
+      providerPaymentId: data.id,
+      paymentUrl: `${this.getBaseUrl()}/online-payment-gateway/portal/?token=${encodeURIComponent(data.id)}`,
+      providerData: {gpoToken: data.id},
+    };
+  }
+
+  /**
+   * Get the current status of a transaction (used by confirmPayment)
+   */
+  async getPaymentStatus(providerPaymentId: string): Promise<{status: string; paidAmount?: number}> {
+    const transaction = await this.getTransaction(providerPaymentId);
+
+    return {
+      status: transaction.status,
+      paidAmount: transaction.status.toUpperCase() === "ACCEPTED" ?
+        Number(transaction.amount) || 0 :
+        undefined,
+    };
+  }
+
+  async confirmPayment(params: ConfirmPaymentParams): Promise<void> {
+    // GPO payments are approved by the client in the app; check the outcome
+    const transaction = await this.getTransaction(params.providerPaymentId);
+
+    logger.info("emis_gpo_confirm_called", {
+      providerPaymentId: params.providerPaymentId,
+      status: transaction.status,
+    });
+
+    if (transaction.status.toUpperCase() !== "ACCEPTED") {
+      throw new Error(`EMIS GPO payment not accepted: ${transaction.status}`);
+    }
+    if (Number(transaction.amount) !== params.amount) {
+      throw new Error(`EMIS GPO amount mismatch: ${transaction.amount} != ${params.amount}`);
+    }
+  }
+
+  /**
+   * Frame tokens lapse on their own after timeToLive - only check that
+   * the client did not pay in the meantime
+   */
+  async expirePayment(providerPaymentId: string): Promise<boolean> {
+    const transaction = await this.getTransaction(providerPaymentId);
+    const status = transaction.status.toUpperCase();
+    return status !== "ACCEPTED" && status !== "REFUNDED";
+  }
+
+  async refundPayment(params: RefundPaymentParams): Promise<RefundResult> {
+    logger.info("creating_emis_gpo_refund", {
+      providerPaymentId: params.providerPaymentId,
+      amount: params.amount,
+    });
+
+    const response = await fetch(
+        `${this.getBaseUrl()}/online-payment-gateway/transactions/${encodeURIComponent(params.providerPaymentId)}/refund`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Accept": "application/json",
+            "Authorization": this.getAuthHeader(),
+          },
+          body: JSON.stringify({
+            amount: params.amount.toFixed(2),
+            reason: params.reason?.substring(0, 100),
+          }),
+        }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("emis_gpo_refund_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`EMIS GPO API error: ${response.status}`);
+    }
+
+    const data = await response.json() as {id: string; status: string; amount: number | string};
+
+    logger.info("emis_gpo_refund_created", {
+      refundId: data.id,
+      status: data.status,
+    });
+
+    const status = data.status?.toUpperCase();
+    return {
+      providerRefundId: data.id,
+      status: status === "REFUNDED" ? "succeeded" : status === "REJECTED" ? "failed" : "pending",
+      amount: Number(data.amount) || params.amount,
+    };
+  }
+
+  async listTransactions(params: ListTransactionsParams): Promise<ProviderTransaction[]> {
+    const query = new URLSearchParams({
+      status: "ACCEPTED",
+      from: params.from.toISOString(),
+      to: params.to.toISOString(),
+    });
+
+    const response = await fetch(`${this.getBaseUrl()}/online-payment-gateway/transactions?${query}`, {
+      method: "GET",
+      headers: {
+        "Accept": "application/json",
+        "Authorization": this.getAuthHeader(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("emis_gpo_list_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`EMIS GPO API error: ${response.status}`);
+    }
+
+    const data = await response.json() as GpoTransaction[];
+
+    return data.map((transaction) => ({
+      providerTransactionId: transaction.transactionId || transaction.id,
+      providerPaymentId: transaction.id,
+      reference: transaction.reference || "",
+      amount: Number(transaction.amount) || 0,
+      currency: transaction.currency || "AOA",
+      settledAt: transaction.updatedAt ? new Date(transaction.updatedAt) : params.to,
+    }));
+  }
+
+  async verifyWebhookSignature(req: WebhookRequest): Promise<boolean> {
+    const signature = req.headers[EMIS_GPO_SIGNATURE_HEADER];
+
+    if (!signature || !EMIS_GPO_CONFIG.webhookSecret) {
+      logger.warn("emis_gpo_webhook_missing_signature");
+      return false;
+    }
+
+    // The signature covers the exact bytes sent - never re-serialize the body
+    if (!req.rawBody) {
+      logger.warn("emis_gpo_webhook_missing_raw_body");
+      return false;
+    }
+
+    const expected = Buffer.from(signEmisGpoPayload(req.rawBody, EMIS_GPO_CONFIG.webhookSecret));
+    const provided = Buffer.from(Array.isArray(signature) ? signature[0] : signature);
+
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  async parseWebhook(req: WebhookRequest): Promise<WebhookEvent> {
+    const body = req.body as GpoTransaction;
+
+    if (!body?.id || !body.status) {
+      throw new Error("Invalid EMIS GPO callback payload");
+    }
+
+    logger.info("emis_gpo_webhook_received", {
+      id: body.id,
+      reference: body.reference,
+      status: body.status,
+    });
+
+    const type = mapEventType(body.status);
+    const amount = type === "refund.succeeded" || type === "refund.failed" ?
+      Number(body.refundedAmount) || 0 :
+      Number(body.amount) || 0;
+
+    // One callback per transaction status (and cumulative refund); retries reuse the same ID
+    const eventId = `gpo_${body.transactionId || body.id}_${body.status.toUpperCase()}` +
+      (body.refundedAmount ? `_${body.refundedAmount}` : "");
+
+    return {
+      type,
+      eventId,
+      providerPaymentId: body.id,
+      reference: body.reference || "",
+      amount,
+      currency: body.currency || "AOA",
+      rawData: body,
+      timestamp: body.updatedAt ? new Date(body.updatedAt) : new Date(),
+      reason: body.errorMessage,
+    };
+  }
+
+  private async getTransaction(providerPaymentId: string): Promise<GpoTransaction> {
+    const response = await fetch(
+        `${this.getBaseUrl()}/online-payment-gateway/transactions/${encodeURIComponent(providerPaymentId)}`,
+        {
+          method: "GET",
+          headers: {
+            "Accept": "application/json",
+            "Authorization": this.getAuthHeader(),
+          },
+        }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("emis_gpo_status_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`EMIS GPO API error: ${response.status}`);
+    }
+
+    return await response.json() as GpoTransaction;
+  }
+}
+
+// Singleton instance
+let emisGpoProviderInstance: EmisGpoProvider | null = null;
+
+/**
+ * Get EMIS GPO provider instance
+ */
+export function getEmisGpoProvider(): EmisGpoProvider {
+  if (!emisGpoProviderInstance) {
+    emisGpoProviderInstance = new EmisGpoProvider();
+  }
+  return emisGpoProviderInstance;
+}
@@ -3,11 +3,23 @@
  *
  * Abstracts payment processing to support multiple providers:
  * - ProxyPay (production - Angola)
+ * - EMIS GPO (Multicaixa Express, direct - Angola)
  * - Stripe (test - international)
  *
  * All providers implement this interface for consistent handling.
  */
 
+/**
+ * A saved card to charge instead of collecting card details again
+ * (saved Multicaixa numbers are passed as customerPhone)
+ */
+export interface SavedPaymentMethodParams {
+  /** Provider's customer ID (Stripe cus_...) */
+  customerId: string;
+  /** Provider's payment method ID (Stripe pm_...) */
+  paymentMethodId: string;
+}
+
 /**
  * Parameters for creating a payment intent
  */
@@ -38,6 +50,12 @@ export interface CreatePaymentParams {
   successUrl?: string;
   /** URL to redirect after cancelled payment (for hosted checkout) */
   cancelUrl?: string;
+  /** Provider's customer ID to attach the payment to */
+  customerId?: string;
+  /** Keep the payment method for future payments (requires customerId) */
+  savePaymentMethod?: boolean;
+  /** Pay with a saved method - no hosted checkout unless the bank asks for 3-D Secure */
+  savedPaymentMethod?: SavedPaymentMethodParams;
   /** Additional metadata */
   metadata?: Record<string, string>;
 }
@@ -50,7 +68,7 @@ export interface CreatePaymentResult {
   providerPaymentId: string;
   /** URL for hosted checkout (Stripe) */
   checkoutUrl?: string;
-  /** URL for mobile payment (ProxyPay OPG) */
+  /** URL for mobile payment (ProxyPay OPG, EMIS GPO) */
   paymentUrl?: string;
   /** Reference number for ATM/bank payment (ProxyPay RPS) */
   referenceNumber?: string;
@@ -88,6 +106,13 @@ export interface RefundPaymentParams {
   currency: string;
   /** Reason for refund */
   reason?: string;
+  /** Our refund ID (refunds/{id}) */
+  refundId?: string;
+  /**
+   * Key the provider dedupes the request on, where it supports one
+   * (a retried request returns the refund the first one created)
+   */
+  idempotencyKey?: string;
 }
 
 /**
@@ -102,6 +127,58 @@ export interface RefundResult {
   amount: number;
 }
 
+/**
+ * Parameters for listing settled transactions
+ */
+export interface ListTransactionsParams {
+  /** Start of the settlement window (inclusive) */
+  from: Date;
+  /** End of the settlement window (exclusive) */
+  to: Date;
+}
+
+/**
+ * A transaction the provider reports as settled
+ */
+export interface ProviderTransaction {
+  /** Provider's transaction ID (unique per settlement) */
+  providerTransactionId: string;
+  /** Provider's payment/session ID */
+  providerPaymentId: string;
+  /** Our internal reference, when the provider echoes it */
+  reference: string;
+  /** RPS reference number (ProxyPay RPS only) */
+  referenceNumber?: string;
+  /** Amount settled */
+  amount: number;
+  /** Currency */
+  currency: string;
+  /** When the provider settled it */
+  settledAt: Date;
+}
+
+/**
+ * The payment method was declined (card declined, insufficient funds, ...)
+ * A customer problem, not a provider failure - never triggers failover.
+ */
+export class PaymentDeclinedError extends Error {
+  constructor(message: string, readonly declineCode: string | null = null) {
+    super(message);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+/**
+ * The webhook is for an event type we do not handle (or deliberately ignore)
+ * The only parse failure that is safe to skip - anything else is retried.
+ */
+export class UnhandledWebhookEventError extends Error {
+  constructor(message: string, readonly eventType: string) {
+    super(message);
+    this.name = "UnhandledWebhookEventError";
+  }
+}
+
 /**
  * Webhook event types we handle
  */
@@ -110,7 +187,10 @@ export type WebhookEventType =
   | "payment.failed"
   | "payment.expired"
   | "refund.succeeded"
-  | "refund.failed";
+  | "refund.failed"
+  | "chargeback.opened"
+  | "chargeback.won"
+  | "chargeback.lost";
 
 /**
  * Parsed webhook event
@@ -132,6 +212,12 @@ export interface WebhookEvent {
   rawData: unknown;
   /** Timestamp of the event */
   timestamp: Date;
+  /** Provider's refund ID (refund.* events) */
+  providerRefundId?: string;
+  /** Provider's chargeback ID (chargeback.* events) */
+  providerChargebackId?: string;
+  /** Why the refund failed or the chargeback was opened */
+  reason?: string;
 }
 
 /**
@@ -141,6 +227,11 @@ export interface WebhookRequest {
   body: unknown;
   headers: Record<string, string | string[] | undefined>;
   rawBody?: Buffer | string;
+  /**
+   * When the request was delivered (defaults to now). Replays of stored
+   * webhooks pass the delivery time so timestamped signatures still verify.
+   */
+  receivedAt?: Date;
 }
 
 /**
@@ -162,11 +253,23 @@ export interface PaymentProvider {
    */
   confirmPayment(params: ConfirmPaymentParams): Promise<void>;
 
+  /**
+   * Expire a pending payment so it can no longer be paid (e.g. delete an
+   * RPS reference). Returns false if the provider reports it as paid.
+   * Providers whose payments lapse on their own do not implement this.
+   */
+  expirePayment?(providerPaymentId: string): Promise<boolean>;
+
   /**
    * Refund a payment (full or partial)
    */
   refundPayment(params: RefundPaymentParams): Promise<RefundResult>;
 
+  /**
+   * List transactions settled in a time window (used by reconciliation)
+   */
+  listTransactions(params: ListTransactionsParams): Promise<ProviderTransaction[]>;
+
   /**
    * Parse and validate incoming webhook
    */
@@ -181,11 +284,11 @@ export interface PaymentProvider {
 /**
  * Available payment providers
  */
-export type PaymentProviderType = "proxypay_opg" | "proxypay_rps" | "stripe";
+export type PaymentProviderType = "proxypay_opg" | "proxypay_rps" | "emis_gpo" | "stripe";
 
 /**
  * Check if a provider type is valid
  */
 export function isValidProviderType(type: string): type is PaymentProviderType {
-  return ["proxypay_opg", "proxypay_rps", "stripe"].includes(type);
+  return ["proxypay_opg", "proxypay_rps", "emis_gpo", "stripe"].includes(type);
 }
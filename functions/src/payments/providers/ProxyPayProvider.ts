@@ -18,6 +18,8 @@ import {
   ConfirmPaymentParams,
   RefundPaymentParams,
   RefundResult,
+  ListTransactionsParams,
+  ProviderTransaction,
   WebhookRequest,
   WebhookEvent,
   WebhookEventType,
@@ -132,6 +134,45 @@ export class ProxyPayOPGProvider implements PaymentProvider {
     throw new Error("ProxyPay OPG refunds must be processed manually");
   }
 
+  async listTransactions(params: ListTransactionsParams): Promise<ProviderTransaction[]> {
+    const query = new URLSearchParams({
+      status: "paid",
+      from: params.from.toISOString(),
+      to: params.to.toISOString(),
+    });
+
+    const response = await fetch(`${this.getBaseUrl()}/opg/v1/payments?${query}`, {
+      method: "GET",
+      headers: {
+        "Accept": "application/vnd.proxypay.v2+json",
+        "Authorization": this.getAuthHeader(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("proxypay_opg_list_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`ProxyPay OPG API error: ${response.status}`);
+    }
+
+    const data = await response.json() as Array<{
+      id: string;
+      reference_id?: string;
+      amount: string | number;
+      transaction_id?: string;
+      updated_at?: string;
+    }>;
+
+    return data.map((payment) => ({
+      providerTransactionId: payment.transaction_id || payment.id,
+      providerPaymentId: payment.id,
+      reference: payment.reference_id || "",
+      amount: Number(payment.amount) || 0,
+      currency: "AOA",
+      settledAt: payment.updated_at ? new Date(payment.updated_at) : params.to,
+    }));
+  }
+
   async verifyWebhookSignature(_req: WebhookRequest): Promise<boolean> {
     // ProxyPay uses IP whitelisting instead of signatures
     // Verification is done at the network level
@@ -248,6 +289,33 @@ export class ProxyPayRPSProvider implements PaymentProvider {
     });
   }
 
+  /**
+   * Delete the reference so it can no longer be paid at ATMs
+   * A reference that was already paid or deleted is gone too (404).
+   */
+  async expirePayment(providerPaymentId: string): Promise<boolean> {
+    const response = await fetch(`${this.getBaseUrl()}/references/${providerPaymentId}`, {
+      method: "DELETE",
+      headers: {
+        "Accept": "application/vnd.proxypay.v2+json",
+        "Authorization": this.getAuthHeader(),
+      },
+    });
+
+    if (!response.ok && response.status !== 404) {
+      const errorData = await response.text();
+      logger.error("proxypay_rps_delete_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`ProxyPay RPS API error: ${response.status}`);
+    }
+
+    logger.info("proxypay_rps_reference_deleted", {
+      id: providerPaymentId,
+      alreadyGone: response.status === 404,
+    });
+
+    return true;
+  }
+
   async refundPayment(params: RefundPaymentParams): Promise<RefundResult> {
     // ProxyPay RPS doesn't have a direct refund API
     logger.warn("proxypay_rps_refund_not_supported", {
@@ -258,6 +326,47 @@ export class ProxyPayRPSProvider implements PaymentProvider {
     throw new Error("ProxyPay RPS refunds must be processed manually");
   }
 
+  async listTransactions(params: ListTransactionsParams): Promise<ProviderTransaction[]> {
+    const query = new URLSearchParams({
+      from: params.from.toISOString(),
+      to: params.to.toISOString(),
+    });
+
+    // Settled payments history (includes already acknowledged payments)
+    const response = await fetch(`${this.getBaseUrl()}/payments/history?${query}`, {
+      method: "GET",
+      headers: {
+        "Accept": "application/vnd.proxypay.v2+json",
+        "Authorization": this.getAuthHeader(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      logger.error("proxypay_rps_list_error", `API error: ${response.status}`, {details: errorData});
+      throw new Error(`ProxyPay RPS API error: ${response.status}`);
+    }
+
+    const data = await response.json() as Array<{
+      id: string | number;
+      reference: string | number;
+      reference_id?: string;
+      amount: string | number;
+      datetime: string;
+      transaction_id?: string;
+    }>;
+
+    return data.map((payment) => ({
+      providerTransactionId: String(payment.transaction_id || payment.id),
+      providerPaymentId: String(payment.id),
+      reference: payment.reference_id || "",
+      referenceNumber: String(payment.reference),
+      amount: Number(payment.amount) || 0,
+      currency: "AOA",
+      settledAt: new Date(payment.datetime),
+    }));
+  }
+
   async verifyWebhookSignature(_req: WebhookRequest): Promise<boolean> {
     // ProxyPay uses IP whitelisting instead of signatures
     return true;
@@ -6,6 +6,9 @@
  *
  * Features:
  * - Stripe Checkout Sessions (hosted payment page)
+ * - Saved cards: Checkout can keep the card on the client's Stripe
+ *   customer; later payments charge it directly with a PaymentIntent
+ *   ("one-tap", marked with metadata.oneTap) and only redirect for 3-D Secure
  * - No raw card handling (PCI compliant)
  * - Webhook verification
  * - Refund support
@@ -25,14 +28,32 @@ import {
   ConfirmPaymentParams,
   RefundPaymentParams,
   RefundResult,
+  ListTransactionsParams,
+  ProviderTransaction,
   WebhookRequest,
   WebhookEvent,
   WebhookEventType,
+  PaymentDeclinedError,
+  UnhandledWebhookEventError,
+  SavedPaymentMethodParams,
 } from "./PaymentProvider";
 import {createLogger} from "../../common/logger";
 
 const logger = createLogger("payment", "StripeProvider");
 
+/**
+ * Card details of a payment method, safe to show to the client
+ */
+export interface StripeCardDetails {
+  customerId: string;
+  paymentMethodId: string;
+  fingerprint: string | null;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
 // Stripe configuration from environment
 const STRIPE_CONFIG = {
   secretKey: process.env.STRIPE_SECRET_KEY || "",
@@ -61,6 +82,10 @@ export class StripeProvider implements PaymentProvider {
    * Stripe handles the entire payment UI.
    */
   async createPaymentIntent(params: CreatePaymentParams): Promise<CreatePaymentResult> {
+    if (params.savedPaymentMethod) {
+      return this.createSavedCardPayment(params, params.savedPaymentMethod);
+    }
+
     logger.info("creating_stripe_checkout", {
       reference: params.reference,
       amount: params.amount,
@@ -95,7 +120,13 @@ export class StripeProvider implements PaymentProvider {
       success_url: params.successUrl || `${this.getBaseUrl()}/payment/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: params.cancelUrl || `${this.getBaseUrl()}/payment/cancelled`,
       client_reference_id: params.reference,
-      customer_email: params.customerEmail,
+      // Checkout takes either an existing customer or an email
+      ...(params.customerId ?
+        {customer: params.customerId} :
+        {customer_email: params.customerEmail}),
+      ...(params.savePaymentMethod && params.customerId ?
+        {payment_intent_data: {setup_future_usage: "on_session" as const}} :
+        {}),
       expires_at: Math.floor(params.expiresAt.getTime() / 1000),
       metadata: {
         reference: params.reference,
@@ -121,6 +152,135 @@ export class StripeProvider implements PaymentProvider {
     };
   }
 
+  /**
+   * Charge a saved card directly (one-tap payment)
+   *
+   * The PaymentIntent is confirmed immediately. If the bank asks for
+   * 3-D Secure, the returned checkoutUrl is the authentication page;
+   * otherwise there is nothing to redirect to and the webhook confirms it.
+   */
+  private async createSavedCardPayment(
+      params: CreatePaymentParams,
+      saved: SavedPaymentMethodParams
+  ): Promise<CreatePaymentResult> {
+    logger.info("creating_stripe_saved_card_payment", {
+      reference: params.reference,
+      amount: params.amount,
+      currency: params.currency,
+    });
+
+    let paymentIntent: Stripe.PaymentIntent;
+    try {
+      paymentIntent = await this.stripe.paymentIntents.create({
+        amount: params.amount,
+        currency: params.currency.toLowerCase(),
+        customer: saved.customerId,
+        payment_method: saved.paymentMethodId,
+        payment_method_types: ["card"],
+        confirm: true,
+        return_url: params.successUrl || `${this.getBaseUrl()}/payment/success`,
+        description: params.description || "Boda Connect Payment",
+        metadata: {
+          reference: params.reference,
+          bookingId: params.bookingId,
+          userId: params.userId,
+          oneTap: "true",
+          ...params.metadata,
+        },
+      }, {
+        idempotencyKey: params.reference,
+      });
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeCardError) {
+        logger.warn("stripe_saved_card_declined", {
+          reference: params.reference,
+          declineCode: error.decline_code || error.code || null,
+        });
+        throw new PaymentDeclinedError(error.message, error.decline_code || error.code || null);
+      }
+      throw error;
+    }
+
+    logger.info("stripe_saved_card_payment_created", {
+      paymentIntentId: paymentIntent.id,
+      reference: params.reference,
+      status: paymentIntent.status,
+    });
+
+    return {
+      providerPaymentId: paymentIntent.id,
+      checkoutUrl: paymentIntent.next_action?.redirect_to_url?.url || undefined,
+      providerData: {
+        paymentIntent: paymentIntent.id,
+        paymentIntentStatus: paymentIntent.status,
+      },
+    };
+  }
+
+  /**
+   * Create a Stripe customer for a client (holds their saved cards)
+   */
+  async createCustomer(params: {userId: string; email?: string; name?: string}): Promise<string> {
+    const customer = await this.stripe.customers.create({
+      email: params.email,
+      name: params.name,
+      metadata: {userId: params.userId},
+    }, {
+      idempotencyKey: `customer_${params.userId}`,
+    });
+
+    logger.info("stripe_customer_created", {customerId: customer.id, userId: params.userId});
+
+    return customer.id;
+  }
+
+  /**
+   * Card used for a payment, if it was kept on the customer
+   * Returns null for payments without a customer or a card.
+   */
+  async getPaymentCard(providerPaymentId: string): Promise<StripeCardDetails | null> {
+    let paymentIntentId = providerPaymentId;
+    if (providerPaymentId.startsWith("cs_")) {
+      const session = await this.stripe.checkout.sessions.retrieve(providerPaymentId);
+      if (!session.payment_intent) {
+        return null;
+      }
+      paymentIntentId = typeof session.payment_intent === "string" ?
+        session.payment_intent :
+        session.payment_intent.id;
+    }
+
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId, {
+      expand: ["payment_method"],
+    });
+    const paymentMethod = paymentIntent.payment_method as Stripe.PaymentMethod | null;
+    const customerId = typeof paymentIntent.customer === "string" ?
+      paymentIntent.customer :
+      paymentIntent.customer?.id;
+
+    if (!customerId || !paymentMethod?.card) {
+      return null;
+    }
+
+    return {
+      customerId,
+      paymentMethodId: paymentMethod.id,
+      fingerprint: paymentMethod.card.fingerprint || null,
+      brand: paymentMethod.card.brand,
+      last4: paymentMethod.card.last4,
+      expMonth: paymentMethod.card.exp_month,
+      expYear: paymentMethod.card.exp_year,
+    };
+  }
+
+  /**
+   * Remove a saved card from its customer
+   */
+  async detachPaymentMethod(paymentMethodId: string): Promise<void> {
+    await this.stripe.paymentMethods.detach(paymentMethodId);
+    logger.info("stripe_payment_method_detached", {paymentMethodId});
+  }
+
   /**
    * Confirm payment - Stripe handles this via webhooks
    * This method is a no-op for Stripe as confirmation happens via webhook
@@ -131,6 +291,15 @@ export class StripeProvider implements PaymentProvider {
       paymentId: params.paymentId,
     });
 
+    // One-tap payments are PaymentIntents, not Checkout Sessions
+    if (params.providerPaymentId.startsWith("pi_")) {
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(params.providerPaymentId);
+      if (paymentIntent.status !== "succeeded") {
+        throw new Error(`Payment not confirmed. Status: ${paymentIntent.status}`);
+      }
+      return;
+    }
+
     // Stripe payments are confirmed via webhook
     // This is called for manual verification if needed
     const session = await this.stripe.checkout.sessions.retrieve(params.providerPaymentId);
@@ -145,6 +314,37 @@ export class StripeProvider implements PaymentProvider {
     });
   }
 
+  /**
+   * Expire an open Checkout Session, or cancel a one-tap PaymentIntent
+   * waiting for 3-D Secure
+   */
+  async expirePayment(providerPaymentId: string): Promise<boolean> {
+    if (providerPaymentId.startsWith("pi_")) {
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(providerPaymentId);
+      if (paymentIntent.status === "succeeded" || paymentIntent.status === "processing") {
+        return false;
+      }
+      if (paymentIntent.status !== "canceled") {
+        await this.stripe.paymentIntents.cancel(providerPaymentId, {
+          cancellation_reason: "abandoned",
+        });
+      }
+      return true;
+    }
+
+    const session = await this.stripe.checkout.sessions.retrieve(providerPaymentId);
+    if (session.status === "complete") {
+      return false;
+    }
+    if (session.status === "open") {
+      await this.stripe.checkout.sessions.expire(providerPaymentId);
+    }
+
+    logger.info("stripe_payment_expired", {providerPaymentId});
+
+    return true;
+  }
+
   /**
    * Refund a Stripe payment
    */
@@ -155,16 +355,19 @@ export class StripeProvider implements PaymentProvider {
       reason: params.reason,
     });
 
-    // Get the checkout session to find the payment intent
-    const session = await this.stripe.checkout.sessions.retrieve(params.providerPaymentId);
+    let paymentIntentId = params.providerPaymentId;
+    if (!paymentIntentId.startsWith("pi_")) {
+      // Get the checkout session to find the payment intent
+      const session = await this.stripe.checkout.sessions.retrieve(params.providerPaymentId);
 
-    if (!session.payment_intent) {
-      throw new Error("No payment intent found for this session");
-    }
+      if (!session.payment_intent) {
+        throw new Error("No payment intent found for this session");
+      }
 
-    const paymentIntentId = typeof session.payment_intent === "string" ?
-      session.payment_intent :
-      session.payment_intent.id;
+      paymentIntentId = typeof session.payment_intent === "string" ?
+        session.payment_intent :
+        session.payment_intent.id;
+    }
 
     // Create refund
     const refund = await this.stripe.refunds.create({
@@ -173,9 +376,10 @@ export class StripeProvider implements PaymentProvider {
       reason: this.mapRefundReason(params.reason),
       metadata: {
         paymentId: params.paymentId,
+        refundId: params.refundId || "",
         originalReason: params.reason || "none",
       },
-    });
+    }, params.idempotencyKey ? {idempotencyKey: params.idempotencyKey} : undefined);
 
     logger.info("stripe_refund_created", {
       refundId: refund.id,
@@ -191,6 +395,66 @@ export class StripeProvider implements PaymentProvider {
     };
   }
 
+  /**
+   * List paid Checkout Sessions and one-tap payments created in the window
+   * Sessions expire within 24h, so creation time bounds settlement time.
+   */
+  async listTransactions(params: ListTransactionsParams): Promise<ProviderTransaction[]> {
+    const transactions: ProviderTransaction[] = [];
+
+    const sessions = this.stripe.checkout.sessions.list({
+      created: {
+        gte: Math.floor(params.from.getTime() / 1000),
+        lt: Math.floor(params.to.getTime() / 1000),
+      },
+      status: "complete",
+      limit: 100,
+    });
+
+    for await (const session of sessions) {
+      if (session.payment_status !== "paid") continue;
+
+      const paymentIntentId = typeof session.payment_intent === "string" ?
+        session.payment_intent :
+        session.payment_intent?.id;
+
+      transactions.push({
+        providerTransactionId: paymentIntentId || session.id,
+        providerPaymentId: session.id,
+        reference: session.client_reference_id || session.metadata?.reference || "",
+        amount: session.amount_total || 0,
+        currency: session.currency?.toUpperCase() || "USD",
+        settledAt: new Date(session.created * 1000),
+      });
+    }
+
+    // One-tap payments (Checkout's own PaymentIntents are covered above)
+    const paymentIntents = this.stripe.paymentIntents.list({
+      created: {
+        gte: Math.floor(params.from.getTime() / 1000),
+        lt: Math.floor(params.to.getTime() / 1000),
+      },
+      limit: 100,
+    });
+
+    for await (const paymentIntent of paymentIntents) {
+      if (paymentIntent.metadata?.oneTap !== "true" || paymentIntent.status !== "succeeded") continue;
+
+      transactions.push({
+        providerTransactionId: paymentIntent.id,
+        providerPaymentId: paymentIntent.id,
+        reference: paymentIntent.metadata.reference || "",
+        amount: paymentIntent.amount_received,
+        currency: paymentIntent.currency.toUpperCase(),
+        settledAt: new Date(paymentIntent.created * 1000),
+      });
+    }
+
+    logger.info("stripe_transactions_listed", {count: transactions.length});
+
+    return transactions;
+  }
+
   /**
    * Verify Stripe webhook signature
    *
@@ -225,7 +489,10 @@ export class StripeProvider implements PaymentProvider {
       this.stripe.webhooks.constructEvent(
           bodyBuffer,
           Array.isArray(signature) ? signature[0] : signature,
-          STRIPE_CONFIG.webhookSecret
+          STRIPE_CONFIG.webhookSecret,
+          undefined,
+          undefined,
+          req.receivedAt?.getTime()
       );
 
       return true;
@@ -261,7 +528,10 @@ export class StripeProvider implements PaymentProvider {
     const event = this.stripe.webhooks.constructEvent(
         bodyBuffer,
         Array.isArray(signature) ? signature[0] : signature,
-        STRIPE_CONFIG.webhookSecret
+        STRIPE_CONFIG.webhookSecret,
+        undefined,
+        undefined,
+        req.receivedAt?.getTime()
     );
 
     logger.info("stripe_webhook_received", {
@@ -273,11 +543,34 @@ export class StripeProvider implements PaymentProvider {
     const webhookEventType = this.mapEventType(event.type);
 
     if (!webhookEventType) {
-      throw new Error(`Unhandled Stripe event type: ${event.type}`);
+      throw new UnhandledWebhookEventError(`Unhandled Stripe event type: ${event.type}`, event.type);
     }
 
     // Extract data based on event type
-    const eventData = event.data.object as Stripe.Checkout.Session | Stripe.Refund;
+    const eventData = event.data.object as
+      Stripe.Checkout.Session | Stripe.Refund | Stripe.Dispute | Stripe.PaymentIntent;
+
+    // For one-tap payment_intent events (Checkout payments are handled
+    // through their checkout.session events)
+    if (eventData.object === "payment_intent") {
+      const paymentIntent = eventData as Stripe.PaymentIntent;
+      if (paymentIntent.metadata?.oneTap !== "true") {
+        throw new UnhandledWebhookEventError(
+            `Checkout payment intent event ignored: ${event.type}`,
+            event.type
+        );
+      }
+      return {
+        type: webhookEventType,
+        eventId: event.id,
+        providerPaymentId: paymentIntent.id,
+        reference: paymentIntent.metadata.reference || "",
+        amount: paymentIntent.amount_received || paymentIntent.amount,
+        currency: paymentIntent.currency.toUpperCase(),
+        rawData: event,
+        timestamp: new Date(event.created * 1000),
+      };
+    }
 
     // For checkout.session events
     if ("client_reference_id" in eventData) {
@@ -294,25 +587,96 @@ export class StripeProvider implements PaymentProvider {
       };
     }
 
-    // For refund events
-    if ("payment_intent" in eventData && event.type.startsWith("charge.refund")) {
+    // For refund events: each carries the refund itself, so the amount is
+    // that refund's (charge.refunded only has the charge's running total)
+    if (eventData.object === "refund") {
       const refund = eventData as Stripe.Refund;
+      let type = webhookEventType;
+
+      if (refund.status === "failed" || refund.status === "canceled") {
+        type = "refund.failed";
+      } else if (refund.status !== "succeeded") {
+        // Settled by a later refund.updated event
+        throw new UnhandledWebhookEventError(
+            `Refund ${refund.id} not settled: ${refund.status}`,
+            event.type
+        );
+      }
+
+      const payment = await this.resolveChargePayment(refund.payment_intent);
       return {
-        type: webhookEventType,
+        type,
         eventId: event.id,
-        providerPaymentId: typeof refund.payment_intent === "string" ?
-          refund.payment_intent : refund.payment_intent?.id || "",
-        reference: refund.metadata?.reference || "",
+        providerPaymentId: payment.providerPaymentId,
+        reference: payment.reference,
         amount: refund.amount,
         currency: refund.currency.toUpperCase(),
         rawData: event,
         timestamp: new Date(event.created * 1000),
+        providerRefundId: refund.id,
+        reason: refund.failure_reason || undefined,
+      };
+    }
+
+    // For chargebacks (Stripe disputes)
+    if (eventData.object === "dispute") {
+      const dispute = eventData as Stripe.Dispute;
+      // Closed disputes are won unless lost (warning_closed inquiries included)
+      const type = event.type === "charge.dispute.closed" ?
+        (dispute.status === "lost" ? "chargeback.lost" : "chargeback.won") :
+        webhookEventType;
+
+      const payment = await this.resolveChargePayment(dispute.payment_intent);
+      return {
+        type,
+        eventId: event.id,
+        providerPaymentId: payment.providerPaymentId,
+        reference: payment.reference,
+        amount: dispute.amount,
+        currency: dispute.currency.toUpperCase(),
+        rawData: event,
+        timestamp: new Date(event.created * 1000),
+        providerChargebackId: dispute.id,
+        reason: dispute.reason,
       };
     }
 
     throw new Error(`Unable to parse event data for type: ${event.type}`);
   }
 
+  /**
+   * Find the payment a charge belongs to: Checkout payments are stored by
+   * their session ID, one-tap payments by their payment intent ID
+   */
+  private async resolveChargePayment(
+      paymentIntent: string | Stripe.PaymentIntent | null
+  ): Promise<{providerPaymentId: string; reference: string}> {
+    const paymentIntentId = typeof paymentIntent === "string" ? paymentIntent : paymentIntent?.id;
+    if (!paymentIntentId) {
+      return {providerPaymentId: "", reference: ""};
+    }
+
+    const sessions = await this.stripe.checkout.sessions.list({
+      payment_intent: paymentIntentId,
+      limit: 1,
+    });
+    const session = sessions.data[0];
+    if (session) {
+      return {
+        providerPaymentId: session.id,
+        reference: session.client_reference_id || session.metadata?.reference || "",
+      };
+    }
+
+    const intent = typeof paymentIntent === "string" ?
+      await this.stripe.paymentIntents.retrieve(paymentIntentId) :
+      paymentIntent;
+    return {
+      providerPaymentId: paymentIntentId,
+      reference: intent?.metadata?.reference || "",
+    };
+  }
+
   /**
    * Map Stripe event type to our webhook event type
    */
@@ -321,8 +685,15 @@ export class StripeProvider implements PaymentProvider {
       "checkout.session.completed": "payment.confirmed",
       "checkout.session.expired": "payment.expired",
       "checkout.session.async_payment_failed": "payment.failed",
-      "charge.refunded": "refund.succeeded",
+      "payment_intent.succeeded": "payment.confirmed",
+      "payment_intent.payment_failed": "payment.failed",
+      // refund.failed when the refund failed or was canceled
+      "refund.created": "refund.succeeded",
+      "refund.updated": "refund.succeeded",
+      "refund.failed": "refund.failed",
       "charge.refund.updated": "refund.succeeded",
+      "charge.dispute.created": "chargeback.opened",
+      "charge.dispute.closed": "chargeback.won", // chargeback.lost when lost
     };
 
     return mapping[stripeType] || null;
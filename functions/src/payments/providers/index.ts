@@ -13,21 +13,40 @@ export {
   ConfirmPaymentParams,
   RefundPaymentParams,
   RefundResult,
+  ListTransactionsParams,
+  ProviderTransaction,
   WebhookRequest,
   WebhookEvent,
   WebhookEventType,
   PaymentProviderType,
+  SavedPaymentMethodParams,
+  PaymentDeclinedError,
+  UnhandledWebhookEventError,
   isValidProviderType,
 } from "./PaymentProvider";
 
 // Provider implementations
-export {getStripeProvider, StripeProvider} from "./StripeProvider";
+export {getStripeProvider, StripeProvider, StripeCardDetails} from "./StripeProvider";
 export {
   getProxyPayOPGProvider,
   getProxyPayRPSProvider,
   ProxyPayOPGProvider,
   ProxyPayRPSProvider,
 } from "./ProxyPayProvider";
+export {
+  getEmisGpoProvider,
+  EmisGpoProvider,
+  EMIS_GPO_SIGNATURE_HEADER,
+} from "./EmisGpoProvider";
 
 // Provider selector
-export {getPaymentProvider, mapPaymentMethodToProvider} from "./providerSelector";
+export {
+  getPaymentProvider,
+  getProviderByName,
+  mapPaymentMethodToProvider,
+  getAvailablePaymentMethods,
+  createPaymentWithFailover,
+  PaymentMethodInput,
+  ProviderRouting,
+} from "./providerSelector";
+export {getProviderHealth, ProviderHealth} from "./providerHealth";
@@ -0,0 +1,293 @@
+/**
+ * EMIS GPO Mock Server (LOCAL DEVELOPMENT ONLY)
+ *
+ * Implements the subset of the EMIS GPO API used by EmisGpoProvider so
+ * the create/confirm/refund/webhook paths can be exercised offline,
+ * e.g. against the Functions emulator. State is kept in memory.
+ *
+ * Run:
+ *   npm run emis:mock
+ *
+ * Environment (same values as the functions .env):
+ * - EMIS_GPO_MOCK_PORT: Port to listen on (default 4010)
+ * - EMIS_GPO_FRAME_TOKEN: Accepted frame token (any token if unset)
+ * - EMIS_GPO_API_KEY: Accepted API key (any key if unset)
+ * - EMIS_GPO_WEBHOOK_SECRET: Secret used to sign callbacks
+ *
+ * Gateway API:
+ * - POST /online-payment-gateway/portal/frameToken
+ * - GET  /online-payment-gateway/portal/?token={id} (payment page)
+ * - GET  /online-payment-gateway/transactions[?status&from&to]
+ * - GET  /online-payment-gateway/transactions/{id}
+ * - POST /online-payment-gateway/transactions/{id}/refund
+ *
+ * Simulation (sends the signed callback to the payment's callbackUrl):
+ * - POST /mock/transactions/{id}/accept | reject | expire
+ */
+
+import * as http from "http";
+import * as crypto from "crypto";
+import {EMIS_GPO_SIGNATURE_HEADER, signEmisGpoPayload} from "../EmisGpoProvider";
+
+const MOCK_CONFIG = {
+  port: Number(process.env.EMIS_GPO_MOCK_PORT) || 4010,
+  frameToken: process.env.EMIS_GPO_FRAME_TOKEN || "",
+  apiKey: process.env.EMIS_GPO_API_KEY || "",
+  webhookSecret: process.env.EMIS_GPO_WEBHOOK_SECRET || "mock_webhook_secret",
+};
+
+type MockStatus = "PENDING" | "ACCEPTED" | "REJECTED" | "EXPIRED" | "REFUNDED";
+
+interface MockTransaction {
+  id: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  status: MockStatus;
+  transactionId?: string;
+  refundedAmount?: number;
+  errorMessage?: string;
+  callbackUrl: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const transactions = new Map<string, MockTransaction>();
+
+// ==================== HELPERS ====================
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, {"Content-Type": "application/json"});
+  res.end(JSON.stringify(data));
+}
+
+function isAuthorized(req: http.IncomingMessage): boolean {
+  return !MOCK_CONFIG.apiKey || req.headers["authorization"] === `Bearer ${MOCK_CONFIG.apiKey}`;
+}
+
+/**
+ * Public view of a transaction (what the real API returns)
+ */
+function toApi(transaction: MockTransaction): Omit<MockTransaction, "callbackUrl"> {
+  const view: Partial<MockTransaction> = {...transaction};
+  delete view.callbackUrl;
+  return view as Omit<MockTransaction, "callbackUrl">;
+}
+
+/**
+ * POST the signed callback, as EMIS does on every final status
+ */
+async function sendCallback(transaction: MockTransaction): Promise<number> {
+  const body = JSON.stringify(toApi(transaction));
+
+  const response = await fetch(transaction.callbackUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [EMIS_GPO_SIGNATURE_HEADER]: signEmisGpoPayload(body, MOCK_CONFIG.webhookSecret),
+    },
+    body,
+  });
+
+  console.log(`Callback ${transaction.id} ${transaction.status} -> ${response.status}`);
+  return response.status;
+}
+
+function updateStatus(transaction: MockTransaction, status: MockStatus): void {
+  transaction.status = status;
+  transaction.updatedAt = new Date().toISOString();
+  if (status === "ACCEPTED") {
+    transaction.transactionId = crypto.randomBytes(6).toString("hex");
+  } else if (status === "REJECTED") {
+    transaction.errorMessage = "Pagamento recusado pelo cliente";
+  }
+}
+
+function renderPaymentPage(transaction: MockTransaction): string {
+  const action = (outcome: string) =>
+    `<form method="post" action="/mock/transactions/${transaction.id}/${outcome}">` +
+    `<button type="submit">${outcome}</button></form>`;
+
+  return `<!DOCTYPE html>
+<html lang="pt">
+<head><meta charset="utf-8"><title>EMIS GPO (mock)</title></head>
+<body style="font-family:sans-serif">
+<h1>Multicaixa Express (mock)</h1>
+<p>Referência: ${transaction.reference}</p>
+<p>Valor: ${transaction.amount.toFixed(2)} ${transaction.currency}</p>
+<p>Estado: ${transaction.status}</p>
+${transaction.status === "PENDING" ? action("accept") + action("reject") + action("expire") : ""}
+</body>
+</html>
+`;
+}
+
+// ==================== ROUTES ====================
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url || "/", `http://localhost:${MOCK_CONFIG.port}`);
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  // POST /online-payment-gateway/portal/frameToken
+  if (req.method === "POST" && url.pathname === "/online-payment-gateway/portal/frameToken") {
+    const body = JSON.parse(await readBody(req) || "{}");
+    if (MOCK_CONFIG.frameToken && body.token !== MOCK_CONFIG.frameToken) {
+      sendJson(res, 401, {error: "Invalid frame token"});
+      return;
+    }
+    if (!body.reference || !(Number(body.amount) > 0) || !body.callbackUrl) {
+      sendJson(res, 400, {error: "reference, amount and callbackUrl are required"});
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const transaction: MockTransaction = {
+      id: crypto.randomUUID(),
+      reference: String(body.reference),
+      amount: Number(body.amount),
+      currency: "AOA",
+      status: "PENDING",
+      callbackUrl: String(body.callbackUrl),
+      createdAt: now,
+      updatedAt: now,
+    };
+    transactions.set(transaction.id, transaction);
+
+    sendJson(res, 200, {id: transaction.id, timeToLive: 300000});
+    return;
+  }
+
+  // GET /online-payment-gateway/portal/?token={id}
+  if (req.method === "GET" && url.pathname.replace(/\/$/, "") === "/online-payment-gateway/portal") {
+    const transaction = transactions.get(url.searchParams.get("token") || "");
+    if (!transaction) {
+      res.writeHead(404).end("Unknown token");
+      return;
+    }
+    res.writeHead(200, {"Content-Type": "text/html; charset=utf-8"});
+    res.end(renderPaymentPage(transaction));
+    return;
+  }
+
+  // /online-payment-gateway/transactions[/{id}[/refund]]
+  if (parts[0] === "online-payment-gateway" && parts[1] === "transactions") {
+    if (!isAuthorized(req)) {
+      sendJson(res, 401, {error: "Unauthorized"});
+      return;
+    }
+
+    if (req.method === "GET" && parts.length === 2) {
+      const status = url.searchParams.get("status");
+      const from = url.searchParams.get("from");
+      const to = url.searchParams.get("to");
+      // Settled transactions stay listed as ACCEPTED after refunds
+      const list = Array.from(transactions.values()).filter((t) =>
+        (!status || t.status === status || (status === "ACCEPTED" && t.status === "REFUNDED")) &&
+        (!from || t.updatedAt >= new Date(from).toISOString()) &&
+        (!to || t.updatedAt < new Date(to).toISOString())
+      );
+      sendJson(res, 200, list.map(toApi));
+      return;
+    }
+
+    const transaction = transactions.get(parts[2] || "");
+    if (!transaction) {
+      sendJson(res, 404, {error: "Transaction not found"});
+      return;
+    }
+
+    if (req.method === "GET" && parts.length === 3) {
+      sendJson(res, 200, toApi(transaction));
+      return;
+    }
+
+    if (req.method === "POST" && parts[3] === "refund") {
+      const body = JSON.parse(await readBody(req) || "{}");
+      const amount = Number(body.amount) || transaction.amount;
+      const refundable = transaction.amount - (transaction.refundedAmount || 0);
+
+      if (transaction.status !== "ACCEPTED" && transaction.status !== "REFUNDED") {
+        sendJson(res, 409, {error: `Cannot refund a ${transaction.status} transaction`});
+        return;
+      }
+      if (amount > refundable) {
+        sendJson(res, 409, {error: `Refund exceeds refundable amount ${refundable}`});
+        return;
+      }
+
+      transaction.refundedAmount = (transaction.refundedAmount || 0) + amount;
+      updateStatus(transaction, "REFUNDED");
+      await sendCallback(transaction).catch((error) => console.error("Callback failed:", error));
+
+      sendJson(res, 200, {id: `rf_${crypto.randomBytes(6).toString("hex")}`, status: "REFUNDED", amount});
+      return;
+    }
+  }
+
+  // POST /mock/transactions/{id}/accept|reject|expire
+  if (req.method === "POST" && parts[0] === "mock" && parts[1] === "transactions") {
+    const transaction = transactions.get(parts[2] || "");
+    const outcomes: Record<string, MockStatus> = {
+      accept: "ACCEPTED",
+      reject: "REJECTED",
+      expire: "EXPIRED",
+    };
+    const status = outcomes[parts[3] || ""];
+
+    if (!transaction || !status) {
+      sendJson(res, 404, {error: "Unknown transaction or outcome"});
+      return;
+    }
+    if (transaction.status !== "PENDING") {
+      sendJson(res, 409, {error: `Transaction is already ${transaction.status}`});
+      return;
+    }
+
+    updateStatus(transaction, status);
+    const callbackStatus = await sendCallback(transaction).catch((error) => {
+      console.error("Callback failed:", error);
+      return null;
+    });
+
+    sendJson(res, 200, {transaction: toApi(transaction), callbackStatus});
+    return;
+  }
+
+  sendJson(res, 404, {error: "Not found"});
+}
+
+// ==================== SERVER ====================
+
+/**
+ * Start the mock server
+ */
+export function startEmisGpoMockServer(port = MOCK_CONFIG.port): http.Server {
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("Mock error:", error);
+      sendJson(res, 500, {error: error instanceof Error ? error.message : "unknown"});
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`EMIS GPO mock listening on http://localhost:${port}`);
+  });
+
+  return server;
+}
+
+if (require.main === module) {
+  startEmisGpoMockServer();
+}
@@ -0,0 +1,226 @@
+/**
+ * Payment Provider Health - Circuit Breaking (SERVER-ONLY)
+ *
+ * Tracks recent calls per provider (success, latency) so the provider
+ * selector can route around a degraded provider.
+ *
+ * Health is shared across instances in provider_health/{providerType}
+ * (last HEALTH_WINDOW_SIZE calls) and cached in memory briefly.
+ *
+ * Circuit states:
+ * - closed: normal routing
+ * - open: error rate crossed the threshold; skipped until the cooldown ends
+ * - half_open: cooldown ended; the next call is a trial - success closes
+ *   the circuit, failure reopens it
+ */
+
+import * as admin from "firebase-admin";
+import {PaymentProviderType} from "./PaymentProvider";
+import {createLogger} from "../../common/logger";
+
+const db = admin.firestore();
+const logger = createLogger("payment", "providerHealth");
+
+/**
+ * Calls kept per provider
+ */
+const HEALTH_WINDOW_SIZE = 20;
+
+/**
+ * Calls older than this no longer count
+ */
+const HEALTH_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Calls needed before the error rate can open the circuit
+ */
+const MIN_SAMPLES = 5;
+
+/**
+ * Error rate (0-1) that opens the circuit
+ */
+const ERROR_RATE_THRESHOLD = 0.5;
+
+/**
+ * Average latency above which a provider is degraded (deprioritized)
+ */
+const SLOW_LATENCY_MS = 8000;
+
+/**
+ * How long an open circuit skips the provider
+ */
+const OPEN_DURATION_MS = 2 * 60 * 1000;
+
+const HEALTH_CACHE_TTL_MS = 15000;
+
+// ==================== TYPES ====================
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+interface ProviderCallSample {
+  ok: boolean;
+  latencyMs: number;
+  at: number; // Epoch ms
+}
+
+/**
+ * Stored health (provider_health/{providerType})
+ */
+interface ProviderHealthRecord {
+  samples: ProviderCallSample[];
+  openedAt: number | null; // Epoch ms, set while the circuit is open/half-open
+}
+
+export interface ProviderHealth {
+  provider: PaymentProviderType;
+  circuit: CircuitState;
+  errorRate: number;
+  avgLatencyMs: number;
+  sampleCount: number;
+  /** Can be routed to (closed or half-open) */
+  available: boolean;
+  /** Available but slow */
+  degraded: boolean;
+}
+
+// ==================== CACHE ====================
+
+const healthCache = new Map<PaymentProviderType, {record: ProviderHealthRecord; cachedAt: number}>();
+
+// ==================== HELPERS ====================
+
+/**
+ * Samples still inside the window
+ */
+function recentSamples(record: ProviderHealthRecord, now: number): ProviderCallSample[] {
+  return record.samples.filter((sample) => now - sample.at < HEALTH_WINDOW_MS);
+}
+
+function getCircuitState(record: ProviderHealthRecord, now: number): CircuitState {
+  if (record.openedAt === null) {
+    return "closed";
+  }
+  return now - record.openedAt < OPEN_DURATION_MS ? "open" : "half_open";
+}
+
+/**
+ * Summarize a stored record
+ */
+function summarize(
+    provider: PaymentProviderType,
+    record: ProviderHealthRecord,
+    now: number
+): ProviderHealth {
+  const samples = recentSamples(record, now);
+  const failures = samples.filter((sample) => !sample.ok).length;
+  const errorRate = samples.length > 0 ? failures / samples.length : 0;
+  const avgLatencyMs = samples.length > 0 ?
+    Math.round(samples.reduce((sum, sample) => sum + sample.latencyMs, 0) / samples.length) :
+    0;
+  const circuit = getCircuitState(record, now);
+
+  return {
+    provider,
+    circuit,
+    errorRate,
+    avgLatencyMs,
+    sampleCount: samples.length,
+    available: circuit !== "open",
+    degraded: circuit === "half_open" || avgLatencyMs > SLOW_LATENCY_MS,
+  };
+}
+
+function parseRecord(data: FirebaseFirestore.DocumentData | undefined): ProviderHealthRecord {
+  return {
+    samples: Array.isArray(data?.samples) ? data?.samples as ProviderCallSample[] : [],
+    openedAt: typeof data?.openedAt === "number" ? data.openedAt : null,
+  };
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Get the current health of a provider
+ * Falls back to "closed, no data" if health cannot be read.
+ */
+export async function getProviderHealth(provider: PaymentProviderType): Promise<ProviderHealth> {
+  const now = Date.now();
+  const cached = healthCache.get(provider);
+  if (cached && now - cached.cachedAt < HEALTH_CACHE_TTL_MS) {
+    return summarize(provider, cached.record, now);
+  }
+
+  try {
+    const doc = await db.collection("provider_health").doc(provider).get();
+    const record = parseRecord(doc.data());
+    healthCache.set(provider, {record, cachedAt: now});
+    return summarize(provider, record, now);
+  } catch (error) {
+    logger.warn("provider_health_read_failed", {
+      provider,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return summarize(provider, {samples: [], openedAt: null}, now);
+  }
+}
+
+/**
+ * Record the outcome of a provider call and update its circuit
+ * Never throws - health tracking must not break payments.
+ */
+export async function recordProviderCall(
+    provider: PaymentProviderType,
+    ok: boolean,
+    latencyMs: number
+): Promise<void> {
+  const ref = db.collection("provider_health").doc(provider);
+
+  try {
+    const {record, from, at} = await db.runTransaction(async (transaction) => {
+      const now = Date.now();
+      const current = parseRecord((await transaction.get(ref)).data());
+      const circuit = getCircuitState(current, now);
+      const sample: ProviderCallSample = {ok, latencyMs, at: now};
+
+      let next: ProviderHealthRecord;
+      if (circuit === "half_open") {
+        // Trial call decides: close with a fresh window, or reopen
+        next = ok ?
+          {samples: [sample], openedAt: null} :
+          {samples: [...recentSamples(current, now), sample].slice(-HEALTH_WINDOW_SIZE), openedAt: now};
+      } else {
+        next = {
+          samples: [...recentSamples(current, now), sample].slice(-HEALTH_WINDOW_SIZE),
+          openedAt: current.openedAt,
+        };
+
+        const health = summarize(provider, next, now);
+        if (circuit === "closed" &&
+            health.sampleCount >= MIN_SAMPLES &&
+            health.errorRate >= ERROR_RATE_THRESHOLD) {
+          next.openedAt = now;
+        }
+      }
+
+      transaction.set(ref, {
+        provider,
+        ...next,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return {record: next, from: circuit, at: now};
+    });
+
+    const to = getCircuitState(record, at);
+    if (to !== from) {
+      logger.warn("provider_circuit_changed", {provider, from, to});
+    }
+
+    healthCache.set(provider, {record, cachedAt: Date.now()});
+  } catch (error) {
+    logger.warn("provider_health_write_failed", {
+      provider,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+  }
+}
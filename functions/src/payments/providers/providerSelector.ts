@@ -10,11 +10,28 @@
  * 1. "stripe" method -> StripeProvider (test only)
  * 2. "opg" method -> ProxyPayOPGProvider
  * 3. "rps" method -> ProxyPayRPSProvider
+ * 4. "gpo" method -> EmisGpoProvider (when enabled)
+ *
+ * Failover (createPaymentWithFailover):
+ * Each method has an ordered fallback list (PROVIDER_FALLBACKS). Providers
+ * that are disabled or cannot take the payment (currency, phone) are
+ * dropped; healthy ones are tried first, degraded ones next and open
+ * circuits last (see providerHealth.ts). A failed call moves on to the
+ * next candidate. Payments with a saved card only go to the provider that
+ * holds the card, and a declined payment is not a provider failure.
  */
 
-import {PaymentProvider, PaymentProviderType} from "./PaymentProvider";
+import {
+  PaymentProvider,
+  PaymentProviderType,
+  CreatePaymentParams,
+  CreatePaymentResult,
+  PaymentDeclinedError,
+} from "./PaymentProvider";
 import {getStripeProvider} from "./StripeProvider";
 import {getProxyPayOPGProvider, getProxyPayRPSProvider} from "./ProxyPayProvider";
+import {getEmisGpoProvider, isEmisGpoConfigured} from "./EmisGpoProvider";
+import {getProviderHealth, recordProviderCall, CircuitState} from "./providerHealth";
 import {createLogger} from "../../common/logger";
 
 const logger = createLogger("payment", "providerSelector");
@@ -22,7 +39,54 @@ const logger = createLogger("payment", "providerSelector");
 /**
  * Payment method types accepted from client
  */
-export type PaymentMethodInput = "opg" | "rps" | "stripe";
+export type PaymentMethodInput = "opg" | "rps" | "gpo" | "stripe";
+
+/**
+ * Providers to try per method, in order (first is the primary)
+ * Multicaixa methods fall back to each other; card payments in kwanzas
+ * can fall back to Multicaixa cards through EMIS GPO.
+ */
+const PROVIDER_FALLBACKS: Record<PaymentMethodInput, PaymentProviderType[]> = {
+  opg: ["proxypay_opg", "emis_gpo"],
+  gpo: ["emis_gpo", "proxypay_opg"],
+  rps: ["proxypay_rps", "emis_gpo"],
+  stripe: ["stripe", "emis_gpo"],
+};
+
+/**
+ * What each provider can take
+ */
+const PROVIDER_CAPABILITIES: Record<PaymentProviderType, {
+  currencies: string[] | null; // null = any
+  requiresPhone: boolean;
+}> = {
+  proxypay_opg: {currencies: ["AOA"], requiresPhone: true},
+  proxypay_rps: {currencies: ["AOA"], requiresPhone: false},
+  emis_gpo: {currencies: ["AOA"], requiresPhone: false},
+  stripe: {currencies: null, requiresPhone: false},
+};
+
+/**
+ * One provider call made while routing a payment
+ */
+export interface ProviderAttempt {
+  provider: PaymentProviderType;
+  circuit: CircuitState;
+  ok: boolean;
+  latencyMs: number;
+  error: string | null;
+}
+
+/**
+ * How a payment was routed (stored on payments/{id}.routing)
+ */
+export interface ProviderRouting {
+  method: PaymentMethodInput;
+  requestedProvider: PaymentProviderType;
+  provider: PaymentProviderType;
+  fallback: boolean;
+  attempts: ProviderAttempt[];
+}
 
 /**
  * Check if Stripe is enabled (test mode only)
@@ -34,6 +98,13 @@ function isStripeEnabled(): boolean {
   return enabled && hasKey;
 }
 
+/**
+ * Check if direct EMIS GPO payments are enabled
+ */
+function isEmisGpoEnabled(): boolean {
+  return process.env.EMIS_GPO_ENABLED === "true" && isEmisGpoConfigured();
+}
+
 /**
  * Map client payment method to provider type
  */
@@ -45,6 +116,8 @@ export function mapPaymentMethodToProvider(method: PaymentMethodInput): PaymentP
     return "proxypay_opg";
   case "rps":
     return "proxypay_rps";
+  case "gpo":
+    return "emis_gpo";
   default:
     throw new Error(`Unknown payment method: ${method}`);
   }
@@ -74,6 +147,13 @@ export function getPaymentProvider(providerType: PaymentProviderType): PaymentPr
   case "proxypay_rps":
     return getProxyPayRPSProvider();
 
+  case "emis_gpo":
+    if (!isEmisGpoEnabled()) {
+      logger.warn("emis_gpo_not_enabled");
+      throw new Error("EMIS GPO payments are not enabled");
+    }
+    return getEmisGpoProvider();
+
   default:
     throw new Error(`Unknown provider type: ${providerType}`);
   }
@@ -109,6 +189,8 @@ export function getProviderByName(providerName: string): PaymentProvider {
   case "proxypay_rps":
   case "proxypay-rps":
     return getProxyPayRPSProvider();
+  case "emis_gpo":
+    return getEmisGpoProvider();
   default:
     throw new Error(`Unknown provider name: ${providerName}`);
   }
@@ -122,9 +204,137 @@ export function getProviderByName(providerName: string): PaymentProvider {
 export function getAvailablePaymentMethods(): PaymentMethodInput[] {
   const methods: PaymentMethodInput[] = ["opg", "rps"];
 
+  if (isEmisGpoEnabled()) {
+    methods.push("gpo");
+  }
+
   if (isStripeEnabled()) {
     methods.push("stripe");
   }
 
   return methods;
 }
+
+/**
+ * Providers that can take a payment, in the order to try them
+ *
+ * @param method - The payment method from client
+ * @param params - Payment being created (currency, phone)
+ */
+export async function getProviderCandidates(
+    method: PaymentMethodInput,
+    params: Pick<CreatePaymentParams, "currency" | "customerPhone" | "savedPaymentMethod">
+): Promise<Array<{providerType: PaymentProviderType; provider: PaymentProvider; circuit: CircuitState}>> {
+  const candidates = [];
+
+  // A saved card only exists at the provider that holds it
+  const providerTypes = params.savedPaymentMethod ?
+    [mapPaymentMethodToProvider(method)] :
+    PROVIDER_FALLBACKS[method];
+
+  for (const [index, providerType] of providerTypes.entries()) {
+    const capabilities = PROVIDER_CAPABILITIES[providerType];
+    if (capabilities.currencies && !capabilities.currencies.includes(params.currency)) continue;
+    if (capabilities.requiresPhone && !params.customerPhone) continue;
+
+    let provider: PaymentProvider;
+    try {
+      provider = getPaymentProvider(providerType);
+    } catch {
+      continue;
+    }
+
+    const health = await getProviderHealth(providerType);
+    // Healthy first, then degraded, then open circuits (policy order within each)
+    const rank = !health.available ? 2 : health.degraded ? 1 : 0;
+    candidates.push({providerType, provider, circuit: health.circuit, rank, index});
+  }
+
+  return candidates
+      .sort((a, b) => a.rank - b.rank || a.index - b.index)
+      .map(({providerType, provider, circuit}) => ({providerType, provider, circuit}));
+}
+
+/**
+ * Create a payment with the first provider that succeeds
+ *
+ * Records every call in provider health. Throws the last provider error
+ * if all candidates fail, or an Error if none can take the payment.
+ *
+ * @param method - The payment method from client
+ * @param params - Provider params
+ */
+export async function createPaymentWithFailover(
+    method: PaymentMethodInput,
+    params: CreatePaymentParams
+): Promise<{provider: PaymentProvider; result: CreatePaymentResult; routing: ProviderRouting}> {
+  const requestedProvider = mapPaymentMethodToProvider(method);
+  const candidates = await getProviderCandidates(method, params);
+
+  if (candidates.length === 0) {
+    throw new Error(`No payment provider available for method: ${method}`);
+  }
+
+  const attempts: ProviderAttempt[] = [];
+  let lastError: unknown;
+
+  for (const candidate of candidates) {
+    const startedAt = Date.now();
+    try {
+      const result = await candidate.provider.createPaymentIntent(params);
+      const latencyMs = Date.now() - startedAt;
+
+      await recordProviderCall(candidate.providerType, true, latencyMs);
+      attempts.push({
+        provider: candidate.providerType,
+        circuit: candidate.circuit,
+        ok: true,
+        latencyMs,
+        error: null,
+      });
+
+      if (candidate.providerType !== requestedProvider) {
+        logger.warn("provider_failover", {
+          method,
+          requestedProvider,
+          provider: candidate.providerType,
+          attempts: attempts.length,
+        });
+      }
+
+      return {
+        provider: candidate.provider,
+        result,
+        routing: {
+          method,
+          requestedProvider,
+          provider: candidate.providerType,
+          fallback: candidate.providerType !== requestedProvider,
+          attempts,
+        },
+      };
+    } catch (error) {
+      const latencyMs = Date.now() - startedAt;
+      const message = error instanceof Error ? error.message : String(error);
+
+      // The provider answered - another provider would decline too
+      if (error instanceof PaymentDeclinedError) {
+        await recordProviderCall(candidate.providerType, true, latencyMs);
+        throw error;
+      }
+
+      await recordProviderCall(candidate.providerType, false, latencyMs);
+      attempts.push({
+        provider: candidate.providerType,
+        circuit: candidate.circuit,
+        ok: false,
+        latencyMs,
+        error: message,
+      });
+      logger.warn("provider_call_failed", {provider: candidate.providerType, latencyMs, error: message});
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
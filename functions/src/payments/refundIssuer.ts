@@ -0,0 +1,236 @@
+/**
+ * Refund Issuer - Scheduled Cloud Function
+ *
+ * refundEscrow/partialRefundEscrow record refunds as pending
+ * (refunds/{refundId}); issuePendingRefunds sends them to the provider
+ * the payment was made with and stores the provider's refund ID, which
+ * the refund webhooks are matched on (see paymentReversals):
+ * - pending -> issuing: claimed in a transaction before the provider call
+ * - issuing -> issued: the provider accepted it; completed by its webhook
+ * - manual_required: cannot be issued here (no refund API, no payment,
+ *   the provider declined it or kept erroring) - admins are notified
+ *
+ * A refund the provider rejects later is reopened (pending) and issued
+ * again under a new idempotency key. A refund left issuing by a run that
+ * died is not retried blindly (not every provider dedupes requests): it
+ * is moved to manual_required for an admin to check at the provider.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {formatCurrency} from "../common/currency";
+import {createLogger} from "../common/logger";
+import {getProviderByName} from "./providers";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const logger = createLogger("payment", "refundIssuer");
+
+/**
+ * Refunds issued per sweep (the next run picks up the rest)
+ */
+const ISSUE_BATCH_SIZE = 50;
+
+/**
+ * A refund still issuing after this long was left by a run that died
+ */
+const ISSUING_STALE_MINUTES = 15;
+
+/**
+ * Provider errors before a refund is left to an admin
+ */
+const MAX_ISSUE_ERRORS = 3;
+
+/**
+ * Providers without a refund API (refunded by bank transfer)
+ */
+const MANUAL_REFUND_PROVIDERS = ["proxypay_opg", "proxypay_rps"];
+
+/**
+ * Move a refund to manual_required and notify admins
+ */
+async function requireManualRefund(
+    refundRef: FirebaseFirestore.DocumentReference,
+    refund: FirebaseFirestore.DocumentData,
+    reason: string
+): Promise<void> {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  await refundRef.update({
+    status: "manual_required",
+    manualReason: reason,
+    manualRequiredAt: now,
+  });
+
+  logger.warn("refund_manual_required", {refundId: refundRef.id, reason});
+
+  await db.collection("admin_notifications").add({
+    type: "refund_manual_required",
+    title: "Reembolso manual necessário",
+    body: `O reembolso de ${formatCurrency(refund.amount, refund.currency)} ` +
+      `(${refundRef.id}) não pôde ser emitido automaticamente: ${reason}`,
+    data: {
+      refundId: refundRef.id,
+      paymentId: refund.paymentId || null,
+      bookingId: refund.bookingId || null,
+      amount: refund.amount,
+      currency: refund.currency,
+    },
+    isRead: false,
+    createdAt: now,
+  });
+}
+
+/**
+ * Issue one pending refund at the payment's provider
+ *
+ * @returns "issued", "manual_required", or "not_pending" if another run
+ *   claimed it first
+ */
+export async function issueRefund(
+    refundId: string
+): Promise<"issued" | "manual_required" | "not_pending"> {
+  const refundRef = db.collection("refunds").doc(refundId);
+
+  const refund = await db.runTransaction(async (transaction) => {
+    const refundDoc = await transaction.get(refundRef);
+    const data = refundDoc.data();
+    if (data?.status !== "pending") {
+      return null;
+    }
+    transaction.update(refundRef, {
+      status: "issuing",
+      issueStartedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return data;
+  });
+
+  if (!refund) {
+    return "not_pending";
+  }
+
+  const paymentDoc = refund.paymentId ?
+    await db.collection("payments").doc(refund.paymentId).get() :
+    null;
+  const payment = paymentDoc?.data();
+
+  if (!payment?.providerPaymentId || !payment.provider) {
+    await requireManualRefund(refundRef, refund, "pagamento sem referência no fornecedor");
+    return "manual_required";
+  }
+
+  if (MANUAL_REFUND_PROVIDERS.includes(payment.provider)) {
+    await requireManualRefund(refundRef, refund, `${payment.provider} não suporta reembolsos`);
+    return "manual_required";
+  }
+
+  // The provider charged the presentment amount
+  const inPresentment = !!refund.presentmentAmount &&
+    refund.presentmentCurrency === payment.currency;
+  const amount = inPresentment ? refund.presentmentAmount : refund.amount;
+  const currency = inPresentment ? refund.presentmentCurrency : refund.currency;
+
+  let result;
+  try {
+    result = await getProviderByName(payment.provider).refundPayment({
+      providerPaymentId: payment.providerPaymentId,
+      paymentId: refund.paymentId,
+      amount,
+      currency,
+      reason: refund.reason,
+      refundId,
+      idempotencyKey: `${refundId}_${refund.failureCount || 0}`,
+    });
+  } catch (error) {
+    // Not sent, or rejected outright: back to pending for the next sweep
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const issueErrorCount = (refund.issueErrorCount || 0) + 1;
+    logger.error("refund_issue_failed", errorMsg, {
+      refundId,
+      paymentId: refund.paymentId,
+      issueErrorCount,
+    });
+
+    await refundRef.update({
+      status: "pending",
+      lastIssueError: errorMsg,
+      issueErrorCount,
+    });
+    if (issueErrorCount >= MAX_ISSUE_ERRORS) {
+      await requireManualRefund(refundRef, refund, `erro do fornecedor: ${errorMsg}`);
+      return "manual_required";
+    }
+    throw error;
+  }
+
+  if (result.status === "failed") {
+    await refundRef.update({
+      providerRefundId: result.providerRefundId,
+    });
+    await requireManualRefund(refundRef, refund, "recusado pelo fornecedor de pagamento");
+    return "manual_required";
+  }
+
+  await refundRef.update({
+    status: "issued",
+    providerRefundId: result.providerRefundId,
+    provider: payment.provider,
+    providerAmount: amount,
+    providerCurrency: currency,
+    issuedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.stateTransition("refund", refundId, "pending", "issued");
+
+  return "issued";
+}
+
+/**
+ * Issue Pending Refunds - Scheduled Cloud Function
+ * Runs every 15 minutes
+ */
+export const issuePendingRefunds = functions
+    .region(REGION)
+    .pubsub
+    .schedule("*/15 * * * *")
+    .timeZone("Africa/Luanda")
+    .onRun(async () => {
+      const staleBefore = admin.firestore.Timestamp.fromMillis(
+          Date.now() - ISSUING_STALE_MINUTES * 60 * 1000
+      );
+      const [pending, stale] = await Promise.all([
+        db.collection("refunds")
+            .where("status", "==", "pending")
+            .limit(ISSUE_BATCH_SIZE)
+            .get(),
+        db.collection("refunds")
+            .where("status", "==", "issuing")
+            .where("issueStartedAt", "<=", staleBefore)
+            .limit(ISSUE_BATCH_SIZE)
+            .get(),
+      ]);
+
+      const counts: Record<string, number> = {};
+
+      for (const refundDoc of stale.docs) {
+        await requireManualRefund(
+            refundDoc.ref,
+            refundDoc.data(),
+            "a emissão foi interrompida - confirme no fornecedor se o reembolso foi feito"
+        );
+        counts.stale = (counts.stale || 0) + 1;
+      }
+
+      for (const refundDoc of pending.docs) {
+        try {
+          const outcome = await issueRefund(refundDoc.id);
+          counts[outcome] = (counts[outcome] || 0) + 1;
+        } catch {
+          // Logged by issueRefund; retried on the next run
+          counts.failed = (counts.failed || 0) + 1;
+        }
+      }
+
+      logger.info("pending_refunds_issued", {scanned: pending.size, ...counts});
+      return null;
+    });
@@ -0,0 +1,321 @@
+/**
+ * Saved Payment Methods (SERVER-ONLY)
+ *
+ * Clients paying installments, or several suppliers for one event, can
+ * keep a payment method and pay again without re-entering details.
+ *
+ * Customer profile per client (payment_customers/{userId}):
+ * - stripe.customerId: Stripe customer holding saved cards
+ *
+ * Saved methods (payment_customers/{userId}/methods/{methodId}):
+ * - card: a card kept on the Stripe customer (saved when a Checkout payment
+ *   made with savePaymentMethod is confirmed - see stripeWebhook)
+ * - multicaixa_express: a Multicaixa Express phone number (saved when a
+ *   payment is created with savePaymentMethod)
+ *
+ * Both are server-only (deny-by-default rules); clients use the callables
+ * below, which never return full phone numbers or provider IDs.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {wrapHandler, Errors, ErrorContext} from "../common/errors";
+import {createLogger} from "../common/logger";
+import {getStripeProvider, StripeCardDetails} from "./providers";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const logger = createLogger("payment", "savedPaymentMethods");
+
+// ==================== TYPES ====================
+
+export type SavedPaymentMethodType = "card" | "multicaixa_express";
+
+/**
+ * Stored saved method (payment_customers/{userId}/methods/{methodId})
+ */
+export interface SavedPaymentMethod {
+  id: string;
+  type: SavedPaymentMethodType;
+  /** Payment method inputs (createPaymentIntent) this method can pay with */
+  paymentMethods: Array<"stripe" | "opg" | "gpo">;
+  label: string;
+  card?: {
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+  };
+  phone?: string;
+  stripeCustomerId?: string;
+  stripePaymentMethodId?: string;
+  createdAt: FirebaseFirestore.Timestamp;
+  lastUsedAt: FirebaseFirestore.Timestamp | null;
+}
+
+// ==================== HELPERS ====================
+
+function customerRef(userId: string): FirebaseFirestore.DocumentReference {
+  return db.collection("payment_customers").doc(userId);
+}
+
+function methodsRef(userId: string): FirebaseFirestore.CollectionReference {
+  return customerRef(userId).collection("methods");
+}
+
+/**
+ * Angolan phone in international digits (2449XXXXXXXX)
+ */
+function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.startsWith("244") ? digits : `244${digits}`;
+}
+
+/**
+ * Phone as shown in the app (+244 9•• ••• 123)
+ */
+function maskPhone(phone: string): string {
+  const local = phone.replace(/^244/, "");
+  return `+244 ${local.charAt(0)}•• ••• ${local.slice(-3)}`;
+}
+
+/**
+ * Get the client's Stripe customer, creating it on first use
+ */
+export async function getOrCreateStripeCustomer(
+    userId: string,
+    profile: {email?: string; name?: string} = {}
+): Promise<string> {
+  const customerDoc = await customerRef(userId).get();
+  const existing = customerDoc.data()?.stripe?.customerId;
+  if (existing) {
+    return existing;
+  }
+
+  const customerId = await getStripeProvider().createCustomer({
+    userId,
+    email: profile.email,
+    name: profile.name,
+  });
+
+  await customerRef(userId).set({
+    userId,
+    stripe: {customerId},
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }, {merge: true});
+
+  return customerId;
+}
+
+/**
+ * Load a saved method owned by the user
+ */
+export async function getSavedPaymentMethod(
+    userId: string,
+    methodId: string,
+    errorContext: ErrorContext
+): Promise<SavedPaymentMethod> {
+  const methodDoc = await methodsRef(userId).doc(methodId).get();
+  if (!methodDoc.exists) {
+    throw Errors.notFound(errorContext, "Método de pagamento", methodId);
+  }
+  return methodDoc.data() as SavedPaymentMethod;
+}
+
+/**
+ * Save a Multicaixa Express number (no-op if already saved)
+ */
+export async function saveMulticaixaPhone(userId: string, phone: string): Promise<string> {
+  const normalized = normalizePhone(phone);
+  const methodId = `mcx_${normalized}`;
+  const ref = methodsRef(userId).doc(methodId);
+
+  await db.runTransaction(async (transaction) => {
+    if ((await transaction.get(ref)).exists) {
+      return;
+    }
+    transaction.set(ref, {
+      id: methodId,
+      type: "multicaixa_express",
+      paymentMethods: ["opg", "gpo"],
+      label: `Multicaixa Express ${maskPhone(normalized)}`,
+      phone: normalized,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastUsedAt: null,
+    });
+  });
+
+  return methodId;
+}
+
+/**
+ * Save the card a Stripe payment was made with
+ * The same card saved twice (same fingerprint) keeps one entry.
+ */
+export async function saveStripeCard(userId: string, card: StripeCardDetails): Promise<string> {
+  const methodId = `card_${card.fingerprint || card.paymentMethodId}`;
+  const ref = methodsRef(userId).doc(methodId);
+
+  await db.runTransaction(async (transaction) => {
+    const details = {
+      label: `${card.brand.toUpperCase()} •••• ${card.last4}`,
+      card: {
+        brand: card.brand,
+        last4: card.last4,
+        expMonth: card.expMonth,
+        expYear: card.expYear,
+      },
+      stripeCustomerId: card.customerId,
+      stripePaymentMethodId: card.paymentMethodId,
+    };
+
+    // Saved again (e.g. new expiry): charge the latest payment method
+    if ((await transaction.get(ref)).exists) {
+      transaction.update(ref, details);
+      return;
+    }
+    transaction.set(ref, {
+      id: methodId,
+      type: "card",
+      paymentMethods: ["stripe"],
+      ...details,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastUsedAt: null,
+    });
+  });
+
+  logger.info("stripe_card_saved", {userId, methodId});
+
+  return methodId;
+}
+
+/**
+ * Save the card of a confirmed Stripe payment, if it was kept on the customer
+ */
+export async function saveStripeCardFromPayment(
+    userId: string,
+    providerPaymentId: string
+): Promise<string | null> {
+  const card = await getStripeProvider().getPaymentCard(providerPaymentId);
+  if (!card) {
+    logger.warn("stripe_card_not_saved", {userId, providerPaymentId});
+    return null;
+  }
+  return saveStripeCard(userId, card);
+}
+
+/**
+ * Record that a saved method was used
+ */
+export async function markSavedPaymentMethodUsed(userId: string, methodId: string): Promise<void> {
+  await methodsRef(userId).doc(methodId).update({
+    lastUsedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Whether a card has expired (cards expire at the end of the month)
+ */
+function isCardExpired(card: SavedPaymentMethod["card"], now = new Date()): boolean {
+  if (!card) {
+    return false;
+  }
+  return card.expYear < now.getFullYear() ||
+    (card.expYear === now.getFullYear() && card.expMonth < now.getMonth() + 1);
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * List the caller's saved payment methods (most recently used first)
+ */
+export const listPaymentMethods = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "listPaymentMethods",
+            async (
+                _data: unknown,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const snapshot = await methodsRef(context.auth.uid).get();
+              const toMillis = (value: FirebaseFirestore.Timestamp | null | undefined) =>
+                value?.toMillis?.() || 0;
+
+              const methods = snapshot.docs
+                  .map((doc) => doc.data() as SavedPaymentMethod)
+                  .sort((a, b) =>
+                    (toMillis(b.lastUsedAt) || toMillis(b.createdAt)) -
+                    (toMillis(a.lastUsedAt) || toMillis(a.createdAt))
+                  );
+
+              return {
+                success: true,
+                methods: methods.map((method) => ({
+                  id: method.id,
+                  type: method.type,
+                  paymentMethods: method.paymentMethods,
+                  label: method.label,
+                  card: method.card || null,
+                  expired: isCardExpired(method.card),
+                  lastUsedAt: method.lastUsedAt?.toDate?.()?.toISOString() || null,
+                })),
+              };
+            }
+        )
+    );
+
+/**
+ * Remove one of the caller's saved payment methods
+ * Cards are also detached from the Stripe customer.
+ */
+export const removePaymentMethod = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "removePaymentMethod",
+            async (
+                data: {methodId: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              if (!data?.methodId) {
+                throw Errors.invalidArgument(errorContext, "methodId", "is required");
+              }
+
+              const method = await getSavedPaymentMethod(context.auth.uid, data.methodId, errorContext);
+
+              if (method.type === "card" && method.stripePaymentMethodId) {
+                try {
+                  await getStripeProvider().detachPaymentMethod(method.stripePaymentMethodId);
+                } catch (detachError) {
+                  // Already detached or removed at Stripe - still forget it here
+                  logger.warn("stripe_payment_method_detach_failed", {
+                    methodId: data.methodId,
+                    error: detachError instanceof Error ? detachError.message : "unknown",
+                  });
+                }
+              }
+
+              await methodsRef(context.auth.uid).doc(data.methodId).delete();
+
+              logger.info("payment_method_removed", {
+                userId: context.auth.uid,
+                methodId: data.methodId,
+                type: method.type,
+              });
+
+              return {success: true, methodId: data.methodId};
+            }
+        )
+    );
@@ -17,7 +17,14 @@
  * - checkout.session.completed -> payment confirmed
  * - checkout.session.expired -> payment expired
  * - checkout.session.async_payment_failed -> payment failed
- * - charge.refunded -> refund completed
+ * - payment_intent.succeeded / payment_failed -> one-tap (saved card)
+ *   payment confirmed / failed
+ * - refund.created / refund.updated / charge.refund.updated (succeeded)
+ *   -> refund completed
+ * - refund.failed, refund.updated / charge.refund.updated (failed /
+ *   canceled) -> refund failed, reopened
+ * - charge.dispute.created -> chargeback opened, escrow frozen
+ * - charge.dispute.closed -> chargeback won / lost (escrow clawed back)
  *
  * Required Environment Variables:
  * - STRIPE_SECRET_KEY: Stripe API secret key
@@ -26,12 +33,17 @@
 
 import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
-import {getStripeProvider} from "./providers";
+import {getStripeProvider, UnhandledWebhookEventError} from "./providers";
 import {fundEscrow} from "../finance/escrowService";
+import {saveStripeCardFromPayment} from "./savedPaymentMethods";
+import {releaseExpiredPayment} from "./paymentExpiry";
+import {getPaymentStatusAfterPayment, recordInstallmentPayment} from "../bookings/paymentSchedule";
+import {openChargeback, closeChargeback, completeRefund, reopenFailedRefund} from "./paymentReversals";
 import {wrapHttpHandler} from "../common/errors";
 import {PaymentLogger} from "../common/logger";
 import {requireFeatureEnabled} from "../common/killSwitch";
 import {isWebhookProcessed, markWebhookProcessed} from "../common/idempotency";
+import {InboundWebhook, receiveWebhook, WebhookHandler} from "../webhooks/webhookEventStore";
 
 const db = admin.firestore();
 const REGION = "us-central1";
@@ -91,14 +103,273 @@ async function findPaymentByReference(
 }
 
 /**
- * Stripe Webhook - HTTP Cloud Function
+ * Check a delivery's signature before it is stored
+ * @returns null when the provider is not configured (the handler skips it)
+ */
+async function verifyStripeWebhook(webhook: InboundWebhook): Promise<boolean | null> {
+  let provider;
+  try {
+    provider = getStripeProvider();
+  } catch {
+    return null;
+  }
+  return provider.verifyWebhookSignature(webhook);
+}
+
+/**
+ * Process a Stripe webhook (live delivery or stored event replay)
  *
- * This function:
  * 1. Verifies webhook signature (provider handles this)
  * 2. Parses the webhook event
  * 3. Checks idempotency (skip if already processed)
- * 4. Updates payment status
- * 5. Triggers escrow funding on payment confirmation
+ * 4. Triggers escrow funding on payment confirmation
+ * 5. Updates payment status (with the booking totals on confirmation)
+ */
+export const handleStripeWebhook: WebhookHandler = async (webhook, errorContext) => {
+  const logger = PaymentLogger(FUNCTION_NAME).setContext(errorContext);
+
+  // Get the Stripe provider
+  let provider;
+  try {
+    provider = getStripeProvider();
+  } catch (providerError) {
+    const errorMsg = providerError instanceof Error ?
+      providerError.message : "unknown";
+    logger.error("stripe_provider_not_available", errorMsg);
+    return {outcome: "skipped", reason: "provider_unavailable", signatureValid: null};
+  }
+
+  // Verify webhook signature
+  const isValid = await provider.verifyWebhookSignature(webhook);
+
+  if (!isValid) {
+    logger.error("webhook_signature_invalid", "Invalid webhook signature");
+    return {outcome: "rejected", reason: "invalid_signature", signatureValid: false};
+  }
+
+  // Check kill-switch (the stored event can be replayed once re-enabled)
+  try {
+    await requireFeatureEnabled("payments", errorContext);
+    await requireFeatureEnabled("webhooks", errorContext);
+  } catch (killSwitchError) {
+    logger.killSwitchActive("payments");
+    return {outcome: "skipped", reason: "kill_switch", signatureValid: true};
+  }
+
+  // Parse the webhook event
+  // Only unhandled event types are skipped; a Stripe API failure while
+  // resolving the charge is thrown so the event is retried
+  let event;
+  try {
+    event = await provider.parseWebhook(webhook);
+  } catch (parseError) {
+    if (!(parseError instanceof UnhandledWebhookEventError)) {
+      throw parseError;
+    }
+    logger.warn("webhook_event_unhandled", {eventType: parseError.eventType});
+    return {outcome: "skipped", reason: "unhandled_event_type", signatureValid: true};
+  }
+
+  const parsed = {signatureValid: true, eventType: event.type, eventId: event.eventId};
+
+  logger.info("stripe_webhook_received", {
+    eventType: event.type,
+    eventId: event.eventId,
+    reference: event.reference,
+    replay: webhook.replay,
+  });
+
+  // Check idempotency
+  const alreadyProcessed = await isWebhookProcessed(
+      "stripe",
+      event.type,
+      event.eventId,
+      errorContext
+  );
+
+  if (alreadyProcessed) {
+    logger.idempotentSkip("webhook", event.eventId, "already_processed");
+    return {outcome: "skipped", reason: "already_processed", ...parsed};
+  }
+
+  // Find the payment record
+  let payment = await findPaymentByProviderPaymentId(event.providerPaymentId);
+  if (!payment && event.reference) {
+    payment = await findPaymentByReference(event.reference);
+  }
+
+  if (!payment) {
+    logger.warn("payment_not_found", {
+      providerPaymentId: event.providerPaymentId,
+      reference: event.reference,
+    });
+    // Payment might have been deleted or not yet created
+    return {outcome: "skipped", reason: "payment_not_found", ...parsed};
+  }
+
+  logger.info("payment_found", {
+    paymentId: payment.id,
+    currentStatus: payment.data.status,
+    eventType: event.type,
+  });
+
+  // Process based on event type
+  switch (event.type) {
+  case "payment.confirmed": {
+    // Skip if already confirmed
+    if (payment.data.status === "confirmed") {
+      logger.idempotentSkip("payment_confirmation", payment.id, "already_confirmed");
+      break;
+    }
+
+    logger.stateTransition("payment", payment.id, payment.data.status, "confirmed");
+
+    // Errors are rethrown so the stored event is retried. The payment is
+    // only marked confirmed once the escrow and booking are updated, so a
+    // retry redoes whatever did not complete (fundEscrow and the schedule
+    // update are idempotent).
+    const escrowId = payment.data.metadata?.escrowId;
+    try {
+      if (escrowId) {
+        await fundEscrow(escrowId, payment.id);
+        logger.info("escrow_funded", {escrowId, paymentId: payment.id});
+      }
+    } catch (escrowError) {
+      const errorMsg = escrowError instanceof Error ?
+        escrowError.message : "unknown";
+      logger.error("escrow_funding_failed", errorMsg, {
+        escrowId,
+        paymentId: payment.id,
+      });
+      throw escrowError;
+    }
+
+    // Booking status is left alone: a deposit doesn't settle the booking.
+    // fundEscrow sets paymentStatus from the payment schedule; payments
+    // without an escrow record their installment here.
+    try {
+      let paymentStatusUpdate = {};
+      if (!escrowId) {
+        const schedule = await recordInstallmentPayment(
+            payment.data.bookingId,
+            payment.id,
+            payment.data.installmentId || undefined
+        );
+        paymentStatusUpdate = {
+          paymentStatus: getPaymentStatusAfterPayment(schedule, "paid"),
+        };
+      }
+
+      // Payment status and booking totals are written together
+      const writeBatch = db.batch();
+      writeBatch.update(db.collection("payments").doc(payment.id), {
+        status: "confirmed",
+        confirmedAt: admin.firestore.FieldValue.serverTimestamp(),
+        stripeEventId: event.eventId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      writeBatch.update(db.collection("bookings").doc(payment.data.bookingId), {
+        ...paymentStatusUpdate,
+        // Booking totals are in the settlement currency
+        paidAmount: admin.firestore.FieldValue.increment(
+            payment.data.settlementAmount ?? event.amount
+        ),
+        paymentId: payment.id,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      await writeBatch.commit();
+      logger.info("booking_updated", {bookingId: payment.data.bookingId});
+    } catch (bookingError) {
+      const errorMsg = bookingError instanceof Error ?
+        bookingError.message : "unknown";
+      logger.error("booking_update_failed", errorMsg, {
+        bookingId: payment.data.bookingId,
+      });
+      throw bookingError;
+    }
+
+    // Keep the card if the client asked to
+    if (payment.data.savePaymentMethod) {
+      try {
+        await saveStripeCardFromPayment(payment.data.userId, event.providerPaymentId);
+      } catch (saveError) {
+        const errorMsg = saveError instanceof Error ?
+          saveError.message : "unknown";
+        logger.error("payment_method_save_failed", errorMsg, {paymentId: payment.id});
+      }
+    }
+
+    break;
+  }
+
+  case "payment.failed": {
+    logger.stateTransition("payment", payment.id, payment.data.status, "failed");
+
+    await updatePaymentStatus(payment.id, "failed", {
+      failedAt: admin.firestore.FieldValue.serverTimestamp(),
+      stripeEventId: event.eventId,
+    });
+    break;
+  }
+
+  case "payment.expired": {
+    logger.stateTransition("payment", payment.id, payment.data.status, "expired");
+
+    await updatePaymentStatus(payment.id, "expired", {
+      expiredAt: admin.firestore.FieldValue.serverTimestamp(),
+      stripeEventId: event.eventId,
+    });
+    await releaseExpiredPayment(payment.id, payment.data, "provider");
+    break;
+  }
+
+  case "refund.succeeded": {
+    // Marks the payment refunded along with the refund it matches
+    await completeRefund(payment, event);
+    break;
+  }
+
+  case "refund.failed": {
+    logger.warn("refund_failed", {
+      paymentId: payment.id,
+      eventId: event.eventId,
+      reason: event.reason,
+    });
+    await reopenFailedRefund(payment, event);
+    break;
+  }
+
+  case "chargeback.opened": {
+    logger.warn("chargeback_opened", {
+      paymentId: payment.id,
+      chargebackId: event.providerChargebackId,
+      reason: event.reason,
+    });
+    await openChargeback(payment, event);
+    break;
+  }
+
+  case "chargeback.won":
+  case "chargeback.lost": {
+    await closeChargeback(payment, event);
+    break;
+  }
+
+  default:
+    logger.warn("unhandled_event_type", {eventType: event.type});
+  }
+
+  // Mark webhook as processed
+  await markWebhookProcessed("stripe", event.type, event.eventId, errorContext);
+
+  return {outcome: "processed", ...parsed};
+};
+
+/**
+ * Stripe Webhook - HTTP Cloud Function
+ *
+ * Stores the event, then processes it with handleStripeWebhook.
+ * Failed events are retried from the store (see webhookEventStore).
  */
 export const stripeWebhook = functions
     .region(REGION)
@@ -108,214 +379,17 @@ export const stripeWebhook = functions
       timeoutSeconds: 60,
     })
     .https.onRequest(
-        wrapHttpHandler(
-            FUNCTION_NAME,
-            async (req, res, errorContext) => {
-              const logger = PaymentLogger(FUNCTION_NAME).setContext(errorContext);
-
-              // Only accept POST
-              if (req.method !== "POST") {
-                logger.warn("invalid_method", {method: req.method});
-                res.status(405).send("Method Not Allowed");
-                return;
-              }
-
-              // Check kill-switch
-              try {
-                await requireFeatureEnabled("payments", errorContext);
-                await requireFeatureEnabled("webhooks", errorContext);
-              } catch (killSwitchError) {
-                logger.killSwitchActive("payments");
-                // Still return 200 to prevent Stripe from retrying
-                res.status(200).json({received: true, skipped: true, reason: "kill_switch"});
-                return;
-              }
-
-              // Get the Stripe provider
-              let provider;
-              try {
-                provider = getStripeProvider();
-              } catch (providerError) {
-                const errorMsg = providerError instanceof Error ?
-                  providerError.message : "unknown";
-                logger.error("stripe_provider_not_available", errorMsg);
-                // Return 200 to prevent retries
-                res.status(200).json({received: true, skipped: true, reason: "provider_unavailable"});
-                return;
-              }
-
-              // Verify webhook signature
-              const isValid = await provider.verifyWebhookSignature({
-                body: req.body,
-                headers: req.headers as Record<string, string | string[] | undefined>,
-                rawBody: req.rawBody,
-              });
-
-              if (!isValid) {
-                logger.error("webhook_signature_invalid", "Invalid webhook signature");
-                res.status(400).send("Invalid signature");
-                return;
-              }
-
-              // Parse the webhook event
-              let event;
-              try {
-                event = await provider.parseWebhook({
-                  body: req.body,
-                  headers: req.headers as Record<string, string | string[] | undefined>,
-                  rawBody: req.rawBody,
-                });
-              } catch (parseError) {
-                logger.warn("webhook_parse_error", {
-                  error: parseError instanceof Error ? parseError.message : "unknown",
-                });
-                // Return 200 for unhandled event types
-                res.status(200).json({received: true, skipped: true, reason: "unhandled_event_type"});
-                return;
-              }
-
-              logger.info("stripe_webhook_received", {
-                eventType: event.type,
-                eventId: event.eventId,
-                reference: event.reference,
-              });
-
-              // Check idempotency
-              const alreadyProcessed = await isWebhookProcessed(
-                  "stripe",
-                  event.type,
-                  event.eventId,
-                  errorContext
-              );
-
-              if (alreadyProcessed) {
-                logger.idempotentSkip("webhook", event.eventId, "already_processed");
-                res.status(200).json({received: true, skipped: true, reason: "already_processed"});
-                return;
-              }
-
-              // Find the payment record
-              let payment = await findPaymentByProviderPaymentId(event.providerPaymentId);
-              if (!payment && event.reference) {
-                payment = await findPaymentByReference(event.reference);
-              }
-
-              if (!payment) {
-                logger.warn("payment_not_found", {
-                  providerPaymentId: event.providerPaymentId,
-                  reference: event.reference,
-                });
-                // Return 200 - payment might have been deleted or not yet created
-                res.status(200).json({received: true, skipped: true, reason: "payment_not_found"});
-                return;
-              }
-
-              logger.info("payment_found", {
-                paymentId: payment.id,
-                currentStatus: payment.data.status,
-                eventType: event.type,
-              });
-
-              // Process based on event type
-              switch (event.type) {
-              case "payment.confirmed": {
-                // Skip if already confirmed
-                if (payment.data.status === "confirmed") {
-                  logger.idempotentSkip("payment_confirmation", payment.id, "already_confirmed");
-                  break;
-                }
-
-                logger.stateTransition("payment", payment.id, payment.data.status, "confirmed");
-
-                // Update payment status
-                await updatePaymentStatus(payment.id, "confirmed", {
-                  confirmedAt: admin.firestore.FieldValue.serverTimestamp(),
-                  stripeEventId: event.eventId,
-                });
-
-                // Fund escrow
-                const escrowId = payment.data.metadata?.escrowId;
-                if (escrowId) {
-                  try {
-                    await fundEscrow(escrowId, payment.id);
-                    logger.info("escrow_funded", {escrowId, paymentId: payment.id});
-                  } catch (escrowError) {
-                    const errorMsg = escrowError instanceof Error ?
-                      escrowError.message : "unknown";
-                    logger.error("escrow_funding_failed", errorMsg, {
-                      escrowId,
-                      paymentId: payment.id,
-                    });
-                  }
-                }
-
-                // Update booking status to paid
-                try {
-                  await db.collection("bookings").doc(payment.data.bookingId).update({
-                    status: "paid",
-                    paidAmount: admin.firestore.FieldValue.increment(event.amount),
-                    paymentId: payment.id,
-                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-                  });
-                  logger.info("booking_updated", {bookingId: payment.data.bookingId});
-                } catch (bookingError) {
-                  const errorMsg = bookingError instanceof Error ?
-                    bookingError.message : "unknown";
-                  logger.error("booking_update_failed", errorMsg, {
-                    bookingId: payment.data.bookingId,
-                  });
-                }
-
-                break;
-              }
-
-              case "payment.failed": {
-                logger.stateTransition("payment", payment.id, payment.data.status, "failed");
-
-                await updatePaymentStatus(payment.id, "failed", {
-                  failedAt: admin.firestore.FieldValue.serverTimestamp(),
-                  stripeEventId: event.eventId,
-                });
-                break;
-              }
-
-              case "payment.expired": {
-                logger.stateTransition("payment", payment.id, payment.data.status, "expired");
-
-                await updatePaymentStatus(payment.id, "expired", {
-                  expiredAt: admin.firestore.FieldValue.serverTimestamp(),
-                  stripeEventId: event.eventId,
-                });
-                break;
-              }
-
-              case "refund.succeeded": {
-                logger.stateTransition("payment", payment.id, payment.data.status, "refunded");
-
-                await updatePaymentStatus(payment.id, "refunded", {
-                  refundedAt: admin.firestore.FieldValue.serverTimestamp(),
-                  refundedAmount: event.amount,
-                  stripeEventId: event.eventId,
-                });
-                break;
-              }
-
-              case "refund.failed": {
-                logger.warn("refund_failed", {
-                  paymentId: payment.id,
-                  eventId: event.eventId,
-                });
-                break;
-              }
-
-              default:
-                logger.warn("unhandled_event_type", {eventType: event.type});
-              }
-
-              // Mark webhook as processed
-              await markWebhookProcessed("stripe", event.type, event.eventId, errorContext);
-
-              res.status(200).json({received: true, success: true});
-            }
+        wrapHttpHandler(FUNCTION_NAME, (req, res, errorContext) =>
+          receiveWebhook(
+              {
+                source: "stripe",
+                handler: handleStripeWebhook,
+                storedHeaders: ["content-type", "stripe-signature"],
+                verifySignature: verifyStripeWebhook,
+              },
+              req,
+              res,
+              errorContext
+          )
         )
     );
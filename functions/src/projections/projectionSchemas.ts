@@ -85,7 +85,10 @@ export interface ClientBookingSummary {
   eventDate: FirebaseFirestore.Timestamp;
   status: BookingStatusForUI;
   totalAmount: number;
-  currency: string;
+  currency: string; // Settlement currency (totalAmount, paidAmount, nextPayment)
+  paidAmount: number;
+  presentmentPaid: PresentmentAmountSummary[]; // What the client was charged in other currencies
+  nextPayment: ClientNextPaymentSummary | null; // Next unpaid installment
 
   // UI Flags - buttons map 1:1 to these
   uiFlags: ClientBookingUIFlags;
@@ -93,6 +96,26 @@ export interface ClientBookingSummary {
   createdAt: FirebaseFirestore.Timestamp;
 }
 
+/**
+ * Amount in a currency the client paid in (presentment)
+ * Listed next to settlement amounts when the client paid in another currency
+ */
+export interface PresentmentAmountSummary {
+  currency: string;
+  amount: number;
+}
+
+/**
+ * Next installment of a booking's payment schedule
+ */
+export interface ClientNextPaymentSummary {
+  installmentId: string;
+  type: "full" | "deposit" | "balance";
+  amount: number;
+  dueDate: FirebaseFirestore.Timestamp | null; // null = due on confirmation
+  isOverdue: boolean;
+}
+
 /**
  * Event summary for "Pr imos Eventos" widget
  */
@@ -112,13 +135,16 @@ export interface ClientEventSummary {
  */
 export interface ClientBookingUIFlags {
   canCancel: boolean;
-  canPay: boolean;
+  canPay: boolean; // Also true while installments are outstanding
   canReview: boolean;
   canMessage: boolean;
   canViewDetails: boolean;
   canRequestRefund: boolean;
+  canOpenDispute: boolean; // Within the auto-release window
+  canAddDisputeStatement: boolean;
   showPaymentPending: boolean;
   showEscrowHeld: boolean;
+  showDisputeOpen: boolean;
 }
 
 // ==================== SUPPLIER VIEW SCHEMA ====================
@@ -164,7 +190,8 @@ export interface SupplierView {
     thisMonth: number;
     pendingPayout: number;
     totalEarned: number;
-    currency: string;
+    currency: string; // Settlement currency
+    presentmentTotals: PresentmentAmountSummary[]; // totalEarned as paid by clients in other currencies
   };
 
   // Availability summary (for quick view)
@@ -173,6 +200,12 @@ export interface SupplierView {
     reservedThisMonth: number;
     blockedThisMonth: number;
     requestedThisMonth: number;
+
+    // Daily capacity - "X de N vagas" (slotsLeftToday of dailyCapacity)
+    dailyCapacity: number;
+    slotsLeftToday: number;
+    slotsLeftThisMonth: number; // From today until end of month
+    totalSlotsThisMonth: number; // From today until end of month
   };
 
   // Blocked dates (for calendar, max 60 days ahead)
@@ -210,11 +243,13 @@ export interface SupplierBookingSummary {
   clientName: string;
   clientPhotoUrl: string | null;
   eventName: string;
-  eventDate: FirebaseFirestore.Timestamp;
+  eventDate: FirebaseFirestore.Timestamp; // First slot
+  slots: SupplierBookingSlotSummary[]; // All slots, chronological
   eventLocation: string | null;
   status: BookingStatusForUI;
   totalAmount: number;
-  currency: string;
+  currency: string; // Settlement currency
+  presentmentPaid: PresentmentAmountSummary[]; // What the client paid in other currencies
 
   // UI Flags - buttons map 1:1 to these
   uiFlags: SupplierBookingUIFlags;
@@ -224,15 +259,30 @@ export interface SupplierBookingSummary {
   expiresAt: FirebaseFirestore.Timestamp | null; // For pending bookings
 }
 
+/**
+ * Single date/time slot of a booking
+ * startTime/endTime are null for whole-day slots
+ */
+export interface SupplierBookingSlotSummary {
+  date: FirebaseFirestore.Timestamp;
+  startTime: string | null;
+  endTime: string | null;
+}
+
 /**
  * Event summary for supplier "Pr imos Eventos"
+ * Multi-slot bookings produce one entry per slot
  */
 export interface SupplierEventSummary {
   bookingId: string;
   clientName: string;
   clientPhotoUrl: string | null;
   eventName: string;
-  eventDate: FirebaseFirestore.Timestamp;
+  eventDate: FirebaseFirestore.Timestamp; // Date of this slot
+  startTime: string | null;
+  endTime: string | null;
+  slotIndex: number; // 0-based position within the booking
+  slotCount: number;
   eventLocation: string | null;
   status: BookingStatusForUI;
 }
@@ -247,6 +297,7 @@ export interface SupplierBlockedDateSummary {
   reason: string;
   bookingId: string | null;
   canUnblock: boolean;
+  ruleId: string | null; // Set when closed by a recurring availability rule
 }
 
 /**
@@ -262,6 +313,8 @@ export interface SupplierBookingUIFlags {
   canViewDetails: boolean;
   showExpiringSoon: boolean; // < 24h to respond
   showPaymentReceived: boolean;
+  canAddDisputeStatement: boolean;
+  showDisputeOpen: boolean;
 }
 
 /**
@@ -319,6 +372,22 @@ export function mapToUIStatus(internalStatus: string): BookingStatusForUI {
   }
 }
 
+/**
+ * Dispute statuses that keep a booking shown as "disputed"
+ */
+export const ACTIVE_DISPUTE_STATUSES = ["open", "under_review"];
+
+/**
+ * UI status for a booking document
+ * An active dispute overrides the booking status (which stays unchanged).
+ */
+export function getBookingUIStatus(booking: FirebaseFirestore.DocumentData): BookingStatusForUI {
+  if (ACTIVE_DISPUTE_STATUSES.includes(booking.disputeStatus)) {
+    return "disputed";
+  }
+  return mapToUIStatus(booking.status || "pending");
+}
+
 // ==================== PROJECTION UPDATE TRIGGERS ====================
 
 /**
@@ -21,16 +21,31 @@ import {
   ClientBookingSummary,
   ClientEventSummary,
   ClientBookingUIFlags,
+  ClientNextPaymentSummary,
+  PresentmentAmountSummary,
   SupplierView,
   SupplierBookingSummary,
+  SupplierBookingSlotSummary,
   SupplierEventSummary,
   SupplierBlockedDateSummary,
   SupplierBookingUIFlags,
   SupplierDashboardStats,
   SupplierAccountFlags,
-  mapToUIStatus,
+  getBookingUIStatus,
   BookingStatusForUI,
 } from "./projectionSchemas";
+import {
+  getBookingSlots,
+  dateKeyToTimestamp,
+  toDateKey,
+  getCapacitySettings,
+  getDailyCapacities,
+  getRuleBlockedDates,
+} from "../bookings/bookingUtils";
+import {readAvailabilityRules} from "../bookings/availabilityRules";
+import {getNextInstallment} from "../bookings/paymentSchedule";
+import {getPendingPayoutAmount} from "../finance/payoutService";
+import {isInDisputeWindow} from "../finance/escrowService";
 
 const db = admin.firestore();
 
@@ -186,7 +201,7 @@ function buildClientBookingSummary(
   booking: admin.firestore.DocumentData,
   supplier: admin.firestore.DocumentData
 ): ClientBookingSummary {
-  const status = mapToUIStatus(booking.status || "pending");
+  const status = getBookingUIStatus(booking);
 
   return {
     bookingId,
@@ -199,11 +214,45 @@ function buildClientBookingSummary(
     status,
     totalAmount: booking.totalAmount || booking.price || 0,
     currency: booking.currency || "AOA",
+    paidAmount: booking.paidAmount || 0,
+    presentmentPaid: buildPresentmentPaid(booking),
+    nextPayment: buildClientNextPayment(booking),
     uiFlags: buildClientUIFlags(status, booking),
     createdAt: booking.createdAt || admin.firestore.Timestamp.now(),
   };
 }
 
+/**
+ * Build presentment amounts paid for a booking (see escrowService)
+ */
+function buildPresentmentPaid(
+  booking: admin.firestore.DocumentData
+): PresentmentAmountSummary[] {
+  return Object.entries((booking.presentmentPaid || {}) as Record<string, number>)
+    .filter(([, amount]) => amount > 0)
+    .map(([currency, amount]) => ({currency, amount}));
+}
+
+/**
+ * Build next installment summary for client view
+ */
+function buildClientNextPayment(
+  booking: admin.firestore.DocumentData
+): ClientNextPaymentSummary | null {
+  const installment = getNextInstallment(booking.paymentSchedule);
+  if (!installment) {
+    return null;
+  }
+
+  return {
+    installmentId: installment.id,
+    type: installment.type,
+    amount: installment.amount,
+    dueDate: installment.dueDate,
+    isOverdue: installment.status === "overdue",
+  };
+}
+
 /**
  * Build UI flags for client booking actions
  */
@@ -216,18 +265,31 @@ function buildClientUIFlags(
   const totalPrice = booking.totalPrice || 0;
   const isUnpaid = paidAmount === 0;
   const isPartiallyPaid = paidAmount > 0 && paidAmount < totalPrice;
+  // Scheduled bookings pay installments until the schedule is complete
+  const hasInstallmentDue = !!booking.paymentSchedule &&
+    booking.paymentSchedule.status !== "paid" &&
+    (status === "pending" || status === "confirmed");
 
   return {
     canCancel: status === "pending" || status === "confirmed",
     // Client can pay if booking is pending AND hasn't paid yet (or partially paid)
     // This allows clients to pay BEFORE supplier confirms
-    canPay: status === "pending" && (isUnpaid || isPartiallyPaid),
+    canPay: hasInstallmentDue || (status === "pending" && (isUnpaid || isPartiallyPaid)),
     canReview: status === "completed" && !booking.hasReview,
     canMessage: status !== "cancelled" && status !== "expired",
     canViewDetails: true,
     canRequestRefund: status === "cancelled" && paymentStatus === "paid",
+    // Same window as openDispute: the window end is set when the service is completed
+    canOpenDispute: status !== "disputed" && !booking.disputeId &&
+      (paymentStatus === "escrow_funded" || paymentStatus === "partially_paid") &&
+      isInDisputeWindow({
+        status: booking.disputeWindowEndsAt ? "service_completed" : "funded",
+        autoReleaseAt: booking.disputeWindowEndsAt,
+      }, Date.now()),
+    canAddDisputeStatement: status === "disputed",
     showPaymentPending: status === "pending" && isUnpaid,
     showEscrowHeld: paymentStatus === "escrow",
+    showDisputeOpen: status === "disputed",
   };
 }
 
@@ -356,23 +418,28 @@ export async function rebuildSupplierView(
       .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
       .slice(0, 10);
 
-    // upcomingEvents: eventDate ASC (soonest first) - agenda view
+    // upcomingEvents: slot date ASC (soonest first) - agenda view, one entry per slot
     const upcomingEvents: SupplierEventSummary[] = allBookings
-      .filter((b) =>
-        (b.status === "confirmed" || b.status === "inProgress") &&
-        b.eventDate.toMillis() > now.toMillis()
-      )
-      .sort((a, b) => a.eventDate.toMillis() - b.eventDate.toMillis())
-      .slice(0, 5)
-      .map((b) => ({
+      .filter((b) => b.status === "confirmed" || b.status === "inProgress")
+      .flatMap((b) => b.slots.map((slot, slotIndex) => ({
         bookingId: b.bookingId,
         clientName: b.clientName,
         clientPhotoUrl: b.clientPhotoUrl,
         eventName: b.eventName,
-        eventDate: b.eventDate,
+        eventDate: slot.date,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        slotIndex,
+        slotCount: b.slots.length,
         eventLocation: b.eventLocation,
         status: b.status,
-      }));
+      })))
+      .filter((e) => e.eventDate.toMillis() > now.toMillis())
+      .sort((a, b) =>
+        a.eventDate.toMillis() - b.eventDate.toMillis() ||
+        (a.startTime || "").localeCompare(b.startTime || "")
+      )
+      .slice(0, 5);
 
     // Get dashboard stats
     const dashboardStats = buildDashboardStats(allBookings, supplierData);
@@ -384,10 +451,10 @@ export async function rebuildSupplierView(
     const earningsSummary = await getSupplierEarningsSummary(supplierId);
 
     // Get blocked dates (already ordered by date ASC from query)
-    const blockedDates = await getSupplierBlockedDates(supplierId);
+    const blockedDates = await getSupplierBlockedDates(supplierId, supplierData);
 
-    // Build availability summary
-    const availabilitySummary = buildAvailabilitySummary(blockedDates);
+    // Build availability summary (respects daily capacity)
+    const availabilitySummary = await buildAvailabilitySummary(supplierId, blockedDates);
 
     // Build account flags
     const accountFlags = buildAccountFlags(supplierData);
@@ -442,7 +509,7 @@ function buildSupplierBookingSummary(
   booking: admin.firestore.DocumentData,
   client: admin.firestore.DocumentData
 ): SupplierBookingSummary {
-  const status = mapToUIStatus(booking.status || "pending");
+  const status = getBookingUIStatus(booking);
 
   // Calculate expiry for pending bookings (7 days from creation)
   let expiresAt: admin.firestore.Timestamp | null = null;
@@ -452,17 +519,26 @@ function buildSupplierBookingSummary(
     expiresAt = admin.firestore.Timestamp.fromMillis(expiryMs);
   }
 
+  const eventDate = booking.eventDate || admin.firestore.Timestamp.now();
+  const slots: SupplierBookingSlotSummary[] = getBookingSlots(booking).map((slot) => ({
+    date: dateKeyToTimestamp(slot.date),
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+  }));
+
   return {
     bookingId,
     clientId: booking.clientId || "",
     clientName: client.displayName || client.name || "Cliente",
     clientPhotoUrl: client.photoUrl || null,
     eventName: booking.eventName || "Evento",
-    eventDate: booking.eventDate || admin.firestore.Timestamp.now(),
+    eventDate,
+    slots: slots.length > 0 ? slots : [{date: eventDate, startTime: null, endTime: null}],
     eventLocation: booking.eventLocation || booking.location || null,
     status,
     totalAmount: booking.totalAmount || booking.price || 0,
     currency: booking.currency || "AOA",
+    presentmentPaid: buildPresentmentPaid(booking),
     uiFlags: buildSupplierUIFlags(status, booking, expiresAt),
     createdAt: booking.createdAt || admin.firestore.Timestamp.now(),
     expiresAt,
@@ -497,6 +573,8 @@ function buildSupplierUIFlags(
     canViewDetails: true,
     showExpiringSoon,
     showPaymentReceived: paymentStatus === "paid" || paymentStatus === "escrow",
+    canAddDisputeStatement: status === "disputed",
+    showDisputeOpen: status === "disputed",
   };
 }
 
@@ -525,12 +603,9 @@ function buildDashboardStats(
 /**
  * Get supplier earnings summary
  */
-async function getSupplierEarningsSummary(supplierId: string): Promise<{
-  thisMonth: number;
-  pendingPayout: number;
-  totalEarned: number;
-  currency: string;
-}> {
+async function getSupplierEarningsSummary(
+  supplierId: string
+): Promise<SupplierView["earningsSummary"]> {
   try {
     const now = new Date();
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -543,44 +618,57 @@ async function getSupplierEarningsSummary(supplierId: string): Promise<{
 
     let thisMonth = 0;
     let totalEarned = 0;
+    let currency = "AOA";
+    const presentmentTotals = new Map<string, number>();
 
     for (const doc of paymentsSnapshot.docs) {
       const payment = doc.data();
-      const amount = payment.supplierAmount || payment.amount || 0;
+      // payment.amount is what the client was charged; settlementAmount is
+      // set when that was in another currency
+      const amount = payment.supplierAmount || payment.settlementAmount || payment.amount || 0;
       const paidAt = payment.paidAt || payment.completedAt;
 
       totalEarned += amount;
 
+      if (payment.settlementCurrency) {
+        currency = payment.settlementCurrency;
+        if (payment.currency !== payment.settlementCurrency) {
+          presentmentTotals.set(
+            payment.currency,
+            (presentmentTotals.get(payment.currency) || 0) + (payment.amount || 0)
+          );
+        }
+      }
+
       if (paidAt && paidAt.toDate() >= startOfMonth) {
         thisMonth += amount;
       }
     }
 
-    // Get pending payout from escrow
-    const escrowSnapshot = await db
-      .collection("escrow")
-      .where("supplierId", "==", supplierId)
-      .where("status", "==", "held")
-      .get();
+    // Released to the supplier but not paid out yet
+    const pendingPayout = await getPendingPayoutAmount(supplierId);
 
-    let pendingPayout = 0;
-    for (const doc of escrowSnapshot.docs) {
-      const escrow = doc.data();
-      pendingPayout += escrow.supplierAmount || escrow.amount || 0;
-    }
-
-    return {thisMonth, pendingPayout, totalEarned, currency: "AOA"};
+    return {
+      thisMonth,
+      pendingPayout,
+      totalEarned,
+      currency,
+      presentmentTotals: [...presentmentTotals].map(([code, total]) => ({currency: code, amount: total})),
+    };
   } catch (error) {
     console.error(`Error getting earnings for ${supplierId}:`, error);
-    return {thisMonth: 0, pendingPayout: 0, totalEarned: 0, currency: "AOA"};
+    return {thisMonth: 0, pendingPayout: 0, totalEarned: 0, currency: "AOA", presentmentTotals: []};
   }
 }
 
 /**
  * Get supplier blocked dates
+ * Dates closed by recurring availability rules are listed as "unavailable"
+ * (they are changed through the rules, not unblocked one by one).
  */
 async function getSupplierBlockedDates(
-  supplierId: string
+  supplierId: string,
+  supplierData: admin.firestore.DocumentData
 ): Promise<SupplierBlockedDateSummary[]> {
   try {
     const now = admin.firestore.Timestamp.now();
@@ -597,7 +685,7 @@ async function getSupplierBlockedDates(
       .orderBy("date")
       .get();
 
-    return snapshot.docs.map((doc) => {
+    const blockedDates: SupplierBlockedDateSummary[] = snapshot.docs.map((doc) => {
       const data = doc.data();
       const type = data.type || "blocked";
 
@@ -608,8 +696,37 @@ async function getSupplierBlockedDates(
         reason: data.reason || "",
         bookingId: data.bookingId || null,
         canUnblock: type === "blocked" || type === "unavailable",
+        ruleId: null,
       };
     });
+
+    const explicitKeys = new Set(
+      blockedDates
+        .filter((bd) => bd.type === "blocked" || bd.type === "unavailable")
+        .map((bd) => toDateKey(bd.date))
+    );
+    const ruleBlocked = await getRuleBlockedDates(
+      supplierId,
+      now.toDate().toISOString().slice(0, 10),
+      sixtyDaysLater.toDate().toISOString().slice(0, 10),
+      {availabilityRules: readAvailabilityRules(supplierData.availabilityRules)}
+    );
+
+    ruleBlocked.forEach((evaluation, dateKey) => {
+      if (explicitKeys.has(dateKey)) return;
+
+      blockedDates.push({
+        id: `rule_${dateKey}`,
+        date: dateKeyToTimestamp(dateKey),
+        type: "unavailable",
+        reason: evaluation.reason,
+        bookingId: null,
+        canUnblock: false,
+        ruleId: evaluation.ruleId,
+      });
+    });
+
+    return blockedDates.sort((a, b) => a.date.toMillis() - b.date.toMillis());
   } catch (error) {
     console.error(`Error getting blocked dates for ${supplierId}:`, error);
     return [];
@@ -617,18 +734,22 @@ async function getSupplierBlockedDates(
 }
 
 /**
- * Build availability summary from blocked dates
+ * Build availability summary from blocked dates and daily capacity
+ *
+ * A day stays available while it is not blocked and has capacity left,
+ * so suppliers serving several events per day are not shown as full
+ * after their first booking.
  */
-function buildAvailabilitySummary(
+async function buildAvailabilitySummary(
+  supplierId: string,
   blockedDates: SupplierBlockedDateSummary[]
-): {
-  availableThisMonth: number;
-  reservedThisMonth: number;
-  blockedThisMonth: number;
-  requestedThisMonth: number;
-} {
+): Promise<SupplierView["availabilitySummary"]> {
   const now = new Date();
   const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+  const monthPrefix = now.toISOString().slice(0, 7);
+  const todayKey = now.toISOString().slice(0, 10);
+  const monthStartKey = `${monthPrefix}-01`;
+  const monthEndKey = `${monthPrefix}-${String(daysInMonth).padStart(2, "0")}`;
 
   const thisMonthDates = blockedDates.filter((bd) => {
     const date = bd.date.toDate();
@@ -640,13 +761,53 @@ function buildAvailabilitySummary(
   const blockedThisMonth = thisMonthDates.filter(
     (bd) => bd.type === "blocked" || bd.type === "unavailable"
   ).length;
-  const availableThisMonth = daysInMonth - reservedThisMonth - requestedThisMonth - blockedThisMonth;
+
+  const blockedKeys = new Set(
+    thisMonthDates
+      .filter((bd) => bd.type === "blocked" || bd.type === "unavailable")
+      .map((bd) => toDateKey(bd.date))
+  );
+
+  let dailyCapacity = 1;
+  let capacities = new Map<string, {remaining: number}>();
+  try {
+    const [settings, dailyCapacities] = await Promise.all([
+      getCapacitySettings(supplierId),
+      getDailyCapacities(supplierId, monthStartKey, monthEndKey),
+    ]);
+    dailyCapacity = settings.supplierCapacity;
+    capacities = dailyCapacities;
+  } catch (error) {
+    console.error(`Error getting capacity for ${supplierId}:`, error);
+  }
+
+  let availableThisMonth = 0;
+  let slotsLeftThisMonth = 0;
+  let totalSlotsThisMonth = 0;
+  for (let day = 1; day <= daysInMonth; day++) {
+    const dateKey = `${monthPrefix}-${String(day).padStart(2, "0")}`;
+    if (blockedKeys.has(dateKey)) continue;
+
+    const remaining = capacities.get(dateKey)?.remaining ?? dailyCapacity;
+    if (remaining > 0) availableThisMonth++;
+
+    if (dateKey >= todayKey) {
+      slotsLeftThisMonth += remaining;
+      totalSlotsThisMonth += dailyCapacity;
+    }
+  }
 
   return {
-    availableThisMonth: Math.max(0, availableThisMonth),
+    availableThisMonth,
     reservedThisMonth,
     blockedThisMonth,
     requestedThisMonth,
+    dailyCapacity,
+    slotsLeftToday: blockedKeys.has(todayKey) ?
+      0 :
+      capacities.get(todayKey)?.remaining ?? dailyCapacity,
+    slotsLeftThisMonth,
+    totalSlotsThisMonth,
   };
 }
 
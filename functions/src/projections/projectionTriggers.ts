@@ -169,6 +169,33 @@ export const onEscrowUpdated = functions.firestore
     }
   });
 
+// ==================== PAYOUT TRIGGERS ====================
+
+/**
+ * Trigger: Payout batch created or status changed
+ * Updates supplier view pending payout
+ */
+export const onPayoutBatchWritten = functions.firestore
+  .document("payout_batches/{batchId}")
+  .onWrite(async (change, context) => {
+    const before = change.before.exists ? change.before.data() : null;
+    const after = change.after.exists ? change.after.data() : null;
+    const batchId = context.params.batchId;
+
+    if (!after || before?.status === after.status) {
+      return;
+    }
+
+    console.log(`Payout batch ${batchId}: ${before?.status || "none"} -> ${after.status}`);
+
+    try {
+      await rebuildSupplierView(after.supplierId as string);
+      console.log(`Supplier view updated for payout batch ${batchId}`);
+    } catch (error) {
+      console.error(`Error updating supplier view for payout batch ${batchId}:`, error);
+    }
+  });
+
 // ==================== MESSAGE TRIGGERS ====================
 
 /**
@@ -285,7 +312,7 @@ export const onReviewCreated = functions.firestore
 
 /**
  * Trigger: Supplier profile updated
- * Updates supplier view account flags
+ * Updates supplier view account flags and rule-blocked dates
  */
 export const onSupplierUpdated = functions.firestore
   .document("suppliers/{supplierId}")
@@ -301,7 +328,8 @@ export const onSupplierUpdated = functions.firestore
       before.lifecycle_state !== after.lifecycle_state ||
       JSON.stringify(before.compliance) !== JSON.stringify(after.compliance) ||
       JSON.stringify(before.visibility) !== JSON.stringify(after.visibility) ||
-      JSON.stringify(before.blocks) !== JSON.stringify(after.blocks);
+      JSON.stringify(before.blocks) !== JSON.stringify(after.blocks) ||
+      JSON.stringify(before.availabilityRules) !== JSON.stringify(after.availabilityRules);
 
     if (!relevantFieldsChanged) {
       return;
@@ -0,0 +1,716 @@
+/**
+ * Promotions - Promo Codes and Discounts
+ *
+ * Admins create promo codes; clients apply one when booking
+ * (createBooking) or before their first payment (createPaymentIntent).
+ * Discounts are always computed and validated here, never trusted from
+ * the client.
+ *
+ * Who pays for the discount:
+ * - platform: the supplier is paid as if the full price was charged, the
+ *   platform covers the difference out of its fee (see calculateFees)
+ * - supplier: the booking is simply cheaper, fees apply to what is paid
+ *
+ * Each use is a redemption reserved atomically with the usage counters,
+ * and released again if the booking is cancelled or expires.
+ *
+ * Collection: promotions/{promotionId}
+ * Redemptions: promotions/{promotionId}/redemptions/{bookingId}
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {
+  wrapHandler,
+  Errors,
+  ErrorContext,
+} from "../common/errors";
+import {createLogger} from "../common/logger";
+import {isSupportedCurrency, normalizeCurrency} from "../common/currency";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const logger = createLogger("booking", "promotions");
+
+const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,20}$/;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Bookings that count as a previous booking for first-booking-only codes
+ */
+const PREVIOUS_BOOKING_STATUSES = ["pending", "confirmed", "partially_paid", "completed"];
+
+// ==================== TYPES ====================
+
+export type PromotionType = "percentage" | "fixed";
+export type PromotionFundedBy = "platform" | "supplier";
+export type RedemptionStatus = "active" | "released";
+
+export interface PromotionRecord {
+  id: string;
+  code: string; // Uppercase, unique
+  description: string;
+  type: PromotionType;
+  value: number; // Percentage (1-100) or fixed amount in `currency`
+  currency: string; // Currency of fixed values and minAmount
+  maxDiscount: number | null; // Cap for percentage discounts
+  minAmount: number | null; // Minimum booking price
+  categories: string[] | null; // Supplier category names, null = any
+  supplierIds: string[] | null; // null = any supplier
+  fundedBy: PromotionFundedBy;
+  usageLimit: number | null; // Total redemptions, null = unlimited
+  perUserLimit: number;
+  usageCount: number;
+  firstBookingOnly: boolean;
+  validFrom: FirebaseFirestore.Timestamp;
+  validUntil: FirebaseFirestore.Timestamp | null;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: FirebaseFirestore.FieldValue;
+  updatedAt: FirebaseFirestore.FieldValue;
+}
+
+/**
+ * Promotion terms snapshotted onto bookings/{id}.promotion
+ * Kept so a repriced booking gets the same discount on the new price.
+ */
+export interface BookingPromotion {
+  promotionId: string;
+  code: string;
+  type: PromotionType;
+  value: number;
+  maxDiscount: number | null;
+  fundedBy: PromotionFundedBy;
+  discountAmount: number;
+}
+
+/**
+ * What a promo code is being applied to
+ */
+export interface PromotionTarget {
+  userId: string;
+  supplierId: string;
+  category: string | null;
+  amount: number; // Price before discount, in `currency`
+  currency: string;
+}
+
+interface CreatePromotionRequest {
+  code: string;
+  description?: string;
+  type: PromotionType;
+  value: number;
+  currency?: string;
+  maxDiscount?: number;
+  minAmount?: number;
+  categories?: string[];
+  supplierIds?: string[];
+  fundedBy?: PromotionFundedBy;
+  usageLimit?: number;
+  perUserLimit?: number;
+  firstBookingOnly?: boolean;
+  validFrom?: string; // ISO date
+  validUntil?: string; // ISO date
+}
+
+interface PreviewPromoCodeRequest {
+  code: string;
+  supplierId: string;
+  packageId: string;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Check if a user is an admin
+ */
+async function checkIsAdmin(userId: string): Promise<boolean> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  if (!userDoc.exists) return false;
+  return userDoc.data()?.role === "admin";
+}
+
+/**
+ * Normalize a promo code as typed by a user
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Discount a promotion gives on an amount
+ * Never more than the amount itself.
+ */
+export function calculatePromotionDiscount(
+    terms: Pick<BookingPromotion, "type" | "value" | "maxDiscount">,
+    amount: number
+): number {
+  let discount = terms.type === "percentage" ?
+    Math.round(amount * terms.value / 100) :
+    terms.value;
+
+  if (terms.maxDiscount !== null && terms.maxDiscount !== undefined) {
+    discount = Math.min(discount, terms.maxDiscount);
+  }
+
+  return Math.max(Math.min(discount, amount), 0);
+}
+
+/**
+ * Platform-funded share of a booking discount for one payment
+ * Allocated in proportion to the payment, so each installment's escrow
+ * carries its part.
+ *
+ * @param booking - Booking document data
+ * @param amount - Amount of the payment (booking currency)
+ */
+export function getPlatformDiscountShare(
+    booking: FirebaseFirestore.DocumentData,
+    amount: number
+): number {
+  const promotion = booking.promotion as BookingPromotion | undefined;
+  const totalAmount = booking.totalAmount || 0;
+  if (promotion?.fundedBy !== "platform" || !promotion.discountAmount || totalAmount <= 0) {
+    return 0;
+  }
+
+  return Math.round(promotion.discountAmount * Math.min(amount, totalAmount) / totalAmount);
+}
+
+/**
+ * Check the terms of a promotion that do not depend on usage
+ *
+ * @returns Reason the code cannot be used (user-facing), or null
+ */
+function checkPromotionTerms(
+    promotion: PromotionRecord,
+    target: PromotionTarget,
+    now: Date
+): string | null {
+  if (!promotion.isActive) {
+    return "Este código promocional já não está ativo";
+  }
+  if (promotion.validFrom && promotion.validFrom.toDate() > now) {
+    return "Este código promocional ainda não é válido";
+  }
+  if (promotion.validUntil && promotion.validUntil.toDate() <= now) {
+    return "Este código promocional expirou";
+  }
+  if (promotion.supplierIds && !promotion.supplierIds.includes(target.supplierId)) {
+    return "Este código não é válido para este fornecedor";
+  }
+  if (promotion.categories &&
+      (!target.category || !promotion.categories.includes(target.category))) {
+    return "Este código não é válido para esta categoria";
+  }
+  if ((promotion.type === "fixed" || promotion.minAmount) &&
+      normalizeCurrency(promotion.currency) !== normalizeCurrency(target.currency)) {
+    return "Este código não é válido para a moeda desta reserva";
+  }
+  if (promotion.minAmount && target.amount < promotion.minAmount) {
+    return "O valor da reserva não atinge o mínimo desta promoção";
+  }
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    return "Este código promocional esgotou";
+  }
+
+  return null;
+}
+
+/**
+ * Check if a client already has a booking (for first-booking-only codes)
+ */
+async function hasPreviousBooking(userId: string, excludeBookingId?: string): Promise<boolean> {
+  const snapshot = await db
+      .collection("bookings")
+      .where("clientId", "==", userId)
+      .where("status", "in", PREVIOUS_BOOKING_STATUSES)
+      .limit(2)
+      .get();
+
+  return snapshot.docs.some((doc) => doc.id !== excludeBookingId);
+}
+
+/**
+ * Look up a promo code and check it applies to a booking
+ * Usage counters are re-checked atomically by reservePromotion.
+ *
+ * @param code - Promo code as typed by the client
+ * @param target - What the code is applied to
+ * @param errorContext - Error context of the calling function
+ * @param excludeBookingId - Booking being discounted (not a "previous" one)
+ * @returns The promotion and the discount it gives
+ * @throws AppError (failed-precondition) with a user-facing reason
+ */
+export async function resolvePromotion(
+    code: string,
+    target: PromotionTarget,
+    errorContext: ErrorContext,
+    excludeBookingId?: string
+): Promise<{promotion: PromotionRecord; discountAmount: number}> {
+  const normalizedCode = normalizePromoCode(code);
+
+  const snapshot = await db
+      .collection("promotions")
+      .where("code", "==", normalizedCode)
+      .limit(1)
+      .get();
+
+  if (snapshot.empty) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Unknown promo code ${normalizedCode}`,
+        "Código promocional inválido"
+    );
+  }
+
+  const promotion = snapshot.docs[0].data() as PromotionRecord;
+  const reason = checkPromotionTerms(promotion, target, new Date());
+  if (reason) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Promo code ${normalizedCode} not applicable: ${reason}`,
+        reason
+    );
+  }
+
+  if (promotion.firstBookingOnly && await hasPreviousBooking(target.userId, excludeBookingId)) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Promo code ${normalizedCode} is first-booking-only`,
+        "Este código é válido apenas na primeira reserva"
+    );
+  }
+
+  const discountAmount = calculatePromotionDiscount(promotion, target.amount);
+  if (discountAmount <= 0) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Promo code ${normalizedCode} gives no discount`,
+        "Este código não dá desconto nesta reserva"
+    );
+  }
+
+  return {promotion, discountAmount};
+}
+
+/**
+ * Snapshot of the promotion stored on the booking
+ */
+export function buildBookingPromotion(
+    promotion: PromotionRecord,
+    discountAmount: number
+): BookingPromotion {
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    type: promotion.type,
+    value: promotion.value,
+    maxDiscount: promotion.maxDiscount,
+    fundedBy: promotion.fundedBy,
+    discountAmount,
+  };
+}
+
+/**
+ * Reserve a redemption inside a transaction
+ * Re-checks the usage cap and per-user limit, then counts the use.
+ * All reads happen before any write, so callers may add their own
+ * writes to the transaction afterwards.
+ *
+ * @throws AppError (failed-precondition) when the code ran out meanwhile
+ */
+export async function reservePromotion(
+    transaction: FirebaseFirestore.Transaction,
+    redemption: {
+      promotionId: string;
+      bookingId: string;
+      userId: string;
+      discountAmount: number;
+    },
+    errorContext: ErrorContext
+): Promise<void> {
+  const promotionRef = db.collection("promotions").doc(redemption.promotionId);
+  const redemptionsRef = promotionRef.collection("redemptions");
+
+  const [promotionDoc, userRedemptions] = await Promise.all([
+    transaction.get(promotionRef),
+    transaction.get(redemptionsRef.where("userId", "==", redemption.userId)),
+  ]);
+
+  const promotion = promotionDoc.data() as PromotionRecord | undefined;
+  if (!promotion || !promotion.isActive) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Promotion ${redemption.promotionId} not active`,
+        "Este código promocional já não está ativo"
+    );
+  }
+
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `Promotion ${redemption.promotionId} usage limit reached`,
+        "Este código promocional esgotou"
+    );
+  }
+
+  const activeUses = userRedemptions.docs.filter((doc) => doc.data().status === "active").length;
+  if (activeUses >= (promotion.perUserLimit || 1)) {
+    throw Errors.failedPrecondition(
+        errorContext,
+        `User ${redemption.userId} already used promotion ${redemption.promotionId}`,
+        "Já utilizou este código promocional"
+    );
+  }
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  transaction.update(promotionRef, {
+    usageCount: admin.firestore.FieldValue.increment(1),
+    updatedAt: now,
+  });
+  transaction.set(redemptionsRef.doc(redemption.bookingId), {
+    promotionId: redemption.promotionId,
+    code: promotion.code,
+    bookingId: redemption.bookingId,
+    userId: redemption.userId,
+    discountAmount: redemption.discountAmount,
+    fundedBy: promotion.fundedBy,
+    status: "active" as RedemptionStatus,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Give a redemption back when its booking is cancelled or expires
+ * Idempotent: released redemptions are left alone.
+ *
+ * @param promotionId - Promotion used by the booking
+ * @param bookingId - Cancelled/expired booking
+ */
+export async function releasePromotionRedemption(
+    promotionId: string,
+    bookingId: string
+): Promise<boolean> {
+  const promotionRef = db.collection("promotions").doc(promotionId);
+  const redemptionRef = promotionRef.collection("redemptions").doc(bookingId);
+
+  const released = await db.runTransaction(async (transaction) => {
+    const redemptionDoc = await transaction.get(redemptionRef);
+    if (!redemptionDoc.exists || redemptionDoc.data()?.status !== "active") {
+      return false;
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    transaction.update(redemptionRef, {status: "released", releasedAt: now, updatedAt: now});
+    transaction.update(promotionRef, {
+      usageCount: admin.firestore.FieldValue.increment(-1),
+      updatedAt: now,
+    });
+    return true;
+  });
+
+  if (released) {
+    logger.info("promotion_redemption_released", {promotionId, bookingId});
+  }
+
+  return released;
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Create Promotion - Callable Cloud Function
+ *
+ * Admin only. Codes are unique (case-insensitive).
+ */
+export const createPromotion = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "createPromotion",
+            async (
+                data: CreatePromotionRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const adminId = context.auth.uid;
+              if (!(await checkIsAdmin(adminId))) {
+                throw Errors.permissionDenied(errorContext, `Caller ${adminId} is not an admin`);
+              }
+
+              const code = normalizePromoCode(data?.code || "");
+              if (!PROMO_CODE_PATTERN.test(code)) {
+                throw Errors.invalidArgument(errorContext, "code", "3 a 20 letras, números, - ou _");
+              }
+
+              if (data.type !== "percentage" && data.type !== "fixed") {
+                throw Errors.invalidArgument(errorContext, "type", "Use percentage ou fixed");
+              }
+
+              if (typeof data.value !== "number" || !Number.isInteger(data.value) || data.value <= 0 ||
+                  (data.type === "percentage" && data.value > 100)) {
+                throw Errors.invalidArgument(errorContext, "value", "Valor do desconto inválido");
+              }
+
+              const currency = (data.currency || "AOA").toUpperCase();
+              if (!isSupportedCurrency(currency)) {
+                throw Errors.invalidArgument(errorContext, "currency", "Moeda não suportada");
+              }
+
+              const fundedBy = data.fundedBy || "platform";
+              if (fundedBy !== "platform" && fundedBy !== "supplier") {
+                throw Errors.invalidArgument(errorContext, "fundedBy", "Use platform ou supplier");
+              }
+
+              // Suppliers only fund discounts on their own bookings
+              if (fundedBy === "supplier" && !data.supplierIds?.length) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "supplierIds",
+                    "Promoções pagas pelo fornecedor precisam de fornecedores"
+                );
+              }
+
+              for (const [field, value] of Object.entries({
+                maxDiscount: data.maxDiscount,
+                minAmount: data.minAmount,
+                usageLimit: data.usageLimit,
+                perUserLimit: data.perUserLimit,
+              })) {
+                if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+                  throw Errors.invalidArgument(errorContext, field, "Deve ser um inteiro positivo");
+                }
+              }
+
+              const validFrom = data.validFrom ? new Date(data.validFrom) : new Date();
+              const validUntil = data.validUntil ? new Date(data.validUntil) : null;
+              if (isNaN(validFrom.getTime()) || (validUntil && isNaN(validUntil.getTime()))) {
+                throw Errors.invalidArgument(errorContext, "validFrom, validUntil", "Data inválida");
+              }
+              if (validUntil && validUntil <= validFrom) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "validUntil",
+                    "A data final deve ser depois da inicial"
+                );
+              }
+
+              if ((data.description || "").length > MAX_DESCRIPTION_LENGTH) {
+                throw Errors.invalidArgument(errorContext, "description", "Descrição demasiado longa");
+              }
+
+              const promotionRef = db.collection("promotions").doc();
+              const now = admin.firestore.FieldValue.serverTimestamp();
+              const promotion: PromotionRecord = {
+                id: promotionRef.id,
+                code,
+                description: data.description || "",
+                type: data.type,
+                value: data.value,
+                currency,
+                maxDiscount: data.type === "percentage" ? data.maxDiscount ?? null : null,
+                minAmount: data.minAmount ?? null,
+                categories: data.categories?.length ? data.categories : null,
+                supplierIds: data.supplierIds?.length ? data.supplierIds : null,
+                fundedBy,
+                usageLimit: data.usageLimit ?? null,
+                perUserLimit: data.perUserLimit ?? 1,
+                usageCount: 0,
+                firstBookingOnly: data.firstBookingOnly === true,
+                validFrom: admin.firestore.Timestamp.fromDate(validFrom),
+                validUntil: validUntil ? admin.firestore.Timestamp.fromDate(validUntil) : null,
+                isActive: true,
+                createdBy: adminId,
+                createdAt: now,
+                updatedAt: now,
+              };
+
+              // Code uniqueness is checked with the create in one transaction
+              await db.runTransaction(async (transaction) => {
+                const existing = await transaction.get(
+                    db.collection("promotions").where("code", "==", code).limit(1)
+                );
+                if (!existing.empty) {
+                  throw Errors.alreadyExists(errorContext, "Código promocional", `Promo code ${code} exists`);
+                }
+                transaction.create(promotionRef, promotion);
+              });
+
+              await db.collection("audit_logs").add({
+                category: "admin",
+                eventType: "promotionCreated",
+                userId: adminId,
+                resourceId: promotionRef.id,
+                resourceType: "promotion",
+                previousValue: null,
+                newValue: code,
+                description: `Promotion ${code} created (${data.type} ${data.value}, funded by ${fundedBy})`,
+                metadata: {promotionId: promotionRef.id, code, type: data.type, value: data.value, fundedBy},
+                timestamp: now,
+              });
+
+              logger.info("promotion_created", {promotionId: promotionRef.id, code, fundedBy});
+
+              return {success: true, promotionId: promotionRef.id, code};
+            }
+        )
+    );
+
+/**
+ * Set Promotion Active - Callable Cloud Function
+ *
+ * Admin only. Deactivated codes stop applying to new bookings; existing
+ * discounts are kept.
+ */
+export const setPromotionActive = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "setPromotionActive",
+            async (
+                data: {promotionId: string; isActive: boolean},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const adminId = context.auth.uid;
+              if (!(await checkIsAdmin(adminId))) {
+                throw Errors.permissionDenied(errorContext, `Caller ${adminId} is not an admin`);
+              }
+
+              if (!data?.promotionId || typeof data.isActive !== "boolean") {
+                throw Errors.invalidArgument(errorContext, "promotionId, isActive", "Campos obrigatórios");
+              }
+
+              const promotionRef = db.collection("promotions").doc(data.promotionId);
+              const promotionDoc = await promotionRef.get();
+              if (!promotionDoc.exists) {
+                throw Errors.notFound(errorContext, "Promoção", data.promotionId);
+              }
+
+              const now = admin.firestore.FieldValue.serverTimestamp();
+              await promotionRef.update({isActive: data.isActive, updatedAt: now});
+
+              await db.collection("audit_logs").add({
+                category: "admin",
+                eventType: data.isActive ? "promotionActivated" : "promotionDeactivated",
+                userId: adminId,
+                resourceId: data.promotionId,
+                resourceType: "promotion",
+                previousValue: promotionDoc.data()?.isActive ?? null,
+                newValue: data.isActive,
+                description: `Promotion ${promotionDoc.data()?.code} ${data.isActive ? "activated" : "deactivated"}`,
+                metadata: {promotionId: data.promotionId},
+                timestamp: now,
+              });
+
+              return {success: true, promotionId: data.promotionId, isActive: data.isActive};
+            }
+        )
+    );
+
+/**
+ * Preview Promo Code - Callable Cloud Function
+ *
+ * Lets the client see the discount on a package before booking.
+ * Nothing is reserved; createBooking validates the code again.
+ */
+export const previewPromoCode = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "previewPromoCode",
+            async (
+                data: PreviewPromoCodeRequest,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              if (!data?.code || !data.supplierId || !data.packageId) {
+                throw Errors.invalidArgument(
+                    errorContext,
+                    "code, supplierId, packageId",
+                    "Campos obrigatórios"
+                );
+              }
+
+              const supplierRef = db.collection("suppliers").doc(data.supplierId);
+              const [supplierDoc, packageDoc] = await Promise.all([
+                supplierRef.get(),
+                supplierRef.collection("packages").doc(data.packageId).get(),
+              ]);
+
+              if (!supplierDoc.exists) {
+                throw Errors.notFound(errorContext, "Fornecedor", data.supplierId);
+              }
+              if (!packageDoc.exists) {
+                throw Errors.notFound(errorContext, "Pacote", data.packageId);
+              }
+
+              const supplier = supplierDoc.data() || {};
+              const packageData = packageDoc.data() || {};
+              const amount = packageData.price || 0;
+              const currency = normalizeCurrency(packageData.currency || supplier.currency);
+
+              const {promotion, discountAmount} = await resolvePromotion(
+                  data.code,
+                  {
+                    userId: context.auth.uid,
+                    supplierId: data.supplierId,
+                    category: supplier.category || null,
+                    amount,
+                    currency,
+                  },
+                  errorContext
+              );
+
+              return {
+                success: true,
+                code: promotion.code,
+                description: promotion.description,
+                originalAmount: amount,
+                discountAmount,
+                totalAmount: amount - discountAmount,
+                currency,
+              };
+            }
+        )
+    );
+
+/**
+ * Release Promotion - Firestore Trigger
+ *
+ * Cancelled or expired bookings give their promo code use back,
+ * whichever path (client, supplier, admin, scheduler) ended them.
+ */
+export const onBookingReleasePromotion = functions
+    .region(REGION)
+    .firestore
+    .document("bookings/{bookingId}")
+    .onUpdate(async (change, context) => {
+      const before = change.before.data();
+      const after = change.after.data();
+
+      if (before.status === after.status || !after.promotion?.promotionId) {
+        return null;
+      }
+      if (after.status !== "cancelled" && after.status !== "expired") {
+        return null;
+      }
+
+      await releasePromotionRedemption(after.promotion.promotionId, context.params.bookingId);
+      return null;
+    });
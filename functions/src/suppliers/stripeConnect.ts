@@ -0,0 +1,500 @@
+/**
+ * Stripe Connect Onboarding (SERVER-ONLY)
+ *
+ * International suppliers (Portugal, Brazil) are paid through a Stripe
+ * Connect Express account instead of an Angolan bank/wallet destination.
+ *
+ * Flow:
+ * 1. Supplier calls createStripeConnectOnboardingLink -> Express account is
+ *    created on first use, and a hosted onboarding link is returned
+ * 2. Stripe collects identity and bank details (KYC)
+ * 3. account.updated webhooks (or refreshStripeConnectStatus) mirror the
+ *    account state into suppliers/{id}.compliance, which gates bookability
+ * 4. On escrow release the supplier's share is transferred to the account
+ *    (see finance/payoutProviders/StripeConnectPayoutProvider)
+ *
+ * Stored on the supplier (suppliers/{id}.stripeConnect):
+ * - accountId, country, detailsSubmitted, chargesEnabled, payoutsEnabled,
+ *   requirementsDue, disabledReason, updatedAt
+ *
+ * Required Environment Variables:
+ * - STRIPE_SECRET_KEY: Stripe API secret key (platform account)
+ * - STRIPE_CONNECT_WEBHOOK_SECRET: Signing secret of the Connect webhook
+ *   endpoint (listens to events on connected accounts)
+ * - STRIPE_CONNECT_RETURN_URL / STRIPE_CONNECT_REFRESH_URL: Default
+ *   onboarding redirect URLs
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import Stripe from "stripe";
+import {wrapHandler, wrapHttpHandler, Errors, ErrorContext} from "../common/errors";
+import {createLogger} from "../common/logger";
+import {requireFeatureEnabled} from "../common/killSwitch";
+import {isWebhookProcessed, markWebhookProcessed} from "../common/idempotency";
+import {InboundWebhook, receiveWebhook, WebhookHandler} from "../webhooks/webhookEventStore";
+import {KycStatus} from "./supplierEligibility";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const STRIPE_CONNECT_CONFIG = {
+  secretKey: process.env.STRIPE_SECRET_KEY || "",
+  webhookSecret: process.env.STRIPE_CONNECT_WEBHOOK_SECRET || "",
+  returnUrl: process.env.STRIPE_CONNECT_RETURN_URL || "",
+  refreshUrl: process.env.STRIPE_CONNECT_REFRESH_URL || "",
+};
+
+/**
+ * Countries onboarded through Stripe Connect
+ */
+const CONNECT_COUNTRIES = ["PT", "BR"];
+
+// ==================== HELPERS ====================
+
+let stripeClient: Stripe | null = null;
+
+function getStripe(): Stripe {
+  if (!stripeClient) {
+    if (!STRIPE_CONNECT_CONFIG.secretKey) {
+      throw new Error("STRIPE_SECRET_KEY environment variable is required");
+    }
+    stripeClient = new Stripe(STRIPE_CONNECT_CONFIG.secretKey);
+  }
+  return stripeClient;
+}
+
+/**
+ * Find the supplier profile owned by a user
+ */
+async function getOwnSupplier(
+    userId: string,
+    errorContext: ErrorContext
+): Promise<FirebaseFirestore.QueryDocumentSnapshot> {
+  const supplierQuery = await db
+      .collection("suppliers")
+      .where("userId", "==", userId)
+      .limit(1)
+      .get();
+
+  if (supplierQuery.empty) {
+    throw Errors.permissionDenied(
+        errorContext,
+        `No supplier profile for ${userId}`,
+        "Perfil de fornecedor não encontrado"
+    );
+  }
+
+  return supplierQuery.docs[0];
+}
+
+/**
+ * Derive KYC/payout readiness from a connected account
+ * - rejected: Stripe rejected the account (fraud, terms, ...)
+ * - verified: details submitted, transfers active and payouts enabled
+ * - pending: details submitted, Stripe still verifying or asking for more
+ * - not_started: onboarding not completed
+ */
+function getAccountCompliance(account: Stripe.Account): {kycStatus: KycStatus; payoutsReady: boolean} {
+  const disabledReason = account.requirements?.disabled_reason || "";
+
+  if (disabledReason.startsWith("rejected")) {
+    return {kycStatus: "rejected", payoutsReady: false};
+  }
+
+  if (account.details_submitted &&
+      account.capabilities?.transfers === "active" &&
+      account.payouts_enabled) {
+    return {kycStatus: "verified", payoutsReady: true};
+  }
+
+  return {
+    kycStatus: account.details_submitted ? "pending" : "not_started",
+    payoutsReady: false,
+  };
+}
+
+/**
+ * Mirror a connected account's state onto its supplier
+ * Returns the resulting compliance, or null if no supplier owns the account.
+ */
+export async function syncStripeConnectAccount(
+    account: Stripe.Account
+): Promise<{supplierId: string; kycStatus: KycStatus; payoutsReady: boolean} | null> {
+  const logger = createLogger("payment", "syncStripeConnectAccount");
+
+  let supplierId = account.metadata?.supplierId || "";
+  if (!supplierId) {
+    const snapshot = await db.collection("suppliers")
+        .where("stripeConnect.accountId", "==", account.id)
+        .limit(1)
+        .get();
+    supplierId = snapshot.empty ? "" : snapshot.docs[0].id;
+  }
+
+  const supplierRef = supplierId ? db.collection("suppliers").doc(supplierId) : null;
+  const supplierDoc = supplierRef ? await supplierRef.get() : null;
+  if (!supplierRef || !supplierDoc?.exists) {
+    logger.warn("stripe_connect_supplier_not_found", {accountId: account.id});
+    return null;
+  }
+
+  const supplier = supplierDoc.data() || {};
+  if (supplier.stripeConnect?.accountId !== account.id) {
+    logger.warn("stripe_connect_account_mismatch", {
+      supplierId,
+      accountId: account.id,
+      storedAccountId: supplier.stripeConnect?.accountId || null,
+    });
+    return null;
+  }
+
+  const {kycStatus, payoutsReady} = getAccountCompliance(account);
+  const previousKycStatus = supplier.compliance?.kyc_status || "not_started";
+  const previousPayoutsReady = supplier.compliance?.payouts_ready === true;
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  await supplierRef.update({
+    "stripeConnect.detailsSubmitted": account.details_submitted === true,
+    "stripeConnect.chargesEnabled": account.charges_enabled === true,
+    "stripeConnect.payoutsEnabled": payoutsReady,
+    "stripeConnect.requirementsDue": account.requirements?.currently_due || [],
+    "stripeConnect.disabledReason": account.requirements?.disabled_reason || null,
+    "stripeConnect.updatedAt": now,
+    "compliance.kyc_status": kycStatus,
+    "compliance.payouts_ready": payoutsReady,
+    "updatedAt": now,
+  });
+
+  if (kycStatus !== previousKycStatus || payoutsReady !== previousPayoutsReady) {
+    logger.info("stripe_connect_compliance_changed", {
+      supplierId,
+      accountId: account.id,
+      from: previousKycStatus,
+      to: kycStatus,
+      payoutsReady,
+    });
+
+    await db.collection("audit_logs").add({
+      category: "supplier",
+      eventType: "stripeConnectComplianceChanged",
+      userId: "system",
+      resourceId: supplierId,
+      resourceType: "supplier",
+      previousValue: {kyc_status: previousKycStatus, payouts_ready: previousPayoutsReady},
+      newValue: {kyc_status: kycStatus, payouts_ready: payoutsReady},
+      description: `Stripe Connect account ${account.id} is ${kycStatus}`,
+      metadata: {
+        accountId: account.id,
+        requirementsDue: account.requirements?.currently_due || [],
+        disabledReason: account.requirements?.disabled_reason || null,
+      },
+      timestamp: now,
+    });
+  }
+
+  return {supplierId, kycStatus, payoutsReady};
+}
+
+// ==================== CLOUD FUNCTIONS ====================
+
+/**
+ * Start (or resume) Stripe Connect onboarding for the caller's supplier
+ * Creates the Express account on first use and returns a hosted
+ * onboarding link (links are single-use and expire within minutes).
+ */
+export const createStripeConnectOnboardingLink = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "createStripeConnectOnboardingLink",
+            async (
+                data: {country?: string; returnUrl?: string; refreshUrl?: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              await requireFeatureEnabled("payments", errorContext);
+
+              const logger = createLogger("payment", "createStripeConnectOnboardingLink")
+                  .setContext(errorContext);
+              const supplierDoc = await getOwnSupplier(context.auth.uid, errorContext);
+              const supplier = supplierDoc.data();
+
+              const returnUrl = data?.returnUrl || STRIPE_CONNECT_CONFIG.returnUrl;
+              const refreshUrl = data?.refreshUrl || STRIPE_CONNECT_CONFIG.refreshUrl || returnUrl;
+              if (!returnUrl) {
+                throw Errors.invalidArgument(errorContext, "returnUrl", "is required");
+              }
+
+              let accountId: string | undefined = supplier.stripeConnect?.accountId;
+
+              if (!accountId) {
+                const country = String(data?.country || "").toUpperCase();
+                if (!CONNECT_COUNTRIES.includes(country)) {
+                  throw Errors.invalidArgument(
+                      errorContext,
+                      "country",
+                      `must be one of ${CONNECT_COUNTRIES.join(", ")}`
+                  );
+                }
+
+                const account = await getStripe().accounts.create({
+                  type: "express",
+                  country,
+                  email: supplier.email || context.auth.token.email || undefined,
+                  business_profile: {name: supplier.businessName || supplier.name || undefined},
+                  capabilities: {transfers: {requested: true}},
+                  metadata: {supplierId: supplierDoc.id},
+                }, {
+                  idempotencyKey: `connect_account_${supplierDoc.id}`,
+                });
+                accountId = account.id;
+
+                await supplierDoc.ref.update({
+                  stripeConnect: {
+                    accountId,
+                    country,
+                    detailsSubmitted: false,
+                    chargesEnabled: false,
+                    payoutsEnabled: false,
+                    requirementsDue: account.requirements?.currently_due || [],
+                    disabledReason: null,
+                    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                  },
+                  updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+
+                logger.info("stripe_connect_account_created", {
+                  supplierId: supplierDoc.id,
+                  accountId,
+                  country,
+                });
+              }
+
+              const accountLink = await getStripe().accountLinks.create({
+                account: accountId,
+                refresh_url: refreshUrl,
+                return_url: returnUrl,
+                type: "account_onboarding",
+              });
+
+              return {
+                success: true,
+                accountId,
+                url: accountLink.url,
+                expiresAt: new Date(accountLink.expires_at * 1000).toISOString(),
+              };
+            }
+        )
+    );
+
+/**
+ * Re-read the caller's connected account from Stripe and sync compliance
+ * Called by the app when the supplier returns from onboarding.
+ */
+export const refreshStripeConnectStatus = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "refreshStripeConnectStatus",
+            async (
+                _data: unknown,
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const supplierDoc = await getOwnSupplier(context.auth.uid, errorContext);
+              const accountId: string | undefined = supplierDoc.data().stripeConnect?.accountId;
+              if (!accountId) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Supplier ${supplierDoc.id} has no Stripe Connect account`,
+                    "Ainda não iniciou o registo no Stripe"
+                );
+              }
+
+              const account = await getStripe().accounts.retrieve(accountId);
+              const result = await syncStripeConnectAccount(account);
+
+              return {
+                success: true,
+                accountId,
+                kycStatus: result?.kycStatus || "not_started",
+                payoutsReady: result?.payoutsReady === true,
+                requirementsDue: account.requirements?.currently_due || [],
+              };
+            }
+        )
+    );
+
+/**
+ * Check a delivery's signature before it is stored
+ */
+async function verifyStripeConnectWebhook(webhook: InboundWebhook): Promise<boolean> {
+  const signature = webhook.headers["stripe-signature"];
+  if (!signature || !STRIPE_CONNECT_CONFIG.webhookSecret) {
+    return false;
+  }
+
+  try {
+    getStripe().webhooks.constructEvent(
+        webhook.rawBody,
+        signature,
+        STRIPE_CONNECT_CONFIG.webhookSecret,
+        undefined,
+        undefined,
+        webhook.receivedAt.getTime()
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Process a Stripe Connect event (live delivery or stored event replay)
+ *
+ * Supported events:
+ * - account.updated -> sync KYC status / payouts readiness
+ * - account.application.deauthorized -> supplier disconnected the platform
+ */
+export const handleStripeConnectWebhook: WebhookHandler = async (webhook, errorContext) => {
+  const logger = createLogger("payment", "stripeConnectWebhook").setContext(errorContext);
+
+  const signature = webhook.headers["stripe-signature"];
+  if (!signature || !STRIPE_CONNECT_CONFIG.webhookSecret) {
+    logger.warn("webhook_signature_missing", {
+      hasSignature: !!signature,
+      hasSecret: !!STRIPE_CONNECT_CONFIG.webhookSecret,
+    });
+    return {outcome: "rejected", reason: "invalid_signature", httpStatus: 401, signatureValid: false};
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = getStripe().webhooks.constructEvent(
+        webhook.rawBody,
+        signature,
+        STRIPE_CONNECT_CONFIG.webhookSecret,
+        undefined,
+        undefined,
+        webhook.receivedAt.getTime()
+    );
+  } catch (signatureError) {
+    const errorMsg = signatureError instanceof Error ?
+      signatureError.message : "unknown";
+    logger.error("webhook_signature_invalid", errorMsg);
+    return {outcome: "rejected", reason: "invalid_signature", httpStatus: 401, signatureValid: false};
+  }
+
+  const parsed = {signatureValid: true, eventType: event.type, eventId: event.id};
+
+  // Checked after the signature, so the stored event can be replayed
+  try {
+    await requireFeatureEnabled("webhooks", errorContext);
+  } catch (killSwitchError) {
+    logger.killSwitchActive("webhooks");
+    return {outcome: "skipped", reason: "kill_switch", ...parsed};
+  }
+
+  const alreadyProcessed = await isWebhookProcessed(
+      "stripe_connect",
+      event.type,
+      event.id,
+      errorContext
+  );
+  if (alreadyProcessed) {
+    logger.idempotentSkip("webhook", event.id, "already_processed");
+    return {outcome: "skipped", reason: "already_processed", ...parsed};
+  }
+
+  switch (event.type) {
+  case "account.updated": {
+    await syncStripeConnectAccount(event.data.object as Stripe.Account);
+    break;
+  }
+
+  case "account.application.deauthorized": {
+    // The connected account id is on the event, not the payload
+    const snapshot = event.account ?
+      await db.collection("suppliers")
+          .where("stripeConnect.accountId", "==", event.account)
+          .limit(1)
+          .get() :
+      null;
+
+    if (!snapshot || snapshot.empty) {
+      logger.warn("stripe_connect_supplier_not_found", {accountId: event.account || null});
+      break;
+    }
+
+    const supplierRef = snapshot.docs[0].ref;
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    await supplierRef.update({
+      "stripeConnect.payoutsEnabled": false,
+      "stripeConnect.deauthorizedAt": now,
+      "stripeConnect.updatedAt": now,
+      "compliance.payouts_ready": false,
+      "updatedAt": now,
+    });
+
+    await db.collection("audit_logs").add({
+      category: "supplier",
+      eventType: "stripeConnectDeauthorized",
+      userId: "system",
+      resourceId: supplierRef.id,
+      resourceType: "supplier",
+      previousValue: {payouts_ready: snapshot.docs[0].data().compliance?.payouts_ready === true},
+      newValue: {payouts_ready: false},
+      description: `Stripe Connect account ${event.account} disconnected from the platform`,
+      metadata: {accountId: event.account},
+      timestamp: now,
+    });
+    break;
+  }
+
+  default:
+    logger.info("unhandled_event_type", {eventType: event.type});
+  }
+
+  await markWebhookProcessed("stripe_connect", event.type, event.id, errorContext);
+
+  return {outcome: "processed", ...parsed};
+};
+
+/**
+ * Stripe Connect Webhook - HTTP Cloud Function
+ *
+ * Receives events from connected accounts (a separate Stripe endpoint
+ * from stripeWebhook, with its own signing secret). Like stripeWebhook it
+ * verifies against req.rawBody - do not add body-parsing middleware.
+ * Events are stored, then processed with handleStripeConnectWebhook.
+ */
+export const stripeConnectWebhook = functions
+    .region(REGION)
+    .runWith({
+      timeoutSeconds: 60,
+    })
+    .https.onRequest(
+        wrapHttpHandler("stripeConnectWebhook", (req, res, errorContext) =>
+          receiveWebhook(
+              {
+                source: "stripe_connect",
+                handler: handleStripeConnectWebhook,
+                storedHeaders: ["content-type", "stripe-signature"],
+                verifySignature: verifyStripeConnectWebhook,
+              },
+              req,
+              res,
+              errorContext
+          )
+        )
+    );
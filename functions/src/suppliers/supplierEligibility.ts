@@ -14,11 +14,18 @@
  *   AND supplier.blocks.bookings_globally != true
  *   AND supplier.blocks.by_schedule(eventDate) == false
  *   AND supplier.rate_limit.exceeded != true
+ *   AND remaining_capacity(eventDate) > 0
  */
 
 import * as admin from "firebase-admin";
 import {ErrorContext} from "../common/errors";
 import {createLogger} from "../common/logger";
+import {
+  BookingSlot,
+  getRuleBlockedDates,
+  getSlotCapacities,
+} from "../bookings/bookingUtils";
+import {readAvailabilityRules} from "../bookings/availabilityRules";
 
 // ==================== TYPES ====================
 
@@ -107,6 +114,12 @@ export interface SupplierDocument {
   availabilityEnabled?: boolean;
   userId?: string;
 
+  // Bookings the supplier can serve on the same day (default 1)
+  dailyCapacity?: number;
+
+  // Recurring availability rules and exceptions (see bookings/availabilityRules)
+  availabilityRules?: unknown;
+
   // Other fields
   businessName?: string;
   name?: string;
@@ -129,11 +142,26 @@ export interface EligibilityResult {
     visibility_is_listed: boolean;
     blocks_globally: boolean;
     blocks_by_date: boolean;
+    blocks_by_rule: string | null;
     rate_limit_exceeded: boolean;
+    capacity: number;
+    capacity_remaining: number;
     used_migration: boolean;
   };
 }
 
+/**
+ * Optional scope of an eligibility check
+ * - packageId: apply the package's own daily capacity
+ * - slot: check capacity for a time slot instead of the whole day
+ * - excludeBookingId: ignore a booking (e.g. the one being changed)
+ */
+export interface BookableOptions {
+  packageId?: string;
+  slot?: BookingSlot;
+  excludeBookingId?: string;
+}
+
 // ==================== MIGRATION LOGIC ====================
 
 /**
@@ -303,12 +331,14 @@ const db = admin.firestore();
  * @param supplierId - The supplier's document ID
  * @param eventDate - The requested booking date (YYYY-MM-DD string)
  * @param errorContext - Error context for logging
+ * @param options - Package/slot scope for the capacity check
  * @returns EligibilityResult with eligible status and reasons
  */
 export async function isSupplierBookable(
     supplierId: string,
     eventDate: string,
-    errorContext?: ErrorContext
+    errorContext?: ErrorContext,
+    options: BookableOptions = {}
 ): Promise<EligibilityResult> {
   const logger = createLogger("booking", "isSupplierBookable");
   if (errorContext) {
@@ -371,6 +401,21 @@ export async function isSupplierBookable(
   // Check blocked dates from subcollection
   const isDateBlocked = await checkDateBlocked(supplierId, eventDate);
 
+  // Check recurring availability rules (closed weekdays, event limits, exceptions)
+  const ruleBlocked = await getRuleBlockedDates(supplierId, eventDate, eventDate, {
+    availabilityRules: readAvailabilityRules(supplier.availabilityRules),
+    excludeBookingId: options.excludeBookingId,
+  });
+  const ruleEvaluation = ruleBlocked.get(eventDate);
+
+  // Check remaining daily capacity (active bookings on the date/slot)
+  const [slotCapacity] = await getSlotCapacities(
+      supplierId,
+      [options.slot || {date: eventDate, startTime: null, endTime: null}],
+      {packageId: options.packageId, excludeBookingId: options.excludeBookingId}
+  );
+  const isFullyBooked = slotCapacity.remaining <= 0;
+
   // ==================== ELIGIBILITY CHECKS ====================
 
   // 1. Lifecycle state must be "active"
@@ -425,6 +470,13 @@ export async function isSupplierBookable(
   const dateBlockedBySchedule = blocks.scheduled_blocks?.includes(eventDate) || false;
   if (isDateBlocked || dateBlockedBySchedule) {
     reasons.push("Esta data não está disponível");
+  } else if (ruleEvaluation) {
+    reasons.push(ruleEvaluation.reason);
+  }
+
+  // 8. Capacity: at least one booking slot left on the date
+  if (isFullyBooked) {
+    reasons.push("Sem vagas disponíveis para esta data");
   }
 
   // Determine eligible status
@@ -434,7 +486,7 @@ export async function isSupplierBookable(
   let uiState: "bookable" | "not_bookable" | "date_unavailable";
   if (eligible) {
     uiState = "bookable";
-  } else if (isDateBlocked || dateBlockedBySchedule) {
+  } else if (isDateBlocked || dateBlockedBySchedule || ruleEvaluation || isFullyBooked) {
     uiState = "date_unavailable";
   } else {
     uiState = "not_bookable";
@@ -450,7 +502,10 @@ export async function isSupplierBookable(
     visibility_is_listed: visibility.is_listed,
     blocks_globally: blocks.bookings_globally,
     blocks_by_date: isDateBlocked || dateBlockedBySchedule,
+    blocks_by_rule: ruleEvaluation?.ruleId || (ruleEvaluation ? "exception" : null),
     rate_limit_exceeded: rateLimit.exceeded,
+    capacity: slotCapacity.capacity,
+    capacity_remaining: slotCapacity.remaining,
     used_migration: usedMigration,
   };
 
@@ -535,16 +590,17 @@ async function checkDateBlocked(
   }
 
   // Query blocked_dates collection by date field
+  // "reserved" entries mirror confirmed bookings, which are counted
+  // against the daily capacity instead of blocking the whole date
   const legacyQuery2 = await db
       .collection("suppliers")
       .doc(supplierId)
       .collection("blocked_dates")
       .where("date", ">=", admin.firestore.Timestamp.fromDate(requestedDate))
       .where("date", "<", admin.firestore.Timestamp.fromDate(nextDay))
-      .limit(1)
       .get();
 
-  if (!legacyQuery2.empty) {
+  if (legacyQuery2.docs.some((doc) => doc.data().type !== "reserved")) {
     return true;
   }
 
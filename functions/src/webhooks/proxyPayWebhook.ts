@@ -1,6 +1,9 @@
 import * as functions from "firebase-functions/v1";
 import * as admin from "firebase-admin";
+import {wrapHttpHandler} from "../common/errors";
 import {fundEscrow} from "../finance/escrowService";
+import {releaseExpiredPayment} from "../payments/paymentExpiry";
+import {InboundWebhook, receiveWebhook, WebhookHandler} from "./webhookEventStore";
 
 const db = admin.firestore();
 const messaging = admin.messaging();
@@ -161,13 +164,14 @@ async function handleEscrowFunding(
 
 /**
  * Process OPG (mobile payment) webhook
+ * @returns false if no payment matched the webhook
  */
-async function processOPGWebhook(payload: OPGWebhookPayload): Promise<void> {
+async function processOPGWebhook(payload: OPGWebhookPayload): Promise<boolean> {
   const {reference_id: reference, status, id: providerPaymentId} = payload;
 
   if (!reference) {
     console.warn("OPG webhook missing reference_id");
-    return;
+    return false;
   }
 
   // Find payment by reference
@@ -179,7 +183,7 @@ async function processOPGWebhook(payload: OPGWebhookPayload): Promise<void> {
 
   if (paymentQuery.empty) {
     console.warn(`Payment not found for reference: ${reference}`);
-    return;
+    return false;
   }
 
   const paymentDoc = paymentQuery.docs[0];
@@ -209,10 +213,13 @@ async function processOPGWebhook(payload: OPGWebhookPayload): Promise<void> {
 
   await db.collection("payments").doc(paymentId).update(updateData);
 
-  // Handle completion
-  if (newStatus === "completed") {
+  // Handle completion (a retried webhook only retries escrow funding)
+  if (newStatus === "completed" && paymentData.status === "completed") {
+    await handleEscrowFunding(paymentData, paymentId);
+  } else if (newStatus === "completed") {
     const bookingId = paymentData.bookingId;
-    const amount = paymentData.amount || 0;
+    // Booking totals are in the settlement currency
+    const amount = paymentData.settlementAmount ?? paymentData.amount ?? 0;
 
     if (bookingId) {
       await updateBookingPayment(bookingId, paymentId, amount);
@@ -249,6 +256,8 @@ async function processOPGWebhook(payload: OPGWebhookPayload): Promise<void> {
           {bookingId: bookingId || "", paymentId}
       );
     }
+  } else if (newStatus === "expired" && paymentData.status === "pending") {
+    await releaseExpiredPayment(paymentId, paymentData, "provider");
   } else if (newStatus === "failed") {
     // Notify client of failure
     const clientId = paymentData.userId;
@@ -264,17 +273,19 @@ async function processOPGWebhook(payload: OPGWebhookPayload): Promise<void> {
   }
 
   console.log(`OPG webhook processed: ${reference} -> ${newStatus}`);
+  return true;
 }
 
 /**
  * Process RPS (reference/ATM payment) webhook
+ * @returns false if no payment matched the webhook
  */
-async function processRPSWebhook(payload: RPSWebhookPayload): Promise<void> {
+async function processRPSWebhook(payload: RPSWebhookPayload): Promise<boolean> {
   const {reference, amount} = payload;
 
   if (!reference) {
     console.warn("RPS webhook missing reference");
-    return;
+    return false;
   }
 
   // Find payment by reference number
@@ -294,7 +305,7 @@ async function processRPSWebhook(payload: RPSWebhookPayload): Promise<void> {
 
     if (altQuery.empty) {
       console.warn(`Payment not found for RPS reference: ${reference}`);
-      return;
+      return false;
     }
   }
 
@@ -305,6 +316,13 @@ async function processRPSWebhook(payload: RPSWebhookPayload): Promise<void> {
   const paymentData = paymentDoc.data();
   const paymentId = paymentDoc.id;
 
+  // A retried webhook only retries escrow funding
+  if (paymentData.status === "completed") {
+    await handleEscrowFunding(paymentData, paymentId);
+    console.log(`RPS webhook already applied: ${reference}`);
+    return true;
+  }
+
   // RPS webhooks are only sent when payment is completed
   const updateData: Record<string, unknown> = {
     status: "completed",
@@ -327,7 +345,8 @@ async function processRPSWebhook(payload: RPSWebhookPayload): Promise<void> {
 
   // Update booking
   const bookingId = paymentData.bookingId;
-  const paymentAmount = paymentData.amount || amount;
+  // Booking totals are in the settlement currency
+  const paymentAmount = paymentData.settlementAmount ?? (paymentData.amount || amount);
 
   if (bookingId) {
     await updateBookingPayment(bookingId, paymentId, paymentAmount);
@@ -366,8 +385,67 @@ async function processRPSWebhook(payload: RPSWebhookPayload): Promise<void> {
   }
 
   console.log(`RPS webhook processed: ${reference} -> completed`);
+  return true;
+}
+
+/**
+ * Check the webhook secret a delivery carries
+ * @returns null when no secret is configured
+ */
+async function verifyProxyPayWebhook(webhook: InboundWebhook): Promise<boolean | null> {
+  if (!WEBHOOK_SECRET) {
+    return null;
+  }
+
+  const providedSecret = webhook.headers["x-proxypay-signature"] ||
+    webhook.headers["authorization"];
+  return providedSecret === WEBHOOK_SECRET || providedSecret === `Bearer ${WEBHOOK_SECRET}`;
 }
 
+/**
+ * Process a ProxyPay webhook (live delivery or stored event replay)
+ */
+export const handleProxyPayWebhook: WebhookHandler = async (webhook) => {
+  // Verify webhook secret if configured. The secret header is not stored,
+  // so replays rely on the check made when the webhook was delivered.
+  let signatureValid: boolean | null = null;
+  if (WEBHOOK_SECRET) {
+    signatureValid = webhook.replay ?
+      webhook.storedSignatureValid === true :
+      await verifyProxyPayWebhook(webhook) === true;
+
+    if (!signatureValid) {
+      console.warn("Invalid webhook signature");
+      return {outcome: "rejected", reason: "invalid_signature", httpStatus: 401, signatureValid};
+    }
+  }
+
+  const payload = webhook.body as OPGWebhookPayload & RPSWebhookPayload;
+
+  console.log("ProxyPay webhook received:", webhook.rawBody);
+
+  // Determine webhook type and process
+  let matched: boolean;
+  let eventType: string;
+  if (payload.reference_id || payload.id) {
+    // OPG payment callback
+    eventType = `opg.${payload.status}`;
+    matched = await processOPGWebhook(payload);
+  } else if (payload.reference && payload.datetime) {
+    // RPS payment notification
+    eventType = "rps.payment";
+    matched = await processRPSWebhook(payload);
+  } else {
+    console.warn("Unknown webhook format:", payload);
+    return {outcome: "rejected", reason: "unknown_format", signatureValid};
+  }
+
+  const eventId = payload.id || payload.transaction_id || payload.reference;
+  return matched ?
+    {outcome: "processed", signatureValid, eventType, eventId} :
+    {outcome: "skipped", reason: "payment_not_found", signatureValid, eventType, eventId};
+};
+
 /**
  * ProxyPay Webhook Handler - HTTPS Function
  *
@@ -378,59 +456,27 @@ async function processRPSWebhook(payload: RPSWebhookPayload): Promise<void> {
  * Webhook types:
  * - OPG: POST with { id, reference_id, status, amount, mobile, message }
  * - RPS: POST with { reference, amount, datetime, terminal_id, terminal_location }
+ *
+ * Webhooks are stored, then processed with handleProxyPayWebhook.
+ * Processing errors are retried from the store (see webhookEventStore).
  */
 export const proxyPayWebhook = functions
     .region(REGION)
-    .https.onRequest(async (req, res) => {
-      // Only accept POST
-      if (req.method !== "POST") {
-        res.status(405).send("Method Not Allowed");
-        return;
-      }
-
-      // Verify webhook secret if configured
-      if (WEBHOOK_SECRET) {
-        const providedSecret = req.headers["x-proxypay-signature"] ||
-          req.headers["authorization"];
-
-        if (providedSecret !== WEBHOOK_SECRET &&
-            providedSecret !== `Bearer ${WEBHOOK_SECRET}`) {
-          console.warn("Invalid webhook signature");
-          res.status(401).send("Unauthorized");
-          return;
-        }
-      }
-
-      try {
-        const payload = req.body;
-
-        console.log("ProxyPay webhook received:", JSON.stringify(payload));
-
-        // Determine webhook type and process
-        if (payload.reference_id || payload.id) {
-          // OPG payment callback
-          await processOPGWebhook(payload as OPGWebhookPayload);
-        } else if (payload.reference && payload.datetime) {
-          // RPS payment notification
-          await processRPSWebhook(payload as RPSWebhookPayload);
-        } else {
-          console.warn("Unknown webhook format:", payload);
-          res.status(400).send("Unknown webhook format");
-          return;
-        }
-
-        // Acknowledge webhook
-        res.status(200).json({success: true, message: "Webhook processed"});
-      } catch (error) {
-        console.error("Error processing webhook:", error);
-        // Return 200 to prevent retries for processing errors
-        // ProxyPay will retry on 4xx/5xx
-        res.status(200).json({
-          success: false,
-          error: "Processing error - logged for investigation",
-        });
-      }
-    });
+    .https.onRequest(
+        wrapHttpHandler("proxyPayWebhook", (req, res, errorContext) =>
+          receiveWebhook(
+              {
+                source: "proxypay",
+                handler: handleProxyPayWebhook,
+                storedHeaders: ["content-type"],
+                verifySignature: verifyProxyPayWebhook,
+              },
+              req,
+              res,
+              errorContext
+          )
+        )
+    );
 
 /**
  * Acknowledge RPS payment (call after processing)
@@ -0,0 +1,557 @@
+/**
+ * Webhook Event Store (SERVER-ONLY)
+ *
+ * Every inbound provider webhook is persisted before it is processed
+ * (webhook_events/{eventId}), so a processing failure never loses it.
+ * Deliveries with an invalid signature, or over MAX_WEBHOOK_BODY_BYTES,
+ * are answered without being stored. A stored event keeps:
+ * - rawBody and the signature headers needed to verify it again
+ * - signatureValid: signature check result (null if not checked)
+ * - status: received -> processing -> processed | skipped | rejected | failed
+ * - attempts, lastError, nextAttemptAt, leaseExpiresAt
+ *
+ * A run claims the event first (status processing, with a lease), so a
+ * delivery, the retry sweep and an admin replay never run the same event's
+ * handler at once. A run that dies holding the lease is taken over by the
+ * retry sweep once the lease expires.
+ *
+ * Failed events are retried with backoff (retryFailedWebhooks). After
+ * MAX_ATTEMPTS an event is a poison event: it is marked dead_letter and
+ * copied to webhook_dead_letters/{eventId} for investigation.
+ * Admins can inspect and replay any stored event (webhookReplay.ts); a
+ * replay runs the same handler as a live delivery.
+ *
+ * Event IDs hash the source and raw body, so a provider redelivering the
+ * same payload updates one stored event instead of creating another.
+ */
+
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import * as functions from "firebase-functions/v1";
+import {ErrorContext} from "../common/errors";
+import {createLogger} from "../common/logger";
+import {WebhookRequest} from "../payments/providers";
+
+const db = admin.firestore();
+
+const logger = createLogger("webhook", "webhookEventStore");
+
+/**
+ * Delay before each retry of a failed event (by failed attempt)
+ * The retry sweep runs every 5 minutes, so shorter delays round up.
+ */
+const RETRY_DELAYS_MINUTES = [5, 15, 60, 240, 720];
+
+/**
+ * Attempts before an event is dead-lettered
+ */
+export const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+/**
+ * Larger deliveries are refused (provider events are a few KB)
+ */
+const MAX_WEBHOOK_BODY_BYTES = 256 * 1024;
+
+/**
+ * How long a run holds its claim on an event
+ * Longer than the longest function timeout (9 minutes), so a lease only
+ * expires once the run that took it is gone.
+ */
+export const WEBHOOK_LEASE_MS = 10 * 60 * 1000;
+
+// ==================== TYPES ====================
+
+/**
+ * Webhook endpoints backed by the store
+ */
+export type WebhookSource = "stripe" | "stripe_connect" | "emis_gpo" | "proxypay";
+
+export type WebhookEventStatus =
+  | "received"
+  | "processing"
+  | "processed"
+  | "skipped"
+  | "rejected"
+  | "failed"
+  | "dead_letter";
+
+/**
+ * What ran the handler: the provider's delivery, the retry sweep or an
+ * admin replay
+ */
+export type WebhookTrigger = "delivery" | "retry" | "replay";
+
+/**
+ * Webhook passed to handlers (live delivery or stored event)
+ */
+export interface InboundWebhook extends WebhookRequest {
+  rawBody: string;
+  /** When the provider delivered it (replays keep the delivery time) */
+  receivedAt: Date;
+  /** Set when a stored event is retried or replayed */
+  replay: boolean;
+  /** Signature check recorded for a stored event (null on delivery) */
+  storedSignatureValid: boolean | null;
+}
+
+/**
+ * Outcome of a handler that did not throw
+ * - processed: the event was applied
+ * - skipped: nothing to do (duplicate, unknown payment, kill switch...)
+ * - rejected: invalid signature or payload; never retried
+ */
+export interface WebhookHandlerResult {
+  outcome: "processed" | "skipped" | "rejected";
+  /** Why the event was skipped or rejected */
+  reason?: string;
+  /** HTTP status answered for a rejection (default 400) */
+  httpStatus?: number;
+  /** Signature check result (null if it could not be checked) */
+  signatureValid: boolean | null;
+  /** Provider event type and ID, once parsed */
+  eventType?: string;
+  eventId?: string;
+}
+
+/**
+ * Processes one webhook; throws to have the event retried
+ */
+export type WebhookHandler = (
+  webhook: InboundWebhook,
+  errorContext: ErrorContext
+) => Promise<WebhookHandlerResult>;
+
+export interface WebhookEndpoint {
+  source: WebhookSource;
+  handler: WebhookHandler;
+  /**
+   * Request headers stored for replay
+   * Only headers a signature is checked against - never shared secrets.
+   */
+  storedHeaders: string[];
+  /**
+   * Signature check run on delivery, before anything is stored
+   * false: answered 401 and dropped; null: could not be checked (e.g. the
+   * provider is not configured) - stored and left to the handler.
+   */
+  verifySignature: (webhook: InboundWebhook) => Promise<boolean | null>;
+}
+
+/**
+ * Stored event (webhook_events/{id})
+ */
+export interface WebhookEventRecord {
+  id: string;
+  source: WebhookSource;
+  rawBody: string;
+  headers: Record<string, string>;
+  signatureValid: boolean | null;
+  status: WebhookEventStatus;
+  reason: string | null;
+  eventType: string | null;
+  eventId: string | null;
+  attempts: number;
+  deliveries: number;
+  lastError: string | null;
+  lastTrigger: WebhookTrigger | null;
+  receivedAt: FirebaseFirestore.Timestamp;
+  lastDeliveredAt: FirebaseFirestore.Timestamp;
+  lastAttemptAt: FirebaseFirestore.Timestamp | null;
+  nextAttemptAt: FirebaseFirestore.Timestamp | null;
+  /** Set while a run holds the event (status processing) */
+  leaseExpiresAt: FirebaseFirestore.Timestamp | null;
+  processedAt: FirebaseFirestore.Timestamp | null;
+}
+
+/**
+ * Where an event stands after a handler run
+ */
+export interface WebhookRunResult {
+  status: WebhookEventStatus;
+  reason: string | null;
+  httpStatus: number;
+  error: string | null;
+}
+
+// ==================== HELPERS ====================
+
+function eventRef(id: string): FirebaseFirestore.DocumentReference {
+  return db.collection("webhook_events").doc(id);
+}
+
+/**
+ * Stored event ID for a payload (same payload, same event)
+ */
+export function webhookEventId(source: WebhookSource, rawBody: string): string {
+  const hash = crypto.createHash("sha256").update(rawBody).digest("hex");
+  return `${source}_${hash.slice(0, 40)}`;
+}
+
+/**
+ * When a failed event is retried, or null once it is out of attempts
+ */
+function getNextAttemptAt(attempts: number): Date | null {
+  const delayMinutes = RETRY_DELAYS_MINUTES[attempts - 1];
+  if (delayMinutes === undefined) {
+    return null;
+  }
+  return new Date(Date.now() + delayMinutes * 60 * 1000);
+}
+
+function pickHeaders(
+    headers: Record<string, string | string[] | undefined>,
+    names: string[]
+): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of names) {
+    const value = headers[name];
+    if (value !== undefined) {
+      picked[name] = Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Statuses each trigger may claim an event from
+ * An event whose lease has expired can be claimed by any trigger.
+ */
+const CLAIMABLE_STATUSES: Record<WebhookTrigger, WebhookEventStatus[]> = {
+  delivery: ["received", "failed", "skipped", "rejected"],
+  retry: ["failed"],
+  replay: ["received", "failed", "skipped", "rejected", "dead_letter"],
+};
+
+/**
+ * Claim a stored event for one handler run
+ *
+ * Moves the event to processing with a lease and counts the attempt, so
+ * a run that dies still uses one of the event's attempts. Returns the
+ * claimed record and whether it has an unresolved dead letter, or null
+ * if another run holds the event or it is no longer due.
+ */
+async function claimWebhookEvent(
+    id: string,
+    trigger: WebhookTrigger
+): Promise<{record: WebhookEventRecord; deadLettered: boolean} | null> {
+  const ref = eventRef(id);
+  const deadLetterRef = db.collection("webhook_dead_letters").doc(id);
+
+  return db.runTransaction(async (transaction) => {
+    const [eventDoc, deadLetterDoc] = await Promise.all([
+      transaction.get(ref),
+      transaction.get(deadLetterRef),
+    ]);
+    if (!eventDoc.exists) {
+      return null;
+    }
+
+    const current = eventDoc.data() as WebhookEventRecord;
+    const nowMs = Date.now();
+    const leaseExpired = current.status === "processing" &&
+      (current.leaseExpiresAt?.toMillis() ?? 0) <= nowMs;
+    const due = trigger !== "retry" || current.status !== "failed" ||
+      (current.nextAttemptAt?.toMillis() ?? 0) <= nowMs;
+
+    if (!leaseExpired && (!CLAIMABLE_STATUSES[trigger].includes(current.status) || !due)) {
+      return null;
+    }
+
+    const claim = {
+      status: "processing" as const,
+      attempts: (current.attempts || 0) + 1,
+      lastTrigger: trigger,
+      lastAttemptAt: admin.firestore.Timestamp.fromMillis(nowMs),
+      leaseExpiresAt: admin.firestore.Timestamp.fromMillis(nowMs + WEBHOOK_LEASE_MS),
+    };
+    transaction.update(ref, claim);
+
+    return {
+      record: {...current, ...claim},
+      deadLettered: deadLetterDoc.exists && !deadLetterDoc.data()?.resolvedAt,
+    };
+  });
+}
+
+/**
+ * Rebuild the request a stored event was delivered with
+ */
+export function toInboundWebhook(record: WebhookEventRecord): InboundWebhook {
+  let body: unknown;
+  try {
+    body = JSON.parse(record.rawBody);
+  } catch {
+    body = record.rawBody;
+  }
+
+  return {
+    body,
+    headers: record.headers,
+    rawBody: record.rawBody,
+    receivedAt: record.lastDeliveredAt.toDate(),
+    replay: true,
+    storedSignatureValid: record.signatureValid,
+  };
+}
+
+// ==================== PROCESSING ====================
+
+/**
+ * Claim a stored event, run its handler and record the result
+ *
+ * A thrown error schedules a retry, or dead-letters the event once it has
+ * used MAX_ATTEMPTS. A dead-lettered event that fails a replay stays
+ * dead-lettered (its dead letter records the latest error); one that
+ * succeeds has its dead letter marked resolved.
+ *
+ * Returns null without running the handler if the event could not be
+ * claimed (another run holds it, or it is no longer due for this trigger).
+ */
+export async function runWebhookEvent(
+    eventId: string,
+    webhook: InboundWebhook,
+    handler: WebhookHandler,
+    trigger: WebhookTrigger,
+    errorContext: ErrorContext
+): Promise<WebhookRunResult | null> {
+  const claimed = await claimWebhookEvent(eventId, trigger);
+  if (!claimed) {
+    logger.idempotentSkip("webhook", eventId, "not_claimed");
+    return null;
+  }
+
+  const {record, deadLettered} = claimed;
+  const ref = eventRef(record.id);
+  const attempts = record.attempts;
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  let result: WebhookHandlerResult;
+  try {
+    result = await handler(webhook, errorContext);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const nextAttemptAt = getNextAttemptAt(attempts);
+    const status: WebhookEventStatus = nextAttemptAt ? "failed" : "dead_letter";
+
+    const batch = db.batch();
+    batch.update(ref, {
+      status,
+      attempts,
+      lastError: errorMsg,
+      lastTrigger: trigger,
+      lastAttemptAt: now,
+      nextAttemptAt: nextAttemptAt ?
+        admin.firestore.Timestamp.fromDate(nextAttemptAt) : null,
+      leaseExpiresAt: null,
+    });
+    if (status === "dead_letter") {
+      batch.set(db.collection("webhook_dead_letters").doc(record.id), {
+        ...record,
+        status,
+        attempts,
+        lastError: errorMsg,
+        lastTrigger: trigger,
+        leaseExpiresAt: null,
+        deadLetteredAt: now,
+        resolvedAt: null,
+        resolvedBy: null,
+      });
+    }
+    await batch.commit();
+
+    if (status === "dead_letter") {
+      logger.error("webhook_dead_lettered", errorMsg, {
+        webhookEventId: record.id,
+        source: record.source,
+        attempts,
+      });
+    } else {
+      logger.warn("webhook_processing_failed", {
+        webhookEventId: record.id,
+        source: record.source,
+        attempts,
+        trigger,
+        error: errorMsg,
+      });
+    }
+
+    return {status, reason: null, httpStatus: 200, error: errorMsg};
+  }
+
+  const status: WebhookEventStatus = result.outcome;
+  const batch = db.batch();
+  batch.update(ref, {
+    status,
+    reason: result.reason || null,
+    signatureValid: result.signatureValid,
+    eventType: result.eventType || record.eventType,
+    eventId: result.eventId || record.eventId,
+    attempts,
+    lastError: null,
+    lastTrigger: trigger,
+    lastAttemptAt: now,
+    nextAttemptAt: null,
+    leaseExpiresAt: null,
+    processedAt: status === "processed" ? now : record.processedAt,
+  });
+  if (deadLettered) {
+    batch.update(db.collection("webhook_dead_letters").doc(record.id), {
+      resolvedAt: now,
+      resolvedBy: errorContext.uid || trigger,
+      resolution: status,
+    });
+  }
+  await batch.commit();
+
+  logger.info("webhook_event_handled", {
+    webhookEventId: record.id,
+    source: record.source,
+    status,
+    reason: result.reason || null,
+    trigger,
+  });
+
+  return {
+    status,
+    reason: result.reason || null,
+    httpStatus: status === "rejected" ? result.httpStatus || 400 : 200,
+    error: null,
+  };
+}
+
+/**
+ * Load a stored event
+ */
+export async function getWebhookEvent(id: string): Promise<WebhookEventRecord | null> {
+  const doc = await eventRef(id).get();
+  return doc.exists ? (doc.data() as WebhookEventRecord) : null;
+}
+
+/**
+ * Store an inbound webhook, process it and answer the provider
+ *
+ * Processing failures are answered with 200: the event is stored and
+ * retried here, so provider retries would only add duplicate deliveries.
+ * If the event cannot be stored the error reaches wrapHttpHandler (500)
+ * and the provider retries instead.
+ */
+export async function receiveWebhook(
+    endpoint: WebhookEndpoint,
+    req: functions.https.Request,
+    res: functions.Response,
+    errorContext: ErrorContext
+): Promise<void> {
+  if (req.method !== "POST") {
+    logger.warn("invalid_method", {source: endpoint.source, method: req.method});
+    res.status(405).send("Method Not Allowed");
+    return;
+  }
+
+  const headers = req.headers as Record<string, string | string[] | undefined>;
+  const rawBody = req.rawBody ?
+    req.rawBody.toString("utf8") :
+    JSON.stringify(req.body ?? {});
+
+  const bodyBytes = Buffer.byteLength(rawBody, "utf8");
+  if (bodyBytes > MAX_WEBHOOK_BODY_BYTES) {
+    logger.warn("webhook_body_too_large", {source: endpoint.source, bytes: bodyBytes});
+    res.status(413).json({received: false, reason: "body_too_large"});
+    return;
+  }
+
+  const receivedAt = admin.firestore.Timestamp.now();
+  const delivery: InboundWebhook = {
+    body: req.body,
+    headers,
+    rawBody,
+    receivedAt: receivedAt.toDate(),
+    replay: false,
+    storedSignatureValid: null,
+  };
+
+  // Unsigned or forged deliveries are never stored
+  const signatureValid = await endpoint.verifySignature(delivery);
+  if (signatureValid === false) {
+    logger.warn("webhook_signature_rejected", {source: endpoint.source});
+    res.status(401).json({received: false, reason: "invalid_signature"});
+    return;
+  }
+
+  const id = webhookEventId(endpoint.source, rawBody);
+  const ref = eventRef(id);
+  const storedHeaders = pickHeaders(headers, endpoint.storedHeaders);
+
+  const record = await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(ref);
+    if (existing.exists) {
+      // Keep the latest signature (e.g. re-signed after a rejection)
+      const redelivered = {
+        headers: storedHeaders,
+        signatureValid,
+        deliveries: (existing.data()?.deliveries || 0) + 1,
+        lastDeliveredAt: receivedAt,
+      };
+      transaction.update(ref, redelivered);
+      return {...existing.data(), ...redelivered} as WebhookEventRecord;
+    }
+
+    const stored: WebhookEventRecord = {
+      id,
+      source: endpoint.source,
+      rawBody,
+      headers: storedHeaders,
+      signatureValid,
+      status: "received",
+      reason: null,
+      eventType: null,
+      eventId: null,
+      attempts: 0,
+      deliveries: 1,
+      lastError: null,
+      lastTrigger: null,
+      receivedAt,
+      lastDeliveredAt: receivedAt,
+      lastAttemptAt: null,
+      nextAttemptAt: null,
+      leaseExpiresAt: null,
+      processedAt: null,
+    };
+    transaction.set(ref, stored);
+    return stored;
+  });
+
+  // Redelivery of an event already applied, or waiting on an admin
+  if (record.status === "processed" || record.status === "dead_letter") {
+    logger.idempotentSkip("webhook", id, `already_${record.status}`);
+    res.status(200).json({received: true, skipped: true, reason: `already_${record.status}`});
+    return;
+  }
+
+  const result = await runWebhookEvent(
+      id,
+      delivery,
+      endpoint.handler,
+      "delivery",
+      {...errorContext, resourceId: id, resourceType: "webhook_event"}
+  );
+
+  // Another run holds the event; it records the outcome
+  if (!result) {
+    res.status(200).json({received: true, skipped: true, reason: "in_progress"});
+    return;
+  }
+
+  switch (result.status) {
+  case "processed":
+    res.status(200).json({received: true, success: true});
+    return;
+  case "skipped":
+    res.status(200).json({received: true, skipped: true, reason: result.reason});
+    return;
+  case "rejected":
+    res.status(result.httpStatus).json({received: false, reason: result.reason});
+    return;
+  default:
+    res.status(200).json({received: true, queued: true});
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Webhook Retry and Replay (SERVER-ONLY)
+ *
+ * Runs stored webhook events (see webhookEventStore) through the same
+ * handler as a live delivery:
+ * - retryFailedWebhooks: scheduled retry of failed events whose backoff
+ *   has elapsed (dead-lettered after MAX_ATTEMPTS), and of events whose
+ *   processing lease expired (the run holding them died)
+ * - inspectWebhookEvent: admin view of a stored event and its dead letter
+ * - replayWebhookEvent: admin replay of a stored event, e.g. a dead
+ *   letter after a fix, or an event skipped while the kill switch was on
+ *
+ * Events that were already processed are not replayed (ProxyPay webhooks
+ * have no provider event ID to deduplicate on). Replays still verify the
+ * stored signature where the provider signs the payload.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import {wrapHandler, Errors, ErrorContext, generateRequestId} from "../common/errors";
+import {createLogger} from "../common/logger";
+import {handleStripeWebhook} from "../payments/stripeWebhook";
+import {handleEmisGpoWebhook} from "../payments/emisGpoWebhook";
+import {handleStripeConnectWebhook} from "../suppliers/stripeConnect";
+import {handleProxyPayWebhook} from "./proxyPayWebhook";
+import {
+  getWebhookEvent,
+  runWebhookEvent,
+  toInboundWebhook,
+  MAX_ATTEMPTS,
+  WebhookEventRecord,
+  WebhookHandler,
+  WebhookRunResult,
+  WebhookSource,
+  WebhookTrigger,
+} from "./webhookEventStore";
+
+const db = admin.firestore();
+const REGION = "us-central1";
+
+const logger = createLogger("webhook", "webhookReplay");
+
+/**
+ * Failed events retried per sweep (the next run picks up the rest)
+ */
+const RETRY_BATCH_SIZE = 50;
+
+const WEBHOOK_HANDLERS: Record<WebhookSource, WebhookHandler> = {
+  stripe: handleStripeWebhook,
+  stripe_connect: handleStripeConnectWebhook,
+  emis_gpo: handleEmisGpoWebhook,
+  proxypay: handleProxyPayWebhook,
+};
+
+/**
+ * Check if a user is an admin
+ */
+async function checkIsAdmin(userId: string): Promise<boolean> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  if (!userDoc.exists) return false;
+  return userDoc.data()?.role === "admin";
+}
+
+/**
+ * Run a stored event through its source's handler
+ * Null if another run holds the event.
+ */
+async function processStoredWebhookEvent(
+    record: WebhookEventRecord,
+    trigger: WebhookTrigger,
+    errorContext: ErrorContext
+): Promise<WebhookRunResult | null> {
+  return runWebhookEvent(
+      record.id,
+      toInboundWebhook(record),
+      WEBHOOK_HANDLERS[record.source],
+      trigger,
+      {...errorContext, resourceId: record.id, resourceType: "webhook_event"}
+  );
+}
+
+/**
+ * Retry Failed Webhooks - Scheduled Cloud Function
+ * Runs every 5 minutes
+ */
+export const retryFailedWebhooks = functions
+    .region(REGION)
+    .pubsub
+    .schedule("*/5 * * * *")
+    .timeZone("Africa/Luanda")
+    .onRun(async () => {
+      const now = admin.firestore.Timestamp.now();
+      const [failed, abandoned] = await Promise.all([
+        db.collection("webhook_events")
+            .where("status", "==", "failed")
+            .where("nextAttemptAt", "<=", now)
+            .orderBy("nextAttemptAt")
+            .limit(RETRY_BATCH_SIZE)
+            .get(),
+        db.collection("webhook_events")
+            .where("status", "==", "processing")
+            .where("leaseExpiresAt", "<=", now)
+            .orderBy("leaseExpiresAt")
+            .limit(RETRY_BATCH_SIZE)
+            .get(),
+      ]);
+      const events = [...failed.docs, ...abandoned.docs];
+
+      const counts: Record<string, number> = {};
+
+      for (const eventDoc of events) {
+        try {
+          const result = await processStoredWebhookEvent(
+              eventDoc.data() as WebhookEventRecord,
+              "retry",
+              {requestId: generateRequestId(), functionName: "retryFailedWebhooks"}
+          );
+          const status = result ? result.status : "not_claimed";
+          counts[status] = (counts[status] || 0) + 1;
+        } catch (error) {
+          // Result not recorded - still due, retried on the next run
+          counts.unrecorded = (counts.unrecorded || 0) + 1;
+          logger.warn("webhook_retry_unrecorded", {
+            webhookEventId: eventDoc.id,
+            error: error instanceof Error ? error.message : "unknown",
+          });
+        }
+      }
+
+      logger.info("failed_webhooks_retried", {
+        scanned: events.length,
+        leaseExpired: abandoned.size,
+        ...counts,
+      });
+      return null;
+    });
+
+/**
+ * Inspect a stored webhook event (admin only)
+ */
+export const inspectWebhookEvent = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "inspectWebhookEvent",
+            async (
+                data: {webhookEventId: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              if (!(await checkIsAdmin(context.auth.uid))) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Caller ${context.auth.uid} is not an admin`,
+                    "Apenas administradores podem consultar webhooks"
+                );
+              }
+
+              if (!data?.webhookEventId) {
+                throw Errors.invalidArgument(errorContext, "webhookEventId", "is required");
+              }
+
+              const record = await getWebhookEvent(data.webhookEventId);
+              if (!record) {
+                throw Errors.notFound(errorContext, "Evento de webhook", data.webhookEventId);
+              }
+
+              const deadLetterDoc = await db
+                  .collection("webhook_dead_letters")
+                  .doc(record.id)
+                  .get();
+              const deadLetter = deadLetterDoc.data();
+              const toIso = (value: FirebaseFirestore.Timestamp | null | undefined) =>
+                value?.toDate?.()?.toISOString() || null;
+
+              return {
+                success: true,
+                event: {
+                  id: record.id,
+                  source: record.source,
+                  status: record.status,
+                  reason: record.reason,
+                  eventType: record.eventType,
+                  eventId: record.eventId,
+                  signatureValid: record.signatureValid,
+                  attempts: record.attempts,
+                  maxAttempts: MAX_ATTEMPTS,
+                  deliveries: record.deliveries,
+                  lastError: record.lastError,
+                  lastTrigger: record.lastTrigger,
+                  receivedAt: toIso(record.receivedAt),
+                  lastDeliveredAt: toIso(record.lastDeliveredAt),
+                  lastAttemptAt: toIso(record.lastAttemptAt),
+                  nextAttemptAt: toIso(record.nextAttemptAt),
+                  leaseExpiresAt: toIso(record.leaseExpiresAt),
+                  processedAt: toIso(record.processedAt),
+                  headers: record.headers,
+                  rawBody: record.rawBody,
+                },
+                deadLetter: deadLetter ? {
+                  deadLetteredAt: toIso(deadLetter.deadLetteredAt),
+                  resolvedAt: toIso(deadLetter.resolvedAt),
+                  resolvedBy: deadLetter.resolvedBy || null,
+                } : null,
+              };
+            }
+        )
+    );
+
+/**
+ * Replay a stored webhook event through its handler (admin only)
+ */
+export const replayWebhookEvent = functions
+    .region(REGION)
+    .https.onCall(
+        wrapHandler(
+            "replayWebhookEvent",
+            async (
+                data: {webhookEventId: string},
+                context: functions.https.CallableContext,
+                errorContext: ErrorContext
+            ) => {
+              if (!context.auth) {
+                throw Errors.unauthenticated(errorContext);
+              }
+
+              const adminId = context.auth.uid;
+
+              if (!(await checkIsAdmin(adminId))) {
+                throw Errors.permissionDenied(
+                    errorContext,
+                    `Caller ${adminId} is not an admin`,
+                    "Apenas administradores podem reprocessar webhooks"
+                );
+              }
+
+              if (!data?.webhookEventId) {
+                throw Errors.invalidArgument(errorContext, "webhookEventId", "is required");
+              }
+
+              const record = await getWebhookEvent(data.webhookEventId);
+              if (!record) {
+                throw Errors.notFound(errorContext, "Evento de webhook", data.webhookEventId);
+              }
+
+              if (record.status === "processed") {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Webhook event ${record.id} was already processed`,
+                    "Este webhook já foi processado"
+                );
+              }
+
+              const result = await processStoredWebhookEvent(record, "replay", errorContext);
+              if (!result) {
+                throw Errors.failedPrecondition(
+                    errorContext,
+                    `Webhook event ${record.id} is being processed or was already processed`,
+                    "Este webhook está a ser processado. Tente novamente mais tarde"
+                );
+              }
+
+              await db.collection("audit_logs").add({
+                category: "admin",
+                eventType: "webhookReplayed",
+                userId: adminId,
+                resourceId: record.id,
+                resourceType: "webhook_event",
+                previousValue: record.status,
+                newValue: result.status,
+                description: `Webhook event ${record.id} (${record.source}) replayed`,
+                metadata: {
+                  source: record.source,
+                  eventType: record.eventType,
+                  eventId: record.eventId,
+                  error: result.error,
+                },
+                timestamp: admin.firestore.FieldValue.serverTimestamp(),
+              });
+
+              return {
+                success: result.status === "processed" || result.status === "skipped",
+                webhookEventId: record.id,
+                previousStatus: record.status,
+                status: result.status,
+                reason: result.reason,
+                error: result.error,
+              };
+            }
+        )
+    );
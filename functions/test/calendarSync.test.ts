@@ -0,0 +1,43 @@
+import {strict as assert} from "assert";
+import {isPublicAddress} from "../src/bookings/calendarSync";
+
+describe("isPublicAddress", () => {
+  it("accepts public IPv4 and IPv6 addresses", () => {
+    for (const address of ["8.8.8.8", "185.199.108.153", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it("rejects private, loopback, link-local and shared IPv4 ranges", () => {
+    const addresses = [
+      "10.0.0.1",
+      "172.16.5.4",
+      "192.168.1.1",
+      "127.0.0.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "224.0.0.1",
+    ];
+    for (const address of addresses) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("rejects internal IPv6 ranges", () => {
+    for (const address of ["::", "::1", "fd00::1", "fe80::1", "ff02::1"]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("rejects IPv6 addresses that embed an internal IPv4 address", () => {
+    // ::ffff:a00:1 is how URL parsing writes [::ffff:10.0.0.1]
+    for (const address of ["::ffff:10.0.0.1", "::ffff:a00:1", "64:ff9b::a00:1", "2002:a00:1::"]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("rejects values that are not IP addresses", () => {
+    assert.equal(isPublicAddress("localhost"), false);
+  });
+});
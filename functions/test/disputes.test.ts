@@ -0,0 +1,56 @@
+import {strict as assert} from "assert";
+import * as admin from "firebase-admin";
+import {hasOpenDispute} from "../src/bookings/cancelBooking";
+import {isInDisputeWindow} from "../src/finance/escrowService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("cancellation and disputes", () => {
+  describe("hasOpenDispute", () => {
+    it("blocks cancellation while the booking's dispute is open", () => {
+      const booking = {disputeId: "dispute_1", disputeStatus: "open"};
+      assert.equal(hasOpenDispute(booking, [{id: "escrow_1", status: "funded"}]), true);
+    });
+
+    it("blocks cancellation while a held escrow is frozen by a chargeback", () => {
+      const escrows = [
+        {id: "escrow_1", status: "funded"},
+        {id: "escrow_2", status: "disputed", chargebackId: "dp_1"},
+      ];
+      assert.equal(hasOpenDispute({}, escrows), true);
+    });
+
+    it("allows cancellation once the dispute is resolved", () => {
+      const booking = {disputeId: "dispute_1", disputeStatus: "resolved"};
+      assert.equal(hasOpenDispute(booking, [{id: "escrow_1", status: "funded"}]), false);
+    });
+
+    it("allows cancellation of a booking that was never disputed", () => {
+      assert.equal(hasOpenDispute({}, [{id: "escrow_1", status: "service_completed"}]), false);
+    });
+  });
+
+  describe("isInDisputeWindow", () => {
+    const now = Date.now();
+
+    it("accepts funded escrow at any time", () => {
+      assert.equal(isInDisputeWindow({status: "funded"}, now), true);
+    });
+
+    it("accepts completed service until auto-release", () => {
+      const autoReleaseAt = admin.firestore.Timestamp.fromMillis(now + HOUR_MS);
+      assert.equal(isInDisputeWindow({status: "service_completed", autoReleaseAt}, now), true);
+    });
+
+    it("rejects completed service past auto-release", () => {
+      const autoReleaseAt = admin.firestore.Timestamp.fromMillis(now - HOUR_MS);
+      assert.equal(isInDisputeWindow({status: "service_completed", autoReleaseAt}, now), false);
+    });
+
+    it("rejects escrow that is no longer held", () => {
+      for (const status of ["pending_payment", "disputed", "released", "refunded", "expired"]) {
+        assert.equal(isInDisputeWindow({status}, now), false, status);
+      }
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {strict as assert} from "assert";
+import {getEventBusyDates, parseIcsEvents} from "../src/bookings/icsFormat";
+
+/**
+ * Wrap events in a calendar, with CRLF line endings
+ */
+function calendar(...events: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+function busyDates(lines: string[], windowStart = "2026-06-01", windowEnd = "2026-06-30") {
+  const [event] = parseIcsEvents(calendar(lines));
+  return getEventBusyDates(event, windowStart, windowEnd);
+}
+
+describe("icsFormat", () => {
+  describe("parseIcsEvents", () => {
+    it("reads events, unfolding continuation lines", () => {
+      const events = parseIcsEvents(calendar(
+          ["UID:event-1@example.com", "DTSTART;VALUE=DATE:20260612", "DTEND;VALUE=DATE:20260614"],
+          ["UID:event-2@exam", " ple.com", "DTSTART:20260615T100000", "DURATION:PT2H"],
+      ));
+
+      assert.deepEqual(events.map((event) => event.uid), ["event-1@example.com", "event-2@example.com"]);
+      assert.equal(events[1].end - events[1].start, 2 * 60 * 60 * 1000);
+    });
+
+    it("converts UTC times to Luanda time", () => {
+      const [event] = parseIcsEvents(calendar(["DTSTART:20260610T233000Z", "DTEND:20260611T003000Z"]));
+
+      assert.equal(new Date(event.start).toISOString(), "2026-06-11T00:30:00.000Z");
+    });
+
+    it("skips events without a valid start and ignores nested alarms", () => {
+      const events = parseIcsEvents(calendar(
+          ["UID:no-start", "SUMMARY:Sem data"],
+          [
+            "UID:with-alarm",
+            "DTSTART;VALUE=DATE:20260612",
+            "BEGIN:VALARM",
+            "TRIGGER:-PT15M",
+            "DTSTART:20990101T000000",
+            "END:VALARM",
+          ],
+      ));
+
+      assert.deepEqual(events.map((event) => event.uid), ["with-alarm"]);
+      assert.equal(new Date(events[0].start).toISOString(), "2026-06-12T00:00:00.000Z");
+    });
+
+    it("does not count cancelled or free events as busy", () => {
+      const events = parseIcsEvents(calendar(
+          ["DTSTART;VALUE=DATE:20260612", "STATUS:CANCELLED"],
+          ["DTSTART;VALUE=DATE:20260612", "TRANSP:TRANSPARENT"],
+          ["DTSTART;VALUE=DATE:20260612", "STATUS:CONFIRMED"],
+      ));
+
+      assert.deepEqual(events.map((event) => event.busy), [false, false, true]);
+    });
+  });
+
+  describe("getEventBusyDates", () => {
+    it("takes every day of a multi-day event, ending at midnight exclusive", () => {
+      const dates = busyDates(["DTSTART;VALUE=DATE:20260612", "DTEND;VALUE=DATE:20260614"]);
+
+      assert.deepEqual(dates, ["2026-06-12", "2026-06-13"]);
+    });
+
+    it("only returns the days inside the window", () => {
+      const dates = busyDates(
+          ["DTSTART;VALUE=DATE:20260528", "DTEND;VALUE=DATE:20260603"],
+          "2026-06-01",
+          "2026-06-30"
+      );
+
+      assert.deepEqual(dates, ["2026-06-01", "2026-06-02"]);
+    });
+
+    it("expands weekly recurrences with BYDAY, COUNT and EXDATE", () => {
+      const dates = busyDates([
+        "DTSTART:20260610T180000",
+        "DTEND:20260610T220000",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4",
+        "EXDATE:20260617T180000",
+      ]);
+
+      assert.deepEqual(dates, ["2026-06-10", "2026-06-15", "2026-06-22"]);
+    });
+
+    it("uses only the first occurrence of an unsupported recurrence", () => {
+      const dates = busyDates([
+        "DTSTART;VALUE=DATE:20260610",
+        "RRULE:FREQ=MONTHLY;BYDAY=2WE",
+      ], "2026-06-01", "2026-08-31");
+
+      assert.deepEqual(dates, ["2026-06-10"]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import {strict as assert} from "assert";
+import {
+  addLedgerTransaction,
+  getBookingEscrowBalances,
+  ledgerTransfer,
+} from "../src/finance/ledger";
+import {escrowRefundId} from "../src/finance/escrowService";
+
+/**
+ * Write batch that records the writes instead of committing them
+ */
+function recordingBatch() {
+  const writes: Array<{op: "create" | "set"; path: string; data: FirebaseFirestore.DocumentData}> = [];
+  const batch = {
+    create(ref: FirebaseFirestore.DocumentReference, data: FirebaseFirestore.DocumentData) {
+      writes.push({op: "create", path: ref.path, data});
+      return batch;
+    },
+    set(ref: FirebaseFirestore.DocumentReference, data: FirebaseFirestore.DocumentData) {
+      writes.push({op: "set", path: ref.path, data});
+      return batch;
+    },
+  };
+  return {writeBatch: batch as unknown as FirebaseFirestore.WriteBatch, writes};
+}
+
+function postRefund(escrowId: string, partialSequence?: number) {
+  const {writeBatch, writes} = recordingBatch();
+  const refundId = escrowRefundId(escrowId, partialSequence);
+  addLedgerTransaction(writeBatch, {
+    type: "escrowRefunded",
+    sourceId: refundId,
+    currency: "AOA",
+    entries: ledgerTransfer("escrow_holding", "client_funds", 5000, "booking_1"),
+  });
+  return writes;
+}
+
+describe("ledger", () => {
+  describe("addLedgerTransaction", () => {
+    it("creates the transaction under an ID derived from its source", () => {
+      const writes = postRefund("escrow_1");
+      const creates = writes.filter((write) => write.op === "create");
+
+      assert.deepEqual(creates.map((write) => write.path), [
+        "ledger_transactions/escrowRefunded_escrow_1_refund",
+      ]);
+      assert.deepEqual(creates[0].data.bookingIds, ["booking_1"]);
+    });
+
+    it("posts a retried refund to the same transaction, so create() rejects it", () => {
+      const first = postRefund("escrow_1").find((write) => write.op === "create");
+      const retry = postRefund("escrow_1").find((write) => write.op === "create");
+
+      assert.equal(retry?.path, first?.path);
+    });
+
+    it("keeps each partial refund of an escrow separate", () => {
+      const paths = [undefined, 1, 2].map((sequence) =>
+        postRefund("escrow_1", sequence).find((write) => write.op === "create")?.path
+      );
+
+      assert.equal(new Set(paths).size, 3);
+    });
+
+    it("updates each account balance once", () => {
+      const sets = postRefund("escrow_1").filter((write) => write.op === "set");
+
+      assert.deepEqual(sets.map((write) => write.path).sort(), [
+        "ledger_accounts/AOA_client_funds",
+        "ledger_accounts/AOA_escrow_holding",
+      ]);
+    });
+
+    it("rejects unbalanced entries", () => {
+      const {writeBatch, writes} = recordingBatch();
+
+      assert.throws(() => addLedgerTransaction(writeBatch, {
+        type: "escrowFunded",
+        sourceId: "escrow_1",
+        currency: "AOA",
+        entries: [{account: "escrow_holding", amount: 5000, bookingId: "booking_1"}],
+      }), /Unbalanced/);
+      assert.equal(writes.length, 0);
+    });
+  });
+
+  describe("getBookingEscrowBalances", () => {
+    it("tracks escrow_holding per booking and currency", () => {
+      const balances = getBookingEscrowBalances([
+        {currency: "AOA", entries: ledgerTransfer("client_funds", "escrow_holding", 10000, "booking_1")},
+        {currency: "AOA", entries: ledgerTransfer("escrow_holding", "supplier_payable", 8000, "booking_1")},
+        {currency: "EUR", entries: ledgerTransfer("client_funds", "escrow_holding", 300, "booking_1")},
+      ]);
+
+      assert.equal(balances.get("booking_1|AOA"), 2000);
+      assert.equal(balances.get("booking_1|EUR"), 300);
+    });
+
+    it("goes negative when a refund is posted twice", () => {
+      const refund = ledgerTransfer("escrow_holding", "client_funds", 10000, "booking_1");
+      const balances = getBookingEscrowBalances([
+        {currency: "AOA", entries: ledgerTransfer("client_funds", "escrow_holding", 10000, "booking_1")},
+        {currency: "AOA", entries: refund},
+        {currency: "AOA", entries: refund},
+      ]);
+
+      assert.equal(balances.get("booking_1|AOA"), -10000);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {strict as assert} from "assert";
+import {
+  buildPaymentSchedule,
+  getPaymentStatusAfterPayment,
+  PaymentSchedule,
+  PaymentTerms,
+} from "../src/bookings/paymentSchedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEPOSIT_TERMS: PaymentTerms = {
+  depositPercent: 30,
+  balanceDueDays: 7,
+  autoCancelOverdue: false,
+};
+
+/**
+ * Mark installments paid the way recordInstallmentPayment does
+ */
+function payInstallments(schedule: PaymentSchedule, ids: string[]): PaymentSchedule {
+  const installments = schedule.installments.map((installment) =>
+    ids.includes(installment.id) ? {...installment, status: "paid" as const} : installment
+  );
+  const unpaid = installments.filter((installment) => installment.status !== "paid");
+
+  return {
+    ...schedule,
+    installments,
+    status: unpaid.length === 0 ? "paid" : "partially_paid",
+  };
+}
+
+describe("payment schedule", () => {
+  const now = new Date("2026-01-10T12:00:00.000Z");
+  const eventDate = new Date(now.getTime() + 60 * DAY_MS);
+
+  it("splits a booking far from the event into deposit and balance", () => {
+    const schedule = buildPaymentSchedule(100000, eventDate, DEPOSIT_TERMS, now);
+
+    assert.deepEqual(
+        schedule.installments.map((installment) => [installment.id, installment.amount]),
+        [["deposit", 30000], ["balance", 70000]]
+    );
+    assert.equal(schedule.status, "pending");
+  });
+
+  it("charges a booking too close to the event in a single payment", () => {
+    const soon = new Date(now.getTime() + 3 * DAY_MS);
+    const schedule = buildPaymentSchedule(100000, soon, DEPOSIT_TERMS, now);
+
+    assert.deepEqual(schedule.installments.map((installment) => installment.id), ["full"]);
+  });
+
+  describe("getPaymentStatusAfterPayment", () => {
+    const schedule = buildPaymentSchedule(100000, eventDate, DEPOSIT_TERMS, now);
+
+    it("keeps the booking partially paid after the deposit", () => {
+      const afterDeposit = payInstallments(schedule, ["deposit"]);
+
+      assert.equal(getPaymentStatusAfterPayment(afterDeposit, "escrow_funded"), "partially_paid");
+      assert.equal(getPaymentStatusAfterPayment(afterDeposit, "paid"), "partially_paid");
+    });
+
+    it("settles the booking once the balance is paid", () => {
+      const afterBalance = payInstallments(schedule, ["deposit", "balance"]);
+
+      assert.equal(getPaymentStatusAfterPayment(afterBalance, "escrow_funded"), "escrow_funded");
+      assert.equal(getPaymentStatusAfterPayment(afterBalance, "paid"), "paid");
+    });
+
+    it("settles bookings without a schedule on their single payment", () => {
+      assert.equal(getPaymentStatusAfterPayment(null, "paid"), "paid");
+    });
+  });
+});
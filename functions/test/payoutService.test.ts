@@ -0,0 +1,128 @@
+import {strict as assert} from "assert";
+import * as admin from "firebase-admin";
+import {planPayoutBatch, SupplierReceivableRecord} from "../src/finance/payoutService";
+
+function payout(id: string, data: Record<string, unknown>) {
+  return {
+    id,
+    data: {status: "queued", amount: 10000, escrowId: `escrow_${id}`, currency: "AOA", ...data},
+  };
+}
+
+function receivable(
+    id: string,
+    remaining: number,
+    currency = "AOA"
+): {id: string; data: SupplierReceivableRecord} {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  return {
+    id,
+    data: {
+      id,
+      supplierId: "supplier_1",
+      escrowId: `escrow_${id}`,
+      bookingId: `booking_${id}`,
+      amount: remaining,
+      remaining,
+      currency,
+      reason: "chargeback",
+      status: "open",
+      deductions: [],
+      createdAt: now,
+      updatedAt: now,
+    },
+  };
+}
+
+describe("planPayoutBatch", () => {
+  it("batches queued payouts and totals their amounts", () => {
+    const plan = planPayoutBatch("AOA", [
+      payout("p1", {amount: 10000}),
+      payout("p2", {amount: 25000}),
+    ], []);
+
+    assert.ok(plan);
+    assert.deepEqual(plan.payoutIds, ["p1", "p2"]);
+    assert.deepEqual(plan.escrowIds, ["escrow_p1", "escrow_p2"]);
+    assert.equal(plan.grossAmount, 35000);
+    assert.equal(plan.amount, 35000);
+  });
+
+  it("leaves out payouts a concurrent run already batched", () => {
+    const plan = planPayoutBatch("AOA", [
+      payout("p1", {batchId: "batch_other"}),
+      payout("p2", {}),
+      payout("p3", {status: "sent"}),
+      {id: "p4", data: undefined},
+    ], []);
+
+    assert.ok(plan);
+    assert.deepEqual(plan.payoutIds, ["p2"]);
+    assert.equal(plan.grossAmount, 10000);
+  });
+
+  it("returns null when nothing is left to batch", () => {
+    const plan = planPayoutBatch("AOA", [
+      payout("p1", {batchId: "batch_other"}),
+      payout("p2", {status: "sent"}),
+    ], []);
+
+    assert.equal(plan, null);
+  });
+
+  it("deducts open receivables in the batch currency, up to the batch amount", () => {
+    const plan = planPayoutBatch("AOA", [payout("p1", {amount: 10000})], [
+      receivable("cb_usd", 500, "USD"),
+      receivable("cb_1", 4000),
+      receivable("cb_2", 8000),
+    ]);
+
+    assert.ok(plan);
+    assert.deepEqual(
+        plan.receivableDeductions.map(({receivableId, amount}) => [receivableId, amount]),
+        [["cb_1", 4000], ["cb_2", 6000]]
+    );
+    assert.equal(plan.amount, 0);
+  });
+
+  it("pays the full amount when the receivables are in another currency", () => {
+    const plan = planPayoutBatch("AOA", [payout("p1", {amount: 10000})], [
+      receivable("cb_usd", 500, "USD"),
+    ]);
+
+    assert.ok(plan);
+    assert.deepEqual(plan.receivableDeductions, []);
+    assert.equal(plan.amount, 10000);
+  });
+
+  it("records the booking each deduction is recovered for", () => {
+    const plan = planPayoutBatch("AOA", [payout("p1", {amount: 10000})], [
+      receivable("cb_1", 2500),
+    ]);
+
+    assert.ok(plan);
+    assert.deepEqual(plan.receivableDeductions, [
+      {receivableId: "cb_1", amount: 2500, bookingId: "booking_cb_1"},
+    ]);
+    assert.equal(plan.amount, 7500);
+  });
+
+  it("totals presentment amounts and tax lines", () => {
+    const plan = planPayoutBatch("EUR", [
+      payout("p1", {
+        currency: "EUR",
+        clientPresentment: {currency: "AOA", amount: 950000},
+        taxLines: [{type: "service_iva", base: 1000, rate: 14, amount: 140}],
+      }),
+      payout("p2", {
+        currency: "EUR",
+        clientPresentment: {currency: "AOA", amount: 50000},
+        taxLines: [{type: "service_iva", base: 500, rate: 14, amount: 70}],
+      }),
+    ], []);
+
+    assert.ok(plan);
+    assert.deepEqual(plan.presentmentTotals, {AOA: 1000000});
+    assert.deepEqual(plan.taxTotals, {service_iva: 210});
+  });
+});
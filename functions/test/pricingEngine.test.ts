@@ -0,0 +1,121 @@
+import {strict as assert} from "assert";
+import {calculatePackagePrice, PriceInput} from "../src/bookings/pricingEngine";
+
+const WEEKDAY = "2026-06-10";
+const SATURDAY = "2026-06-13";
+
+const TIERED_PACKAGE = {
+  price: 100000,
+  pricing: {
+    includedGuests: 50,
+    guestTiers: [
+      {minGuests: 1, maxGuests: 100, pricePerGuest: 1000},
+      {minGuests: 101, maxGuests: 200, pricePerGuest: 800},
+    ],
+  },
+  addOns: [
+    {id: "bolo", name: "Bolo", price: 15000, pricingType: "fixed", maxQuantity: 2},
+    {id: "bebidas", name: "Bebidas", price: 500, pricingType: "per_guest", maxQuantity: 1},
+  ],
+};
+
+function price(packageData: FirebaseFirestore.DocumentData, input: Partial<PriceInput>) {
+  return calculatePackagePrice("pkg_1", packageData, "AOA", {
+    slots: [{date: WEEKDAY, startTime: null, endTime: null}],
+    ...input,
+  });
+}
+
+describe("calculatePackagePrice", () => {
+  it("prices a package without pricing rules at its package price", () => {
+    const result = price({price: 50000}, {});
+
+    assert.equal(result.valid, true);
+    assert.equal(result.breakdown?.total, 50000);
+    assert.equal(result.breakdown?.guestCharge, 0);
+  });
+
+  it("charges guests above the included ones at their tier's price", () => {
+    const result = price(TIERED_PACKAGE, {guestCount: 120});
+
+    assert.equal(result.breakdown?.guestTier?.pricePerGuest, 800);
+    assert.equal(result.breakdown?.guestCharge, 70 * 800);
+    assert.equal(result.breakdown?.total, 100000 + 56000);
+  });
+
+  it("requires a guest count within the tiers", () => {
+    assert.equal(price(TIERED_PACKAGE, {}).valid, false);
+
+    const tooMany = price(TIERED_PACKAGE, {guestCount: 250});
+    assert.equal(tooMany.valid, false);
+    assert.match(tooMany.error || "", /no máximo 200/);
+  });
+
+  it("adds fixed and per-guest add-ons", () => {
+    const result = price(TIERED_PACKAGE, {
+      guestCount: 40,
+      addOns: [{id: "bolo", quantity: 2}, {id: "bebidas"}],
+    });
+
+    assert.deepEqual(
+        result.breakdown?.addOns.map((addOn) => [addOn.id, addOn.amount]),
+        [["bolo", 30000], ["bebidas", 20000]]
+    );
+    assert.equal(result.breakdown?.total, 150000);
+  });
+
+  it("rejects unknown, repeated and over-limit add-ons", () => {
+    const cases = [
+      [{id: "fogo"}],
+      [{id: "bolo"}, {id: "bolo"}],
+      [{id: "bolo", quantity: 3}],
+    ];
+
+    for (const addOns of cases) {
+      assert.equal(price(TIERED_PACKAGE, {guestCount: 40, addOns}).valid, false, JSON.stringify(addOns));
+    }
+  });
+
+  it("prices legacy customizations as fixed add-ons", () => {
+    const result = price({price: 50000, customizations: [{name: "Flores", price: 8000}]}, {
+      addOns: [{id: "customization_0"}],
+    });
+
+    assert.equal(result.breakdown?.total, 58000);
+  });
+
+  it("tops the subtotal up to the minimum spend before surcharges", () => {
+    const packageData = {
+      price: 50000,
+      pricing: {minimumSpend: 80000, weekendSurchargePercent: 10},
+    };
+
+    const weekday = price(packageData, {});
+    assert.equal(weekday.breakdown?.minimumSpendAdjustment, 30000);
+    assert.equal(weekday.breakdown?.total, 80000);
+
+    const weekend = price(packageData, {slots: [{date: SATURDAY, startTime: null, endTime: null}]});
+    assert.deepEqual(weekend.breakdown?.surcharges.map((surcharge) => surcharge.amount), [8000]);
+    assert.equal(weekend.breakdown?.total, 88000);
+  });
+
+  it("applies only the highest matching high season, across the new year", () => {
+    const packageData = {
+      price: 100000,
+      pricing: {
+        highSeasons: [
+          {name: "Festas", start: "12-15", end: "01-10", surchargePercent: 20},
+          {name: "Dezembro", start: "12-01", end: "12-31", surchargePercent: 10},
+        ],
+      },
+    };
+
+    const result = price(packageData, {slots: [{date: "2026-12-28", startTime: null, endTime: null}]});
+
+    assert.deepEqual(
+        result.breakdown?.surcharges.map((surcharge) => [surcharge.label, surcharge.amount]),
+        [["Festas", 20000]]
+    );
+    assert.equal(result.breakdown?.total, 120000);
+  });
+});
@@ -0,0 +1,55 @@
+import {strict as assert} from "assert";
+import {
+  calculatePromotionDiscount,
+  getPlatformDiscountShare,
+} from "../src/promotions/promotionService";
+
+describe("promotions", () => {
+  describe("calculatePromotionDiscount", () => {
+    it("takes a rounded percentage of the amount", () => {
+      assert.equal(calculatePromotionDiscount({type: "percentage", value: 15, maxDiscount: null}, 33333), 5000);
+    });
+
+    it("caps a percentage discount at maxDiscount", () => {
+      assert.equal(calculatePromotionDiscount({type: "percentage", value: 50, maxDiscount: 20000}, 100000), 20000);
+    });
+
+    it("gives a fixed discount up to the amount", () => {
+      assert.equal(calculatePromotionDiscount({type: "fixed", value: 10000, maxDiscount: null}, 50000), 10000);
+      assert.equal(calculatePromotionDiscount({type: "fixed", value: 10000, maxDiscount: null}, 4000), 4000);
+    });
+
+    it("never discounts a zero amount", () => {
+      assert.equal(calculatePromotionDiscount({type: "fixed", value: 10000, maxDiscount: null}, 0), 0);
+    });
+  });
+
+  describe("getPlatformDiscountShare", () => {
+    const promotion = {
+      promotionId: "promo_1",
+      code: "BODA10",
+      type: "percentage",
+      value: 10,
+      maxDiscount: null,
+      fundedBy: "platform",
+      discountAmount: 10000,
+    };
+
+    it("allocates a platform-funded discount in proportion to the payment", () => {
+      const booking = {totalAmount: 100000, promotion};
+
+      assert.equal(getPlatformDiscountShare(booking, 30000), 3000);
+      assert.equal(getPlatformDiscountShare(booking, 70000), 7000);
+    });
+
+    it("never allocates more than the whole discount", () => {
+      assert.equal(getPlatformDiscountShare({totalAmount: 100000, promotion}, 150000), 10000);
+    });
+
+    it("leaves supplier-funded discounts out", () => {
+      const booking = {totalAmount: 100000, promotion: {...promotion, fundedBy: "supplier"}};
+
+      assert.equal(getPlatformDiscountShare(booking, 30000), 0);
+    });
+  });
+});
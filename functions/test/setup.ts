@@ -0,0 +1,11 @@
+/**
+ * Test setup
+ *
+ * Modules read admin.firestore() when they load, so the app is initialized
+ * before any test imports them. The tests only build references and write
+ * batches - nothing reaches Firestore.
+ */
+
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "boda-connect-test";
+
+import "../src/common/firebaseApp";